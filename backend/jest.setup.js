@@ -0,0 +1,2 @@
+// Unit tests never reach API Ninjas: replay mode answers from fixtures and needs no API key
+process.env.API_NINJAS_MODE = 'replay';
@@ -0,0 +1,32 @@
+describe('config', () => {
+  const original = process.env;
+
+  afterEach(() => {
+    process.env = original;
+  });
+
+  const load = (env: Record<string, string>) => {
+    process.env = { ...original, API_NINJAS_KEY: '', ...env };
+    let loaded: typeof import('./config').config | undefined;
+    jest.isolateModules(() => {
+      loaded = require('./config').config;
+    });
+    return loaded!;
+  };
+
+  it('reads the API key from the environment', () => {
+    expect(load({ API_NINJAS_MODE: 'live', API_NINJAS_KEY: 'test-key' }).apiNinjas.key).toBe('test-key');
+  });
+
+  it('requires a key only when requests go to API Ninjas', () => {
+    expect(() => load({ API_NINJAS_MODE: 'live' })).toThrow('API key is required');
+    expect(() => load({ API_NINJAS_MODE: 'record' })).toThrow('API key is required');
+    expect(load({ API_NINJAS_MODE: 'replay' }).apiNinjas.key).toBe('');
+    expect(load({ API_NINJAS_MODE: 'demo' }).apiNinjas.isDemo).toBe(true);
+  });
+
+  it('rejects a minimum rate above the maximum', () => {
+    expect(() => load({ API_NINJAS_MODE: 'replay', API_NINJAS_MIN_RPS: '5', API_NINJAS_MAX_RPS: '2' }))
+      .toThrow('API_NINJAS_MIN_RPS must not exceed API_NINJAS_MAX_RPS');
+  });
+});
@@ -53,6 +53,7 @@ export const logger = winston.createLogger({
     environment: config.nodeEnv,
   },
   transports,
+  silent: config.nodeEnv === 'test', // Keep jest output readable
   exitOnError: false,
 });
 
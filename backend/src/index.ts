@@ -11,6 +11,7 @@ import helmet from 'helmet';
 import compression from 'compression';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
+import multer from 'multer';
 import fs from 'fs';
 import path from 'path';
 
@@ -19,315 +20,237 @@ import { logger } from '@/config/logger';
 import { prisma } from '@/config/database';
 import { asyncHandler } from '@/utils/asyncHandler';
 import { apiNinjasService } from '@/services/apiNinjas';
-import { JobManager } from '@/services/jobManager';
-import { EnhancedJobManager } from '@/services/enhancedJobManager';
+import { JobEngine, JobRequestError, toJobSummary } from '@/services/jobEngine';
+import { JobEventStream } from '@/services/jobEventStream';
+import { TranscriptFetchJobHandler, TranscriptFetchJobParams, TickerFetchOptions, parseTickerFileRows, saveTickerFileCompanies } from '@/services/transcriptFetchJobs';
+import { FetchQueue } from '@/services/fetchQueue';
+import { TranscriptProvider, fetchTranscriptWithSpeakers, transcriptProviders } from '@/services/transcriptProvider';
+import { WatchlistScheduler, WatchlistError } from '@/services/watchlistScheduler';
 import tickersRouter from '@/routes/tickers';
 import searchRouter from '@/routes/search';
 import { searchService } from '@/services/searchService';
 import { transcriptService } from '@/services/transcriptService';
 import { GoogleAIService } from '@/services/googleAIService';
 import { BulkAIService } from '@/services/bulkAIService';
+import { TranscriptStore, PersistentTranscriptCache } from '@/services/transcriptStore';
+import { TranscriptRepository } from '@/services/transcriptRepository';
+import { querySummaryService } from '@/services/querySummaryService';
+import { transcriptRevisionService } from '@/services/transcriptRevisionService';
+import { TranscriptReconciliationService, ReconciliationJobHandler, ReconcileConflictStrategy } from '@/services/transcriptReconciliation';
+import { CorpusArchiveService, CorpusArchiveError, ImportMode, ImportConflictStrategy } from '@/services/corpusArchive';
+import { unavailableQuarterCache } from '@/services/unavailableQuarterCache';
+import { ManualTranscriptService, TranscriptUploadError } from '@/services/manualTranscriptUpload';
+import { SplitBackfillJobHandler } from '@/services/splitBackfill';
+import { FiscalCalendarService, FiscalCalendarError } from '@/services/fiscalCalendar';
+import { EarningsCalendarService } from '@/services/earningsCalendar';
+import { SearchQueryError, buildSnippet, createSearchMatcher, parseSearchQuery, phraseSearchQuery, requiredTickers } from '@/services/searchQuery';
+import { fiscalCalendarFromCall, describeFiscalCalendar, getFiscalQuarterMonths, getQuartersToTry, toCalendarQuarter, formatFiscalQuarter } from '@/services/quarterCalculator';
+import { BulkAIProcessingResult, BulkFetchResult, Job, JobType } from '@/types';
 
 // File-based persistent cache
-const CACHE_FILE = path.join(__dirname, '../cache/transcripts.json');
-const SUMMARY_CACHE_FILE = path.join(__dirname, '../cache/summaries.json');
+const CACHE_DIR = path.join(__dirname, '../cache');
+const STORE_DIR = path.join(CACHE_DIR, 'store');
+const LEGACY_CACHE_FILE = path.join(CACHE_DIR, 'transcripts.json');
+const LEGACY_CHUNKS_DIR = path.join(CACHE_DIR, 'chunks');
+const LEGACY_IMPORT_CHECKPOINT_FILE = path.join(CACHE_DIR, 'legacy-import.json'); // Source files already imported
+const LEGACY_SUMMARY_CACHE_FILE = path.join(CACHE_DIR, 'summaries.json');
 
 // Ensure cache directory exists
-const cacheDir = path.dirname(CACHE_FILE);
-if (!fs.existsSync(cacheDir)) {
-  fs.mkdirSync(cacheDir, { recursive: true });
+if (!fs.existsSync(CACHE_DIR)) {
+  fs.mkdirSync(CACHE_DIR, { recursive: true });
 }
 
-// Improved cache loading with chunk support
-function loadCacheFromFile(): Map<string, any> {
-  const cache = new Map();
-  const CHUNKS_DIR = path.join(__dirname, '../cache/chunks');
-  
-  // First try to load from chunks directory
-  if (fs.existsSync(CHUNKS_DIR)) {
-    logger.info('Found chunks directory, loading from chunks', { chunksDir: CHUNKS_DIR });
-    
-    try {
-      const chunkFiles = fs.readdirSync(CHUNKS_DIR)
-        .filter(file => file.startsWith('chunk_') && file.endsWith('.json'))
-        .sort();
-      
-      logger.info('Found chunk files', { count: chunkFiles.length, files: chunkFiles });
-      
-      let totalEntries = 0;
-      for (const chunkFile of chunkFiles) {
-        const chunkPath = path.join(CHUNKS_DIR, chunkFile);
-        const stats = fs.statSync(chunkPath);
-        const fileSizeMB = (stats.size / (1024 * 1024)).toFixed(1);
-        
-        logger.info('Loading chunk', { file: chunkFile, size: `${fileSizeMB}MB` });
-        
-        try {
-          const chunkData = JSON.parse(fs.readFileSync(chunkPath, 'utf8'));
-          let chunkEntries = 0;
-          
-          for (const [key, value] of Object.entries(chunkData)) {
-            cache.set(key, value);
-            chunkEntries++;
-          }
-          
-          totalEntries += chunkEntries;
-          logger.info('Loaded chunk successfully', { 
-            file: chunkFile, 
-            entries: chunkEntries, 
-            totalEntries,
-            size: `${fileSizeMB}MB` 
-          });
-        } catch (chunkError) {
-          logger.error('Failed to load chunk', { 
-            file: chunkFile, 
-            error: chunkError instanceof Error ? chunkError.message : 'Unknown error' 
-          });
-        }
-      }
-      
-      logger.info('Cache loaded successfully from chunks', {
-        totalEntries,
-        chunks: chunkFiles.length,
-        chunksDir: CHUNKS_DIR
-      });
-      
-      return cache;
-    } catch (error) {
-      logger.error('Failed to load from chunks', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        chunksDir: CHUNKS_DIR
-      });
-    }
-  }
-  
-  // Fallback to main cache file
-  if (!fs.existsSync(CACHE_FILE)) {
-    logger.info('Cache file does not exist, starting with empty cache');
-    return cache;
+// Import of the old whole-file JSON cache (transcripts.json or chunks/) into the store.
+// Finished source files are recorded in a checkpoint so an interrupted import resumes where it stopped.
+function importLegacyCache(cache: PersistentTranscriptCache): void {
+  const sources: string[] = [];
+
+  if (fs.existsSync(LEGACY_CHUNKS_DIR)) {
+    const chunkFiles = fs.readdirSync(LEGACY_CHUNKS_DIR)
+      .filter(file => file.startsWith('chunk_') && file.endsWith('.json'))
+      .sort();
+    sources.push(...chunkFiles.map(file => path.join(LEGACY_CHUNKS_DIR, file)));
+  } else if (fs.existsSync(LEGACY_CACHE_FILE)) {
+    sources.push(LEGACY_CACHE_FILE);
   }
 
-  const stats = fs.statSync(CACHE_FILE);
-  const fileSizeMB = (stats.size / (1024 * 1024)).toFixed(1);
-  
-  logger.info('Attempting to load cache from file', {
-    size: `${fileSizeMB}MB`,
-    file: CACHE_FILE
-  });
+  if (sources.length === 0) return;
 
-  // If file is very large (>500MB), it might be corrupted
-  if (stats.size > 500 * 1024 * 1024) {
-    logger.warn('Cache file is very large, attempting to load with streaming parser', {
-      size: `${fileSizeMB}MB`,
-      file: CACHE_FILE
+  let completed = new Set<string>();
+  try {
+    if (fs.existsSync(LEGACY_IMPORT_CHECKPOINT_FILE)) {
+      completed = new Set(JSON.parse(fs.readFileSync(LEGACY_IMPORT_CHECKPOINT_FILE, 'utf8')).completed);
+    }
+  } catch (error) {
+    logger.warn('Unreadable legacy import checkpoint, importing every file again', {
+      error: error instanceof Error ? error.message : 'Unknown error'
     });
-    
+  }
+
+  let imported = 0;
+  let resumedAfter = 0; // Files finished by an earlier, interrupted run
+  for (const source of sources) {
+    const name = path.relative(CACHE_DIR, source);
+    if (completed.has(name)) {
+      resumedAfter++;
+      continue;
+    }
+
     try {
-      // Try to load with streaming parser for large files
-      const fileContent = fs.readFileSync(CACHE_FILE, 'utf8');
-      
-      // Check if it's valid JSON
-      if (!fileContent.trim().startsWith('{')) {
-        throw new Error('Invalid JSON format');
-      }
-      
-      // Try to parse in chunks
-      const lines = fileContent.split('\n');
-      let validEntries = 0;
-      
-      for (const line of lines) {
-        if (line.trim() && line.includes('"id"')) {
-          try {
-            const entry = JSON.parse(line);
-            if (entry.id && entry.ticker) {
-              cache.set(entry.id, entry);
-              validEntries++;
-            }
-          } catch (e) {
-            // Skip invalid lines
-            continue;
-          }
-        }
+      const data = JSON.parse(fs.readFileSync(source, 'utf8'));
+      for (const [key, value] of Object.entries(data || {})) {
+        cache.set(key, value);
+        imported++;
       }
-      
-      logger.info('Loaded cache with streaming parser', {
-        entries: validEntries,
-        fileSize: `${fileSizeMB}MB`,
-        file: CACHE_FILE
-      });
-      
-      return cache;
+      cache.getStore()?.checkpoint();
+
+      completed.add(name);
+      const temporary = `${LEGACY_IMPORT_CHECKPOINT_FILE}.tmp`;
+      fs.writeFileSync(temporary, JSON.stringify({ completed: [...completed] }));
+      fs.renameSync(temporary, LEGACY_IMPORT_CHECKPOINT_FILE);
     } catch (error) {
-      logger.error('Failed to parse large cache file', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        suggestion: 'The file may be corrupted or too large for Node.js to handle'
+      logger.error('Failed to import legacy cache file, will resume from it on the next start', {
+        file: source,
+        imported,
+        remaining: sources.length - completed.size,
+        error: error instanceof Error ? error.message : 'Unknown error'
       });
-      
-      // Create backup and start fresh
-      const backupFile = `${CACHE_FILE}.backup.${Date.now()}`;
-      try {
-        fs.copyFileSync(CACHE_FILE, backupFile);
-        logger.info('Created backup of corrupted cache file', { backupFile });
-      } catch (backupError) {
-        logger.warn('Failed to create backup', { error: backupError instanceof Error ? backupError.message : 'Unknown error' });
-      }
-      
-      // Don't remove the file, just return empty cache
-      logger.warn('Keeping original file but starting with empty cache');
-      return cache;
+      return;
     }
   }
 
-  try {
-    const fileContent = fs.readFileSync(CACHE_FILE, 'utf8');
-    const data = JSON.parse(fileContent);
-    
-    if (data && typeof data === 'object') {
-      for (const [key, value] of Object.entries(data)) {
-        cache.set(key, value);
-      }
-    }
-    
-    logger.info('Cache loaded successfully', {
-      entries: cache.size,
-      fileSize: `${fileSizeMB}MB`,
-      file: CACHE_FILE
-    });
-  } catch (error) {
-    logger.error('Failed to load cache from file', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      file: CACHE_FILE
-    });
-    
-    // Create backup and start fresh
-    const backupFile = `${CACHE_FILE}.backup.${Date.now()}`;
-    try {
-      fs.copyFileSync(CACHE_FILE, backupFile);
-      logger.info('Created backup of corrupted cache file', { backupFile });
-    } catch (backupError) {
-      logger.warn('Failed to create backup', { error: backupError instanceof Error ? backupError.message : 'Unknown error' });
-    }
-    
-    // Don't remove the file, just return empty cache
-    logger.warn('Keeping original file but starting with empty cache');
+  // Keep the old files around but out of the way now that every one is in the store
+  const migratedSuffix = `.migrated.${Date.now()}`;
+  if (fs.existsSync(LEGACY_CHUNKS_DIR)) {
+    fs.renameSync(LEGACY_CHUNKS_DIR, `${LEGACY_CHUNKS_DIR}${migratedSuffix}`);
   }
-  
+  if (fs.existsSync(LEGACY_CACHE_FILE)) {
+    fs.renameSync(LEGACY_CACHE_FILE, `${LEGACY_CACHE_FILE}${migratedSuffix}`);
+  }
+  fs.rmSync(LEGACY_IMPORT_CHECKPOINT_FILE, { force: true });
+
+  logger.info('Imported legacy transcript cache into store', { imported, sources: sources.length, resumedAfter: resumedAfter || undefined });
+}
+
+// Open the append-only store; only its metadata index is loaded, texts are read on demand
+function loadTranscriptCache(): PersistentTranscriptCache {
+  const store = new TranscriptStore(STORE_DIR);
+  store.open();
+
+  const cache = new PersistentTranscriptCache(store);
+  // Runs until the legacy files have been moved aside, not just while the store is empty
+  importLegacyCache(cache);
+
+  logger.info('Transcript cache loaded', {
+    entries: cache.size,
+    storeDir: STORE_DIR,
+    memoryBudgetMb: Math.round(config.transcriptStore.memoryBudgetBytes / 1024 / 1024)
+  });
   return cache;
 }
 
-// Save cache to file
-const saveCacheToFile = (cache: Map<string, any>): void => {
+// Persist the store index so the next startup replays as little as possible
+const checkpointTranscriptStore = (cache: PersistentTranscriptCache): void => {
   try {
-    // Convert Map to object for JSON serialization
-    const cacheData = Object.fromEntries(cache.entries());
-    fs.writeFileSync(CACHE_FILE, JSON.stringify(cacheData, null, 2));
-    
-    logger.info('Cache saved to file', { 
-      entries: cache.size,
-      file: CACHE_FILE 
-    });
+    cache.getStore()?.checkpoint();
+    logger.info('Transcript store checkpointed', { entries: cache.size, storeDir: STORE_DIR });
   } catch (error) {
-    logger.error('Failed to save cache to file', { 
+    logger.error('Failed to checkpoint transcript store', {
       error: error instanceof Error ? error.message : 'Unknown error',
-      file: CACHE_FILE 
+      storeDir: STORE_DIR
     });
   }
 };
 
-// Load summary cache from file
-function loadSummaryCacheFromFile(): Map<string, any> {
-  const cache = new Map();
-  
-  if (!fs.existsSync(SUMMARY_CACHE_FILE)) {
-    logger.info('Summary cache file does not exist, starting with empty cache', { file: SUMMARY_CACHE_FILE });
-    return cache;
-  }
-  
+// One-time import of the old summaries.json into the query_summaries table
+const importLegacySummaryCache = async (): Promise<void> => {
+  if (!fs.existsSync(LEGACY_SUMMARY_CACHE_FILE)) return;
+
   try {
-    const data = fs.readFileSync(SUMMARY_CACHE_FILE, 'utf8');
-    const cacheData = JSON.parse(data);
-    
-    for (const [key, value] of Object.entries(cacheData)) {
-      cache.set(key, value);
-    }
-    
-    logger.info('Summary cache loaded successfully', { 
-      entries: cache.size,
-      file: SUMMARY_CACHE_FILE 
-    });
-  } catch (error) {
-    logger.error('Failed to load summary cache from file', { 
-      error: error instanceof Error ? error.message : 'Unknown error',
-      file: SUMMARY_CACHE_FILE 
-    });
-    
-    // Create backup of corrupted file
-    const backupFile = `${SUMMARY_CACHE_FILE}.backup.${Date.now()}`;
-    try {
-      fs.copyFileSync(SUMMARY_CACHE_FILE, backupFile);
-      logger.info('Created backup of corrupted summary cache file', { backupFile });
-    } catch (backupError) {
-      logger.warn('Failed to create backup', { error: backupError instanceof Error ? backupError.message : 'Unknown error' });
+    const entries = Object.entries(JSON.parse(fs.readFileSync(LEGACY_SUMMARY_CACHE_FILE, 'utf8')) as Record<string, any>);
+    let imported = 0;
+
+    for (const [key, value] of entries) {
+      // Keys look like "<transcriptId>:<searchQuery or 'general'>"
+      const separator = key.indexOf(':');
+      if (separator === -1 || !value?.summary) continue;
+
+      const transcript = await transcriptRepository.findById(key.slice(0, separator));
+      const transcriptId = transcript ? await transcriptRepository.ensureInDatabase(transcript) : null;
+      if (!transcriptId) continue;
+
+      const searchQuery = key.slice(separator + 1);
+      await querySummaryService.save(transcriptId, searchQuery === 'general' ? null : searchQuery, value.summary, value.model);
+      imported++;
     }
-    
-    logger.warn('Keeping original file but starting with empty summary cache');
-  }
-  
-  return cache;
-}
 
-// Save summary cache to file
-const saveSummaryCacheToFile = (cache: Map<string, any>): void => {
-  try {
-    // Convert Map to object for JSON serialization
-    const cacheData = Object.fromEntries(cache.entries());
-    fs.writeFileSync(SUMMARY_CACHE_FILE, JSON.stringify(cacheData, null, 2));
-    
-    logger.info('Summary cache saved to file', { 
-      entries: cache.size,
-      file: SUMMARY_CACHE_FILE 
-    });
+    fs.renameSync(LEGACY_SUMMARY_CACHE_FILE, `${LEGACY_SUMMARY_CACHE_FILE}.migrated.${Date.now()}`);
+    logger.info('Imported legacy summary cache', { imported, total: entries.length });
   } catch (error) {
-    logger.error('Failed to save summary cache to file', { 
+    logger.error('Failed to import legacy summary cache', {
       error: error instanceof Error ? error.message : 'Unknown error',
-      file: SUMMARY_CACHE_FILE 
+      file: LEGACY_SUMMARY_CACHE_FILE
     });
   }
 };
 
 // Initialize persistent cache
-const transcriptCache = loadCacheFromFile();
-// Clear summary cache on startup
-const summaryCache = new Map();
-saveSummaryCacheToFile(summaryCache);
-logger.info('Summary cache cleared on startup');
+const transcriptCache = loadTranscriptCache();
+// Single lookup/save path over the cache and the database
+const transcriptRepository = new TranscriptRepository(transcriptCache);
+const reconciliationService = new TranscriptReconciliationService(transcriptRepository);
+const corpusArchiveService = new CorpusArchiveService(transcriptRepository);
+const manualTranscriptService = new ManualTranscriptService(transcriptRepository);
+// Per-company fiscal calendars, learned from stored call dates
+const fiscalCalendarService = new FiscalCalendarService(transcriptRepository);
+transcriptRepository.setCalendarPeriodResolver((ticker, year, quarter, callDate) =>
+  fiscalCalendarService.calendarPeriod(ticker, year, quarter, callDate));
+fiscalCalendarService.initialize().catch(error => {
+  logger.error('Failed to initialize fiscal calendars', { error: error instanceof Error ? error.message : 'Unknown error' });
+});
+// Query-focused summaries live in the database; pick up anything left in the old file cache
+importLegacySummaryCache();
 
 // Initialize Google AI service
 const googleAIService = new GoogleAIService();
 
-// Initialize job manager
-const jobManager = new JobManager(transcriptCache);
-const enhancedJobManager = new EnhancedJobManager(transcriptCache);
+// Initialize the durable fetch queue (ticker/quarter fetch tasks)
+const fetchQueue = new FetchQueue(transcriptRepository);
+fetchQueue.start();
+// Newly fetched call dates can settle a ticker's fiscal calendar
+fetchQueue.on('jobSettled', () => {
+  fiscalCalendarService.learn().catch(error => {
+    logger.warn('Fiscal calendar learning failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+  });
+});
+
+// Next call dates predicted from stored call history
+const earningsCalendarService = new EarningsCalendarService(transcriptRepository, fiscalCalendarService);
+
+// Scheduled watchlist refresh (runs on the fetch queue)
+const watchlistScheduler = new WatchlistScheduler(fetchQueue, fiscalCalendarService, earningsCalendarService);
+watchlistScheduler.start();
 
 // Initialize bulk AI service
-const bulkAIService = new BulkAIService(transcriptCache);
+const bulkAIService = new BulkAIService(transcriptRepository);
+
+// One job engine for every background job type
+const jobEngine = new JobEngine();
+const transcriptFetchJobHandler = new TranscriptFetchJobHandler(fetchQueue, transcriptRepository, fiscalCalendarService);
+jobEngine.register(transcriptFetchJobHandler);
+jobEngine.register(bulkAIService);
+jobEngine.register(new ReconciliationJobHandler(reconciliationService, () => checkpointTranscriptStore(transcriptCache)));
+jobEngine.register(new SplitBackfillJobHandler(transcriptRepository));
+jobEngine.start();
+const jobEventStream = new JobEventStream(jobEngine);
 
 // Listen for job progress events
-jobManager.on('progress', ({ jobId, job }) => {
+jobEngine.on('progress', ({ jobId, job }) => {
   logger.info('Job progress update', {
     jobId,
+    type: job.type,
     progress: `${job.progress.current}/${job.progress.total}`,
-    currentTicker: job.progress.currentTicker,
-    processed: job.progress.processed.length,
-    failed: job.progress.failed.length,
-    skipped: job.progress.skipped.length
-  });
-});
-
-jobManager.on('completed', ({ jobId, job }) => {
-  logger.info('Job completed successfully', {
-    jobId,
-    total: job.tickers.length,
+    currentItem: job.progress.currentItem,
     processed: job.progress.processed.length,
     failed: job.progress.failed.length,
     skipped: job.progress.skipped.length
@@ -422,7 +345,7 @@ app.get('/debug/config', (req, res) => {
   res.json({
     apiKeyPresent: !!process.env.API_NINJAS_KEY,
     apiKeyPrefix: process.env.API_NINJAS_KEY?.substring(0, 10) + '...',
-    configApiKey: config.apiNinjas.key.substring(0, 10) + '...',
+    configApiKey: config.apiNinjas.key ? config.apiNinjas.key.substring(0, 10) + '...' : null,
     isDemo: config.apiNinjas.isDemo,
     environment: config.nodeEnv,
   });
@@ -436,14 +359,22 @@ app.get('/api/test', (req, res) => {
 // Optimized bulk fetch with parallel processing (direct endpoint)
 app.post('/api/tickers/bulk-fetch', async (req, res) => {
   try {
-    const { tickers } = req.body;
+    const { tickers, provider: providerName } = req.body;
     
     if (!tickers || !Array.isArray(tickers)) {
       return res.status(400).json({ error: 'Tickers array is required' });
     }
 
+    let transcriptProvider: TranscriptProvider;
+    try {
+      transcriptProvider = transcriptProviders.get(providerName);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid transcript provider' });
+    }
+
     logger.info('Bulk fetch request received', { 
       tickers, 
+      provider: transcriptProvider.name,
       mode: config.apiNinjas.isDemo ? 'demo' : 'production',
       tickerCount: tickers.length 
     });
@@ -452,7 +383,7 @@ app.post('/api/tickers/bulk-fetch', async (req, res) => {
     const startTime = Date.now();
 
     // Process tickers in parallel batches to speed up processing
-    const BATCH_SIZE = 25; // Process 25 tickers at once (reduced from 50 to avoid rate limiting)
+    const BATCH_SIZE = 25; // Process 25 tickers at once; their API calls queue on the shared rate limiter
     const batches = [];
     
     for (let i = 0; i < tickers.length; i += BATCH_SIZE) {
@@ -478,12 +409,7 @@ app.post('/api/tickers/bulk-fetch', async (req, res) => {
         logger.info('Processing ticker', { ticker });
         
         // Check if this ticker already has ANY transcripts in cache
-        const existingTranscripts = [];
-        for (const [cacheKey, transcript] of transcriptCache.entries()) {
-          if (transcript.ticker && transcript.ticker.toLowerCase() === ticker.toLowerCase()) {
-            existingTranscripts.push(transcript);
-          }
-        }
+        const existingTranscripts = transcriptRepository.findCachedByTicker(ticker);
         
         if (existingTranscripts.length > 0) {
           logger.info('Ticker already has transcripts in cache, skipping entirely', {
@@ -498,8 +424,8 @@ app.post('/api/tickers/bulk-fetch', async (req, res) => {
             year: transcript.year,
             quarter: transcript.quarter,
             status: 'success',
-            transcriptLength: transcript.fullTranscript.length,
-            transcriptId: transcript.id,
+            transcriptLength: transcript.length,
+            transcriptId: transcript.databaseId ?? transcript.key,
             storage: 'cached',
             skipped: true,
           }));
@@ -510,20 +436,22 @@ app.post('/api/tickers/bulk-fetch', async (req, res) => {
         try {
           // Smart quarter strategy - try multiple recent quarters in order of likelihood
           // Different companies have different fiscal year ends, so we need to try multiple quarters
-          const quartersToTry = getLastFourQuarters(ticker).slice(0, 16); // Try all 16 quarters like Python project
+          const quartersToTry = await transcriptProvider.listAvailableQuarters(ticker, fiscalCalendarService.get(ticker)); // Look-ahead/look-back window in the ticker's fiscal calendar
           // Process quarters sequentially to avoid rate limiting issues
           const fetchedTranscripts = [];
           for (const quarter of quartersToTry) {
+            if (transcriptProvider.isKnownUnavailable?.(ticker, quarter.year, quarter.quarter)) {
+              continue; // Recently confirmed empty, don't spend an API call on it
+            }
             try {
               logger.info(`Fetching ${ticker} ${quarter.year} Q${quarter.quarter}...`);
-              const transcript = await apiNinjasService.fetchTranscript(ticker, quarter.year, quarter.quarter);
-              if (transcript && transcript.transcript) {
+              const transcript = await fetchTranscriptWithSpeakers(transcriptProvider, ticker, quarter.year, quarter.quarter);
+              if (transcript) {
                 fetchedTranscripts.push({
                   ...transcript,
                   ticker: ticker.toUpperCase(),
                   year: quarter.year,
                   quarter: quarter.quarter,
-                  callDate: transcript.date || `${quarter.year}-${quarter.quarter.toString().padStart(2, '0')}-01`,
                   id: `${ticker.toUpperCase()}_${quarter.year}_Q${quarter.quarter}`,
                 });
                 logger.info(`✅ Successfully fetched ${ticker} ${quarter.year} Q${quarter.quarter}`);
@@ -542,87 +470,47 @@ app.post('/api/tickers/bulk-fetch', async (req, res) => {
             
             const cacheKey = `${transcript.ticker.toLowerCase()}-${transcript.year}-Q${transcript.quarter}`;
             
-            // Parse transcript date
+            // Parse transcript date; without one the call date stays unknown
             let callDate: Date | null = null;
             if (transcript.date) {
-              try {
-                callDate = new Date(transcript.date);
-              } catch (error) {
+              const parsed = new Date(transcript.date);
+              if (Number.isNaN(parsed.getTime())) {
                 logger.warn('Invalid date format in transcript', {
                   ticker,
                   year: transcript.year,
                   quarter: transcript.quarter,
                   date: transcript.date,
                 });
-                callDate = new Date(`${transcript.year}-${transcript.quarter * 3}-15`);
+              } else {
+                callDate = parsed;
               }
-            } else {
-              callDate = new Date(`${transcript.year}-${transcript.quarter * 3}-15`);
             }
 
-            // Store in memory cache
-            transcriptCache.set(cacheKey, {
-              id: cacheKey,
+            // Store in memory cache and database
+            const saved = await transcriptRepository.save({
               ticker: transcript.ticker,
               year: transcript.year,
               quarter: transcript.quarter,
-              callDate: callDate,
-              fullTranscript: transcript.transcript,
+              callDate,
+              fullTranscript: transcript.fullTranscript,
+              transcriptSplit: transcript.transcriptSplit,
+              companyName: transcript.companyName,
               transcriptJson: {
-                ticker: transcript.ticker,
-                year: transcript.year,
-                quarter: transcript.quarter,
-                date: transcript.date,
-                transcript: transcript.transcript,
+                ...transcript.transcriptJson,
                 fetchedAt: new Date().toISOString(),
               },
+              source: transcript.source,
             });
+            const savedTranscriptId = saved.id;
+            const storageLocation = saved.storage;
 
-            // Also save to database
-            let savedTranscriptId = cacheKey;
-            let storageLocation = 'memory';
-            
-            try {
-              const savedTranscript = await prisma.transcript.upsert({
-                where: {
-                  ticker_year_quarter: {
-                    ticker: transcript.ticker.toUpperCase(),
-                    year: transcript.year,
-                    quarter: transcript.quarter,
-                  },
-                },
-                update: {
-                  fullTranscript: transcript.transcript,
-                  callDate,
-                  updatedAt: new Date(),
-                },
-                create: {
-                  ticker: transcript.ticker.toUpperCase(),
-                  year: transcript.year,
-                  quarter: transcript.quarter,
-                  fullTranscript: transcript.transcript,
-                  callDate,
-                  transcriptJson: {},
-                },
-              });
-
-              savedTranscriptId = savedTranscript.id;
-              storageLocation = 'database';
-              
+            if (saved.storage === 'database') {
               logger.info('Transcript saved to database from bulk fetch', {
                 ticker,
                 year: transcript.year,
                 quarter: transcript.quarter,
-                transcriptId: savedTranscript.id
+                transcriptId: saved.id
               });
-            } catch (dbError) {
-              logger.error('Failed to save transcript to database during bulk fetch', {
-                ticker,
-                year: transcript.year,
-                quarter: transcript.quarter,
-                error: dbError instanceof Error ? dbError.message : 'Unknown error'
-              });
-              // Continue with cache storage
             }
             
             tickerResults.push({
@@ -630,7 +518,8 @@ app.post('/api/tickers/bulk-fetch', async (req, res) => {
               year: transcript.year,
               quarter: transcript.quarter,
               status: 'success',
-              transcriptLength: transcript.transcript.length,
+              transcriptLength: transcript.fullTranscript.length,
+              segmentCount: transcript.transcriptSplit?.length ?? 0,
               transcriptId: savedTranscriptId,
               storage: storageLocation,
             });
@@ -639,7 +528,7 @@ app.post('/api/tickers/bulk-fetch', async (req, res) => {
               ticker: transcript.ticker,
               year: transcript.year,
               quarter: transcript.quarter,
-              length: transcript.transcript.length,
+              length: transcript.fullTranscript.length,
               cacheKey,
             });
           }
@@ -682,14 +571,8 @@ app.post('/api/tickers/bulk-fetch', async (req, res) => {
       }
     }
 
-    // Save cache to file periodically (not on every request)
-    try {
-      if (transcriptCache.size > 0 && transcriptCache.size % 10 === 0) {
-        saveCacheToFile(transcriptCache);
-      }
-    } catch (error) {
-      logger.warn('Failed to save cache to file', { error: error instanceof Error ? error.message : 'Unknown error' });
-    }
+    // Each transcript was appended to the store as it was cached; checkpoint the index once per request
+    checkpointTranscriptStore(transcriptCache);
 
     const executionTime = Date.now() - startTime;
     const successful = results.filter(r => r.status === 'success').length;
@@ -724,47 +607,171 @@ app.post('/api/tickers/bulk-fetch', async (req, res) => {
   }
 });
 
-// Create background job endpoint
-app.post('/api/jobs/bulk-fetch', asyncHandler(async (req, res) => {
-  const { tickers: rawTickers, quarterCount = 4 } = req.body;
-  const tickers = Array.isArray(rawTickers) ? rawTickers.map((t: string) => t.trim().toLowerCase()).filter(Boolean) : [];
-
-  if (tickers.length === 0) {
-    return res.status(400).json({ error: 'No tickers provided' });
+// Background jobs (transcript fetch, AI processing, reconciliation, split backfill) share one engine and one API
+const sendJobError = (res: express.Response, error: unknown, message: string) => {
+  if (error instanceof JobRequestError) {
+    return res.status(400).json({ error: error.message });
   }
+  logger.error(message, { error: error instanceof Error ? error.message : 'Unknown error' });
+  return res.status(500).json({
+    error: message,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
+};
+
+// Create a job of any registered type: { type, params }; with dryRun, report the handler's estimate instead
+app.post('/api/jobs', asyncHandler(async (req, res) => {
+  const { type, params = {}, dryRun = false } = req.body || {};
 
-  if (quarterCount && (typeof quarterCount !== 'number' || quarterCount < 1 || quarterCount > 16)) {
-    return res.status(400).json({ error: 'Quarter count must be between 1 and 16' });
+  try {
+    if (dryRun) {
+      return res.json({ dryRun: true, type, estimate: await jobEngine.estimateJob(type, params) });
+    }
+
+    const job = await jobEngine.createJob(type, params);
+    res.status(201).json({
+      message: 'Background job created successfully',
+      jobId: job.id,
+      type: job.type,
+      status: job.status,
+      itemCount: job.items.length
+    });
+  } catch (error) {
+    sendJobError(res, error, 'Failed to create job');
   }
+}));
+
+// Create background job endpoint
+app.post('/api/jobs/bulk-fetch', asyncHandler(async (req, res) => {
+  const { tickers, quarterCount = 4, provider, dryRun = false } = req.body;
 
   try {
-    // Convert tickers array to file content for enhanced job manager
-    const fileContent = tickers.join('\n');
-    const jobId = enhancedJobManager.createBulkFetchJobFromFile(fileContent, quarterCount);
+    if (dryRun) {
+      return res.json({ dryRun: true, estimate: await jobEngine.estimateJob('transcript-fetch', { tickers, quarterCount, provider }) });
+    }
+
+    const job = await jobEngine.createJob('transcript-fetch', { tickers, quarterCount, provider });
 
     res.json({
       message: 'Background job created successfully',
-      jobId,
-      status: 'pending',
-      tickerCount: tickers.length,
-      estimatedTime: `${Math.ceil(tickers.length * 2 / 60)} minutes`,
+      jobId: job.id,
+      status: job.status,
+      tickerCount: job.items.length,
+      estimatedTime: `${Math.ceil(job.items.length * 2 / 60)} minutes`,
       endpoints: {
-        progress: `/api/jobs/${jobId}/progress`,
-        pause: `/api/jobs/${jobId}/pause`,
-        resume: `/api/jobs/${jobId}/resume`
+        progress: `/api/jobs/${job.id}/progress`,
+        pause: `/api/jobs/${job.id}/pause`,
+        resume: `/api/jobs/${job.id}/resume`
       }
     });
   } catch (error) {
-    res.status(400).json({ 
-      error: error instanceof Error ? error.message : 'Failed to create job',
-      suggestion: 'Wait for current job to complete or check /api/jobs for active jobs'
+    sendJobError(res, error, 'Failed to create job');
+  }
+}));
+
+// Bulk file upload: one ticker per line ("TICKER" or "TICKER<tab>Company Name")
+app.post('/api/jobs/bulk-upload', asyncHandler(async (req, res) => {
+  const { fileContent, quarterCount = 1, provider, dryRun = false } = req.body;
+  
+  if (!fileContent || typeof fileContent !== 'string') {
+    return res.status(400).json({ error: 'File content is required' });
+  }
+
+  try {
+    const { format, rows, errors: rowErrors } = parseTickerFileRows(fileContent);
+    if (rowErrors.length > 0) {
+      return res.status(400).json({ error: `${rowErrors.length} invalid row(s) in ticker file`, rowErrors });
+    }
+    if (rows.length === 0) {
+      return res.status(400).json({ error: 'No valid tickers found in file' });
+    }
+
+    const tickers = rows.map(row => row.ticker);
+    const tickerOptions: Record<string, TickerFetchOptions> = {};
+    for (const { ticker, from, to, latest, priority } of rows) {
+      if (from || to || latest !== undefined || priority !== 0) {
+        tickerOptions[ticker] = { from, to, latest, priority };
+      }
+    }
+    const params = { tickers, quarterCount, provider, ...(format === 'table' ? { tickerOptions } : {}) };
+
+    if (dryRun) {
+      return res.json({ dryRun: true, format, estimate: await jobEngine.estimateJob('transcript-fetch', params) });
+    }
+
+    logger.info('Creating bulk upload job', { 
+      fileLength: fileContent.length,
+      format,
+      quarterCount,
+      tickers: tickers.length,
+      tickersWithOptions: Object.keys(tickerOptions).length
     });
+    
+    const job = await jobEngine.createJob('transcript-fetch', params);
+    const companies = await saveTickerFileCompanies(rows);
+    
+    logger.info('Bulk upload job created successfully', { jobId: job.id, companies });
+    
+    res.json({ 
+      message: 'Bulk upload job created successfully', 
+      jobId: job.id,
+      status: job.status,
+      format,
+      companies
+    });
+  } catch (error) {
+    sendJobError(res, error, 'Failed to create bulk upload job');
   }
 }));
 
-// Clear completed jobs
+// Retry a finished fetch job's failed tickers (optionally also "not available") as a child job,
+// grouped by failure reason; widenQuarters searches further back than the parent did
+app.post('/api/jobs/:jobId/retry-failed', asyncHandler(async (req, res) => {
+  const { includeNotAvailable = false, reasons, widenQuarters = 0, dryRun = false } = req.body || {};
+  const parent = jobEngine.getJob(req.params.jobId);
+
+  if (!parent) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  if (parent.type !== 'transcript-fetch') {
+    return res.status(400).json({ error: `Only transcript fetch jobs can be retried (type: ${parent.type})` });
+  }
+
+  try {
+    const retry = transcriptFetchJobHandler.planRetry(parent as Job<TranscriptFetchJobParams, BulkFetchResult>, {
+      includeNotAvailable: Boolean(includeNotAvailable),
+      reasons: Array.isArray(reasons) ? reasons.map(String) : undefined,
+      widenQuarters: Number(widenQuarters),
+    });
+
+    if (dryRun) {
+      return res.json({
+        dryRun: true,
+        parentJobId: parent.id,
+        groups: retry.groups,
+        estimate: await jobEngine.estimateJob('transcript-fetch', retry.params)
+      });
+    }
+
+    const job = await jobEngine.createJob('transcript-fetch', retry.params, { parentJobId: parent.id });
+    logger.info('Retry job created', { jobId: job.id, parentJobId: parent.id, tickers: job.items.length, extraQuarters: retry.params.extraQuarters });
+
+    res.status(201).json({
+      message: 'Retry job created successfully',
+      jobId: job.id,
+      parentJobId: parent.id,
+      status: job.status,
+      tickerCount: job.items.length,
+      groups: retry.groups
+    });
+  } catch (error) {
+    sendJobError(res, error, 'Failed to create retry job');
+  }
+}));
+
+// Clear finished jobs (completed, failed or cancelled)
 app.delete('/api/jobs/completed', asyncHandler(async (req, res) => {
-  const clearedCount = jobManager.clearCompletedJobs();
+  const clearedCount = jobEngine.clearFinishedJobs(req.query.type as JobType | undefined);
   res.json({ 
     message: `Cleared ${clearedCount} completed jobs`,
     clearedCount 
@@ -772,9 +779,19 @@ app.delete('/api/jobs/completed', asyncHandler(async (req, res) => {
 }));
 
 // Get job progress
+// Live job events (Server-Sent Events): every job, optionally ?type=, or a single job until it finishes
+app.get('/api/jobs/stream', (req, res) => {
+  jobEventStream.openAll(req, res, req.query.type as JobType | undefined);
+});
+
+app.get('/api/jobs/:jobId/stream', (req, res) => {
+  if (!jobEventStream.openJob(req, res, req.params.jobId)) {
+    res.status(404).json({ error: 'Job not found' });
+  }
+});
+
 app.get('/api/jobs/:jobId/progress', asyncHandler(async (req, res) => {
-  const { jobId } = req.params;
-  const progress = jobManager.getJobProgress(jobId);
+  const progress = jobEngine.getJobProgress(req.params.jobId);
 
   if (!progress) {
     return res.status(404).json({ error: 'Job not found' });
@@ -783,174 +800,213 @@ app.get('/api/jobs/:jobId/progress', asyncHandler(async (req, res) => {
   res.json(progress);
 }));
 
-// Pause job
-app.post('/api/jobs/:jobId/pause', asyncHandler(async (req, res) => {
-  const { jobId } = req.params;
-  const paused = jobManager.pauseJob(jobId);
+// Pause, resume or cancel any job
+app.post('/api/jobs/:jobId/:action(pause|resume|cancel)', asyncHandler(async (req, res) => {
+  const { jobId, action } = req.params;
 
-  if (!paused) {
-    return res.status(400).json({ error: 'Job cannot be paused (not running or not found)' });
-  }
+  try {
+    const changed = action === 'pause'
+      ? await jobEngine.pauseJob(jobId)
+      : action === 'resume'
+        ? await jobEngine.resumeJob(jobId)
+        : await jobEngine.cancelJob(jobId);
+
+    if (!changed) {
+      const job = jobEngine.getJob(jobId);
+      return job
+        ? res.status(400).json({ error: `Job cannot be ${action === 'cancel' ? 'cancelled' : `${action}d`} (status: ${job.status})` })
+        : res.status(404).json({ error: 'Job not found' });
+    }
 
-  res.json({ message: 'Job paused successfully', jobId });
+    res.json({ message: `Job ${action === 'cancel' ? 'cancelled' : `${action}d`} successfully`, jobId });
+  } catch (error) {
+    sendJobError(res, error, `Failed to ${action} job`);
+  }
 }));
 
-// Resume job
-app.post('/api/jobs/:jobId/resume', asyncHandler(async (req, res) => {
-  const { jobId } = req.params;
-  const resumed = jobManager.resumeJob(jobId);
+// List jobs of every type (or ?type=transcript-fetch|ai-processing|reconciliation|split-backfill)
+app.get('/api/jobs', asyncHandler(async (req, res) => {
+  const jobs = jobEngine.getAllJobs(req.query.type as JobType | undefined);
+  res.json({ jobs: jobs.map(toJobSummary) });
+}));
 
-  if (!resumed) {
-    return res.status(400).json({ error: 'Job cannot be resumed (not paused or not found)' });
+// Outstanding fetch tasks across all jobs (survives restarts)
+app.get('/api/fetch-queue', asyncHandler(async (req, res) => {
+  try {
+    res.json(await fetchQueue.getOutstanding());
+  } catch (error) {
+    logger.error('Failed to read fetch queue', { error: error instanceof Error ? error.message : 'Unknown error' });
+    res.status(500).json({
+      error: 'Failed to read fetch queue',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
   }
-
-  res.json({ message: 'Job resumed successfully', jobId });
 }));
 
-// Cancel job
-app.post('/api/jobs/:jobId/cancel', asyncHandler(async (req, res) => {
-  const { jobId } = req.params;
-  const cancelled = jobManager.cancelJob(jobId);
+// Transcript providers a fetch job can ingest from ("provider" on bulk fetch requests)
+app.get('/api/transcript-providers', (req, res) => {
+  res.json({ providers: transcriptProviders.list() });
+});
 
-  if (!cancelled) {
-    return res.status(400).json({ error: 'Job cannot be cancelled (not running/pending or not found)' });
+// API Ninjas limiter state: current rate, queued requests and recent 429s
+app.get('/api/api-ninjas/rate-limit', (req, res) => {
+  try {
+    res.json({
+      ...apiNinjasService.getRateLimitStats(),
+      usage: apiNinjasService.getUsageStats(),
+    });
+  } catch (error) {
+    logger.error('Failed to read rate limit stats', { error: error instanceof Error ? error.message : 'Unknown error' });
+    res.status(500).json({
+      error: 'Failed to read rate limit stats',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
   }
+});
 
-  res.json({ message: 'Job cancelled successfully', jobId });
-}));
-
-// Get all jobs (admin endpoint)
-app.get('/api/jobs', asyncHandler(async (req, res) => {
-  const jobs = jobManager.getAllJobs();
-  res.json({
-    jobs: jobs.map(job => ({
-      id: job.id,
-      status: job.status,
-      tickerCount: job.tickers.length,
-      progress: `${job.progress.current}/${job.progress.total}`,
-      processed: job.progress.processed.length,
-      failed: job.progress.failed.length,
-      skipped: job.progress.skipped.length,
-      createdAt: job.createdAt,
-      startedAt: job.startedAt,
-      completedAt: job.completedAt,
-      currentTicker: job.progress.currentTicker
-    }))
-  });
-}));
+// Predicted next earnings calls: ?days=14 limits to windows in the next N days, ?tickers=A,B, ?includeOverdue=true
+app.get('/api/earnings-calendar', asyncHandler(async (req, res) => {
+  const { days, tickers, includeOverdue } = req.query;
+  const dayCount = days !== undefined ? parseInt(days as string, 10) : undefined;
+  if (dayCount !== undefined && (!Number.isInteger(dayCount) || dayCount < 0 || dayCount > 366)) {
+    return res.status(400).json({ error: 'days must be between 0 and 366' });
+  }
 
-// Enhanced bulk file upload endpoints
-app.post('/api/jobs/bulk-upload', asyncHandler(async (req, res) => {
-  const { fileContent, quarterCount = 1 } = req.body;
-  
-  if (!fileContent || typeof fileContent !== 'string') {
-    return res.status(400).json({ error: 'File content is required' });
+  try {
+    const predictions = await earningsCalendarService.predict({
+      days: dayCount,
+      tickers: tickers ? String(tickers).split(',').map(t => t.trim()).filter(Boolean) : undefined,
+      includeOverdue: includeOverdue === 'true',
+    });
+    res.json({ generatedAt: new Date().toISOString(), count: predictions.length, predictions });
+  } catch (error) {
+    logger.error('Error predicting earnings calls', { error: error instanceof Error ? error.message : 'Unknown error' });
+    res.status(500).json({ error: 'Failed to predict earnings calls', details: error instanceof Error ? error.message : 'Unknown error' });
   }
+}));
 
-  if (quarterCount && (typeof quarterCount !== 'number' || quarterCount < 1 || quarterCount > 12)) {
-    return res.status(400).json({ error: 'Quarter count must be between 1 and 12' });
+// iCalendar feed of predicted calls (default: the next 90 days)
+app.get('/api/earnings-calendar.ics', asyncHandler(async (req, res) => {
+  const dayCount = req.query.days !== undefined ? parseInt(req.query.days as string, 10) : 90;
+  if (!Number.isInteger(dayCount) || dayCount < 0 || dayCount > 366) {
+    return res.status(400).json({ error: 'days must be between 0 and 366' });
   }
 
   try {
-    logger.info('Creating bulk upload job', { 
-      fileLength: fileContent.length,
-      quarterCount,
-      estimatedTickers: fileContent.split('\n').length
+    const predictions = await earningsCalendarService.predict({
+      days: dayCount,
+      tickers: req.query.tickers ? String(req.query.tickers).split(',').map(t => t.trim()).filter(Boolean) : undefined,
     });
-    
-    const jobId = enhancedJobManager.createBulkFetchJobFromFile(fileContent, quarterCount);
-    
-    logger.info('Bulk upload job created successfully', { jobId });
-    
-    res.json({ 
-      message: 'Bulk upload job created successfully', 
-      jobId,
-      status: 'pending'
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="earnings-calls.ics"',
     });
+    res.send(earningsCalendarService.toICalendar(predictions));
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    logger.error('Failed to create bulk upload job', { 
-      error: errorMessage,
-      fileLength: fileContent.length,
-      quarterCount
-    });
-    res.status(500).json({ error: errorMessage });
+    logger.error('Error building earnings calendar feed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    res.status(500).json({ error: 'Failed to build earnings calendar feed', details: error instanceof Error ? error.message : 'Unknown error' });
   }
 }));
 
-// Enhanced job progress endpoint
-app.get('/api/jobs/:jobId/progress', asyncHandler(async (req, res) => {
-  const { jobId } = req.params;
-  
-  const progress = enhancedJobManager.getJobProgress(jobId);
-  
-  if (!progress) {
-    return res.status(404).json({ error: 'Job not found' });
+// Predicted next call for one ticker
+app.get('/api/earnings-calendar/:ticker', asyncHandler(async (req, res) => {
+  const [prediction] = await earningsCalendarService.predict({ tickers: [req.params.ticker] });
+  if (!prediction) {
+    return res.status(404).json({ error: `Not enough call history to predict ${req.params.ticker.toUpperCase()}'s next call` });
   }
-
-  res.json(progress);
+  res.json(prediction);
 }));
 
-// Enhanced job control endpoints
-app.post('/api/jobs/:jobId/pause', asyncHandler(async (req, res) => {
-  const { jobId } = req.params;
-  
-  const paused = enhancedJobManager.pauseJob(jobId);
-  
-  if (!paused) {
-    return res.status(400).json({ error: 'Job cannot be paused (not running or not found)' });
+// Watchlists: named ticker sets refreshed on a cron schedule
+const sendWatchlistError = (res: express.Response, error: unknown, message: string) => {
+  if (error instanceof WatchlistError) {
+    return res.status(error.statusCode).json({ error: error.message });
   }
+  logger.error(message, { error: error instanceof Error ? error.message : 'Unknown error' });
+  return res.status(500).json({
+    error: message,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
+};
 
-  res.json({ message: 'Job paused successfully', jobId });
+app.get('/api/watchlists', asyncHandler(async (req, res) => {
+  try {
+    res.json({ watchlists: await watchlistScheduler.list() });
+  } catch (error) {
+    sendWatchlistError(res, error, 'Failed to load watchlists');
+  }
 }));
 
-app.post('/api/jobs/:jobId/resume', asyncHandler(async (req, res) => {
-  const { jobId } = req.params;
-  
-  const resumed = enhancedJobManager.resumeJob(jobId);
-  
-  if (!resumed) {
-    return res.status(400).json({ error: 'Job cannot be resumed (not paused or not found)' });
+app.post('/api/watchlists', asyncHandler(async (req, res) => {
+  try {
+    const { name, tickers, schedule, timezone, quartersToCheck, enabled } = req.body;
+    const watchlist = await watchlistScheduler.create({ name, tickers, schedule, timezone, quartersToCheck, enabled });
+    res.status(201).json({ watchlist });
+  } catch (error) {
+    sendWatchlistError(res, error, 'Failed to create watchlist');
   }
+}));
 
-  res.json({ message: 'Job resumed successfully', jobId });
+app.put('/api/watchlists/:id', asyncHandler(async (req, res) => {
+  try {
+    const { name, tickers, schedule, timezone, quartersToCheck, enabled } = req.body;
+    const watchlist = await watchlistScheduler.update(req.params.id, { name, tickers, schedule, timezone, quartersToCheck, enabled });
+    res.json({ watchlist });
+  } catch (error) {
+    sendWatchlistError(res, error, 'Failed to update watchlist');
+  }
 }));
 
-app.post('/api/jobs/:jobId/cancel', asyncHandler(async (req, res) => {
-  const { jobId } = req.params;
-  
-  const cancelled = enhancedJobManager.cancelJob(jobId);
-  
-  if (!cancelled) {
-    return res.status(400).json({ error: 'Job cannot be cancelled (not running/pending or not found)' });
+app.delete('/api/watchlists/:id', asyncHandler(async (req, res) => {
+  try {
+    await watchlistScheduler.delete(req.params.id);
+    res.json({ message: 'Watchlist deleted', id: req.params.id });
+  } catch (error) {
+    sendWatchlistError(res, error, 'Failed to delete watchlist');
   }
+}));
 
-  res.json({ message: 'Job cancelled successfully', jobId });
+// Refresh a watchlist now instead of waiting for its schedule
+app.post('/api/watchlists/:id/run', asyncHandler(async (req, res) => {
+  try {
+    const run = await watchlistScheduler.run(req.params.id, 'manual');
+    res.status(202).json({ run });
+  } catch (error) {
+    sendWatchlistError(res, error, 'Failed to start watchlist run');
+  }
 }));
 
-// Enhanced jobs list endpoint
-app.get('/api/jobs/enhanced', asyncHandler(async (req, res) => {
-  const jobs = enhancedJobManager.getAllJobs();
-  res.json({
-    jobs: jobs.map(job => ({
-      id: job.id,
-      status: job.status,
-      tickerCount: job.tickers.length,
-      progress: `${job.progress.current}/${job.progress.total}`,
-      processed: job.progress.processed.length,
-      failed: job.progress.failed.length,
-      skipped: job.progress.skipped.length,
-      processedTickers: job.progress.processed, // Return actual ticker names
-      failedTickers: job.progress.failed, // Return actual ticker names
-      skippedTickers: job.progress.skipped, // Return actual ticker names
-      createdAt: job.createdAt,
-      startedAt: job.startedAt,
-      completedAt: job.completedAt,
-      currentTicker: job.progress.currentTicker
-    }))
-  });
+app.get('/api/watchlists/:id/runs', asyncHandler(async (req, res) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const runs = await watchlistScheduler.getRuns(req.params.id, limit && limit > 0 ? limit : undefined);
+    res.json({ runs });
+  } catch (error) {
+    sendWatchlistError(res, error, 'Failed to load watchlist runs');
+  }
 }));
 
+const sendSearchError = (res: express.Response, error: unknown, message: string) => {
+  if (error instanceof SearchQueryError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  logger.error(message, { error: error instanceof Error ? error.message : 'Unknown error' });
+  return res.status(500).json({ error: message, details: error instanceof Error ? error.message : 'Unknown error' });
+};
+
+/**
+ * Calendar period and both labels for a search result, so fiscal and calendar quarters can be told apart
+ */
+function searchResultPeriod(result: { ticker: string; year: number; quarter: number; callDate?: Date | string | null }) {
+  const period = fiscalCalendarService.describePeriod(result.ticker, result.year, result.quarter, result.callDate ?? null);
+  return {
+    calendarYear: period.calendarYear,
+    calendarQuarter: period.calendarQuarter,
+    fiscalLabel: period.fiscalLabel,
+    calendarLabel: period.calendarLabel,
+  };
+}
+
 // Enhanced search endpoint that works with database (transcripts + AI summaries)
 app.post('/api/search/enhanced', asyncHandler(async (req, res) => {
   const { query, type = 'keyword', source = 'transcripts', filters = {}, options = {} } = req.body;
@@ -965,6 +1021,7 @@ app.post('/api/search/enhanced', asyncHandler(async (req, res) => {
     quarters: filters.quarters,
     dateFrom: filters.dateFrom,
     dateTo: filters.dateTo,
+    periodBasis: filters.periodBasis === 'calendar' ? 'calendar' as const : 'fiscal' as const,
     limit: filters.limit || 20,
     offset: filters.offset || 0,
   };
@@ -973,31 +1030,36 @@ app.post('/api/search/enhanced', asyncHandler(async (req, res) => {
   
   let results;
   
-  // Choose search method based on source parameter
-  switch (source) {
-    case 'ai_summaries':
-      results = await searchService.searchAISummaries(query, searchFilters, options.highlight ?? true);
-      break;
-    case 'both':
-      results = await searchService.searchCombined(query, searchFilters, options.highlight ?? true);
-      break;
-    default: // 'transcripts'
-      switch (type) {
-        case 'regex':
-          results = await searchService.searchRegex(query, searchFilters, options.highlight ?? true);
-          break;
-        case 'fuzzy':
-          results = await searchService.searchFuzzy(query, searchFilters, options);
-          break;
-        default:
-          results = await searchService.searchKeywords(query, searchFilters, options.highlight ?? true);
-      }
+  try {
+    // Choose search method based on source parameter
+    switch (source) {
+      case 'ai_summaries':
+        results = await searchService.searchAISummaries(query, searchFilters, options.highlight ?? true);
+        break;
+      case 'both':
+        results = await searchService.searchCombined(query, searchFilters, options.highlight ?? true);
+        break;
+      default: // 'transcripts'
+        switch (type) {
+          case 'regex':
+            results = await searchService.searchRegex(query, searchFilters, options.highlight ?? true);
+            break;
+          case 'fuzzy':
+            results = await searchService.searchFuzzy(query, searchFilters, options);
+            break;
+          default:
+            results = await searchService.searchKeywords(query, searchFilters, options.highlight ?? true);
+        }
+    }
+  } catch (error) {
+    return sendSearchError(res, error, 'Search failed');
   }
 
   const executionTime = Date.now() - startTime;
 
   res.json({
     ...results,
+    results: results.results.map(result => ({ ...result, ...searchResultPeriod(result) })),
     executionTime,
   });
 }));
@@ -1012,227 +1074,51 @@ app.post('/api/search', async (req, res) => {
     }
 
     const startTime = Date.now();
-    
-    // Handle phrase search differently
-    if (req.body.searchType === 'phrase') {
-      const phrase = query.trim();
-      if (!phrase) {
-        return res.status(400).json({ error: 'Phrase is required' });
-      }
-
-      const results: any[] = [];
-
-      // Create regex pattern for exact phrase matching (case insensitive)
-      const phrasePattern = new RegExp(phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
 
-      // Search through cached transcripts
-      for (const [cacheKey, transcript] of transcriptCache.entries()) {
-        const fullText = transcript.fullTranscript.toLowerCase();
-        
-        // Apply filters
-        if (filters.tickers && filters.tickers.length > 0) {
-          const filterTickers = filters.tickers.map((t: string) => t.toLowerCase());
-          if (!filterTickers.includes(transcript.ticker.toLowerCase())) continue;
-        }
-        if (filters.years && filters.years.length > 0) {
-          if (!filters.years.includes(transcript.year)) continue;
-        }
-        if (filters.quarters && filters.quarters.length > 0) {
-          if (!filters.quarters.includes(transcript.quarter)) continue;
-        }
-
-        // Check if phrase exists in transcript
-        const matches = fullText.match(phrasePattern);
-        if (matches && matches.length > 0) {
-          // Find first phrase position for snippet
-          const firstMatch = phrasePattern.exec(transcript.fullTranscript);
-          if (firstMatch) {
-            const index = firstMatch.index;
-            const start = Math.max(0, index - 100);
-            const end = Math.min(transcript.fullTranscript.length, index + 200);
-            
-            let snippet = transcript.fullTranscript.substring(start, end);
-            if (highlight) {
-              // Highlight the exact phrase
-              const highlightPattern = new RegExp(`(${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-              snippet = snippet.replace(highlightPattern, '<mark>$1</mark>');
-            }
+    // Same query language as the database search; a phrase search takes the whole query as one phrase
+    const searchQuery = req.body.searchType === 'phrase' ? phraseSearchQuery(query) : parseSearchQuery(query);
+    const matchTranscript = createSearchMatcher(searchQuery);
+    const calendarBasis = filters.periodBasis === 'calendar';
 
-                    results.push({
-          id: cacheKey,
-          ticker: transcript.ticker,
-          companyName: transcript.companyName,
-          year: transcript.year,
-          quarter: transcript.quarter,
-          callDate: transcript.callDate,
-          snippet: snippet,
-          relevanceScore: matches.length / transcript.fullTranscript.length * 1000,
-          totalMatchCount: matches.length,
-          keywordMatches: [{
-            keyword: phrase,
-            matchCount: matches.length,
-            score: matches.length / transcript.fullTranscript.length * 1000
-          }],
-        });
-          }
-        }
-      }
-
-      // Sort results based on sortBy parameter
-      if (sortBy === 'date') {
-        results.sort((a, b) => {
-          if (a.year !== b.year) {
-            return b.year - a.year;
-          }
-          return b.quarter - a.quarter;
-        });
-      } else {
-        results.sort((a, b) => b.relevanceScore - a.relevanceScore);
-      }
-
-      // Apply pagination
-      const limit = filters.limit || 20;
-      const offset = filters.offset || 0;
-      const paginatedResults = results.slice(offset, offset + limit);
+    const results: any[] = [];
 
-      const executionTime = Date.now() - startTime;
+    // Ticker/year/quarter filters (and ticker: terms) are applied on metadata, so only matching texts are read
+    const entryFilter = { ...filters, tickers: filters.tickers?.length ? filters.tickers : requiredTickers(searchQuery) ?? undefined };
+    for (const [cacheKey, transcript] of transcriptRepository.cachedEntries(entryFilter)) {
+      const period = calendarBasis
+        ? transcriptRepository.getCalendarPeriod(transcript.ticker, transcript.year, transcript.quarter, transcript.callDate ?? null)
+        : { year: transcript.year, quarter: transcript.quarter };
 
-      logger.info('Phrase search completed', {
-        phrase,
-        totalResults: results.length,
-        returnedResults: paginatedResults.length,
-        executionTime,
+      const match = matchTranscript({
+        ticker: transcript.ticker,
+        year: period.year,
+        quarter: period.quarter,
+        fullTranscript: transcript.fullTranscript,
+        transcriptSplit: transcript.transcriptSplit,
       });
+      if (!match) continue;
 
-      res.json({
-        results: paginatedResults,
-        total: results.length,
-        page: Math.floor(offset / limit) + 1,
-        limit,
-        executionTime,
-        query: phrase,
-        filters,
-        sortBy,
+      results.push({
+        id: cacheKey,
+        ticker: transcript.ticker,
+        companyName: transcript.companyName,
+        year: transcript.year,
+        quarter: transcript.quarter,
+        ...searchResultPeriod(transcript),
+        callDate: transcript.callDate,
+        snippet: buildSnippet(match.text, searchQuery, highlight),
+        relevanceScore: match.relevanceScore,
+        totalMatchCount: match.matchCount,
+        keywordMatches: match.keywordMatches,
       });
-      return;
-    }
-    
-    // Split query into individual keywords for regular search
-    const keywords = query.split(/\s+/).map(k => k.trim().toLowerCase()).filter(k => k.length > 0);
-    
-    if (keywords.length === 0) {
-      return res.status(400).json({ error: 'At least one keyword is required' });
-    }
-
-    // Get required and optional keywords from filters
-    const requiredKeywords = filters.requiredKeywords || [];
-    const optionalKeywords = filters.optionalKeywords || [];
-
-    const results: any[] = [];
-
-    // Create regex patterns with word boundaries for each keyword
-    const keywordPatterns = keywords.map(keyword => ({
-      keyword,
-      pattern: new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi')
-    }));
-
-    // Search through cached transcripts
-    for (const [cacheKey, transcript] of transcriptCache.entries()) {
-      const fullText = transcript.fullTranscript.toLowerCase();
-      
-      // Apply filters
-      if (filters.tickers && filters.tickers.length > 0) {
-        // Make ticker filtering case-insensitive
-        const filterTickers = filters.tickers.map((t: string) => t.toLowerCase());
-        if (!filterTickers.includes(transcript.ticker.toLowerCase())) continue;
-      }
-      if (filters.years && filters.years.length > 0) {
-        if (!filters.years.includes(transcript.year)) continue;
-      }
-      if (filters.quarters && filters.quarters.length > 0) {
-        if (!filters.quarters.includes(transcript.quarter)) continue;
-      }
-
-      // Check if all required keywords exist in transcript
-      let allRequiredKeywordsFound = true;
-      if (requiredKeywords.length > 0) {
-        for (const requiredKeyword of requiredKeywords) {
-          const pattern = new RegExp(`\\b${requiredKeyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
-          if (!pattern.test(transcript.fullTranscript)) {
-            allRequiredKeywordsFound = false;
-            break;
-          }
-        }
-      }
-
-      // Skip if not all required keywords are found
-      if (!allRequiredKeywordsFound) {
-        continue;
-      }
-
-      // Check keyword matches for scoring
-      const keywordMatches: any[] = [];
-      let totalMatches = 0;
-
-      for (const { keyword, pattern } of keywordPatterns) {
-        const matches = fullText.match(pattern);
-        const matchCount = matches ? matches.length : 0;
-        
-        totalMatches += matchCount;
-        
-        keywordMatches.push({
-          keyword,
-          matchCount,
-          score: matchCount / transcript.fullTranscript.length * 1000
-        });
-      }
-
-      // Find first match position for snippet
-      let firstMatchIndex = -1;
-      for (const { keyword, pattern } of keywordPatterns) {
-        const match = pattern.exec(transcript.fullTranscript);
-        if (match && (firstMatchIndex === -1 || match.index < firstMatchIndex)) {
-          firstMatchIndex = match.index;
-        }
-      }
-
-      if (firstMatchIndex !== -1) {
-        const start = Math.max(0, firstMatchIndex - 100);
-        const end = Math.min(transcript.fullTranscript.length, firstMatchIndex + 200);
-        
-        let snippet = transcript.fullTranscript.substring(start, end);
-        if (highlight) {
-          // Highlight all keyword matches
-          for (const { keyword } of keywordMatches) {
-            const highlightPattern = new RegExp(`\\b(${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})\\b`, 'gi');
-            snippet = snippet.replace(highlightPattern, '<mark>$1</mark>');
-          }
-        }
-
-        results.push({
-          id: cacheKey,
-          ticker: transcript.ticker,
-          companyName: transcript.companyName,
-          year: transcript.year,
-          quarter: transcript.quarter,
-          callDate: transcript.callDate,
-          snippet: snippet,
-          relevanceScore: totalMatches / transcript.fullTranscript.length * 1000,
-          totalMatchCount: totalMatches,
-          keywordMatches: keywordMatches,
-        });
-      }
     }
 
     // Sort results based on sortBy parameter
     if (sortBy === 'date') {
-      // Sort by year (desc) then quarter (desc) for most recent first
-      results.sort((a, b) => {
-        if (a.year !== b.year) {
-          return b.year - a.year; // Most recent year first
-        }
-        return b.quarter - a.quarter; // Most recent quarter first
-      });
+      // Most recent first, by calendar period when filtering on calendar periods
+      results.sort((a, b) => calendarBasis
+        ? b.calendarYear - a.calendarYear || b.calendarQuarter - a.calendarQuarter
+        : b.year - a.year || b.quarter - a.quarter);
     } else {
       // Default: sort by relevance score (highest first)
       results.sort((a, b) => b.relevanceScore - a.relevanceScore);
@@ -1264,8 +1150,7 @@ app.post('/api/search', async (req, res) => {
       sortBy,
     });
   } catch (error) {
-    logger.error('Search error', { error });
-    res.status(500).json({ error: 'Search failed' });
+    return sendSearchError(res, error, 'Search failed');
   }
 });
 
@@ -1273,18 +1158,18 @@ app.post('/api/search', async (req, res) => {
 app.get('/api/transcripts/count', (req, res) => {
   const cacheStats = {
     total: transcriptCache.size,
-    tickers: [...new Set([...transcriptCache.values()].map(t => t.ticker))],
+    tickers: [...new Set(transcriptCache.metadataEntries().map(t => t.ticker).filter(Boolean))],
     cached: true,
     persistent: true,
-    cacheFile: CACHE_FILE,
-    fileExists: fs.existsSync(CACHE_FILE),
+    store: transcriptCache.getStore()?.getStats(),
+    memory: transcriptCache.getStats(),
     entries: [...transcriptCache.keys()].sort()
   };
   
   res.json(cacheStats);
 });
 
-// Search transcripts by ticker - database first, then cache fallback
+// Search transcripts by ticker across database and cache
 app.get('/api/transcripts/ticker/:ticker', asyncHandler(async (req, res) => {
   const { ticker } = req.params;
   const { limit = 10, offset = 0, sortBy = 'callDate', sortOrder = 'desc' } = req.query;
@@ -1297,134 +1182,227 @@ app.get('/api/transcripts/ticker/:ticker', asyncHandler(async (req, res) => {
   logger.info('Searching transcripts by ticker', { ticker: tickerUpper, limit, offset });
 
   try {
-    // Search database first using the transcript service
-    const dbResults = await prisma.transcript.findMany({
-      where: {
-        ticker: {
-          equals: tickerUpper,
-          mode: 'insensitive'
-        }
-      },
-      orderBy: {
-        [sortBy as string]: sortOrder as 'asc' | 'desc'
-      },
-      take: Number(limit),
-      skip: Number(offset),
-      select: {
-        id: true,
-        ticker: true,
-        companyName: true,
-        year: true,
-        quarter: true,
-        callDate: true,
-        fullTranscript: true,
-        createdAt: true,
-        updatedAt: true
-      }
+    // Database and cache results, merged by year/quarter
+    const { transcripts, total, source } = await transcriptRepository.findByTicker(tickerUpper, {
+      limit: Number(limit),
+      offset: Number(offset),
+      sortBy: sortBy as string,
+      sortOrder: sortOrder as 'asc' | 'desc'
+    });
+
+    res.json({
+      ticker: tickerUpper,
+      transcripts,
+      total,
+      page: Math.floor(Number(offset) / Number(limit)) + 1,
+      limit: Number(limit),
+      source
+    });
+
+  } catch (error) {
+    logger.error('Error searching transcripts by ticker', {
+      ticker: tickerUpper,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    res.status(500).json({ error: 'Failed to search transcripts' });
+  }
+}));
+
+// Force a store checkpoint (records are already on disk; this persists the index)
+app.post('/api/transcripts/save-cache', (req, res) => {
+  try {
+    transcriptCache.getStore()?.checkpoint();
+    res.json({
+      success: true,
+      message: 'Cache saved successfully',
+      entries: transcriptCache.size,
+      store: transcriptCache.getStore()?.getStats()
+    });
+  } catch (error) {
+    logger.error('Failed to save cache', { error: error instanceof Error ? error.message : 'Unknown error' });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save cache',
+      message: error instanceof Error ? error.message : 'Unknown error'
     });
+  }
+});
+
+// Manual transcript upload: a .txt or .html file (or pasted text) for a quarter API Ninjas doesn't carry
+const transcriptUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(txt|html?)$/i.test(file.originalname) || ['text/plain', 'text/html'].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only .txt or .html transcript files are allowed'));
+    }
+  },
+});
+
+app.post('/api/transcripts/upload', (req, res, next) => {
+  transcriptUpload.single('file')(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid upload' });
+    }
+    next();
+  });
+}, asyncHandler(async (req, res) => {
+  const { ticker, year, quarter, callDate, companyName, text, overwrite } = req.body || {};
+  const content = req.file ? req.file.buffer.toString('utf8') : text;
+
+  if (!content || typeof content !== 'string' || !content.trim()) {
+    return res.status(400).json({ error: 'A transcript file or text is required' });
+  }
+
+  try {
+    const isHtmlFile = req.file && (/\.html?$/i.test(req.file.originalname) || req.file.mimetype === 'text/html');
+    const result = await manualTranscriptService.upload({
+      ticker,
+      year,
+      quarter,
+      callDate,
+      companyName,
+      content,
+      format: isHtmlFile ? 'html' : req.file ? 'text' : undefined,
+      fileName: req.file?.originalname,
+      overwrite: overwrite === true || overwrite === 'true',
+    });
+    checkpointTranscriptStore(transcriptCache);
+
+    res.status(result.replaced ? 200 : 201).json({ success: true, transcript: result });
+  } catch (error) {
+    if (error instanceof TranscriptUploadError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    logger.error('Manual transcript upload failed', { ticker, year, quarter, error: error instanceof Error ? error.message : 'Unknown error' });
+    res.status(500).json({
+      error: 'Failed to upload transcript',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}));
+
+// Reconcile the cache with the database (backfill both ways, report content conflicts)
+app.post('/api/transcripts/reconcile', asyncHandler(async (req, res) => {
+  const { dryRun = false, conflictStrategy = 'report' } = req.body || {};
+  const strategies: ReconcileConflictStrategy[] = ['report', 'prefer-database', 'prefer-cache'];
+
+  if (!strategies.includes(conflictStrategy)) {
+    return res.status(400).json({ error: `conflictStrategy must be one of: ${strategies.join(', ')}` });
+  }
+  if (reconciliationService.isRunning()) {
+    return res.status(409).json({ error: 'Reconciliation is already running' });
+  }
 
-    // Count total results for pagination
-    const totalCount = await prisma.transcript.count({
-      where: {
-        ticker: {
-          equals: tickerUpper,
-          mode: 'insensitive'
-        }
-      }
+  try {
+    const report = await reconciliationService.run({ dryRun: Boolean(dryRun), conflictStrategy });
+    if (!report.dryRun) {
+      checkpointTranscriptStore(transcriptCache);
+    }
+    res.json({ success: true, report });
+  } catch (error) {
+    logger.error('Reconciliation failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    res.status(500).json({
+      error: 'Reconciliation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
+  }
+}));
 
-    // If we found results in database, return them
-    if (dbResults.length > 0) {
-      const formattedResults = dbResults.map(transcript => ({
-        id: transcript.id,
-        ticker: transcript.ticker,
-        companyName: transcript.companyName,
-        year: transcript.year,
-        quarter: transcript.quarter,
-        callDate: transcript.callDate,
-        transcriptLength: transcript.fullTranscript?.length || 0,
-        createdAt: transcript.createdAt,
-        updatedAt: transcript.updatedAt,
-        source: 'database'
-      }));
+// Last reconciliation report
+app.get('/api/transcripts/reconcile', (req, res) => {
+  res.json({
+    running: reconciliationService.isRunning(),
+    report: reconciliationService.getLastReport()
+  });
+});
 
-      return res.json({
-        ticker: tickerUpper,
-        transcripts: formattedResults,
-        total: totalCount,
-        page: Math.floor(Number(offset) / Number(limit)) + 1,
-        limit: Number(limit),
-        source: 'database'
-      });
-    }
+// Export the whole corpus (transcripts, AI summaries, ideas, companies) as a gzipped NDJSON archive
+app.get('/api/corpus/export', asyncHandler(async (req, res) => {
+  const filename = `corpus-${new Date().toISOString().slice(0, 10)}.ndjson.gz`;
+  res.setHeader('Content-Type', 'application/gzip');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
 
-    // Fallback: search cache if nothing in database
-    const cacheResults = [];
-    for (const [cacheKey, transcript] of transcriptCache.entries()) {
-      if (transcript.ticker && transcript.ticker.toUpperCase() === tickerUpper) {
-        cacheResults.push({
-          id: cacheKey,
-          ticker: transcript.ticker.toUpperCase(),
-          companyName: transcript.companyName || null,
-          year: transcript.year,
-          quarter: transcript.quarter,
-          callDate: transcript.callDate,
-          transcriptLength: transcript.fullTranscript?.length || 0,
-          createdAt: null,
-          updatedAt: null,
-          source: 'cache'
-        });
-      }
+  try {
+    await corpusArchiveService.export(res);
+  } catch (error) {
+    logger.error('Corpus export failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    if (res.headersSent) {
+      // Part of the archive is already out; cut the download short so it can't pass for a complete file
+      return res.destroy();
     }
-
-    // Sort cache results
-    cacheResults.sort((a, b) => {
-      if (sortBy === 'callDate') {
-        const dateA = new Date(a.callDate || 0);
-        const dateB = new Date(b.callDate || 0);
-        return sortOrder === 'desc' ? dateB.getTime() - dateA.getTime() : dateA.getTime() - dateB.getTime();
-      }
-      // Add other sorting options as needed
-      return 0;
+    res.status(500).json({
+      error: 'Corpus export failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
+  }
+}));
 
-    // Apply pagination to cache results
-    const paginatedCacheResults = cacheResults.slice(Number(offset), Number(offset) + Number(limit));
+// Import a corpus archive streamed as the raw request body (gzipped or plain NDJSON)
+// Query: mode=merge|replace, conflictStrategy=skip|overwrite|newer (merge only), dryRun=true
+app.post('/api/corpus/import', asyncHandler(async (req, res) => {
+  const { mode = 'merge', conflictStrategy = 'skip', dryRun = 'false' } = req.query;
+  const modes: ImportMode[] = ['merge', 'replace'];
+  const strategies: ImportConflictStrategy[] = ['skip', 'overwrite', 'newer'];
 
-    res.json({
-      ticker: tickerUpper,
-      transcripts: paginatedCacheResults,
-      total: cacheResults.length,
-      page: Math.floor(Number(offset) / Number(limit)) + 1,
-      limit: Number(limit),
-      source: cacheResults.length > 0 ? 'cache' : 'none'
-    });
+  if (!modes.includes(mode as ImportMode)) {
+    return res.status(400).json({ error: `mode must be one of: ${modes.join(', ')}` });
+  }
+  if (!strategies.includes(conflictStrategy as ImportConflictStrategy)) {
+    return res.status(400).json({ error: `conflictStrategy must be one of: ${strategies.join(', ')}` });
+  }
+  // express.json() would already have consumed the body
+  if (req.is('application/json')) {
+    return res.status(400).json({ error: 'Send the archive file as application/gzip or application/x-ndjson' });
+  }
 
+  try {
+    const report = await corpusArchiveService.import(req, {
+      mode: mode as ImportMode,
+      conflictStrategy: conflictStrategy as ImportConflictStrategy,
+      dryRun: dryRun === 'true'
+    });
+    if (!report.dryRun) {
+      checkpointTranscriptStore(transcriptCache);
+    }
+    res.json({ success: true, report });
   } catch (error) {
-    logger.error('Error searching transcripts by ticker', {
-      ticker: tickerUpper,
-      error: error instanceof Error ? error.message : 'Unknown error'
+    if (error instanceof CorpusArchiveError) {
+      return res.status(400).json({ error: 'Invalid corpus archive', details: error.message });
+    }
+    logger.error('Corpus import failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    res.status(500).json({
+      error: 'Corpus import failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
-    res.status(500).json({ error: 'Failed to search transcripts' });
   }
 }));
 
-// Force save cache to file
-app.post('/api/transcripts/save-cache', (req, res) => {
+// Compact the transcript store (drop superseded records and tombstones)
+app.post('/api/transcripts/store/compact', (req, res) => {
+  const store = transcriptCache.getStore();
+  if (!store) {
+    return res.status(503).json({ error: 'Transcript store not available' });
+  }
+
   try {
-    saveCacheToFile(transcriptCache);
+    const result = store.compact();
     res.json({
       success: true,
-      message: 'Cache saved successfully',
-      entries: transcriptCache.size,
-      file: CACHE_FILE,
-      fileExists: fs.existsSync(CACHE_FILE)
+      bytesBefore: result.before,
+      bytesAfter: result.after,
+      store: store.getStats()
     });
   } catch (error) {
-    logger.error('Failed to save cache', { error: error instanceof Error ? error.message : 'Unknown error' });
+    logger.error('Failed to compact transcript store', { error: error instanceof Error ? error.message : 'Unknown error' });
     res.status(500).json({
       success: false,
-      error: 'Failed to save cache',
+      error: 'Failed to compact transcript store',
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
@@ -1455,68 +1433,32 @@ app.get('/api/transcripts/:id', asyncHandler(async (req, res) => {
   logger.info('Fetching transcript by ID', { id });
   
   try {
-    // First, try to find in database (for UUID IDs)
-    if (id.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
-      const dbTranscript = await prisma.transcript.findUnique({
-        where: { id },
-        select: {
-          id: true,
-          ticker: true,
-          companyName: true,
-          year: true,
-          quarter: true,
-          callDate: true,
-          fullTranscript: true,
-          createdAt: true,
-          updatedAt: true
-        }
-      });
-      
-      if (dbTranscript) {
-        logger.info('Transcript retrieved from database', {
-          id,
-          ticker: dbTranscript.ticker,
-          year: dbTranscript.year,
-          quarter: dbTranscript.quarter,
-          length: dbTranscript.fullTranscript?.length || 0,
-        });
-        
-        return res.json({
-          id: dbTranscript.id,
-          ticker: dbTranscript.ticker,
-          companyName: dbTranscript.companyName,
-          year: dbTranscript.year,
-          quarter: dbTranscript.quarter,
-          callDate: dbTranscript.callDate,
-          fullTranscript: dbTranscript.fullTranscript,
-          createdAt: dbTranscript.createdAt,
-          updatedAt: dbTranscript.updatedAt,
-          source: 'database'
-        });
-      }
-    }
+    // Accepts a database UUID or a cache key like "ftnt-2025-Q2"
+    const transcript = await transcriptRepository.findById(id);
     
-    // Fallback: try cache (for cache key format like "ftnt-2025-Q2")
-    if (transcriptCache.has(id)) {
-      const transcript = transcriptCache.get(id);
-      
-      logger.info('Transcript retrieved from cache', {
+    if (transcript) {
+      logger.info('Transcript retrieved', {
         id,
         ticker: transcript.ticker,
         year: transcript.year,
         quarter: transcript.quarter,
         length: transcript.fullTranscript?.length || 0,
+        source: transcript.source,
       });
       
       return res.json({
         id: transcript.id,
+        cacheKey: transcript.cacheKey,
         ticker: transcript.ticker,
         companyName: transcript.companyName,
         year: transcript.year,
         quarter: transcript.quarter,
-        fullTranscript: transcript.fullTranscript,
         callDate: transcript.callDate,
-        source: 'cache'
+        fiscalPeriod: fiscalCalendarService.describePeriod(transcript.ticker, transcript.year, transcript.quarter, transcript.callDate),
+        fullTranscript: transcript.fullTranscript,
+        createdAt: transcript.createdAt,
+        updatedAt: transcript.updatedAt,
+        source: transcript.source
       });
     }
     
@@ -1537,31 +1479,31 @@ app.post('/api/transcripts/:id/summarize', asyncHandler(async (req, res) => {
   const { id } = req.params;
   const { searchQuery } = req.body;
   
-  if (!transcriptCache.has(id)) {
+  const transcript = await transcriptRepository.findById(id);
+  if (!transcript) {
     return res.status(404).json({ error: 'Transcript not found' });
   }
   
-  const transcript = transcriptCache.get(id);
-  
-  // Create cache key for this summary
-  const summaryCacheKey = `${id}:${searchQuery || 'general'}`;
+  // Summaries are stored against the database row, so resolve (or create) it first
+  const transcriptId = await transcriptRepository.ensureInDatabase(transcript);
   
-  // Check if summary already exists in cache
-  if (summaryCache.has(summaryCacheKey)) {
-    const cachedSummary = summaryCache.get(summaryCacheKey);
-    logger.info('Returning cached summary', {
+  // Check if summary already exists for this query
+  const storedSummary = transcriptId ? await querySummaryService.find(transcriptId, searchQuery) : null;
+  if (storedSummary) {
+    logger.info('Returning stored summary', {
       id,
       ticker: transcript.ticker,
       year: transcript.year,
       quarter: transcript.quarter,
       searchQuery: searchQuery || 'none',
-      cacheKey: summaryCacheKey
+      summaryId: storedSummary.id
     });
     
     return res.json({
       success: true,
-      summary: cachedSummary.summary,
-      model: cachedSummary.model,
+      summaryId: storedSummary.id,
+      summary: storedSummary.summary,
+      model: storedSummary.model,
       ticker: transcript.ticker,
       quarter: `${transcript.year}Q${transcript.quarter}`,
       searchQuery: searchQuery || null,
@@ -1594,34 +1536,32 @@ app.post('/api/transcripts/:id/summarize', asyncHandler(async (req, res) => {
       searchQuery
     );
     
-    // Cache the summary
-    const summaryData = {
-      summary,
-      model: healthCheck.model,
-      ticker: transcript.ticker,
-      year: transcript.year,
-      quarter: transcript.quarter,
-      searchQuery: searchQuery || null,
-      createdAt: new Date().toISOString()
-    };
-    
-    summaryCache.set(summaryCacheKey, summaryData);
-    
-    // Save cache to file
-    saveSummaryCacheToFile(summaryCache);
+    // Store the summary (a database outage only costs us the reuse, not the response)
+    let summaryId: string | null = null;
+    if (transcriptId) {
+      try {
+        summaryId = (await querySummaryService.save(transcriptId, searchQuery, summary, healthCheck.model)).id;
+      } catch (saveError) {
+        logger.error('Failed to store summary', {
+          id,
+          error: saveError instanceof Error ? saveError.message : 'Unknown error'
+        });
+      }
+    }
     
-    logger.info('Summary generated and cached', {
+    logger.info('Summary generated', {
       id,
       ticker: transcript.ticker,
       year: transcript.year,
       quarter: transcript.quarter,
       searchQuery: searchQuery || 'none',
-      cacheKey: summaryCacheKey,
+      summaryId,
       summaryLength: summary.length
     });
     
     res.json({
       success: true,
+      summaryId,
       summary,
       model: healthCheck.model,
       ticker: transcript.ticker,
@@ -1648,29 +1588,7 @@ app.post('/api/transcripts/:id/multiple-summaries', asyncHandler(async (req, res
   const { id } = req.params;
   const { searchQuery, forceRefresh } = req.body;
   
-  // Retrieve transcript: try database first for UUIDs, then cache fallback
-  let transcript: any = null;
-  if (id.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
-    const dbTranscript = await prisma.transcript.findUnique({ where: { id } });
-    if (dbTranscript) {
-      transcript = {
-        id: dbTranscript.id,
-        ticker: dbTranscript.ticker,
-        year: dbTranscript.year,
-        quarter: dbTranscript.quarter,
-        callDate: dbTranscript.callDate,
-        fullTranscript: dbTranscript.fullTranscript,
-        transcriptJson: dbTranscript.transcriptJson,
-        source: 'database'
-      };
-    }
-  }
-
-  if (!transcript && transcriptCache.has(id)) {
-    const cached = transcriptCache.get(id);
-    transcript = { ...cached, source: 'cache' };
-  }
-
+  const transcript = await transcriptRepository.findById(id);
   if (!transcript) {
     return res.status(404).json({ error: 'Transcript not found' });
   }
@@ -1685,41 +1603,18 @@ app.post('/api/transcripts/:id/multiple-summaries', asyncHandler(async (req, res
   });
   
   try {
-    // First, ensure the transcript exists in the database
-    const existingTranscript = await prisma.transcript.findUnique({
-      where: { id }
-    });
-
-    if (!existingTranscript) {
-      // Save transcript from memory cache to database
-      const transcriptFromCache = transcriptCache.get(id);
-      if (transcriptFromCache) {
-        await prisma.transcript.create({
-          data: {
-            id: transcriptFromCache.id,
-            ticker: transcriptFromCache.ticker,
-            companyName: transcriptFromCache.ticker, // Use ticker as fallback
-            year: transcriptFromCache.year,
-            quarter: transcriptFromCache.quarter,
-            callDate: transcriptFromCache.callDate,
-            fullTranscript: transcriptFromCache.fullTranscript,
-            transcriptJson: transcriptFromCache.transcriptJson,
-            transcriptSplit: undefined
-          }
-        });
-        
-        logger.info('Transcript saved to database from cache', {
-          id: transcriptFromCache.id,
-          ticker: transcriptFromCache.ticker,
-          year: transcriptFromCache.year,
-          quarter: transcriptFromCache.quarter
-        });
-      }
+    // AI summaries reference the database row, so copy cache-only transcripts over first
+    const transcriptId = await transcriptRepository.ensureInDatabase(transcript);
+    if (!transcriptId) {
+      return res.status(503).json({
+        error: 'Database unavailable',
+        details: 'Transcript could not be saved to the database'
+      });
     }
 
     // Check if summaries already exist in database (unless force refresh)
     if (!forceRefresh) {
-      const existingSummaries = await googleAIService.getAISummariesFromDatabase(id);
+      const existingSummaries = await googleAIService.getAISummariesFromDatabase(transcriptId);
       if (existingSummaries.length >= 4) {
         logger.info('Found existing AI summaries, asking for confirmation', {
           id,
@@ -1797,7 +1692,7 @@ app.post('/api/transcripts/:id/multiple-summaries', asyncHandler(async (req, res
 
     // Save summaries to database
     await googleAIService.saveAISummariesToDatabase(
-      id,
+      transcriptId,
       multipleSummaries.responses,
       searchQuery,
       multipleSummaries.synthesizedThesis
@@ -1848,85 +1743,226 @@ app.get('/api/google-ai/health', asyncHandler(async (req, res) => {
   });
 }));
 
-// Get cached summaries for a transcript
+// Get stored summaries for a transcript
 app.get('/api/transcripts/:id/summaries', asyncHandler(async (req, res) => {
   const { id } = req.params;
   
-  if (!transcriptCache.has(id)) {
+  const transcript = await transcriptRepository.findById(id);
+  if (!transcript) {
+    return res.status(404).json({ error: 'Transcript not found' });
+  }
+  
+  try {
+    // Cache-only transcripts have no stored summaries yet
+    const stored = transcript.databaseId ? await querySummaryService.list(transcript.databaseId) : [];
+    const summaries = stored.map(summary => ({
+      id: summary.id,
+      searchQuery: summary.searchQuery || null,
+      summary: summary.summary,
+      model: summary.model,
+      createdAt: summary.createdAt,
+      updatedAt: summary.updatedAt,
+      cached: true
+    }));
+    
+    res.json({
+      success: true,
+      transcriptId: id,
+      ticker: transcript.ticker,
+      quarter: `${transcript.year}Q${transcript.quarter}`,
+      summaries
+    });
+  } catch (error) {
+    logger.error('Failed to load summaries', {
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    res.status(500).json({
+      error: 'Failed to load summaries',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}));
+
+// Revision history of a transcript's text, plus whether summaries predate the latest change
+app.get('/api/transcripts/:id/revisions', asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  
+  const transcript = await transcriptRepository.findById(id);
+  if (!transcript) {
     return res.status(404).json({ error: 'Transcript not found' });
   }
   
-  const transcript = transcriptCache.get(id);
-  const summaries = [];
+  // Revisions are tracked on database rows; cache-only transcripts have none yet
+  if (!transcript.databaseId) {
+    return res.json({
+      transcriptId: transcript.id,
+      revisions: [],
+      staleness: null
+    });
+  }
   
-  // Find all cached summaries for this transcript
-  for (const [key, value] of summaryCache.entries()) {
-    if (key.startsWith(`${id}:`)) {
-      const searchQuery = key.split(':')[1];
-      summaries.push({
-        searchQuery: searchQuery === 'general' ? null : searchQuery,
-        summary: value.summary,
-        model: value.model,
-        createdAt: value.createdAt,
-        cached: true
-      });
+  try {
+    const [revisions, staleness] = await Promise.all([
+      transcriptRevisionService.listRevisions(transcript.databaseId),
+      transcriptRevisionService.getSummaryStaleness(transcript.databaseId)
+    ]);
+    
+    res.json({
+      transcriptId: transcript.databaseId,
+      ticker: transcript.ticker,
+      quarter: `${transcript.year}Q${transcript.quarter}`,
+      revisions,
+      staleness
+    });
+  } catch (error) {
+    logger.error('Failed to load transcript revisions', {
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    res.status(500).json({
+      error: 'Failed to load transcript revisions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}));
+
+// Diff between two revisions (defaults to previous vs. latest)
+app.get('/api/transcripts/:id/revisions/diff', asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const from = req.query.from !== undefined ? parseInt(String(req.query.from), 10) : undefined;
+  const to = req.query.to !== undefined ? parseInt(String(req.query.to), 10) : undefined;
+  
+  if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+    return res.status(400).json({ error: 'from and to must be revision numbers' });
+  }
+  
+  const transcript = await transcriptRepository.findById(id);
+  if (!transcript?.databaseId) {
+    return res.status(404).json({ error: 'Transcript not found' });
+  }
+  
+  try {
+    const result = await transcriptRevisionService.diffRevisions(transcript.databaseId, from, to);
+    if (!result) {
+      return res.status(404).json({ error: 'Revision not found' });
     }
+    
+    res.json({ transcriptId: transcript.databaseId, ...result });
+  } catch (error) {
+    logger.error('Failed to diff transcript revisions', {
+      id,
+      from,
+      to,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    res.status(500).json({
+      error: 'Failed to diff transcript revisions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}));
+
+// Full text of a single revision
+app.get('/api/transcripts/:id/revisions/:revision', asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const revisionNumber = parseInt(req.params.revision, 10);
+  
+  if (isNaN(revisionNumber)) {
+    return res.status(400).json({ error: 'Revision must be a number' });
+  }
+  
+  const transcript = await transcriptRepository.findById(id);
+  if (!transcript?.databaseId) {
+    return res.status(404).json({ error: 'Transcript not found' });
+  }
+  
+  const revision = await transcriptRevisionService.getRevision(transcript.databaseId, revisionNumber);
+  if (!revision) {
+    return res.status(404).json({ error: 'Revision not found' });
   }
   
   res.json({
-    success: true,
-    transcriptId: id,
-    ticker: transcript.ticker,
-    quarter: `${transcript.year}Q${transcript.quarter}`,
-    summaries
+    transcriptId: transcript.databaseId,
+    revision: revision.revision,
+    source: revision.source,
+    fetchedAt: revision.fetchedAt,
+    lastFetchedAt: revision.lastFetchedAt,
+    fullTranscript: revision.fullTranscript
   });
 }));
 
-// Clear summary cache for a specific transcript or all summaries
+// Delete stored summaries: one by summaryId, one transcript/query pair, all for a transcript, or all
 app.delete('/api/summaries/cache', asyncHandler(async (req, res) => {
-  const { transcriptId } = req.query;
+  const { transcriptId, searchQuery, summaryId } = req.query;
   
-  if (transcriptId) {
-    // Clear summaries for specific transcript
-    const keysToDelete = [];
-    for (const key of summaryCache.keys()) {
-      if (key.startsWith(`${transcriptId}:`)) {
-        keysToDelete.push(key);
+  try {
+    if (summaryId) {
+      const deletedCount = await querySummaryService.delete({ summaryId: String(summaryId) });
+      if (deletedCount === 0) {
+        return res.status(404).json({ error: 'Summary not found' });
       }
+      
+      logger.info('Deleted summary', { summaryId });
+      return res.json({
+        success: true,
+        deletedCount,
+        message: `Deleted summary ${summaryId}`
+      });
     }
     
-    keysToDelete.forEach(key => summaryCache.delete(key));
-    
-    logger.info('Cleared summary cache for transcript', {
-      transcriptId,
-      deletedCount: keysToDelete.length
-    });
+    if (transcriptId) {
+      const transcript = await transcriptRepository.findById(String(transcriptId));
+      if (!transcript) {
+        return res.status(404).json({ error: 'Transcript not found' });
+      }
+      
+      const deletedCount = transcript.databaseId
+        ? await querySummaryService.delete({
+            transcriptId: transcript.databaseId,
+            searchQuery: searchQuery !== undefined ? String(searchQuery) : undefined
+          })
+        : 0;
+      
+      logger.info('Deleted summaries for transcript', {
+        transcriptId,
+        searchQuery: searchQuery !== undefined ? searchQuery : 'all',
+        deletedCount
+      });
+      
+      return res.json({
+        success: true,
+        deletedCount,
+        message: searchQuery !== undefined
+          ? `Deleted ${deletedCount} summaries for query "${searchQuery}" on transcript ${transcriptId}`
+          : `Cleared ${deletedCount} summaries for transcript ${transcriptId}`
+      });
+    }
     
-    res.json({
-      success: true,
-      message: `Cleared ${keysToDelete.length} summaries for transcript ${transcriptId}`
-    });
-  } else {
     // Clear all summaries
-    const count = summaryCache.size;
-    summaryCache.clear();
+    const deletedCount = await querySummaryService.delete({});
     
-    logger.info('Cleared all summary cache', { count });
+    logger.info('Cleared all stored summaries', { deletedCount });
     
     res.json({
       success: true,
-      message: `Cleared all ${count} cached summaries`
+      deletedCount,
+      message: `Cleared all ${deletedCount} stored summaries`
+    });
+  } catch (error) {
+    logger.error('Failed to delete summaries', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    res.status(500).json({
+      error: 'Failed to delete summaries',
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-  
-  // Save updated cache to file
-  saveSummaryCacheToFile(summaryCache);
 }));
 
-// Helper function to get last four quarters using generalized approach
+// Newest four candidate quarters in the ticker's fiscal calendar
 const getLastFourQuarters = (ticker?: string) => {
-  const { getQuartersToTryForTicker } = require('./services/quarterCalculator');
-  return getQuartersToTryForTicker(ticker || 'GENERAL', 4);
+  return getQuartersToTry(4, ticker ? fiscalCalendarService.get(ticker) : undefined);
 };
 
 // Tickers API endpoints
@@ -1956,13 +1992,13 @@ app.get('/api/tickers/:ticker', asyncHandler(async (req, res) => {
     return res.status(404).json({ error: 'Ticker not found' });
   }
   
-  // Add fiscal year information
-  const { getFiscalYearInfo } = require('./services/quarterCalculator');
-  const fiscalYearInfo = getFiscalYearInfo(tickerUpper);
-  
   res.json({
     ...details,
-    fiscalYear: fiscalYearInfo
+    quarters: details.quarters.map(quarter => ({
+      ...quarter,
+      fiscalPeriod: fiscalCalendarService.describePeriod(tickerUpper, quarter.year, quarter.quarter, quarter.callDate),
+    })),
+    fiscalYear: fiscalCalendarService.describe(tickerUpper)
   });
 }));
 
@@ -1981,6 +2017,11 @@ app.post('/api/tickers/:ticker/refresh', asyncHandler(async (req, res) => {
     ticker: tickerUpper,
     quarterCount: quartersToRefresh.length,
   });
+
+  // An explicit refresh re-checks quarters previously reported as empty
+  for (const quarter of quartersToRefresh) {
+    unavailableQuarterCache.clear(tickerUpper, quarter.year, quarter.quarter);
+  }
   
   const results = await transcriptService.bulkFetchTranscripts(
     [tickerUpper],
@@ -1995,6 +2036,31 @@ app.post('/api/tickers/:ticker/refresh', asyncHandler(async (req, res) => {
   });
 }));
 
+// Quarters known to have no transcript (negative-result cache)
+app.get('/api/unavailable-quarters', (req, res) => {
+  const { ticker } = req.query;
+  res.json({
+    stats: unavailableQuarterCache.getStats(),
+    entries: ticker ? unavailableQuarterCache.list(ticker as string) : undefined
+  });
+});
+
+// Forget unavailable quarters (all, or one ticker) so they are probed again
+app.delete('/api/unavailable-quarters', (req, res) => {
+  const { ticker } = req.query;
+  const removed = unavailableQuarterCache.clearAll(ticker as string | undefined);
+  logger.info('Unavailable-quarter cache cleared', { ticker: ticker || 'all', removed });
+  res.json({ success: true, removed });
+});
+
+const sendFiscalCalendarError = (res: express.Response, error: unknown, message: string) => {
+  if (error instanceof FiscalCalendarError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  logger.error(message, { error: error instanceof Error ? error.message : 'Unknown error' });
+  return res.status(500).json({ error: message, details: error instanceof Error ? error.message : 'Unknown error' });
+};
+
 // Get fiscal year information for a ticker
 app.get('/api/tickers/:ticker/fiscal-year', asyncHandler(async (req, res) => {
   const { ticker } = req.params;
@@ -2004,26 +2070,71 @@ app.get('/api/tickers/:ticker/fiscal-year', asyncHandler(async (req, res) => {
   }
   
   const tickerUpper = ticker.toUpperCase();
-  const { getFiscalYearInfo, getLastFourQuarters, formatQuarter } = require('./services/quarterCalculator');
-  
-  const fiscalYearInfo = getFiscalYearInfo(tickerUpper);
-  const recentQuarters = getLastFourQuarters(new Date(), tickerUpper);
+  const recentQuarters = getLastFourQuarters(tickerUpper);
   
   res.json({
     ticker: tickerUpper,
-    fiscalYear: fiscalYearInfo,
-    recentQuarters: recentQuarters.map((q: { year: number; quarter: number }) => ({
-      ...q,
-      formatted: formatQuarter(q.year, q.quarter, tickerUpper)
+    fiscalYear: fiscalCalendarService.describe(tickerUpper),
+    recentQuarters: recentQuarters.map((q: { year: number; quarter: number }) => {
+      const period = fiscalCalendarService.describePeriod(tickerUpper, q.year, q.quarter);
+      return { ...q, formatted: period.fiscalLabel, ...period };
+    })
+  });
+}));
+
+// Set a ticker's fiscal calendar by hand (kept over what is learned from call dates)
+app.put('/api/tickers/:ticker/fiscal-year', asyncHandler(async (req, res) => {
+  const { ticker } = req.params;
+  
+  if (!ticker || ticker.length > 10) {
+    return res.status(400).json({ error: 'Invalid ticker format' });
+  }
+  
+  try {
+    const calendar = await fiscalCalendarService.setOverride(ticker, req.body ?? {});
+    res.json({ success: true, fiscalYear: fiscalCalendarService.describe(calendar.ticker) });
+  } catch (error) {
+    return sendFiscalCalendarError(res, error, 'Failed to set fiscal calendar');
+  }
+}));
+
+// Drop a user-set fiscal calendar, going back to the learned one
+app.delete('/api/tickers/:ticker/fiscal-year', asyncHandler(async (req, res) => {
+  try {
+    const calendar = await fiscalCalendarService.clearOverride(req.params.ticker);
+    res.json({ success: true, fiscalYear: fiscalCalendarService.describe(calendar.ticker) });
+  } catch (error) {
+    return sendFiscalCalendarError(res, error, 'Failed to clear fiscal calendar');
+  }
+}));
+
+// Every learned or user-set fiscal calendar
+app.get('/api/fiscal-calendars', (req, res) => {
+  res.json({
+    calendars: fiscalCalendarService.list().map(calendar => ({
+      ...calendar,
+      ...describeFiscalCalendar(calendar),
     })),
-    example: {
-      currentQuarter: formatQuarter(recentQuarters[0].year, recentQuarters[0].quarter, tickerUpper),
-      previousQuarter: formatQuarter(recentQuarters[1].year, recentQuarters[1].quarter, tickerUpper)
-    }
   });
+});
+
+// Re-learn fiscal calendars from stored call dates (all tickers, or body.tickers)
+app.post('/api/fiscal-calendars/learn', asyncHandler(async (req, res) => {
+  const { tickers } = req.body ?? {};
+  if (tickers !== undefined && !Array.isArray(tickers)) {
+    return res.status(400).json({ error: 'tickers must be an array' });
+  }
+  
+  try {
+    const result = await fiscalCalendarService.learn(tickers?.map((ticker: unknown) => String(ticker)));
+    logger.info('Fiscal calendars re-learned', result);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    return sendFiscalCalendarError(res, error, 'Failed to learn fiscal calendars');
+  }
 }));
 
-// Get fiscal year information using general pattern-based approach
+// Fiscal calendar implied by a single earnings call
 app.post('/api/fiscal-year/calculate', asyncHandler(async (req, res) => {
   const { earningsCallDate, reportedQuarter, reportedYear } = req.body;
   
@@ -2033,36 +2144,26 @@ app.post('/api/fiscal-year/calculate', asyncHandler(async (req, res) => {
     });
   }
   
-  const { 
-    calculateFiscalYearFromEarningsDate, 
-    getFiscalYearOffsetFromPattern, 
-    getFiscalYearInfoFromPattern,
-    getLastFourQuarters,
-    formatQuarter
-  } = require('./services/quarterCalculator');
-  
   const callDate = new Date(earningsCallDate);
-  const pattern = { callDate, reportedQuarter, reportedYear };
+  const year = Number(reportedYear);
+  const quarter = Number(reportedQuarter);
+  if (Number.isNaN(callDate.getTime()) || !Number.isInteger(year) || !Number.isInteger(quarter) || quarter < 1 || quarter > 4) {
+    return res.status(400).json({ error: 'Invalid earningsCallDate, reportedQuarter or reportedYear' });
+  }
   
-  const fiscalYearData = calculateFiscalYearFromEarningsDate(callDate, reportedQuarter, reportedYear);
-  const offset = getFiscalYearOffsetFromPattern(callDate, reportedQuarter, reportedYear);
-  const fiscalYearInfo = getFiscalYearInfoFromPattern(pattern);
-  const recentQuarters = getLastFourQuarters(new Date(), pattern);
+  const calendar = fiscalCalendarFromCall({ year, quarter, callDate });
+  const calendarQuarter = toCalendarQuarter(calendar, year, quarter);
   
   res.json({
     earningsCallDate: callDate.toISOString(),
-    reportedQuarter,
-    reportedYear,
-    fiscalYearData,
-    offset,
-    fiscalYearInfo,
-    recentQuarters: recentQuarters.map((q: { year: number; quarter: number }) => ({
-      ...q,
-      formatted: formatQuarter(q.year, q.quarter, pattern)
-    })),
-    example: {
-      currentQuarter: formatQuarter(recentQuarters[0].year, recentQuarters[0].quarter, pattern),
-      previousQuarter: formatQuarter(recentQuarters[1].year, recentQuarters[1].quarter, pattern)
+    reportedQuarter: quarter,
+    reportedYear: year,
+    fiscalYear: { ...calendar, ...describeFiscalCalendar(calendar) },
+    reported: {
+      label: formatFiscalQuarter(calendar, year, quarter),
+      months: getFiscalQuarterMonths(calendar, year, quarter).label,
+      calendarYear: calendarQuarter.year,
+      calendarQuarter: calendarQuarter.quarter,
     }
   });
 }));
@@ -2097,7 +2198,7 @@ app.post('/api/ai/bulk-process', asyncHandler(async (req, res) => {
   });
 
   try {
-    const { jobId } = await bulkAIService.processBulkAI({
+    const job = await jobEngine.createJob('ai-processing', {
       transcriptIds,
       tickers,
       processAllTranscripts,
@@ -2107,10 +2208,14 @@ app.post('/api/ai/bulk-process', asyncHandler(async (req, res) => {
 
     res.json({
       success: true,
-      jobId,
+      jobId: job.id,
       message: 'Bulk AI processing job started'
     });
   } catch (error) {
+    if (error instanceof JobRequestError) {
+      return res.status(400).json({ error: error.message });
+    }
+
     logger.error('Failed to start bulk AI processing', {
       error: error instanceof Error ? error.message : 'Unknown error'
     });
@@ -2126,9 +2231,9 @@ app.post('/api/ai/bulk-process', asyncHandler(async (req, res) => {
 app.get('/api/ai/bulk-process/:jobId', asyncHandler(async (req, res) => {
   const { jobId } = req.params;
   
-  const job = bulkAIService.getJobStatus(jobId);
+  const job = jobEngine.getJob(jobId);
   
-  if (!job) {
+  if (!job || job.type !== 'ai-processing') {
     return res.status(404).json({
       error: 'Job not found'
     });
@@ -2152,7 +2257,7 @@ app.get('/api/ai/bulk-process/:jobId', asyncHandler(async (req, res) => {
 
 // Get all bulk AI jobs
 app.get('/api/ai/bulk-process', asyncHandler(async (req, res) => {
-  const jobs = bulkAIService.getAllJobs();
+  const jobs = jobEngine.getAllJobs('ai-processing');
   
   res.json({
     success: true,
@@ -2169,11 +2274,11 @@ app.get('/api/ai/bulk-process', asyncHandler(async (req, res) => {
   });
 }));
 
-// Cancel bulk AI job
+// Cancel bulk AI job (same as POST /api/jobs/:jobId/cancel)
 app.post('/api/ai/bulk-process/:jobId/cancel', asyncHandler(async (req, res) => {
   const { jobId } = req.params;
   
-  const cancelled = bulkAIService.cancelJob(jobId);
+  const cancelled = jobEngine.getJob(jobId)?.type === 'ai-processing' && await jobEngine.cancelJob(jobId);
   
   if (!cancelled) {
     return res.status(404).json({
@@ -2189,7 +2294,7 @@ app.post('/api/ai/bulk-process/:jobId/cancel', asyncHandler(async (req, res) =>
 
 // Get bulk AI processing statistics
 app.get('/api/ai/bulk-stats', asyncHandler(async (req, res) => {
-  const jobs = bulkAIService.getAllJobs();
+  const jobs = jobEngine.getAllJobs('ai-processing');
   
   const stats = {
     totalJobs: jobs.length,
@@ -2198,7 +2303,7 @@ app.get('/api/ai/bulk-stats', asyncHandler(async (req, res) => {
     completedJobs: jobs.filter(j => j.status === 'completed').length,
     failedJobs: jobs.filter(j => j.status === 'failed').length,
     totalTranscriptsProcessed: jobs.reduce((sum, j) => sum + j.progress.processed.length, 0),
-    totalSummariesGenerated: jobs.reduce((sum, j) => sum + j.results.reduce((s, r) => s + r.summariesGenerated, 0), 0)
+    totalSummariesGenerated: jobs.reduce((sum, j) => sum + (j.results as BulkAIProcessingResult[]).reduce((s, r) => s + r.summariesGenerated, 0), 0)
   };
 
   res.json({
@@ -2402,12 +2507,8 @@ app.post('/api/transcripts/:id/ai-query', asyncHandler(async (req, res) => {
     return res.status(400).json({ error: 'Query text is required' });
   }
 
-  // Fetch transcript (db first, then cache)
-  let transcript = await prisma.transcript.findUnique({ where: { id } });
-  if (!transcript) {
-    const cached = transcriptCache.get(id);
-    if (cached) transcript = cached;
-  }
+  // Fetch transcript (database UUID or cache key)
+  const transcript = await transcriptRepository.findById(id);
   if (!transcript) {
     return res.status(404).json({ error: 'Transcript not found' });
   }
@@ -2565,9 +2666,13 @@ const gracefulShutdown = (signal: string) => {
     environment: config.nodeEnv,
   });
 
-  // Save cache before shutdown
-  saveCacheToFile(transcriptCache);
-  saveSummaryCacheToFile(summaryCache); // Save summary cache
+  // Checkpoint the store index before shutdown
+  transcriptCache.getStore()?.close();
+  unavailableQuarterCache.flush();
+  jobEngine.flush();
+  jobEventStream.closeAll(); // Open streams would keep server.close() waiting
+  watchlistScheduler.stop();
+  fetchQueue.stop();
   
   server.close(() => {
     logger.info('HTTP server closed');
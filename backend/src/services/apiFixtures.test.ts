@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios, { AxiosAdapter, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { ApiFixtureStore, createRecordingAdapter, createReplayAdapter, MissingFixtureError } from './apiFixtures';
+
+/**
+ * Live adapter stand-in: answers from a list of statuses per ticker, in order
+ */
+function fakeLive(statuses: Record<string, number[]>): AxiosAdapter {
+  const calls = new Map<string, number>();
+  return async (requestConfig: InternalAxiosRequestConfig) => {
+    const ticker = String(requestConfig.params?.ticker);
+    const call = calls.get(ticker) ?? 0;
+    calls.set(ticker, call + 1);
+
+    const status = statuses[ticker]?.[call] ?? 404;
+    const response = {
+      data: status === 200 ? { ticker, transcript: `${ticker} call ${call}` } : { error: 'nope' },
+      status,
+      statusText: '',
+      headers: status === 429 ? { 'retry-after': '2' } : { 'content-type': 'application/json' },
+      config: requestConfig,
+      request: null,
+    };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, requestConfig, null, response);
+    }
+    return response;
+  };
+}
+
+describe('API fixtures', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'api-fixtures-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('replays recorded responses in the order they were received', async () => {
+    const recorder = axios.create({
+      adapter: createRecordingAdapter(fakeLive({ AAPL: [429, 200], MSFT: [404] }), new ApiFixtureStore(directory)),
+    });
+    await expect(recorder.get('/earningstranscript', { params: { ticker: 'AAPL', year: 2024 } })).rejects.toMatchObject({ response: { status: 429 } });
+    const live = await recorder.get('/earningstranscript', { params: { ticker: 'AAPL', year: 2024 } });
+    await expect(recorder.get('/earningstranscript', { params: { ticker: 'MSFT', year: 2024 } })).rejects.toMatchObject({ response: { status: 404 } });
+
+    const replayer = axios.create({ adapter: createReplayAdapter(new ApiFixtureStore(directory), 0) });
+    const throttled = await replayer.get('/earningstranscript', { params: { year: 2024, ticker: 'AAPL' } }).catch(error => error);
+    expect(throttled.response.status).toBe(429);
+    expect(throttled.response.headers['retry-after']).toBe('2');
+
+    const replayed = await replayer.get('/earningstranscript', { params: { ticker: 'AAPL', year: 2024 } });
+    expect(replayed.status).toBe(200);
+    expect(replayed.data).toEqual(live.data);
+
+    // The last response repeats once the sequence is used up
+    const again = await replayer.get('/earningstranscript', { params: { ticker: 'AAPL', year: 2024 } });
+    expect(again.data).toEqual(live.data);
+
+    await expect(replayer.get('/earningstranscript', { params: { ticker: 'MSFT', year: 2024 } })).rejects.toMatchObject({ response: { status: 404 } });
+  });
+
+  it('keeps every response when a request is recorded concurrently', async () => {
+    const store = new ApiFixtureStore(directory);
+    const recorder = axios.create({ adapter: createRecordingAdapter(fakeLive({ AAPL: [200, 200, 200, 200, 200] }), store) });
+    await Promise.all(Array.from({ length: 5 }, () => recorder.get('/earningstranscript', { params: { ticker: 'AAPL' } })));
+    expect(store.getStats().recorded).toBe(5);
+
+    const replayStore = new ApiFixtureStore(directory);
+    const transcripts = [];
+    for (let i = 0; i < 5; i++) {
+      transcripts.push((await replayStore.next('/earningstranscript', { ticker: 'AAPL' }))?.data);
+    }
+    expect(new Set(transcripts.map(data => (data as { transcript: string }).transcript)).size).toBe(5);
+  });
+
+  it('fails requests that have no fixture instead of inventing a response', async () => {
+    const replayer = axios.create({ adapter: createReplayAdapter(new ApiFixtureStore(directory), 0) });
+    const error = await replayer.get('/earningstranscript', { params: { ticker: 'NOPE' } }).catch(caught => caught);
+    expect(error).toBeInstanceOf(MissingFixtureError);
+    expect(error.message).toContain('No fixture recorded for /earningstranscript');
+  });
+});
@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { logger } from '@/config/logger';
+
+const KEPT_HEADERS = ['content-type', 'retry-after'];
+
+interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+  latencyMs: number;
+  recordedAt: string;
+}
+
+interface FixtureFile {
+  request: { url: string; params: Record<string, unknown> };
+  responses: RecordedResponse[]; // In the order they were received
+}
+
+export class MissingFixtureError extends Error {
+  constructor(public readonly url: string, public readonly params: Record<string, unknown>) {
+    super(`No fixture recorded for ${url} (${JSON.stringify(params)})`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+export interface FixtureStats {
+  directory: string;
+  recorded: number;
+  replayed: number;
+  missing: number;
+}
+
+/**
+ * Recorded API responses on disk, one JSON file per distinct request
+ * (endpoint plus sorted query params). A file holds every response seen for
+ * the request during the last recording session, so a 429 followed by a 200
+ * replays the same way.
+ */
+export class ApiFixtureStore {
+  private directory: string;
+  private cursors = new Map<string, number>(); // Next response to replay per file
+  private recordedThisRun = new Set<string>(); // Files started over by this recording session
+  private stats = { recorded: 0, replayed: 0, missing: 0 };
+  private writes: Promise<void> = Promise.resolve(); // Fixture writes run one at a time
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Save a response; the first one per request in a session replaces the old fixture.
+   * Writes are queued so concurrent responses for one request don't overwrite each other.
+   */
+  record(url: string, params: Record<string, unknown>, response: RecordedResponse): Promise<void> {
+    const write = this.writes.then(() => this.append(url, params, response));
+    this.writes = write.catch(() => undefined); // A failed write doesn't hold up the ones after it
+    return write;
+  }
+
+  /**
+   * Next recorded response for a request; the last one repeats once the sequence is used up
+   */
+  async next(url: string, params: Record<string, unknown>): Promise<RecordedResponse | null> {
+    const file = this.fileFor(url, params);
+    const fixture = await this.read(file);
+    if (!fixture || fixture.responses.length === 0) {
+      this.stats.missing++;
+      return null;
+    }
+
+    const index = Math.min(this.cursors.get(file) ?? 0, fixture.responses.length - 1);
+    this.cursors.set(file, index + 1);
+    this.stats.replayed++;
+    return fixture.responses[index];
+  }
+
+  getStats(): FixtureStats {
+    return { directory: this.directory, ...this.stats };
+  }
+
+  private async append(url: string, params: Record<string, unknown>, response: RecordedResponse): Promise<void> {
+    const file = this.fileFor(url, params);
+    const fixture: FixtureFile = this.recordedThisRun.has(file)
+      ? await this.read(file) ?? { request: { url, params }, responses: [] }
+      : { request: { url, params }, responses: [] };
+
+    fixture.responses.push(response);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify(fixture, null, 2));
+    this.recordedThisRun.add(file);
+    this.stats.recorded++;
+  }
+
+  private fileFor(url: string, params: Record<string, unknown>): string {
+    const endpoint = url.replace(/^\/+/, '').replace(/[^\w-]+/g, '_') || 'root';
+    const query = Object.keys(params)
+      .sort()
+      .map(key => `${key}-${String(params[key])}`)
+      .join('_')
+      .replace(/[^\w.-]+/g, '_');
+    return path.join(this.directory, endpoint, `${query || 'no-params'}.json`);
+  }
+
+  private async read(file: string): Promise<FixtureFile | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Unreadable API fixture', { file, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Adapter that sends requests for real and saves each response (errors with a response included)
+ */
+export function createRecordingAdapter(live: AxiosAdapter, store: ApiFixtureStore): AxiosAdapter {
+  return async (requestConfig: InternalAxiosRequestConfig) => {
+    const startedAt = Date.now();
+    const save = (response: AxiosResponse) => store.record(requestConfig.url ?? '', requestConfig.params ?? {}, {
+      status: response.status,
+      headers: pickHeaders(response.headers),
+      data: response.data,
+      latencyMs: Date.now() - startedAt,
+      recordedAt: new Date().toISOString(),
+    }).catch(error => logger.warn('Failed to record API fixture', {
+      url: requestConfig.url,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+
+    try {
+      const response = await live(requestConfig);
+      await save(response);
+      return response;
+    } catch (error) {
+      if (error instanceof AxiosError && error.response) {
+        await save(error.response);
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Adapter that answers from recorded fixtures, with the recorded status,
+ * Retry-After and latency (scaled; 0 replays instantly). Requests with no
+ * fixture fail with MissingFixtureError rather than a made-up response.
+ */
+export function createReplayAdapter(store: ApiFixtureStore, latencyScale: number): AxiosAdapter {
+  return async (requestConfig: InternalAxiosRequestConfig) => {
+    const params = requestConfig.params ?? {};
+    const recorded = await store.next(requestConfig.url ?? '', params);
+    if (!recorded) {
+      throw new MissingFixtureError(requestConfig.url ?? '', params);
+    }
+
+    const { status, headers, data, latencyMs } = recorded;
+    if (latencyMs > 0 && latencyScale > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs * latencyScale));
+    }
+
+    const response: AxiosResponse = { data, status, statusText: '', headers, config: requestConfig, request: null };
+    const validate = requestConfig.validateStatus;
+    if (!validate || validate(status)) {
+      return response;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      requestConfig,
+      null,
+      response
+    );
+  };
+}
+
+function pickHeaders(headers: AxiosResponse['headers']): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = headers?.[name];
+    if (value !== undefined && value !== null) kept[name] = String(value);
+  }
+  return kept;
+}
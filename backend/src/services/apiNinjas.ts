@@ -1,23 +1,47 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { config } from '@/config/config';
 import { logger } from '@/config/logger';
 import { ApiNinjasTranscriptResponse, ApiNinjasTranscriptSplitResponse, Quarter } from '@/types';
-
-export class ApiNinjasService {
+import { ApiFixtureStore, createRecordingAdapter, createReplayAdapter, FixtureStats } from './apiFixtures';
+import { FiscalCalendar, generateCandidateQuarters } from './quarterCalculator';
+import { AdaptiveRateLimiter, parseRetryAfter, RateLimiterStats } from './rateLimiter';
+import { TranscriptProvider } from './transcriptProvider';
+import { unavailableQuarterCache } from './unavailableQuarterCache';
+
+export class ApiNinjasService implements TranscriptProvider {
+  readonly name = 'api_ninjas';
+  readonly description = 'API Ninjas earnings call transcript API';
+  readonly remote = true;
   private client: AxiosInstance;
+  private rateLimiter: AdaptiveRateLimiter;
   private requestCount: number = 0;
   private lastRequestTime: number = 0;
+  private responseTimeTotal: number = 0;
+  private responseCount: number = 0;
   private isDemo: boolean;
-  private requestQueue: Array<() => Promise<void>> = [];
-  private processingQueue: boolean = false;
+  private fixtures: ApiFixtureStore | null = null; // Set in record and replay modes
 
   constructor() {
     this.isDemo = config.apiNinjas.isDemo;
+    this.rateLimiter = new AdaptiveRateLimiter(config.apiNinjas.rateLimit);
+
+    const { mode } = config.apiNinjas;
+    if (mode === 'record' || mode === 'replay') {
+      this.fixtures = new ApiFixtureStore(config.apiNinjas.fixtures.directory);
+      logger.info(`API Ninjas ${mode} mode`, { fixtures: this.fixtures.getStats().directory });
+    }
     
     this.client = axios.create({
-      baseURL: 'https://api.api-ninjas.com/v1',
+      baseURL: config.apiNinjas.baseUrl,
+      // Record wraps the default HTTP adapter; replay never touches the network
+      adapter: this.fixtures && mode === 'record'
+        ? createRecordingAdapter(axios.getAdapter(axios.defaults.adapter), this.fixtures)
+        : this.fixtures
+          ? createReplayAdapter(this.fixtures, config.apiNinjas.fixtures.latencyScale)
+          : undefined,
       headers: {
-        'X-Api-Key': config.apiNinjas.key,
+        // Replay answers from fixtures, so it runs without a key
+        ...(config.apiNinjas.key && mode !== 'replay' ? { 'X-Api-Key': config.apiNinjas.key } : {}),
         'Accept': 'application/json',
         'User-Agent': 'Earnings-Transcript-Search/1.0.0',
       },
@@ -39,12 +63,6 @@ export class ApiNinjasService {
       }),
     });
 
-    // Add request interceptor for logging (no rate limiting for speed)
-    this.client.interceptors.request.use(async (requestConfig) => {
-      // No rate limiting for maximum speed
-      return requestConfig;
-    });
-
     // Add response interceptor for logging
     this.client.interceptors.response.use(
       (response) => {
@@ -68,24 +86,54 @@ export class ApiNinjasService {
   }
 
   /**
-   * Enforce rate limiting to respect API limits
+   * GET through the shared rate limiter. 429s pause the limiter for the
+   * server's Retry-After and are retried here; other errors go to the caller.
    */
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    // Ultra-aggressive rate limiting for maximum speed
-    // Allow more requests per second since we're processing in parallel
-    const minInterval = 1000 / 100; // 100 requests per second instead of 50
-
-    if (timeSinceLastRequest < minInterval) {
-      const waitTime = minInterval - timeSinceLastRequest;
-      logger.debug(`Rate limiting: waiting ${waitTime}ms`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+  private async rateLimitedGet(url: string, params: Record<string, unknown>): Promise<AxiosResponse> {
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.acquire();
+      const startedAt = Date.now();
+      this.lastRequestTime = startedAt;
+      this.requestCount++;
+
+      try {
+        const response = await this.client.get(url, { params });
+        this.rateLimiter.recordSuccess();
+        this.responseTimeTotal += Date.now() - startedAt;
+        this.responseCount++;
+        return response;
+      } catch (error) {
+        if (!axios.isAxiosError(error) || error.response?.status !== 429) {
+          throw error;
+        }
+
+        this.rateLimiter.recordThrottle(parseRetryAfter(error.response.headers?.['retry-after']), {
+          ticker: params.ticker,
+          year: params.year,
+          quarter: params.quarter,
+          attempt: attempt + 1,
+        });
+        if (attempt >= config.apiNinjas.rateLimit.maxThrottleRetries) {
+          throw error;
+        }
+      }
     }
+  }
 
-    this.lastRequestTime = now;
-    this.requestCount++;
+  /**
+   * API Ninjas can't list a ticker's transcripts, so every quarter in the
+   * look-ahead/look-back window of its fiscal calendar is a candidate
+   */
+  async listAvailableQuarters(_ticker: string, calendar?: FiscalCalendar): Promise<Quarter[]> {
+    return generateCandidateQuarters({ calendar });
+  }
+
+  isKnownUnavailable(ticker: string, year: number, quarter: number): boolean {
+    return !this.isDemo && unavailableQuarterCache.isUnavailable(ticker, year, quarter);
+  }
+
+  forgetUnavailable(ticker: string, year: number, quarter: number): void {
+    unavailableQuarterCache.clear(ticker, year, quarter);
   }
 
   /**
@@ -165,19 +213,14 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
     year: number,
     quarter: number
   ): Promise<ApiNinjasTranscriptResponse | null> {
-    // Wrap the actual fetch in a timeout promise
-    return Promise.race([
-      this._fetchTranscriptInternal(ticker, year, quarter),
-      new Promise<null>((_, reject) => 
-        setTimeout(() => reject(new Error('API request timeout')), 20000) // 20 second overall timeout
-      )
-    ]).catch(async (error) => {
-      if (error.message === 'API request timeout') {
-        logger.warn('API request timed out, falling back to demo data', { ticker, year, quarter });
-        return this.generateDemoTranscript(ticker, year, quarter);
-      }
-      throw error;
-    });
+    if (!this.isDemo && unavailableQuarterCache.isUnavailable(ticker, year, quarter)) {
+      logger.debug('Skipping quarter known to have no transcript', { ticker, year, quarter });
+      return null;
+    }
+
+    // No overall deadline: time spent queued behind the rate limiter isn't a slow API.
+    // Each attempt is bounded by the client timeout.
+    return this._fetchTranscriptInternal(ticker, year, quarter);
   }
 
   /**
@@ -197,16 +240,15 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
         return this.generateDemoTranscript(ticker, year, quarter);
       }
 
-      const response = await this.client.get('/earningstranscript', {
-        params: {
-          ticker: ticker.toUpperCase(),
-          year,
-          quarter,
-        },
+      const response = await this.rateLimitedGet('/earningstranscript', {
+        ticker: ticker.toUpperCase(),
+        year,
+        quarter,
       });
 
       if (!response.data || typeof response.data !== 'object') {
         logger.warn('No transcript data received', { ticker, year, quarter });
+        unavailableQuarterCache.markUnavailable(ticker, year, quarter, 'no_data');
         return null;
       }
 
@@ -214,9 +256,12 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
       const transcript = response.data;
       if (!transcript.transcript || transcript.transcript.trim().length === 0) {
         logger.warn('Empty transcript received', { ticker, year, quarter });
+        unavailableQuarterCache.markUnavailable(ticker, year, quarter, 'empty_transcript');
         return null;
       }
 
+      unavailableQuarterCache.clear(ticker, year, quarter);
+
       logger.info('Transcript fetched successfully', {
         ticker,
         year,
@@ -234,8 +279,9 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
     } catch (error) {
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 404) {
-          logger.info('Transcript not available, providing demo data', { ticker, year, quarter });
-          return this.generateDemoTranscript(ticker, year, quarter);
+          logger.info('Transcript not available', { ticker, year, quarter });
+          unavailableQuarterCache.markUnavailable(ticker, year, quarter, 'not_found');
+          return null;
         }
 
         if (error.response?.status === 403 || 
@@ -249,22 +295,16 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
             ticker, year, quarter,
             message: 'Earnings call transcripts require API Ninjas premium subscription'
           });
-          
-          // Return helpful demo data instead
-          return this.generateDemoTranscript(ticker, year, quarter);
+          throw new Error(`API Ninjas premium subscription required for ${ticker} ${year} Q${quarter}`);
         }
 
         if (error.response?.status === 429) {
-          logger.warn('Rate limit exceeded, retrying after delay', {
-            ticker,
-            year,
-            quarter,
-          });
-          await new Promise(resolve => setTimeout(resolve, 5000));
-          return this.fetchTranscript(ticker, year, quarter);
+          // Still throttled after the limiter's retries; let the caller reschedule
+          logger.warn('Rate limit exceeded after retries', { ticker, year, quarter });
+          throw new Error(`API Ninjas rate limit exceeded for ${ticker} ${year} Q${quarter}`);
         }
 
-        logger.error('API request failed, returning demo data', {
+        logger.error('API request failed', {
           ticker,
           year,
           quarter,
@@ -273,7 +313,7 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
           responseData: error.response?.data,
         });
       } else {
-        logger.error('Unexpected error fetching transcript, returning demo data', {
+        logger.error('Unexpected error fetching transcript', {
           ticker,
           year,
           quarter,
@@ -281,9 +321,8 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
         });
       }
 
-      // Return demo data as fallback for any API errors
-      logger.info('Falling back to demo data due to API error', { ticker, year, quarter });
-      return this.generateDemoTranscript(ticker, year, quarter);
+      // Demo data only ever comes from demo mode; a failed request is the caller's to retry or report
+      throw error;
     }
   }
 
@@ -296,19 +335,14 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
     year: number,
     quarter: number
   ): Promise<ApiNinjasTranscriptSplitResponse | null> {
-    // Wrap the actual fetch in a timeout promise
-    return Promise.race([
-      this._fetchTranscriptSplitInternal(ticker, year, quarter),
-      new Promise<null>((_, reject) => 
-        setTimeout(() => reject(new Error('API request timeout')), 20000) // 20 second overall timeout
-      )
-    ]).catch(async (error) => {
-      if (error.message === 'API request timeout') {
-        logger.warn('API request timed out, falling back to demo data', { ticker, year, quarter });
-        return this.generateDemoTranscriptSplit(ticker, year, quarter);
-      }
-      throw error;
-    });
+    if (!this.isDemo && unavailableQuarterCache.isUnavailable(ticker, year, quarter)) {
+      logger.debug('Skipping quarter known to have no transcript', { ticker, year, quarter });
+      return null;
+    }
+
+    // No overall deadline: time spent queued behind the rate limiter isn't a slow API.
+    // Each attempt is bounded by the client timeout.
+    return this._fetchTranscriptSplitInternal(ticker, year, quarter);
   }
 
   /**
@@ -333,17 +367,16 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
         return this.generateDemoTranscriptSplit(ticker, year, quarter);
       }
 
-      const response = await this.client.get('/earningstranscript', {
-        params: {
-          ticker: ticker.toUpperCase(),
-          year,
-          quarter,
-          transcript_split: true, // Enable premium transcript_split
-        },
+      const response = await this.rateLimitedGet('/earningstranscript', {
+        ticker: ticker.toUpperCase(),
+        year,
+        quarter,
+        transcript_split: true, // Enable premium transcript_split
       });
 
       if (!response.data || typeof response.data !== 'object') {
         logger.warn('No transcript_split data received', { ticker, year, quarter });
+        unavailableQuarterCache.markUnavailable(ticker, year, quarter, 'no_data');
         return null;
       }
 
@@ -351,9 +384,15 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
       const transcript = response.data;
       if (!transcript.transcript_split || !Array.isArray(transcript.transcript_split)) {
         logger.warn('No transcript_split array in response', { ticker, year, quarter });
+        // Only a miss if there is no plain transcript either; split data alone can be absent
+        if (!transcript.transcript || String(transcript.transcript).trim().length === 0) {
+          unavailableQuarterCache.markUnavailable(ticker, year, quarter, 'empty_transcript');
+        }
         return null;
       }
 
+      unavailableQuarterCache.clear(ticker, year, quarter);
+
       logger.info('Premium transcript_split fetched successfully', {
         ticker,
         year,
@@ -371,8 +410,9 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
     } catch (error) {
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 404) {
-          logger.info('Transcript not available, providing demo data', { ticker, year, quarter });
-          return this.generateDemoTranscriptSplit(ticker, year, quarter);
+          logger.info('Transcript not available', { ticker, year, quarter });
+          unavailableQuarterCache.markUnavailable(ticker, year, quarter, 'not_found');
+          return null;
         }
 
         if (error.response?.status === 403 || 
@@ -386,22 +426,16 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
             ticker, year, quarter,
             message: 'Transcript_split requires API Ninjas premium subscription'
           });
-          
-          // Return helpful demo data instead
-          return this.generateDemoTranscriptSplit(ticker, year, quarter);
+          throw new Error(`API Ninjas premium subscription required for ${ticker} ${year} Q${quarter}`);
         }
 
         if (error.response?.status === 429) {
-          logger.warn('Rate limit exceeded, retrying after delay', {
-            ticker,
-            year,
-            quarter,
-          });
-          await new Promise(resolve => setTimeout(resolve, 5000));
-          return this.fetchTranscriptSplit(ticker, year, quarter);
+          // Still throttled after the limiter's retries; let the caller reschedule
+          logger.warn('Rate limit exceeded after retries', { ticker, year, quarter });
+          throw new Error(`API Ninjas rate limit exceeded for ${ticker} ${year} Q${quarter}`);
         }
 
-        logger.error('API request failed, returning demo data', {
+        logger.error('API request failed', {
           ticker,
           year,
           quarter,
@@ -410,7 +444,7 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
           responseData: error.response?.data,
         });
       } else {
-        logger.error('Unexpected error fetching transcript_split, returning demo data', {
+        logger.error('Unexpected error fetching transcript_split', {
           ticker,
           year,
           quarter,
@@ -418,9 +452,8 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
         });
       }
 
-      // Return demo data as fallback for any API errors
-      logger.info('Falling back to demo data due to API error', { ticker, year, quarter });
-      return this.generateDemoTranscriptSplit(ticker, year, quarter);
+      // Demo data only ever comes from demo mode; a failed request is the caller's to retry or report
+      throw error;
     }
   }
 
@@ -575,21 +608,43 @@ Upgrade to API Ninjas Premium to fetch actual earnings call transcripts.
   getUsageStats(): {
     requestCount: number;
     lastRequestTime: number;
+    averageResponseMs: number | null;
     isDemo: boolean;
+    mode: typeof config.apiNinjas.mode;
+    fixtures: FixtureStats | null;
   } {
     return {
       requestCount: this.requestCount,
       lastRequestTime: this.lastRequestTime,
+      averageResponseMs: this.responseCount > 0 ? Math.round(this.responseTimeTotal / this.responseCount) : null,
       isDemo: this.isDemo,
+      mode: config.apiNinjas.mode,
+      fixtures: this.fixtures?.getStats() ?? null,
+    };
+  }
+
+  getPacing(): { requestsPerSecond: number; averageResponseMs: number | null } {
+    return {
+      requestsPerSecond: this.rateLimiter.getStats().currentRate,
+      averageResponseMs: this.getUsageStats().averageResponseMs,
     };
   }
 
+  /**
+   * Current limiter rate, queue depth and recent throttling events
+   */
+  getRateLimitStats(): RateLimiterStats {
+    return this.rateLimiter.getStats();
+  }
+
   /**
    * Reset usage statistics
    */
   resetStats(): void {
     this.requestCount = 0;
     this.lastRequestTime = 0;
+    this.responseTimeTotal = 0;
+    this.responseCount = 0;
   }
 }
 
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import zlib from 'zlib';
+import { prisma } from '@/config/database';
+import { CorpusArchiveError, CorpusArchiveService } from './corpusArchive';
+import { TranscriptRepository } from './transcriptRepository';
+
+jest.mock('@/config/database', () => {
+  // findMany over a fixed list of rows, honouring the id cursor and page size
+  const table = (rows: Array<Record<string, unknown>>) => ({
+    findMany: jest.fn(async ({ take, cursor }: { take: number; cursor?: { id: string } }) => {
+      const start = cursor ? rows.findIndex(row => row.id === cursor.id) + 1 : 0;
+      return rows.slice(start, start + take);
+    }),
+  });
+  const created = new Date('2024-02-01T00:00:00Z');
+
+  return {
+    prisma: {
+      transcript: table(Array.from({ length: 250 }, (_, i) => ({
+        id: `t${String(i).padStart(3, '0')}`,
+        ticker: 'AAPL',
+        companyName: 'Apple Inc.',
+        year: 2000 + Math.floor(i / 4),
+        quarter: (i % 4) + 1,
+        callDate: null,
+        fullTranscript: `Transcript ${i}`,
+        transcriptJson: {},
+        transcriptSplit: null,
+        createdAt: created,
+        updatedAt: created,
+      }))),
+      aISummary: table([{
+        id: 's1',
+        transcript: { ticker: 'AAPL', year: 2000, quarter: 1 },
+        analystType: 'Gemini',
+        content: 'Summary',
+        processingTime: 1200,
+        hasHiddenGoldmine: false,
+        hasBoringQuote: true,
+        hasSizePotential: false,
+        searchQuery: null,
+        createdAt: created,
+        updatedAt: created,
+      }]),
+      bookmarkedIdea: table([]),
+      passedIdea: table([]),
+      company: table([{
+        id: 'c1',
+        ticker: 'AAPL',
+        name: 'Apple Inc.',
+        sector: null,
+        industry: null,
+        marketCap: BigInt('3000000000000'),
+        isActive: true,
+        lastFetched: null,
+        createdAt: created,
+        updatedAt: created,
+      }]),
+      $transaction: jest.fn(),
+    },
+  };
+});
+
+const repository = {
+  fromDatabase: (row: Record<string, unknown>) => ({ ...row, source: 'database' }),
+  cachedMetadata: () => [],
+} as unknown as TranscriptRepository;
+
+describe('CorpusArchiveService', () => {
+  const service = new CorpusArchiveService(repository);
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'corpus-archive-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const exportTo = async (file: string) => {
+    const output = fs.createWriteStream(file);
+    return service.export(output);
+  };
+
+  it('streams every page into an archive that verifies', async () => {
+    const file = path.join(directory, 'corpus.ndjson.gz');
+    const manifest = await exportTo(file);
+
+    expect(manifest.counts).toEqual({ transcripts: 250, aiSummaries: 1, bookmarkedIdeas: 0, passedIdeas: 0, companies: 1 });
+    await expect(service.verify(file)).resolves.toEqual(manifest);
+
+    const lines = zlib.gunzipSync(fs.readFileSync(file)).toString('utf8').trim().split('\n');
+    expect(lines).toHaveLength(1 + 252 + 1);
+    expect(JSON.parse(lines[1])).toMatchObject({ section: 'transcripts', row: { ticker: 'AAPL', year: 2000, quarter: 1 } });
+    expect(JSON.parse(lines[251])).toMatchObject({ section: 'aiSummaries', row: { transcript: { ticker: 'AAPL', year: 2000, quarter: 1 } } });
+  });
+
+  it('rejects a tampered archive before writing anything', async () => {
+    const file = path.join(directory, 'corpus.ndjson.gz');
+    await exportTo(file);
+    const text = zlib.gunzipSync(fs.readFileSync(file)).toString('utf8').replace('Transcript 7"', 'Transcript 8"');
+
+    const report = service.import(Readable.from([text]), { mode: 'replace' });
+    await expect(report).rejects.toThrow(new CorpusArchiveError('Checksum mismatch in archive section "transcripts"'));
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects rows that do not match their section', async () => {
+    const file = path.join(directory, 'corpus.ndjson.gz');
+    await exportTo(file);
+    const text = zlib.gunzipSync(fs.readFileSync(file)).toString('utf8').replace('"quarter":2,', '"quarter":7,');
+
+    const input = new PassThrough();
+    input.end(zlib.gzipSync(text));
+    await expect(service.import(input, { mode: 'replace' })).rejects.toThrow(/line 3 \(transcripts\): quarter/);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects a truncated archive', async () => {
+    const file = path.join(directory, 'corpus.ndjson.gz');
+    await exportTo(file);
+    const data = fs.readFileSync(file);
+    fs.writeFileSync(file, data.subarray(0, data.length - 20));
+
+    await expect(service.verify(file)).rejects.toThrow(CorpusArchiveError);
+  });
+});
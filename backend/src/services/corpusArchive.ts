@@ -0,0 +1,880 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StringDecoder } from 'string_decoder';
+import zlib from 'zlib';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+import { TranscriptSplitSegment } from '@/types';
+import { TranscriptRepository } from './transcriptRepository';
+
+/**
+ * Portable export/import of a research corpus.
+ *
+ * An archive is gzipped NDJSON: a header line (format and version), one line
+ * per row tagged with its section (transcripts first, so the rows after them
+ * can resolve their transcript), and a trailing manifest with per-section
+ * counts and sha256 checksums. Rows that point at a transcript reference it
+ * by ticker/year/quarter rather than by UUID, so an archive can be imported
+ * into a database whose ids differ. Both directions stream, so the corpus is
+ * never held in memory.
+ */
+
+export const CORPUS_ARCHIVE_FORMAT = 'earnings-transcript-corpus';
+export const CORPUS_ARCHIVE_VERSION = 2;
+
+export type CorpusSection = 'transcripts' | 'aiSummaries' | 'bookmarkedIdeas' | 'passedIdeas' | 'companies';
+
+const SECTIONS: CorpusSection[] = ['transcripts', 'aiSummaries', 'bookmarkedIdeas', 'passedIdeas', 'companies'];
+
+export interface TranscriptRef {
+  ticker: string;
+  year: number;
+  quarter: number;
+}
+
+export interface ArchivedTranscript extends TranscriptRef {
+  companyName: string | null;
+  callDate: string | null;
+  fullTranscript: string;
+  transcriptJson: unknown;
+  transcriptSplit: TranscriptSplitSegment[] | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface ArchivedAISummary {
+  transcript: TranscriptRef;
+  analystType: string;
+  content: string;
+  processingTime: number;
+  hasHiddenGoldmine: boolean;
+  hasBoringQuote: boolean;
+  hasSizePotential: boolean;
+  searchQuery: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ArchivedIdea extends TranscriptRef {
+  companyName: string | null;
+  quarterDate: string | null;
+  thesis?: string; // Bookmarked ideas only
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ArchivedCompany {
+  ticker: string;
+  name: string;
+  sector: string | null;
+  industry: string | null;
+  marketCap: string | null; // BigInt as a decimal string
+  isActive: boolean;
+  lastFetched: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ArchivedRows {
+  transcripts: ArchivedTranscript;
+  aiSummaries: ArchivedAISummary;
+  bookmarkedIdeas: ArchivedIdea;
+  passedIdeas: ArchivedIdea;
+  companies: ArchivedCompany;
+}
+
+/**
+ * One row line of an archive
+ */
+type ArchiveLine = { [S in CorpusSection]: { section: S; row: ArchivedRows[S] } }[CorpusSection];
+
+export interface CorpusManifest {
+  format: typeof CORPUS_ARCHIVE_FORMAT;
+  version: number;
+  createdAt: string;
+  counts: Record<CorpusSection, number>;
+  checksums: Record<CorpusSection, string>; // sha256 of each section's row lines
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * How merge mode resolves a row that already exists (same ticker/year/quarter,
+ * transcript/analyst pair, or company ticker)
+ */
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'newer';
+
+export interface ImportOptions {
+  mode?: ImportMode;
+  conflictStrategy?: ImportConflictStrategy;
+  dryRun?: boolean;
+}
+
+export interface ImportSectionCounts {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  conflictStrategy: ImportConflictStrategy;
+  dryRun: boolean;
+  manifest: CorpusManifest;
+  sections: Record<CorpusSection, ImportSectionCounts>;
+  errors: string[];
+  durationMs: number;
+}
+
+export class CorpusArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorpusArchiveError';
+  }
+}
+
+const DATABASE_PAGE_SIZE = 100;
+const MAX_REPORTED_ERRORS = 100;
+const REPLACE_TIMEOUT_MS = 60 * 60 * 1000; // Replace runs in one transaction, however large the archive
+
+const transcriptRefSchema = z.object({
+  ticker: z.string().min(1).max(10),
+  year: z.number().int(),
+  quarter: z.number().int().min(1).max(4),
+});
+
+const timestamp = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+const rowSchemas: Record<CorpusSection, z.ZodTypeAny> = {
+  transcripts: transcriptRefSchema.extend({
+    companyName: z.string().nullable(),
+    callDate: timestamp.nullable(),
+    fullTranscript: z.string().min(1),
+    transcriptJson: z.unknown(),
+    transcriptSplit: z.array(z.object({ speaker: z.string(), text: z.string() }).passthrough()).nullable(),
+    createdAt: timestamp.nullable(),
+    updatedAt: timestamp.nullable(),
+  }),
+  aiSummaries: z.object({
+    transcript: transcriptRefSchema,
+    analystType: z.string().min(1).max(50),
+    content: z.string(),
+    processingTime: z.number().int(),
+    hasHiddenGoldmine: z.boolean(),
+    hasBoringQuote: z.boolean(),
+    hasSizePotential: z.boolean(),
+    searchQuery: z.string().nullable(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }),
+  bookmarkedIdeas: transcriptRefSchema.extend({
+    companyName: z.string().nullable(),
+    quarterDate: timestamp.nullable(),
+    thesis: z.string().optional(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }),
+  passedIdeas: transcriptRefSchema.extend({
+    companyName: z.string().nullable(),
+    quarterDate: timestamp.nullable(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }),
+  companies: z.object({
+    ticker: z.string().min(1).max(10),
+    name: z.string().min(1),
+    sector: z.string().nullable(),
+    industry: z.string().nullable(),
+    marketCap: z.string().regex(/^-?\d+$/).nullable(),
+    isActive: z.boolean(),
+    lastFetched: timestamp.nullable(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }),
+};
+
+export class CorpusArchiveService {
+  private repository: TranscriptRepository;
+
+  constructor(repository: TranscriptRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Stream a gzipped archive of the whole corpus (database plus cache-only transcripts) to `output`
+   */
+  async export(output: NodeJS.WritableStream): Promise<CorpusManifest> {
+    const manifest: CorpusManifest = {
+      format: CORPUS_ARCHIVE_FORMAT,
+      version: CORPUS_ARCHIVE_VERSION,
+      createdAt: new Date().toISOString(),
+      counts: {} as Record<CorpusSection, number>,
+      checksums: {} as Record<CorpusSection, string>,
+    };
+
+    await pipeline(Readable.from(this.archiveLines(manifest)), zlib.createGzip(), output);
+
+    logger.info('Corpus exported', { ...manifest.counts });
+    return manifest;
+  }
+
+  /**
+   * Import an archive (gzipped or plain NDJSON). The input is spooled to a
+   * temporary file and verified in full before anything is written.
+   * - merge: keep existing rows; conflicting rows are resolved with the conflict strategy
+   * - replace: in one transaction, delete the current corpus and load the archive
+   */
+  async import(input: NodeJS.ReadableStream, options: ImportOptions = {}): Promise<ImportReport> {
+    const file = path.join(os.tmpdir(), `corpus-import-${uuidv4()}`);
+    try {
+      await pipeline(input, fs.createWriteStream(file));
+      return await this.importFile(file, options);
+    } finally {
+      await fs.promises.rm(file, { force: true });
+    }
+  }
+
+  /**
+   * Check format, version, row shapes and the manifest's per-section counts and checksums
+   */
+  async verify(file: string): Promise<CorpusManifest> {
+    let header = false;
+    let manifest: CorpusManifest | null = null;
+    let sectionIndex = 0;
+    const counts = Object.fromEntries(SECTIONS.map(section => [section, 0])) as Record<CorpusSection, number>;
+    const hashes = Object.fromEntries(SECTIONS.map(section => [section, crypto.createHash('sha256')])) as Record<CorpusSection, crypto.Hash>;
+
+    let lineNumber = 0;
+    for await (const line of this.readLines(file)) {
+      lineNumber++;
+      if (manifest) {
+        throw new CorpusArchiveError(`Archive line ${lineNumber}: unexpected content after the manifest`);
+      }
+
+      let value: { format?: unknown; version?: unknown; section?: unknown; row?: unknown; manifest?: CorpusManifest };
+      try {
+        value = JSON.parse(line);
+      } catch {
+        throw new CorpusArchiveError(`Archive line ${lineNumber} is not valid JSON`);
+      }
+
+      if (!header) {
+        if (value?.format !== CORPUS_ARCHIVE_FORMAT) {
+          throw new CorpusArchiveError('Not a corpus archive (missing or unknown format)');
+        }
+        if (typeof value.version !== 'number' || value.version !== CORPUS_ARCHIVE_VERSION) {
+          throw new CorpusArchiveError(`Archive version ${value.version} is not supported (expected ${CORPUS_ARCHIVE_VERSION})`);
+        }
+        header = true;
+        continue;
+      }
+
+      if (value?.manifest) {
+        manifest = value.manifest;
+        continue;
+      }
+
+      const section = value?.section as CorpusSection;
+      const index = SECTIONS.indexOf(section);
+      if (index === -1) {
+        throw new CorpusArchiveError(`Archive line ${lineNumber}: unknown section "${String(value?.section)}"`);
+      }
+      if (index < sectionIndex) {
+        throw new CorpusArchiveError(`Archive line ${lineNumber}: section "${section}" is out of order`);
+      }
+      sectionIndex = index;
+
+      const parsed = rowSchemas[section].safeParse(value.row);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new CorpusArchiveError(`Archive line ${lineNumber} (${section}): ${issue.path.join('.') || 'row'} ${issue.message}`);
+      }
+
+      counts[section]++;
+      hashes[section].update(`${line}\n`);
+    }
+
+    if (!header) {
+      throw new CorpusArchiveError('Archive is empty');
+    }
+    if (!manifest) {
+      throw new CorpusArchiveError('Archive is truncated (manifest missing)');
+    }
+    for (const section of SECTIONS) {
+      if (manifest.counts?.[section] !== counts[section]) {
+        throw new CorpusArchiveError(`Archive section "${section}" has ${counts[section]} rows, manifest says ${manifest.counts?.[section]}`);
+      }
+      if (manifest.checksums?.[section] !== hashes[section].digest('hex')) {
+        throw new CorpusArchiveError(`Checksum mismatch in archive section "${section}"`);
+      }
+    }
+
+    return manifest;
+  }
+
+  private async importFile(file: string, options: ImportOptions): Promise<ImportReport> {
+    const started = Date.now();
+    const mode = options.mode ?? 'merge';
+    const conflictStrategy = options.conflictStrategy ?? 'skip';
+    const dryRun = options.dryRun ?? false;
+
+    const manifest = await this.verify(file);
+
+    const report: ImportReport = {
+      mode,
+      conflictStrategy,
+      dryRun,
+      manifest,
+      sections: Object.fromEntries(
+        SECTIONS.map(section => [section, { created: 0, updated: 0, skipped: 0, failed: 0 }])
+      ) as Record<CorpusSection, ImportSectionCounts>,
+      errors: [],
+      durationMs: 0,
+    };
+
+    logger.info('Importing corpus archive', { mode, conflictStrategy, dryRun, ...manifest.counts });
+
+    if (mode === 'replace' && !dryRun) {
+      // All or nothing: a failed row rolls back the delete as well
+      const transcriptIds = await prisma.$transaction(async tx => {
+        await this.clearDatabase(tx);
+        return this.load(file, tx, report, { mode, conflictStrategy, dryRun });
+      }, { timeout: REPLACE_TIMEOUT_MS });
+      await this.replaceCache(file, transcriptIds);
+    } else {
+      await this.load(file, prisma, report, { mode, conflictStrategy, dryRun });
+    }
+
+    report.durationMs = Date.now() - started;
+    logger.info('Corpus archive imported', {
+      mode,
+      conflictStrategy,
+      dryRun,
+      durationMs: report.durationMs,
+      failed: SECTIONS.reduce((sum, section) => sum + report.sections[section].failed, 0),
+    });
+
+    return report;
+  }
+
+  /**
+   * Write every row of a verified archive. In replace mode `client` is the
+   * transaction and any failure aborts the import; merge mode records failed
+   * rows and carries on. Returns the database id of each transcript.
+   */
+  private async load(
+    file: string,
+    client: Prisma.TransactionClient,
+    report: ImportReport,
+    options: Required<ImportOptions>
+  ): Promise<Map<string, string>> {
+    const { conflictStrategy, dryRun } = options;
+    // Only merge mode looks for existing rows; in replace mode everything in the archive is written
+    const merge = options.mode === 'merge';
+    const replacing = options.mode === 'replace' && !dryRun;
+
+    const shouldWrite = (existingUpdatedAt: Date | null | undefined, incomingUpdatedAt: string | null): boolean => {
+      if (existingUpdatedAt === undefined) return true;
+      if (conflictStrategy === 'overwrite') return true;
+      if (conflictStrategy === 'skip') return false;
+      return !!incomingUpdatedAt && (!existingUpdatedAt || new Date(incomingUpdatedAt) > existingUpdatedAt);
+    };
+
+    const transcriptIds = new Map<string, string>();
+    const resolveTranscriptId = async (ref: TranscriptRef): Promise<string | null> => {
+      const key = this.refKey(ref);
+      if (!transcriptIds.has(key)) {
+        const row = await client.transcript.findUnique({
+          where: { ticker_year_quarter: this.ref(ref) },
+          select: { id: true },
+        });
+        if (row) transcriptIds.set(key, row.id);
+      }
+      return transcriptIds.get(key) ?? null;
+    };
+
+    const fail = (section: CorpusSection, label: string, error: unknown): void => {
+      if (replacing) throw error;
+      report.sections[section].failed++;
+      this.pushError(report, `${section} ${label}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    };
+
+    for await (const line of this.readArchiveRows(file)) {
+      const counts = report.sections[line.section];
+
+      if (line.section === 'transcripts') {
+        const transcript = line.row;
+        const ref = this.ref(transcript);
+        try {
+          const existing = merge
+            ? await client.transcript.findUnique({
+              where: { ticker_year_quarter: ref },
+              select: { id: true, updatedAt: true },
+            })
+            : null;
+
+          if (existing) transcriptIds.set(this.refKey(ref), existing.id);
+          if (!shouldWrite(existing ? existing.updatedAt : undefined, transcript.updatedAt)) {
+            counts.skipped++;
+            continue;
+          }
+          existing ? counts.updated++ : counts.created++;
+          if (dryRun) continue;
+
+          const id = replacing
+            ? await this.createTranscript(client, transcript)
+            : await this.saveTranscript(transcript);
+          transcriptIds.set(this.refKey(ref), id);
+        } catch (error) {
+          fail('transcripts', this.refKey(ref), error);
+        }
+      } else if (line.section === 'aiSummaries') {
+        const summary = line.row;
+        try {
+          const transcriptId = await resolveTranscriptId(summary.transcript);
+          if (!transcriptId) {
+            if (dryRun) {
+              counts.created++;
+              continue;
+            }
+            throw new Error('Transcript not found');
+          }
+
+          const where = { transcriptId_analystType: { transcriptId, analystType: summary.analystType } };
+          const existing = merge ? await client.aISummary.findUnique({ where, select: { updatedAt: true } }) : null;
+          if (!shouldWrite(existing ? existing.updatedAt : undefined, summary.updatedAt)) {
+            counts.skipped++;
+            continue;
+          }
+          existing ? counts.updated++ : counts.created++;
+          if (dryRun) continue;
+
+          const data = {
+            content: summary.content,
+            processingTime: summary.processingTime,
+            hasHiddenGoldmine: summary.hasHiddenGoldmine,
+            hasBoringQuote: summary.hasBoringQuote,
+            hasSizePotential: summary.hasSizePotential,
+            searchQuery: summary.searchQuery,
+          };
+          await client.aISummary.upsert({
+            where,
+            update: data,
+            create: { ...data, transcriptId, analystType: summary.analystType, createdAt: new Date(summary.createdAt) },
+          });
+        } catch (error) {
+          fail('aiSummaries', `${this.refKey(summary.transcript)} (${summary.analystType})`, error);
+        }
+      } else if (line.section === 'bookmarkedIdeas' || line.section === 'passedIdeas') {
+        const idea = line.row;
+        const ref = this.ref(idea);
+        const where = { ticker_year_quarter: ref };
+        try {
+          const transcriptId = await resolveTranscriptId(ref);
+          if (!transcriptId) {
+            if (dryRun) {
+              counts.created++;
+              continue;
+            }
+            throw new Error('Transcript not found');
+          }
+
+          const select = { updatedAt: true };
+          const existing = !merge
+            ? null
+            : line.section === 'bookmarkedIdeas'
+              ? await client.bookmarkedIdea.findUnique({ where, select })
+              : await client.passedIdea.findUnique({ where, select });
+          if (!shouldWrite(existing ? existing.updatedAt : undefined, idea.updatedAt)) {
+            counts.skipped++;
+            continue;
+          }
+          existing ? counts.updated++ : counts.created++;
+          if (dryRun) continue;
+
+          const data = {
+            companyName: idea.companyName,
+            quarterDate: idea.quarterDate ? new Date(idea.quarterDate) : null,
+            transcriptId,
+          };
+          const createdAt = new Date(idea.createdAt);
+          if (line.section === 'bookmarkedIdeas') {
+            const thesis = idea.thesis ?? '';
+            await client.bookmarkedIdea.upsert({
+              where,
+              update: { ...data, thesis },
+              create: { ...data, ...ref, thesis, createdAt },
+            });
+          } else {
+            await client.passedIdea.upsert({
+              where,
+              update: data,
+              create: { ...data, ...ref, createdAt },
+            });
+          }
+        } catch (error) {
+          fail(line.section, this.refKey(ref), error);
+        }
+      } else {
+        const company = line.row;
+        const ticker = company.ticker.toUpperCase();
+        try {
+          const existing = merge
+            ? await client.company.findUnique({ where: { ticker }, select: { updatedAt: true } })
+            : null;
+          if (!shouldWrite(existing ? existing.updatedAt : undefined, company.updatedAt)) {
+            counts.skipped++;
+            continue;
+          }
+          existing ? counts.updated++ : counts.created++;
+          if (dryRun) continue;
+
+          const data = {
+            name: company.name,
+            sector: company.sector,
+            industry: company.industry,
+            marketCap: company.marketCap !== null ? BigInt(company.marketCap) : null,
+            isActive: company.isActive,
+            lastFetched: company.lastFetched ? new Date(company.lastFetched) : null,
+          };
+          await client.company.upsert({
+            where: { ticker },
+            update: data,
+            create: { ...data, ticker, createdAt: new Date(company.createdAt) },
+          });
+        } catch (error) {
+          fail('companies', ticker, error);
+        }
+      }
+    }
+
+    return transcriptIds;
+  }
+
+  /**
+   * Merge mode: save through the repository, which also updates the cache and revision history
+   */
+  private async saveTranscript(transcript: ArchivedTranscript): Promise<string> {
+    const saved = await this.repository.save({
+      ...this.ref(transcript),
+      companyName: transcript.companyName,
+      callDate: transcript.callDate,
+      fullTranscript: transcript.fullTranscript,
+      transcriptJson: transcript.transcriptJson,
+      transcriptSplit: transcript.transcriptSplit,
+      source: 'import',
+    });
+    if (saved.storage !== 'database') throw new Error('Database write failed');
+    return saved.id;
+  }
+
+  /**
+   * Replace mode: insert inside the transaction; the cache is rebuilt once it commits
+   */
+  private async createTranscript(client: Prisma.TransactionClient, transcript: ArchivedTranscript): Promise<string> {
+    const ref = this.ref(transcript);
+    const callDate = transcript.callDate ? new Date(transcript.callDate) : null;
+    const calendarPeriod = this.repository.getCalendarPeriod(ref.ticker, ref.year, ref.quarter, callDate);
+    const created = await client.transcript.create({
+      data: {
+        ...ref,
+        companyName: transcript.companyName,
+        callDate,
+        calendarYear: calendarPeriod.year,
+        calendarQuarter: calendarPeriod.quarter,
+        fullTranscript: transcript.fullTranscript,
+        transcriptJson: (transcript.transcriptJson ?? {}) as Prisma.InputJsonValue,
+        transcriptSplit: transcript.transcriptSplit ? transcript.transcriptSplit as unknown as Prisma.InputJsonValue : undefined,
+        ...(transcript.createdAt ? { createdAt: new Date(transcript.createdAt) } : {}),
+      },
+      select: { id: true },
+    });
+    return created.id;
+  }
+
+  /**
+   * Remove the current corpus (replace mode). Summaries, ideas and revisions cascade with transcripts.
+   */
+  private async clearDatabase(client: Prisma.TransactionClient): Promise<void> {
+    const transcripts = await client.transcript.deleteMany({});
+    const companies = await client.company.deleteMany({});
+    logger.warn('Corpus cleared for replace import', { transcripts: transcripts.count, companies: companies.count });
+  }
+
+  /**
+   * After a committed replace, make the cache hold exactly the imported transcripts
+   */
+  private async replaceCache(file: string, transcriptIds: Map<string, string>): Promise<void> {
+    let removed = 0;
+    for (const meta of this.repository.cachedMetadata()) {
+      this.repository.deleteCached(meta.key);
+      removed++;
+    }
+
+    let written = 0;
+    for await (const line of this.readArchiveRows(file)) {
+      if (line.section !== 'transcripts') break; // Transcripts come first
+      const transcript = line.row;
+      const ref = this.ref(transcript);
+      this.repository.writeCache({
+        ...this.repository.fromCache({ ...transcript, ...ref }),
+        databaseId: transcriptIds.get(this.refKey(ref)),
+      });
+      written++;
+    }
+
+    logger.info('Transcript cache replaced from archive', { removed, written });
+  }
+
+  /**
+   * Header, row lines and manifest of an export; counts and checksums are filled in as rows go by
+   */
+  private async *archiveLines(manifest: CorpusManifest): AsyncGenerator<string> {
+    yield `${JSON.stringify({ format: manifest.format, version: manifest.version, createdAt: manifest.createdAt })}\n`;
+
+    for (const section of SECTIONS) {
+      const hash = crypto.createHash('sha256');
+      let count = 0;
+      for await (const row of this.exportRows(section)) {
+        const line = `${JSON.stringify({ section, row })}\n`;
+        hash.update(line);
+        count++;
+        yield line;
+      }
+      manifest.counts[section] = count;
+      manifest.checksums[section] = hash.digest('hex');
+    }
+
+    yield `${JSON.stringify({ manifest })}\n`;
+  }
+
+  private exportRows(section: CorpusSection): AsyncGenerator<unknown> {
+    switch (section) {
+      case 'transcripts':
+        return this.exportTranscripts();
+      case 'aiSummaries':
+        return this.exportAISummaries();
+      case 'bookmarkedIdeas':
+        return this.exportIdeas('bookmarkedIdeas');
+      case 'passedIdeas':
+        return this.exportIdeas('passedIdeas');
+      case 'companies':
+        return this.exportCompanies();
+    }
+  }
+
+  private async *exportTranscripts(): AsyncGenerator<ArchivedTranscript> {
+    const exported = new Set<string>();
+
+    for (let cursor: string | undefined; ;) {
+      const rows = await prisma.transcript.findMany(this.page(cursor));
+      if (rows.length === 0) break;
+      cursor = rows[rows.length - 1].id;
+
+      for (const row of rows) {
+        const transcript = this.repository.fromDatabase(row);
+        exported.add(this.refKey(transcript));
+        yield this.toArchivedTranscript(transcript);
+      }
+    }
+
+    // Transcripts that only ever made it into the cache
+    for (const meta of this.repository.cachedMetadata()) {
+      if (!meta.ticker || !meta.year || !meta.quarter) continue;
+      if (exported.has(this.refKey({ ticker: meta.ticker, year: meta.year, quarter: meta.quarter }))) continue;
+
+      const record = this.repository.getCachedRecord(meta.key);
+      if (typeof record?.fullTranscript !== 'string') continue;
+
+      const transcript = this.repository.fromCache(record);
+      exported.add(this.refKey(transcript));
+      yield this.toArchivedTranscript(transcript);
+    }
+  }
+
+  private async *exportAISummaries(): AsyncGenerator<ArchivedAISummary> {
+    for (let cursor: string | undefined; ;) {
+      const summaries = await prisma.aISummary.findMany({
+        ...this.page(cursor),
+        include: { transcript: { select: { ticker: true, year: true, quarter: true } } },
+      });
+      if (summaries.length === 0) break;
+      cursor = summaries[summaries.length - 1].id;
+
+      for (const summary of summaries) {
+        yield {
+          transcript: this.ref(summary.transcript),
+          analystType: summary.analystType,
+          content: summary.content,
+          processingTime: summary.processingTime,
+          hasHiddenGoldmine: summary.hasHiddenGoldmine,
+          hasBoringQuote: summary.hasBoringQuote,
+          hasSizePotential: summary.hasSizePotential,
+          searchQuery: summary.searchQuery,
+          createdAt: summary.createdAt.toISOString(),
+          updatedAt: summary.updatedAt.toISOString(),
+        };
+      }
+    }
+  }
+
+  private async *exportIdeas(section: 'bookmarkedIdeas' | 'passedIdeas'): AsyncGenerator<ArchivedIdea> {
+    for (let cursor: string | undefined; ;) {
+      const ideas: Array<{
+        id: string;
+        ticker: string;
+        year: number;
+        quarter: number;
+        companyName: string | null;
+        quarterDate: Date | null;
+        thesis?: string;
+        createdAt: Date;
+        updatedAt: Date;
+      }> = section === 'bookmarkedIdeas'
+        ? await prisma.bookmarkedIdea.findMany(this.page(cursor))
+        : await prisma.passedIdea.findMany(this.page(cursor));
+      if (ideas.length === 0) break;
+      cursor = ideas[ideas.length - 1].id;
+
+      for (const idea of ideas) {
+        yield {
+          ...this.ref(idea),
+          companyName: idea.companyName,
+          quarterDate: idea.quarterDate?.toISOString() ?? null,
+          ...(section === 'bookmarkedIdeas' ? { thesis: idea.thesis } : {}),
+          createdAt: idea.createdAt.toISOString(),
+          updatedAt: idea.updatedAt.toISOString(),
+        };
+      }
+    }
+  }
+
+  private async *exportCompanies(): AsyncGenerator<ArchivedCompany> {
+    for (let cursor: string | undefined; ;) {
+      const companies = await prisma.company.findMany(this.page(cursor));
+      if (companies.length === 0) break;
+      cursor = companies[companies.length - 1].id;
+
+      for (const company of companies) {
+        yield {
+          ticker: company.ticker.toUpperCase(),
+          name: company.name,
+          sector: company.sector,
+          industry: company.industry,
+          marketCap: company.marketCap !== null ? company.marketCap.toString() : null,
+          isActive: company.isActive,
+          lastFetched: company.lastFetched?.toISOString() ?? null,
+          createdAt: company.createdAt.toISOString(),
+          updatedAt: company.updatedAt.toISOString(),
+        };
+      }
+    }
+  }
+
+  /**
+   * Keyset pagination by id
+   */
+  private page(cursor: string | undefined) {
+    return {
+      orderBy: { id: 'asc' as const },
+      take: DATABASE_PAGE_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    };
+  }
+
+  /**
+   * Row lines of an archive that has already been verified
+   */
+  private async *readArchiveRows(file: string): AsyncGenerator<ArchiveLine> {
+    for await (const line of this.readLines(file)) {
+      const value = JSON.parse(line);
+      if (value.section) yield value as ArchiveLine;
+    }
+  }
+
+  /**
+   * Non-empty lines of an archive file, decompressing it if gzipped
+   */
+  private async *readLines(file: string): AsyncGenerator<string> {
+    const handle = await fs.promises.open(file, 'r');
+    const magic = Buffer.alloc(2);
+    try {
+      await handle.read(magic, 0, 2, 0);
+    } finally {
+      await handle.close();
+    }
+
+    const raw = fs.createReadStream(file);
+    const input = magic[0] === 0x1f && magic[1] === 0x8b ? raw.pipe(zlib.createGunzip()) : raw;
+    if (input !== raw) raw.on('error', error => input.destroy(error));
+
+    const decoder = new StringDecoder('utf8');
+    let partial = '';
+    try {
+      for await (const chunk of input) {
+        const text = decoder.write(chunk);
+        let start = 0;
+        for (let end = text.indexOf('\n'); end !== -1; end = text.indexOf('\n', start)) {
+          const line = partial + text.slice(start, end);
+          partial = '';
+          start = end + 1;
+          if (line.trim()) yield line;
+        }
+        partial += text.slice(start);
+      }
+    } catch (error) {
+      throw new CorpusArchiveError(`Archive could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      input.destroy();
+    }
+
+    partial += decoder.end();
+    if (partial.trim()) yield partial;
+  }
+
+  private toArchivedTranscript(transcript: {
+    ticker: string;
+    year: number;
+    quarter: number;
+    companyName: string | null;
+    callDate: Date | string | null;
+    fullTranscript: string;
+    transcriptJson: unknown;
+    transcriptSplit: TranscriptSplitSegment[] | null;
+    createdAt: Date | null;
+    updatedAt: Date | null;
+  }): ArchivedTranscript {
+    return {
+      ...this.ref(transcript),
+      companyName: transcript.companyName,
+      callDate: transcript.callDate ? new Date(transcript.callDate).toISOString() : null,
+      fullTranscript: transcript.fullTranscript,
+      transcriptJson: transcript.transcriptJson ?? {},
+      transcriptSplit: transcript.transcriptSplit,
+      createdAt: transcript.createdAt?.toISOString() ?? null,
+      updatedAt: transcript.updatedAt?.toISOString() ?? null,
+    };
+  }
+
+  private ref(value: TranscriptRef): TranscriptRef {
+    return { ticker: value.ticker.toUpperCase(), year: value.year, quarter: value.quarter };
+  }
+
+  private refKey(value: TranscriptRef): string {
+    return `${value.ticker.toUpperCase()}-${value.year}-Q${value.quarter}`;
+  }
+
+  private pushError(report: ImportReport, message: string): void {
+    if (report.errors.length < MAX_REPORTED_ERRORS) {
+      report.errors.push(message);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { CallPrediction, EarningsCalendarService } from './earningsCalendar';
+import { FiscalCalendarService } from './fiscalCalendar';
+import { TranscriptRepository } from './transcriptRepository';
+
+jest.mock('@/config/database', () => ({ prisma: {} }));
+
+type Call = { ticker: string; year: number; quarter: number; callDate: Date };
+
+const calls = (ticker: string, dates: Record<string, string>): Call[] =>
+  Object.entries(dates).map(([label, date]) => {
+    const [year, quarter] = label.split('Q').map(Number);
+    return { ticker, year, quarter, callDate: new Date(`${date}T21:00:00Z`) };
+  });
+
+function service(stored: Call[]): EarningsCalendarService {
+  return new EarningsCalendarService(
+    {
+      findCallDates: async () => stored,
+      getCachedMetadata: () => ({ companyName: 'Acme Corp' }),
+    } as unknown as TranscriptRepository,
+    {
+      describePeriod: (_ticker: string, year: number, quarter: number) => ({ fiscalLabel: `FY${year} Q${quarter}` }),
+    } as unknown as FiscalCalendarService
+  );
+}
+
+// Two years of calls on the same weekday: the next one follows last year's by 52 weeks
+const REGULAR = calls('ACME', {
+  '2023Q1': '2023-02-02',
+  '2023Q2': '2023-05-04',
+  '2023Q3': '2023-08-03',
+  '2023Q4': '2023-11-02',
+  '2024Q1': '2024-02-01',
+  '2024Q2': '2024-05-02',
+});
+
+describe('EarningsCalendarService.predict', () => {
+  it('dates the next call from the same quarter a year earlier', async () => {
+    const [prediction] = await service(REGULAR).predict({}, new Date('2024-07-01T12:00:00Z'));
+    expect(prediction).toMatchObject({
+      ticker: 'ACME',
+      companyName: 'Acme Corp',
+      year: 2024,
+      quarter: 3,
+      label: 'FY2024 Q3',
+      expectedDate: '2024-08-01',
+      windowStart: '2024-07-29', // Consistent drift: the narrowest window
+      windowEnd: '2024-08-04',
+      basis: 'year_over_year',
+      confidence: 'high',
+      status: 'upcoming',
+      lastCall: { year: 2024, quarter: 2, date: '2024-05-02' },
+      callCount: 6,
+    });
+  });
+
+  it('falls back to the usual spacing without last year\'s call', async () => {
+    const [prediction] = await service(calls('ACME', { '2024Q1': '2024-02-01', '2024Q2': '2024-05-02', '2024Q3': '2024-08-01' }))
+      .predict({}, new Date('2024-09-01T12:00:00Z'));
+    expect(prediction).toMatchObject({
+      quarter: 4,
+      expectedDate: '2024-10-31',
+      windowStart: '2024-10-26',
+      windowEnd: '2024-11-05',
+      basis: 'spacing',
+      confidence: 'low',
+    });
+  });
+
+  it('widens the window with irregular spacing, up to the maximum', async () => {
+    const [prediction] = await service(calls('ACME', { '2024Q1': '2024-01-01', '2024Q2': '2024-03-11', '2024Q3': '2024-06-29' }))
+      .predict({}, new Date('2024-07-01T12:00:00Z'));
+    expect(prediction).toMatchObject({ expectedDate: '2024-09-27', windowStart: '2024-09-06', windowEnd: '2024-10-18' });
+  });
+
+  it.each([
+    ['2024-07-28', 'upcoming'],
+    ['2024-07-29', 'in_window'],
+    ['2024-08-04', 'in_window'],
+    ['2024-08-05', 'overdue'],
+  ])('on %s the call is %s', async (today, status) => {
+    const [prediction] = await service(REGULAR).predict({}, new Date(`${today}T12:00:00Z`));
+    expect(prediction.status).toBe(status);
+  });
+
+  it('needs two quarters with call dates', async () => {
+    expect(await service(calls('ACME', { '2024Q2': '2024-05-02' })).predict()).toEqual([]);
+  });
+
+  it('keeps windows overlapping the horizon, and closed ones only when asked', async () => {
+    const calendar = service(REGULAR);
+    const now = new Date('2024-08-10T12:00:00Z');
+    expect(await calendar.predict({ days: 30 }, now)).toEqual([]);
+    expect(await calendar.predict({ days: 30, includeOverdue: true }, now)).toHaveLength(1);
+    expect(await calendar.predict({ days: 30 }, new Date('2024-07-10T12:00:00Z'))).toHaveLength(1);
+  });
+});
+
+describe('EarningsCalendarService.toICalendar', () => {
+  const prediction: CallPrediction = {
+    ticker: 'SOGN',
+    companyName: 'Société Générale, S.A.; Paris\\France',
+    year: 2024,
+    quarter: 3,
+    label: 'FY2024 Q3',
+    expectedDate: '2024-08-01',
+    windowStart: '2024-07-29',
+    windowEnd: '2024-08-04',
+    basis: 'year_over_year',
+    confidence: 'high',
+    status: 'upcoming',
+    lastCall: { year: 2024, quarter: 2, date: '2024-05-02' },
+    callCount: 6,
+  };
+
+  const ics = service([]).toICalendar([prediction], new Date('2024-07-01T12:34:56.789Z'));
+  const lines = ics.split('\r\n');
+  const unfolded = ics.replace(/\r\n /g, '').split('\r\n');
+
+  it('writes one all-day event per prediction', () => {
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(unfolded).toEqual(expect.arrayContaining([
+      'UID:SOGN-2024-Q3@earnings-transcript-search',
+      'DTSTAMP:20240701T123456Z',
+      'DTSTART;VALUE=DATE:20240801',
+      'DTEND;VALUE=DATE:20240802',
+    ]));
+  });
+
+  it('escapes backslashes, semicolons and commas in text values', () => {
+    expect(unfolded).toContain('SUMMARY:SOGN (Société Générale\\, S.A.\\; Paris\\\\France) FY2024 Q3 earnings call (expected)');
+  });
+
+  it('folds lines at 75 octets, counting multi-byte characters', () => {
+    expect(lines.length).toBeGreaterThan(unfolded.length);
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(unfolded.find(line => line.startsWith('DESCRIPTION:'))).toBe(
+      'DESCRIPTION:Expected between 2024-07-29 and 2024-08-04 (high confidence\\, same quarter last year). Last call: 2024-05-02.'
+    );
+  });
+});
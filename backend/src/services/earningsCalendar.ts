@@ -0,0 +1,249 @@
+import { getNextQuarter } from './quarterCalculator';
+import { FiscalCalendarService } from './fiscalCalendar';
+import { TranscriptRepository } from './transcriptRepository';
+
+/**
+ * Predicted earnings call dates.
+ *
+ * The next call for a ticker is the quarter after its newest stored
+ * transcript. Its date is taken from the same quarter a year earlier plus the
+ * ticker's usual year-over-year drift (companies tend to keep the weekday),
+ * or, without that call, from the usual spacing between calls. The window
+ * around it widens with how irregular the history is.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_DAYS = 364; // Same weekday a year later
+const QUARTER_SPACING = { min: 60, max: 120 }; // Gaps outside this are missed quarters or duplicates
+const YOY_WINDOW_DAYS = { min: 3, max: 14 };
+const SPACING_WINDOW_DAYS = { min: 5, max: 21 };
+const CALENDAR_PRODUCT_ID = '-//earnings-transcript-search//Predicted earnings calls//EN';
+
+export type PredictionStatus = 'upcoming' | 'in_window' | 'overdue';
+
+export interface CallPrediction {
+  ticker: string;
+  companyName: string | null;
+  year: number; // Fiscal year/quarter of the expected call
+  quarter: number;
+  label: string; // Fiscal label, e.g. "FY2027 Q3"
+  expectedDate: string; // YYYY-MM-DD
+  windowStart: string;
+  windowEnd: string;
+  basis: 'year_over_year' | 'spacing';
+  confidence: 'high' | 'medium' | 'low';
+  status: PredictionStatus;
+  lastCall: { year: number; quarter: number; date: string };
+  callCount: number;
+}
+
+export interface PredictionFilter {
+  tickers?: string[];
+  days?: number; // Only windows overlapping the next N days
+  includeOverdue?: boolean; // With `days`: also windows that closed without a transcript
+}
+
+export class EarningsCalendarService {
+  private repository: TranscriptRepository;
+  private fiscalCalendars: FiscalCalendarService;
+
+  constructor(repository: TranscriptRepository, fiscalCalendars: FiscalCalendarService) {
+    this.repository = repository;
+    this.fiscalCalendars = fiscalCalendars;
+  }
+
+  /**
+   * Next expected call per ticker, soonest first
+   */
+  async predict(filter: PredictionFilter = {}, now: Date = new Date()): Promise<CallPrediction[]> {
+    const calls = await this.repository.findCallDates(filter.tickers);
+    const byTicker = new Map<string, typeof calls>();
+    for (const call of calls) {
+      const list = byTicker.get(call.ticker) ?? [];
+      list.push(call);
+      byTicker.set(call.ticker, list);
+    }
+
+    const today = startOfDay(now);
+    const horizon = filter.days !== undefined ? today + filter.days * DAY_MS : null;
+    const predictions: CallPrediction[] = [];
+    for (const [ticker, tickerCalls] of byTicker) {
+      const prediction = this.predictTicker(ticker, tickerCalls, today);
+      if (!prediction) continue;
+
+      if (horizon !== null) {
+        const overlaps = Date.parse(prediction.windowStart) <= horizon && Date.parse(prediction.windowEnd) >= today;
+        if (!overlaps && !(filter.includeOverdue && prediction.status === 'overdue')) continue;
+      }
+      predictions.push(prediction);
+    }
+
+    return predictions.sort((a, b) => a.expectedDate.localeCompare(b.expectedDate) || a.ticker.localeCompare(b.ticker));
+  }
+
+  /**
+   * Whether a ticker is worth probing now: its window is open or has passed,
+   * or there isn't enough history to predict it
+   */
+  isDue(prediction: CallPrediction | undefined): boolean {
+    return !prediction || prediction.status !== 'upcoming';
+  }
+
+  /**
+   * iCalendar feed with one all-day event per prediction
+   */
+  toICalendar(predictions: CallPrediction[], now: Date = new Date()): string {
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${CALENDAR_PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'X-WR-CALNAME:Predicted earnings calls',
+    ];
+
+    for (const prediction of predictions) {
+      const name = prediction.companyName ? `${prediction.ticker} (${prediction.companyName})` : prediction.ticker;
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${prediction.ticker}-${prediction.year}-Q${prediction.quarter}@earnings-transcript-search`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${prediction.expectedDate.replace(/-/g, '')}`,
+        `DTEND;VALUE=DATE:${toDateString(Date.parse(prediction.expectedDate) + DAY_MS).replace(/-/g, '')}`,
+        `SUMMARY:${escapeText(`${name} ${prediction.label} earnings call (expected)`)}`,
+        `DESCRIPTION:${escapeText(
+          `Expected between ${prediction.windowStart} and ${prediction.windowEnd} (${prediction.confidence} confidence, `
+          + `${prediction.basis === 'year_over_year' ? 'same quarter last year' : 'usual spacing between calls'}). `
+          + `Last call: ${prediction.lastCall.date}.`
+        )}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  private predictTicker(
+    ticker: string,
+    calls: Array<{ year: number; quarter: number; callDate: Date }>,
+    today: number
+  ): CallPrediction | null {
+    const byQuarter = new Map<string, number>();
+    for (const call of calls) {
+      byQuarter.set(`${call.year}-${call.quarter}`, startOfDay(call.callDate));
+    }
+    if (byQuarter.size < 2) return null;
+
+    const sorted = Array.from(byQuarter, ([key, day]) => {
+      const [year, quarter] = key.split('-').map(Number);
+      return { year, quarter, day };
+    }).sort((a, b) => a.year - b.year || a.quarter - b.quarter);
+    const last = sorted[sorted.length - 1];
+    const next = getNextQuarter(last);
+
+    // Drift between each quarter's call and the same quarter's call a year earlier
+    const yearOverYear = sorted
+      .map(call => {
+        const previous = byQuarter.get(`${call.year - 1}-${call.quarter}`);
+        return previous === undefined ? null : Math.round((call.day - previous) / DAY_MS);
+      })
+      .filter((days): days is number => days !== null && Math.abs(days - YEAR_DAYS) <= 35);
+    const spacing = sorted.slice(1)
+      .map((call, index) => Math.round((call.day - sorted[index].day) / DAY_MS))
+      .filter(days => days >= QUARTER_SPACING.min && days <= QUARTER_SPACING.max);
+
+    const sameQuarterLastYear = byQuarter.get(`${next.year - 1}-${next.quarter}`);
+    let expected: number;
+    let halfWidth: number;
+    let basis: CallPrediction['basis'];
+    let confidence: CallPrediction['confidence'];
+
+    if (sameQuarterLastYear !== undefined) {
+      const drift = yearOverYear.length > 0 ? median(yearOverYear) : YEAR_DAYS;
+      expected = sameQuarterLastYear + drift * DAY_MS;
+      halfWidth = clamp(yearOverYear.length > 1 ? 2 * medianDeviation(yearOverYear) + 2 : 7, YOY_WINDOW_DAYS);
+      basis = 'year_over_year';
+      confidence = yearOverYear.length >= 2 ? 'high' : 'medium';
+    } else if (spacing.length > 0) {
+      expected = last.day + median(spacing) * DAY_MS;
+      halfWidth = clamp(2 * medianDeviation(spacing) + 5, SPACING_WINDOW_DAYS);
+      basis = 'spacing';
+      confidence = spacing.length >= 3 ? 'medium' : 'low';
+    } else {
+      return null;
+    }
+
+    const windowStart = expected - halfWidth * DAY_MS;
+    const windowEnd = expected + halfWidth * DAY_MS;
+    const period = this.fiscalCalendars.describePeriod(ticker, next.year, next.quarter);
+    const cached = this.repository.getCachedMetadata(ticker, last.year, last.quarter);
+
+    return {
+      ticker,
+      companyName: cached?.companyName ?? null,
+      year: next.year,
+      quarter: next.quarter,
+      label: period.fiscalLabel,
+      expectedDate: toDateString(expected),
+      windowStart: toDateString(windowStart),
+      windowEnd: toDateString(windowEnd),
+      basis,
+      confidence,
+      status: windowEnd < today ? 'overdue' : windowStart <= today ? 'in_window' : 'upcoming',
+      lastCall: { year: last.year, quarter: last.quarter, date: toDateString(last.day) },
+      callCount: sorted.length,
+    };
+  }
+}
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function medianDeviation(values: number[]): number {
+  const center = median(values);
+  return median(values.map(value => Math.abs(value - center)));
+}
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, Math.round(value)));
+}
+
+/**
+ * Escape commas, semicolons, backslashes and newlines in an iCalendar text value
+ */
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 3.1)
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,241 @@
+import { FetchJob } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { FetchQueue } from './fetchQueue';
+import { TranscriptProvider, transcriptProviders } from './transcriptProvider';
+import { TranscriptRepository } from './transcriptRepository';
+
+jest.mock('@/config/database', () => ({ prisma: { fetchJob: mockFetchJobTable() } }));
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for prisma.fetchJob, covering the queries FetchQueue makes
+ */
+function mockFetchJobTable() {
+  const rows: Row[] = [];
+  let nextId = 1;
+
+  const matches = (row: Row, where: Row = {}): boolean => Object.entries(where).every(([field, condition]) => {
+    const value = row[field];
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      const { in: within, notIn, lte, not } = condition as { in?: unknown[]; notIn?: unknown[]; lte?: Date; not?: unknown };
+      if (within && !within.includes(value)) return false;
+      if (notIn && notIn.includes(value)) return false;
+      if (lte && !((value as Date) <= lte)) return false;
+      if (not !== undefined && value === not) return false;
+      return true;
+    }
+    return value === condition;
+  });
+
+  const sorted = (list: Row[], orderBy: Array<Record<string, 'asc' | 'desc'>> | Record<string, 'asc' | 'desc'> = []) => {
+    const keys = (Array.isArray(orderBy) ? orderBy : [orderBy]).map(entry => Object.entries(entry)[0]);
+    return [...list].sort((a, b) => {
+      for (const [field, direction] of keys) {
+        const left = a[field] as number | Date;
+        const right = b[field] as number | Date;
+        if (left < right) return direction === 'asc' ? -1 : 1;
+        if (left > right) return direction === 'asc' ? 1 : -1;
+      }
+      return 0;
+    });
+  };
+
+  return {
+    rows,
+    async createMany({ data, skipDuplicates }: { data: Row[]; skipDuplicates?: boolean }) {
+      let count = 0;
+      for (const item of data) {
+        const key = { jobId: item.jobId, ticker: item.ticker, year: item.year, quarter: item.quarter };
+        if (rows.some(row => matches(row, key))) {
+          if (skipDuplicates) continue;
+          throw new Error('Unique constraint failed on (job_id, ticker, year, quarter)');
+        }
+        rows.push({ id: String(nextId++), attempts: 0, outcome: null, errorMessage: null, transcriptId: null, startedAt: null, completedAt: null, ...item });
+        count++;
+      }
+      return { count };
+    },
+    async findFirst({ where, orderBy }: { where?: Row; orderBy?: Array<Record<string, 'asc' | 'desc'>> }) {
+      return sorted(rows.filter(row => matches(row, where)), orderBy)[0] ?? null;
+    },
+    async findMany({ where, orderBy }: { where?: Row; orderBy?: Record<string, 'asc' | 'desc'> }) {
+      return sorted(rows.filter(row => matches(row, where)), orderBy);
+    },
+    async updateMany({ where, data }: { where?: Row; data: Row }) {
+      const matched = rows.filter(row => matches(row, where));
+      for (const row of matched) {
+        for (const [field, value] of Object.entries(data)) {
+          const increment = value && typeof value === 'object' && 'increment' in value ? (value as { increment: number }).increment : null;
+          row[field] = increment !== null ? (row[field] as number) + increment : value;
+        }
+      }
+      return { count: matched.length };
+    },
+    async count({ where }: { where?: Row }) {
+      return rows.filter(row => matches(row, where)).length;
+    },
+    async groupBy({ where }: { where?: Row }) {
+      const counts = new Map<unknown, number>();
+      for (const row of rows.filter(row => matches(row, where))) {
+        counts.set(row.status, (counts.get(row.status) ?? 0) + 1);
+      }
+      return [...counts].map(([status, count]) => ({ status, _count: { _all: count } }));
+    },
+  };
+}
+
+const table = (prisma.fetchJob as unknown as ReturnType<typeof mockFetchJobTable>);
+
+/**
+ * Repository stand-in that remembers what was saved
+ */
+function fakeRepository(): TranscriptRepository {
+  const saved = new Set<string>();
+  const key = (ticker: string, year: number, quarter: number) => `${ticker}:${year}:${quarter}`;
+  return {
+    getCachedMetadata: (ticker: string, year: number, quarter: number) =>
+      saved.has(key(ticker, year, quarter)) ? { key: key(ticker, year, quarter), length: 100 } : undefined,
+    exists: async () => false,
+    save: async ({ ticker, year, quarter }: { ticker: string; year: number; quarter: number }) => {
+      saved.add(key(ticker, year, quarter));
+      return { id: key(ticker, year, quarter), storage: 'database' };
+    },
+  } as unknown as TranscriptRepository;
+}
+
+/**
+ * Local provider with transcripts for the given quarters; `failing` quarters throw
+ */
+function fakeProvider(available: string[], failing: string[] = [], latencyMs = 0): TranscriptProvider & { calls: string[]; maxInFlight: number } {
+  const calls: string[] = [];
+  let inFlight = 0;
+  return {
+    name: 'test_provider',
+    description: 'Test provider',
+    remote: false,
+    calls,
+    maxInFlight: 0,
+    listAvailableQuarters: async () => [],
+    fetchTranscriptSplit: async () => null,
+    async fetchTranscript(ticker, year, quarter) {
+      const key = `${ticker} ${year} Q${quarter}`;
+      calls.push(key);
+      this.maxInFlight = Math.max(this.maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+      inFlight--;
+      if (failing.includes(key)) throw new Error(`Provider down for ${key}`);
+      return available.includes(key) ? { ticker, year, quarter, date: `${year}-01-30`, transcript: `Transcript for ${key}` } : null;
+    },
+  };
+}
+
+describe('FetchQueue', () => {
+  let queue: FetchQueue;
+
+  beforeEach(() => {
+    table.rows.length = 0;
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  const start = async (provider: TranscriptProvider) => {
+    transcriptProviders.register(provider);
+    queue = new FetchQueue(fakeRepository());
+    await queue.start();
+  };
+
+  it('stops a ticker once enough quarters are found', async () => {
+    const provider = fakeProvider(['AAPL 2024 Q4', 'AAPL 2024 Q3']);
+    await start(provider);
+
+    const quarters = [{ year: 2024, quarter: 4 }, { year: 2024, quarter: 3 }, { year: 2024, quarter: 2 }];
+    await queue.enqueue({ jobId: 'job-1', tickers: ['aapl'], quarters, provider: provider.name });
+    await queue.waitForTicker('job-1', 'AAPL');
+
+    expect(provider.calls).toEqual(['AAPL 2024 Q4']);
+    const tasks = await queue.getJobTasks('job-1');
+    expect(tasks.map(task => [task.quarter, task.status, task.outcome])).toEqual([
+      [4, 'COMPLETED', 'fetched'],
+      [3, 'SKIPPED', 'enough_found'],
+      [2, 'SKIPPED', 'enough_found'],
+    ]);
+    expect((await queue.summarizeJob('job-1', ['AAPL'])).progress.processed).toEqual(['AAPL']);
+  });
+
+  it('gives overlapping jobs their own tasks instead of taking them over', async () => {
+    const provider = fakeProvider(['MSFT 2024 Q4']);
+    await start(provider);
+
+    const quarters = [{ year: 2024, quarter: 4 }];
+    await queue.enqueue({ jobId: 'manual', tickers: ['MSFT', 'NVDA'], quarters, provider: provider.name });
+    await queue.enqueue({ jobId: 'watchlist', tickers: ['MSFT'], quarters, provider: provider.name });
+    await Promise.all([
+      queue.waitForTicker('manual', 'MSFT'),
+      queue.waitForTicker('manual', 'NVDA'),
+      queue.waitForTicker('watchlist', 'MSFT'),
+    ]);
+
+    const manual = await queue.summarizeJob('manual', ['MSFT', 'NVDA']);
+    expect(manual.progress.processed).toEqual(['MSFT']);
+    expect(manual.progress.failedDetails).toEqual([{ item: 'NVDA', reason: 'No transcript data available for any recent quarters' }]);
+
+    // The later job finds the first one's transcript already stored
+    const watchlist = await queue.summarizeJob('watchlist', ['MSFT']);
+    expect(watchlist.progress.skipped).toEqual(['MSFT']);
+    expect(provider.calls.filter(call => call.startsWith('MSFT'))).toHaveLength(1);
+  });
+
+  it('records the error once a task runs out of attempts', async () => {
+    const provider = fakeProvider([], ['TSLA 2024 Q4']);
+    await start(provider);
+
+    await queue.enqueue({ jobId: 'job-2', tickers: ['TSLA'], quarters: [{ year: 2024, quarter: 4 }], maxAttempts: 1, provider: provider.name });
+    await queue.waitForTicker('job-2', 'TSLA');
+
+    const [task] = await queue.getJobTasks('job-2') as FetchJob[];
+    expect(task).toMatchObject({ status: 'FAILED', attempts: 1, errorMessage: 'Provider down for TSLA 2024 Q4' });
+    const summary = await queue.summarizeJob('job-2', ['TSLA']);
+    expect(summary.results).toEqual([{ ticker: 'TSLA', status: 'failed', error: 'Provider down for TSLA 2024 Q4' }]);
+  });
+
+  it('works several tickers at once but keeps each ticker\'s quarters in order', async () => {
+    const provider = fakeProvider(['AAPL 2024 Q3', 'MSFT 2024 Q4', 'NVDA 2024 Q3'], [], 20);
+    await start(provider);
+
+    const tickers = ['AAPL', 'MSFT', 'NVDA'];
+    const quarters = [{ year: 2024, quarter: 4 }, { year: 2024, quarter: 3 }, { year: 2024, quarter: 2 }];
+    await queue.enqueue({ jobId: 'job-3', tickers, quarters, provider: provider.name });
+    await Promise.all(tickers.map(ticker => queue.waitForTicker('job-3', ticker)));
+
+    expect(provider.maxInFlight).toBeGreaterThan(1);
+    // Each ticker stops at its first transcript, so nothing past it was asked for
+    expect(provider.calls.filter(call => call.startsWith('AAPL'))).toEqual(['AAPL 2024 Q4', 'AAPL 2024 Q3']);
+    expect(provider.calls.filter(call => call.startsWith('MSFT'))).toEqual(['MSFT 2024 Q4']);
+    expect(provider.calls.filter(call => call.startsWith('NVDA'))).toEqual(['NVDA 2024 Q4', 'NVDA 2024 Q3']);
+    expect((await queue.summarizeJob('job-3', tickers)).progress.processed.sort()).toEqual(tickers);
+  });
+
+  it('checks a waiting ticker again when counting its tasks fails', async () => {
+    await start(fakeProvider([]));
+    table.rows.push({ id: 'done', jobId: 'job-4', ticker: 'AMD', year: 2024, quarter: 4, status: 'COMPLETED' });
+
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    try {
+      jest.spyOn(table, 'count').mockRejectedValueOnce(new Error('Connection lost'));
+      let settled = false;
+      const waiting = queue.waitForTicker('job-4', 'AMD').then(() => { settled = true; });
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(settled).toBe(false);
+      await jest.advanceTimersByTimeAsync(2000);
+      await waiting;
+      expect(settled).toBe(true);
+    } finally {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    }
+  });
+});
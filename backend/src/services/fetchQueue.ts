@@ -0,0 +1,522 @@
+import { EventEmitter } from 'events';
+import { FetchJob, JobStatus } from '@prisma/client';
+import { config } from '@/config/config';
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+import { BulkFetchResult, Job, Quarter } from '@/types';
+import { DEFAULT_TRANSCRIPT_PROVIDER, TranscriptProvider, fetchTranscriptWithSpeakers, transcriptProviders } from './transcriptProvider';
+import { TranscriptRepository } from './transcriptRepository';
+
+/**
+ * Durable fetch task queue on the `fetch_jobs` table.
+ *
+ * Bulk jobs enqueue one task per ticker/quarter. A small pool of workers claims
+ * due PENDING tasks in job order, one task per ticker at a time so its quarters
+ * are still tried in order, and the provider's rate limiter paces the calls.
+ * Progress survives restarts exactly: tasks left IN_PROGRESS by a crash go back
+ * to PENDING on startup. Failed API calls are retried with exponential backoff
+ * (via scheduledAt) up to maxAttempts.
+ */
+
+export interface EnqueueOptions {
+  jobId: string;
+  tickers: string[];
+  quarters: Quarter[] | ((ticker: string) => Quarter[]); // Tried in this order; per ticker when a function
+  stopAfter?: number; // Transcripts per ticker after which its remaining quarters are skipped
+  maxAttempts?: number;
+  provider?: string; // Transcript provider name (default API Ninjas)
+}
+
+export type FetchTaskCounts = Record<JobStatus, number>;
+
+export interface FetchJobSummary {
+  progress: Job['progress'];
+  results: BulkFetchResult[];
+  open: number; // Tasks not yet settled (pending, in progress or paused)
+  tasks: number;
+}
+
+const OPEN_STATUSES: JobStatus[] = ['PENDING', 'IN_PROGRESS', 'PAUSED'];
+const ENQUEUE_CHUNK_SIZE = 500;
+
+export class FetchQueue extends EventEmitter {
+  private repository: TranscriptRepository;
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private activeWorkers = 0;
+  private inFlight = new Set<string>(); // Tickers with a claimed task, in any job
+  private tickerWaiters = new Map<string, Array<() => void>>();
+
+  constructor(repository: TranscriptRepository) {
+    super();
+    this.repository = repository;
+    this.on('task', ({ jobId, ticker }) => jobId && this.checkWaiters(jobId, ticker));
+    this.on('jobSettled', ({ jobId }) => this.checkWaiters(jobId));
+  }
+
+  /**
+   * Recover interrupted tasks and start the worker
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const recovered = await prisma.fetchJob.updateMany({
+        where: { status: 'IN_PROGRESS' },
+        data: { status: 'PENDING', scheduledAt: new Date() },
+      });
+      const outstanding = await prisma.fetchJob.count({ where: { status: 'PENDING' } });
+      logger.info('Fetch queue started', { recovered: recovered.count, outstanding });
+    } catch (error) {
+      logger.error('Fetch queue could not reach the database; will keep polling', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Add tasks for every ticker/quarter of a job. Rows are keyed per job, so
+   * overlapping jobs each get their own task (the later one finds the transcript
+   * cached) and tasks the job already has are kept as they are.
+   */
+  async enqueue(options: EnqueueOptions): Promise<number> {
+    const now = new Date();
+    const stopAfter = options.stopAfter ?? 1;
+    const maxAttempts = options.maxAttempts ?? config.fetchQueue.maxAttempts;
+    const provider = options.provider ?? DEFAULT_TRANSCRIPT_PROVIDER;
+    const tickers = options.tickers.map(t => t.toUpperCase());
+
+    let sequence = 0;
+    const tasks = tickers.flatMap(ticker =>
+      (typeof options.quarters === 'function' ? options.quarters(ticker) : options.quarters).map(quarter => ({
+        ticker,
+        year: quarter.year,
+        quarter: quarter.quarter,
+        sequence: sequence++,
+      }))
+    );
+
+    for (let i = 0; i < tasks.length; i += ENQUEUE_CHUNK_SIZE) {
+      const chunk = tasks.slice(i, i + ENQUEUE_CHUNK_SIZE);
+      await prisma.fetchJob.createMany({
+        data: chunk.map(task => ({
+          ...task,
+          jobId: options.jobId,
+          status: 'PENDING' as JobStatus,
+          stopAfter,
+          maxAttempts,
+          provider,
+          scheduledAt: now,
+        })),
+        skipDuplicates: true,
+      });
+    }
+
+    logger.info('Fetch tasks enqueued', { jobId: options.jobId, tickers: tickers.length, tasks: tasks.length });
+    this.schedule(0);
+    return tasks.length;
+  }
+
+  /**
+   * Stop handing out a job's tasks (tasks already in flight finish)
+   */
+  async pauseJob(jobId: string): Promise<number> {
+    const result = await prisma.fetchJob.updateMany({ where: { jobId, status: 'PENDING' }, data: { status: 'PAUSED' } });
+    return result.count;
+  }
+
+  async resumeJob(jobId: string): Promise<number> {
+    const result = await prisma.fetchJob.updateMany({
+      where: { jobId, status: 'PAUSED' },
+      data: { status: 'PENDING', scheduledAt: new Date() },
+    });
+    this.schedule(0);
+    return result.count;
+  }
+
+  async cancelJob(jobId: string): Promise<number> {
+    const result = await prisma.fetchJob.updateMany({
+      where: { jobId, status: { in: ['PENDING', 'PAUSED'] } },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+    this.emit('jobSettled', { jobId });
+    return result.count;
+  }
+
+  /**
+   * Resolves once none of a ticker's tasks in a job are open (all found, skipped, failed or cancelled)
+   */
+  async waitForTicker(jobId: string, ticker: string): Promise<void> {
+    const key = this.waiterKey(jobId, ticker);
+    const settled = new Promise<void>(resolve => {
+      this.tickerWaiters.set(key, [...(this.tickerWaiters.get(key) ?? []), resolve]);
+    });
+    // Registered before counting, so a task finishing in between is not missed
+    this.checkWaiters(jobId, ticker.toUpperCase());
+    return settled;
+  }
+
+  /**
+   * Task counts by status for one job (or the whole queue)
+   */
+  async getCounts(jobId?: string): Promise<FetchTaskCounts> {
+    const groups = await prisma.fetchJob.groupBy({
+      by: ['status'],
+      where: jobId ? { jobId } : {},
+      _count: { _all: true },
+    });
+
+    const counts = Object.fromEntries(Object.values(JobStatus).map(status => [status, 0])) as FetchTaskCounts;
+    for (const group of groups) {
+      counts[group.status] = group._count._all;
+    }
+    return counts;
+  }
+
+  /**
+   * All tasks of a job in processing order
+   */
+  async getJobTasks(jobId: string): Promise<FetchJob[]> {
+    return prisma.fetchJob.findMany({ where: { jobId }, orderBy: { sequence: 'asc' } });
+  }
+
+  /**
+   * Per-ticker progress and results of a job, in the job engine's progress shape
+   */
+  async summarizeJob(jobId: string, tickers: string[]): Promise<FetchJobSummary> {
+    const tasks = await this.getJobTasks(jobId);
+    const byTicker = new Map<string, FetchJob[]>();
+    for (const task of tasks) {
+      const list = byTicker.get(task.ticker) ?? [];
+      list.push(task);
+      byTicker.set(task.ticker, list);
+    }
+
+    const progress: Job['progress'] = {
+      current: 0,
+      total: tickers.length,
+      processed: [],
+      failed: [],
+      skipped: [],
+      failedDetails: [],
+    };
+    const results: BulkFetchResult[] = [];
+    let open = 0;
+
+    for (const ticker of tickers.map(t => t.toUpperCase())) {
+      const tickerTasks = byTicker.get(ticker) ?? [];
+      const openTasks = tickerTasks.filter(task => OPEN_STATUSES.includes(task.status)).length;
+      open += openTasks;
+
+      if (tickerTasks.some(task => task.status === 'IN_PROGRESS')) {
+        progress.currentItem = ticker;
+      }
+
+      const found = tickerTasks.filter(task => task.status === 'COMPLETED');
+      for (const task of found) {
+        results.push({
+          ticker,
+          year: task.year,
+          quarter: task.quarter,
+          status: 'success',
+          transcriptLength: this.repository.getCachedMetadata(ticker, task.year, task.quarter)?.length,
+          transcriptId: task.transcriptId ?? undefined,
+          storage: task.outcome === 'cached' ? 'cached' : undefined,
+          skipped: task.outcome === 'cached',
+        });
+      }
+
+      if (openTasks > 0) continue;
+      progress.current++;
+
+      if (found.some(task => task.outcome === 'fetched')) {
+        progress.processed.push(ticker);
+      } else if (found.length > 0) {
+        progress.skipped.push(ticker);
+      } else {
+        const failedTask = tickerTasks.find(task => task.status === 'FAILED');
+        const cancelled = tickerTasks.some(task => task.status === 'CANCELLED');
+        const reason = failedTask?.errorMessage
+          ?? (cancelled ? 'Cancelled' : undefined)
+          ?? (tickerTasks.length === 0 ? 'No quarters to check' : 'No transcript data available for any recent quarters');
+
+        progress.failed.push(ticker);
+        progress.failedDetails.push({ item: ticker, reason });
+        results.push({ ticker, status: failedTask ? 'failed' : 'not_available', error: reason });
+      }
+    }
+
+    return { progress, results, open, tasks: tasks.length };
+  }
+
+  /**
+   * Outstanding work across all jobs, for monitoring
+   */
+  async getOutstanding(): Promise<{ counts: FetchTaskCounts; nextDueAt: Date | null; jobs: Array<{ jobId: string | null; open: number }> }> {
+    const [counts, next, jobs] = await Promise.all([
+      this.getCounts(),
+      prisma.fetchJob.findFirst({
+        where: { status: 'PENDING' },
+        orderBy: { scheduledAt: 'asc' },
+        select: { scheduledAt: true },
+      }),
+      prisma.fetchJob.groupBy({
+        by: ['jobId'],
+        where: { status: { in: OPEN_STATUSES } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return {
+      counts,
+      nextDueAt: next?.scheduledAt ?? null,
+      jobs: jobs.map(job => ({ jobId: job.jobId, open: job._count._all })),
+    };
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.work();
+    }, delayMs);
+  }
+
+  /**
+   * Fill the worker pool. Each worker claims due tasks until none are left;
+   * once the last one stops the queue goes back to polling.
+   */
+  private work(): void {
+    while (this.running && this.activeWorkers < config.fetchQueue.workers) {
+      this.activeWorkers++;
+      void this.runWorker();
+    }
+  }
+
+  private async runWorker(): Promise<void> {
+    try {
+      for (;;) {
+        if (!this.running) return;
+
+        const task = await this.claimNext();
+        if (!task) break;
+
+        try {
+          await this.process(task);
+        } finally {
+          this.inFlight.delete(task.ticker);
+        }
+      }
+    } catch (error) {
+      logger.error('Fetch queue worker error', { error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      this.activeWorkers--;
+      if (this.activeWorkers === 0) this.schedule(config.fetchQueue.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Atomically move the next due task from PENDING to IN_PROGRESS, skipping
+   * tickers another worker is on
+   */
+  private async claimNext(): Promise<FetchJob | null> {
+    for (;;) {
+      const next = await prisma.fetchJob.findFirst({
+        where: { status: 'PENDING', scheduledAt: { lte: new Date() }, ticker: { notIn: [...this.inFlight] } },
+        orderBy: [{ scheduledAt: 'asc' }, { sequence: 'asc' }],
+      });
+      if (!next) return null;
+
+      // Checked and reserved in one step, so two workers that read the same ticker don't both take it
+      if (this.inFlight.has(next.ticker)) continue;
+      this.inFlight.add(next.ticker);
+
+      const startedAt = new Date();
+      const claimed = await prisma.fetchJob.updateMany({
+        where: { id: next.id, status: 'PENDING' },
+        data: { status: 'IN_PROGRESS', startedAt, attempts: { increment: 1 } },
+      });
+      if (claimed.count === 1) {
+        return { ...next, status: 'IN_PROGRESS', startedAt, attempts: next.attempts + 1 };
+      }
+      // Someone else (pause/cancel) changed it between read and claim; look again
+      this.inFlight.delete(next.ticker);
+    }
+  }
+
+  /**
+   * Run one task
+   */
+  private async process(task: FetchJob): Promise<void> {
+    const { ticker, year, quarter } = task;
+
+    // Enough transcripts for this ticker already (e.g. an earlier quarter was found)
+    if (task.jobId && await this.foundCount(task.jobId, ticker) >= task.stopAfter) {
+      await this.finish(task, 'SKIPPED', 'enough_found');
+      return;
+    }
+
+    const cached = this.repository.getCachedMetadata(ticker, year, quarter);
+    if (cached || await this.repository.exists(ticker, year, quarter)) {
+      await this.finish(task, 'COMPLETED', 'cached', { transcriptId: cached?.databaseId ?? cached?.key ?? null });
+      return;
+    }
+
+    let provider: TranscriptProvider;
+    try {
+      provider = transcriptProviders.get(task.provider);
+    } catch (error) {
+      await this.finish(task, 'FAILED', 'failed', { errorMessage: error instanceof Error ? error.message : 'Unknown provider' });
+      return;
+    }
+
+    if (provider.isKnownUnavailable?.(ticker, year, quarter)) {
+      await this.finish(task, 'NOT_AVAILABLE', 'not_available');
+      return;
+    }
+
+    try {
+      const transcript = await fetchTranscriptWithSpeakers(provider, ticker, year, quarter);
+      if (!transcript) {
+        await this.finish(task, 'NOT_AVAILABLE', 'not_available');
+        return;
+      }
+
+      const saved = await this.repository.save({
+        ticker,
+        year,
+        quarter,
+        callDate: transcript.date || null,
+        fullTranscript: transcript.fullTranscript,
+        transcriptSplit: transcript.transcriptSplit,
+        companyName: transcript.companyName,
+        transcriptJson: transcript.transcriptJson,
+        source: transcript.source,
+      });
+
+      await this.finish(task, 'COMPLETED', 'fetched', { transcriptId: saved.id });
+      logger.info('Fetch task completed', {
+        jobId: task.jobId,
+        ticker,
+        year,
+        quarter,
+        provider: provider.name,
+        segments: transcript.transcriptSplit?.length ?? 0,
+        transcriptId: saved.id,
+        storage: saved.storage,
+      });
+    } catch (error) {
+      await this.fail(task, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Retry with exponential backoff, or give up after maxAttempts
+   */
+  private async fail(task: FetchJob, message: string): Promise<void> {
+    if (task.attempts >= task.maxAttempts) {
+      await this.finish(task, 'FAILED', 'failed', { errorMessage: message });
+      logger.warn('Fetch task failed permanently', { jobId: task.jobId, ticker: task.ticker, year: task.year, quarter: task.quarter, attempts: task.attempts, error: message });
+      return;
+    }
+
+    const delay = Math.min(
+      config.fetchQueue.backoffMaxMs,
+      config.fetchQueue.backoffBaseMs * Math.pow(2, task.attempts - 1)
+    );
+    await prisma.fetchJob.updateMany({
+      where: { id: task.id, status: 'IN_PROGRESS' },
+      data: { status: 'PENDING', errorMessage: message, scheduledAt: new Date(Date.now() + delay) },
+    });
+
+    logger.info('Fetch task scheduled for retry', {
+      jobId: task.jobId,
+      ticker: task.ticker,
+      year: task.year,
+      quarter: task.quarter,
+      attempt: task.attempts,
+      retryInMs: delay,
+      error: message,
+    });
+    this.emit('task', { jobId: task.jobId, ticker: task.ticker, status: 'PENDING' as JobStatus });
+  }
+
+  private async finish(
+    task: FetchJob,
+    status: JobStatus,
+    outcome: string,
+    extra: { transcriptId?: string | null; errorMessage?: string } = {}
+  ): Promise<void> {
+    // A task paused/cancelled while in flight keeps its new status
+    await prisma.fetchJob.updateMany({
+      where: { id: task.id, status: 'IN_PROGRESS' },
+      data: {
+        status,
+        outcome,
+        completedAt: new Date(),
+        transcriptId: extra.transcriptId ?? null,
+        errorMessage: extra.errorMessage ?? null,
+      },
+    });
+
+    if (task.jobId && status === 'COMPLETED' && await this.foundCount(task.jobId, task.ticker) >= task.stopAfter) {
+      await prisma.fetchJob.updateMany({
+        where: { jobId: task.jobId, ticker: task.ticker, status: { in: ['PENDING', 'PAUSED'] } },
+        data: { status: 'SKIPPED', outcome: 'enough_found', completedAt: new Date() },
+      });
+    }
+
+    this.emit('task', { jobId: task.jobId, ticker: task.ticker, status });
+
+    if (task.jobId) {
+      const open = await prisma.fetchJob.count({ where: { jobId: task.jobId, status: { in: OPEN_STATUSES } } });
+      if (open === 0) {
+        this.emit('jobSettled', { jobId: task.jobId });
+      }
+    }
+  }
+
+  private checkWaiters(jobId: string, ticker?: string): void {
+    const keys = ticker
+      ? [this.waiterKey(jobId, ticker)]
+      : [...this.tickerWaiters.keys()].filter(key => key.startsWith(`${jobId}:`));
+
+    for (const key of keys) {
+      if (!this.tickerWaiters.has(key)) continue;
+      const waitingTicker = key.slice(jobId.length + 1);
+
+      prisma.fetchJob.count({ where: { jobId, ticker: waitingTicker, status: { in: OPEN_STATUSES } } })
+        .then(open => {
+          if (open > 0) return;
+          const waiters = this.tickerWaiters.get(key) ?? [];
+          this.tickerWaiters.delete(key);
+          waiters.forEach(resolve => resolve());
+        })
+        .catch(error => {
+          // No later task event may come for this ticker, so look again rather than leave the waiter hanging
+          logger.error('Failed to check fetch tasks; checking again', { jobId, ticker: waitingTicker, error: error instanceof Error ? error.message : 'Unknown error' });
+          setTimeout(() => this.checkWaiters(jobId, waitingTicker), config.fetchQueue.pollIntervalMs);
+        });
+    }
+  }
+
+  private waiterKey(jobId: string, ticker: string): string {
+    return `${jobId}:${ticker.toUpperCase()}`;
+  }
+
+  private async foundCount(jobId: string, ticker: string): Promise<number> {
+    return prisma.fetchJob.count({ where: { jobId, ticker, status: 'COMPLETED' } });
+  }
+}
@@ -0,0 +1,63 @@
+import { FiscalCalendarService } from './fiscalCalendar';
+import { TranscriptRepository } from './transcriptRepository';
+
+jest.mock('@/config/database', () => ({
+  prisma: {
+    fiscalCalendar: { findMany: jest.fn(async () => []), upsert: jest.fn(async () => ({})), delete: jest.fn(async () => ({})) },
+    transcript: { findMany: jest.fn(async () => []) },
+    $transaction: jest.fn(async () => []),
+  },
+}));
+
+const call = (ticker: string, year: number, quarter: number, date: string) =>
+  ({ ticker, year, quarter, callDate: new Date(`${date}T21:00:00Z`) });
+
+describe('FiscalCalendarService periods', () => {
+  let service: FiscalCalendarService;
+
+  beforeEach(async () => {
+    // NVIDIA's fiscal year ends in January: FY2025 Q1 is February - April 2024
+    const calls = [call('NVDA', 2025, 1, '2024-05-22'), call('NVDA', 2025, 2, '2024-08-28'), call('NVDA', 2025, 3, '2024-11-20')];
+    service = new FiscalCalendarService({ findCallDates: async () => calls } as unknown as TranscriptRepository);
+    await service.initialize();
+  });
+
+  it('places quarters of a learned calendar by that calendar, whatever the call date', () => {
+    expect(service.get('nvda')).toMatchObject({ fiscalYearEndMonth: 1, yearOffset: 0, source: 'learned', sampleCount: 3 });
+    expect(service.calendarPeriod('NVDA', 2025, 1)).toEqual({ year: 2024, quarter: 1 });
+    expect(service.calendarPeriod('NVDA', 2025, 1, '2025-04-25')).toEqual({ year: 2024, quarter: 1 });
+    expect(service.describePeriod('NVDA', 2025, 1)).toEqual({
+      fiscalYear: 2025,
+      fiscalQuarter: 1,
+      fiscalLabel: 'FY2025 Q1',
+      calendarYear: 2024,
+      calendarQuarter: 1,
+      calendarLabel: 'Q1 2024',
+      months: 'Feb 2024 - Apr 2024',
+    });
+  });
+
+  it('treats a ticker with nothing known as calendar year while its call follows the quarter', () => {
+    expect(service.calendarPeriod('AMD', 2024, 1)).toEqual({ year: 2024, quarter: 1 });
+    expect(service.calendarPeriod('AMD', 2024, 1, '2024-04-30')).toEqual({ year: 2024, quarter: 1 });
+    expect(service.calendarPeriod('AMD', 2024, 1, 'not a date')).toEqual({ year: 2024, quarter: 1 });
+  });
+
+  it('lets a call date that cannot be about the same-named calendar quarter place it', () => {
+    // A fiscal-year label a year ahead: the Q3 2025 call was held in November 2024
+    expect(service.calendarPeriod('MRVL', 2025, 3, new Date('2024-11-20T21:00:00Z'))).toEqual({ year: 2024, quarter: 3 });
+    // Reported far too late to be about calendar Q1
+    expect(service.calendarPeriod('MRVL', 2024, 1, '2024-09-05')).toEqual({ year: 2024, quarter: 2 });
+
+    const period = service.describePeriod('MRVL', 2025, 3, '2024-11-20');
+    expect(period).toMatchObject({ fiscalLabel: 'Q3 2025', calendarLabel: 'Q3 2024', months: 'Aug 2024 - Oct 2024' });
+  });
+
+  it('keeps a user override over what is learned', async () => {
+    await service.setOverride('NVDA', { fiscalYearEndMonth: 12 });
+    expect(service.calendarPeriod('NVDA', 2025, 1, '2024-05-22')).toEqual({ year: 2025, quarter: 1 });
+
+    await service.learn(['NVDA']);
+    expect(service.get('NVDA')).toMatchObject({ fiscalYearEndMonth: 12, source: 'user', learned: { fiscalYearEndMonth: 1 } });
+  });
+});
@@ -0,0 +1,351 @@
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+import {
+  CALENDAR_YEAR,
+  FiscalCalendar,
+  describeFiscalCalendar,
+  fiscalCalendarFromCall,
+  formatFiscalQuarter,
+  formatQuarter,
+  getFiscalQuarterMonths,
+  inferFiscalCalendar,
+  toCalendarQuarter,
+} from './quarterCalculator';
+import { TranscriptRepository } from './transcriptRepository';
+
+/**
+ * Per-company fiscal calendars.
+ *
+ * Each ticker's fiscal year end is learned from the call dates of its stored
+ * transcripts and saved in `fiscal_calendars`; a user can override it, and
+ * learning never replaces an override. Tickers with nothing learned are
+ * treated as calendar-year companies, except that a transcript's own call
+ * date still places it in the right calendar quarter.
+ *
+ * Each stored transcript's calendar year/quarter is kept in
+ * `transcripts.calendar_year`/`calendar_quarter` so SQL search can filter on
+ * it; those columns are rewritten whenever a ticker's calendar changes.
+ */
+
+export class FiscalCalendarError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'FiscalCalendarError';
+  }
+}
+
+export type FiscalCalendarSource = 'default' | 'learned' | 'user';
+
+export interface CompanyFiscalCalendar extends FiscalCalendar {
+  ticker: string;
+  source: FiscalCalendarSource;
+  learned: FiscalCalendar | null; // What the call dates suggest, kept alongside a user override
+  confidence: number | null;
+  sampleCount: number;
+  updatedAt: Date | null;
+}
+
+/**
+ * A reported quarter in fiscal and calendar terms
+ */
+export interface FiscalPeriod {
+  fiscalYear: number;
+  fiscalQuarter: number;
+  fiscalLabel: string; // "FY2026 Q1", or "Q1 2025" for calendar-year companies
+  calendarYear: number;
+  calendarQuarter: number;
+  calendarLabel: string;
+  months: string; // "Feb 2025 - Apr 2025"
+}
+
+export interface LearnResult {
+  tickers: number;
+  learned: number; // New or changed calendars
+  unchanged: number;
+  undetermined: number; // Too few call dates, or dates that disagree
+  periodsUpdated: number; // Transcripts whose stored calendar period changed
+}
+
+const PERIOD_UPDATE_BATCH = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REPORT_LAG_DAYS = 120; // Later than this after a quarter, a call is about a different quarter
+
+export class FiscalCalendarService {
+  private repository: TranscriptRepository;
+  private calendars = new Map<string, CompanyFiscalCalendar>();
+
+  constructor(repository: TranscriptRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Load saved calendars, then learn from the transcripts already stored
+   */
+  async initialize(): Promise<void> {
+    try {
+      const rows = await prisma.fiscalCalendar.findMany();
+      for (const row of rows) {
+        this.calendars.set(row.ticker, {
+          ticker: row.ticker,
+          fiscalYearEndMonth: row.fiscalYearEndMonth,
+          yearOffset: row.yearOffset,
+          source: row.source === 'user' ? 'user' : 'learned',
+          learned: row.learnedEndMonth !== null
+            ? { fiscalYearEndMonth: row.learnedEndMonth, yearOffset: row.learnedYearOffset ?? 0 }
+            : null,
+          confidence: row.confidence,
+          sampleCount: row.sampleCount,
+          updatedAt: row.updatedAt,
+        });
+      }
+    } catch (error) {
+      logger.warn('Could not load fiscal calendars from the database', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const result = await this.learn();
+    logger.info('Fiscal calendars ready', { saved: this.calendars.size, ...result });
+  }
+
+  /**
+   * Calendar for a ticker; calendar year when nothing is known
+   */
+  get(ticker: string): CompanyFiscalCalendar {
+    const tickerUpper = ticker.toUpperCase();
+    return this.calendars.get(tickerUpper) ?? {
+      ticker: tickerUpper,
+      ...CALENDAR_YEAR,
+      source: 'default',
+      learned: null,
+      confidence: null,
+      sampleCount: 0,
+      updatedAt: null,
+    };
+  }
+
+  /**
+   * Every learned or user-set calendar, non-calendar-year companies first
+   */
+  list(): CompanyFiscalCalendar[] {
+    return Array.from(this.calendars.values()).sort((a, b) =>
+      Number(a.fiscalYearEndMonth === 12) - Number(b.fiscalYearEndMonth === 12) || a.ticker.localeCompare(b.ticker));
+  }
+
+  /**
+   * A stored quarter in fiscal and calendar terms. Without a known calendar,
+   * the call date (if given) decides the calendar period.
+   */
+  describePeriod(ticker: string, year: number, quarter: number, callDate: Date | string | null = null): FiscalPeriod {
+    const calendar = this.get(ticker);
+    const periodCalendar = this.periodCalendar(calendar, year, quarter, callDate);
+    const calendarQuarter = toCalendarQuarter(periodCalendar, year, quarter);
+    return {
+      fiscalYear: year,
+      fiscalQuarter: quarter,
+      fiscalLabel: formatFiscalQuarter(calendar, year, quarter),
+      calendarYear: calendarQuarter.year,
+      calendarQuarter: calendarQuarter.quarter,
+      calendarLabel: formatQuarter(calendarQuarter.year, calendarQuarter.quarter),
+      months: getFiscalQuarterMonths(periodCalendar, year, quarter).label,
+    };
+  }
+
+  /**
+   * Calendar year/quarter of a stored fiscal year/quarter
+   */
+  calendarPeriod(ticker: string, year: number, quarter: number, callDate: Date | string | null = null): { year: number; quarter: number } {
+    return toCalendarQuarter(this.periodCalendar(this.get(ticker), year, quarter, callDate), year, quarter);
+  }
+
+  /**
+   * Calendar plus a readable description, for the ticker endpoints
+   */
+  describe(ticker: string): CompanyFiscalCalendar & { description: string; example: string } {
+    const calendar = this.get(ticker);
+    return { ...calendar, ...describeFiscalCalendar(calendar) };
+  }
+
+  /**
+   * Re-learn calendars from stored call dates (all tickers, or some)
+   */
+  async learn(tickers?: string[]): Promise<LearnResult> {
+    const calls = await this.repository.findCallDates(tickers);
+    const byTicker = new Map<string, typeof calls>();
+    for (const call of calls) {
+      const list = byTicker.get(call.ticker) ?? [];
+      list.push(call);
+      byTicker.set(call.ticker, list);
+    }
+
+    const result: LearnResult = { tickers: byTicker.size, learned: 0, unchanged: 0, undetermined: 0, periodsUpdated: 0 };
+    for (const [ticker, samples] of byTicker) {
+      const inferred = inferFiscalCalendar(samples);
+      if (!inferred) {
+        result.undetermined++;
+        continue;
+      }
+
+      const current = this.calendars.get(ticker);
+      const learned = inferred.calendar;
+      if (current?.learned
+        && current.learned.fiscalYearEndMonth === learned.fiscalYearEndMonth
+        && current.learned.yearOffset === learned.yearOffset
+        && current.sampleCount === inferred.sampleCount) {
+        result.unchanged++;
+        continue;
+      }
+
+      const userSet = current?.source === 'user';
+      await this.save({
+        ticker,
+        fiscalYearEndMonth: userSet ? current.fiscalYearEndMonth : learned.fiscalYearEndMonth,
+        yearOffset: userSet ? current.yearOffset : learned.yearOffset,
+        source: userSet ? 'user' : 'learned',
+        learned,
+        confidence: inferred.confidence,
+        sampleCount: inferred.sampleCount,
+        updatedAt: new Date(),
+      });
+      result.learned++;
+    }
+
+    // Also picks up transcripts saved before their ticker's calendar was known
+    result.periodsUpdated = await this.syncCalendarPeriods(tickers);
+    return result;
+  }
+
+  /**
+   * Set a ticker's calendar by hand; it is kept until the override is cleared
+   */
+  async setOverride(ticker: string, input: { fiscalYearEndMonth?: unknown; yearOffset?: unknown }): Promise<CompanyFiscalCalendar> {
+    const fiscalYearEndMonth = Number(input.fiscalYearEndMonth);
+    const yearOffset = input.yearOffset === undefined ? 0 : Number(input.yearOffset);
+    if (!Number.isInteger(fiscalYearEndMonth) || fiscalYearEndMonth < 1 || fiscalYearEndMonth > 12) {
+      throw new FiscalCalendarError('fiscalYearEndMonth must be a month number from 1 to 12');
+    }
+    if (!Number.isInteger(yearOffset) || Math.abs(yearOffset) > 1) {
+      throw new FiscalCalendarError('yearOffset must be -1, 0 or 1');
+    }
+
+    const current = this.get(ticker);
+    const calendar: CompanyFiscalCalendar = {
+      ...current,
+      fiscalYearEndMonth,
+      yearOffset,
+      source: 'user',
+      updatedAt: new Date(),
+    };
+    await this.save(calendar);
+    await this.syncCalendarPeriods([calendar.ticker]);
+    logger.info('Fiscal calendar set by user', { ticker: calendar.ticker, fiscalYearEndMonth, yearOffset });
+    return calendar;
+  }
+
+  /**
+   * Drop a user override and go back to the learned calendar (or calendar year)
+   */
+  async clearOverride(ticker: string): Promise<CompanyFiscalCalendar> {
+    const current = this.get(ticker);
+    if (current.source !== 'user') {
+      throw new FiscalCalendarError(`${current.ticker} has no user-set fiscal calendar`, 404);
+    }
+
+    if (!current.learned) {
+      this.calendars.delete(current.ticker);
+      await prisma.fiscalCalendar.delete({ where: { ticker: current.ticker } }).catch(error => {
+        logger.warn('Failed to delete fiscal calendar', { ticker: current.ticker, error: error instanceof Error ? error.message : 'Unknown error' });
+      });
+      await this.syncCalendarPeriods([current.ticker]);
+      return this.get(current.ticker);
+    }
+
+    const calendar: CompanyFiscalCalendar = { ...current, ...current.learned, source: 'learned', updatedAt: new Date() };
+    await this.save(calendar);
+    await this.syncCalendarPeriods([calendar.ticker]);
+    return calendar;
+  }
+
+  /**
+   * Rewrite the stored calendar year/quarter of transcripts (all tickers, or some)
+   * that no longer match their ticker's calendar. Returns how many changed.
+   */
+  async syncCalendarPeriods(tickers?: string[]): Promise<number> {
+    try {
+      const rows = await prisma.transcript.findMany({
+        where: tickers?.length ? { ticker: { in: tickers.map(ticker => ticker.toUpperCase()) } } : {},
+        select: { id: true, ticker: true, year: true, quarter: true, callDate: true, calendarYear: true, calendarQuarter: true },
+      });
+
+      const updates = rows
+        .map(row => ({ row, period: this.calendarPeriod(row.ticker, row.year, row.quarter, row.callDate) }))
+        .filter(({ row, period }) => row.calendarYear !== period.year || row.calendarQuarter !== period.quarter);
+
+      for (let i = 0; i < updates.length; i += PERIOD_UPDATE_BATCH) {
+        await prisma.$transaction(updates.slice(i, i + PERIOD_UPDATE_BATCH).map(({ row, period }) =>
+          prisma.transcript.update({
+            where: { id: row.id },
+            data: { calendarYear: period.year, calendarQuarter: period.quarter },
+          })
+        ));
+      }
+
+      if (updates.length > 0) {
+        logger.info('Updated transcript calendar periods', { tickers: tickers ?? 'all', updated: updates.length });
+      }
+      return updates.length;
+    } catch (error) {
+      logger.warn('Failed to update transcript calendar periods', {
+        tickers,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Calendar used to place a quarter in calendar time: the ticker's own, or
+   * for a ticker with nothing known, the one its call date implies when the
+   * call can't have been about the calendar quarter of the same name
+   */
+  private periodCalendar(calendar: CompanyFiscalCalendar, year: number, quarter: number, callDate: Date | string | null): FiscalCalendar {
+    if (calendar.source !== 'default' || !callDate) return calendar;
+    const date = callDate instanceof Date ? callDate : new Date(callDate);
+    if (Number.isNaN(date.getTime())) return calendar;
+
+    const quarterEnd = Date.UTC(year, quarter * 3, 1); // First day after the calendar quarter
+    const daysAfterEnd = (date.getTime() - quarterEnd) / DAY_MS;
+    return daysAfterEnd >= 0 && daysAfterEnd <= MAX_REPORT_LAG_DAYS
+      ? calendar
+      : fiscalCalendarFromCall({ year, quarter, callDate: date });
+  }
+
+  /**
+   * Keep a calendar in memory and persist it; the in-memory copy still applies if the database is down
+   */
+  private async save(calendar: CompanyFiscalCalendar): Promise<void> {
+    this.calendars.set(calendar.ticker, calendar);
+
+    const data = {
+      fiscalYearEndMonth: calendar.fiscalYearEndMonth,
+      yearOffset: calendar.yearOffset,
+      source: calendar.source,
+      learnedEndMonth: calendar.learned?.fiscalYearEndMonth ?? null,
+      learnedYearOffset: calendar.learned?.yearOffset ?? null,
+      confidence: calendar.confidence,
+      sampleCount: calendar.sampleCount,
+    };
+    try {
+      await prisma.fiscalCalendar.upsert({
+        where: { ticker: calendar.ticker },
+        create: { ticker: calendar.ticker, ...data },
+        update: data,
+      });
+    } catch (error) {
+      logger.warn('Failed to save fiscal calendar', {
+        ticker: calendar.ticker,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
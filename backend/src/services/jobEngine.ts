@@ -0,0 +1,532 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { config } from '@/config/config';
+import { logger } from '@/config/logger';
+import { Job, JobProgress, JobType } from '@/types';
+
+const JOBS_FILE = path.join(__dirname, '../../cache/jobs.json');
+const SAVE_DELAY_MS = 2000;
+
+const JOB_TYPES: [JobType, ...JobType[]] = ['transcript-fetch', 'ai-processing', 'reconciliation', 'split-backfill'];
+const JOB_STATUSES: [Job['status'], ...Job['status'][]] = ['pending', 'running', 'completed', 'failed', 'paused', 'cancelled'];
+
+// A job as written to cache/jobs.json; params and results belong to the handler
+const StoredJobSchema = z.object({
+  id: z.string(),
+  type: z.enum(JOB_TYPES),
+  status: z.enum(JOB_STATUSES),
+  params: z.record(z.string(), z.unknown()),
+  items: z.array(z.string()),
+  progress: z.object({
+    current: z.number(),
+    total: z.number(),
+    currentItem: z.string().optional(),
+    processed: z.array(z.string()),
+    failed: z.array(z.string()),
+    skipped: z.array(z.string()),
+    failedDetails: z.array(z.object({ item: z.string(), reason: z.string() })),
+  }),
+  results: z.array(z.unknown()),
+  createdAt: z.coerce.date(),
+  startedAt: z.coerce.date().optional(),
+  completedAt: z.coerce.date().optional(),
+  error: z.string().optional(),
+  estimatedTimeRemaining: z.number().optional(),
+  parentJobId: z.string().optional(),
+});
+
+// A job saved by the old bulk fetch job managers, before jobs had a type
+const LegacyFetchJobSchema = z.object({
+  status: z.enum(JOB_STATUSES),
+  tickers: z.array(z.string()).default([]),
+  quarterCount: z.number().optional(),
+  progress: z.object({
+    processed: z.array(z.string()).default([]),
+    failed: z.array(z.string()).default([]),
+    skipped: z.array(z.string()).default([]),
+    failedDetails: z.array(z.object({ ticker: z.string(), reason: z.string() })).default([]),
+  }).optional(),
+  results: z.array(z.unknown()).default([]),
+  createdAt: z.coerce.date(),
+  startedAt: z.coerce.date().optional(),
+  completedAt: z.coerce.date().optional(),
+  error: z.string().optional(),
+});
+
+/**
+ * Single job engine for every kind of background work.
+ *
+ * A job is a list of items (tickers, transcript ids, ...) worked through by the
+ * handler registered for its type. All jobs share one queue: items are handed out
+ * in job creation order, with at most `config.jobs.concurrency[type]` items of a
+ * type in flight. Jobs are kept in cache/jobs.json; after a restart, items that
+ * had not settled are worked again.
+ */
+
+export class JobRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobRequestError';
+  }
+}
+
+export interface JobPlan<TParams> {
+  params: TParams; // Normalized request, stored on the job
+  items: string[];
+  skipped?: string[]; // Left out up front (e.g. already done); reported as skipped
+}
+
+export interface JobItemOutcome<TResult> {
+  status: 'processed' | 'skipped' | 'failed';
+  results?: TResult[];
+  reason?: string; // Why the item failed
+}
+
+export interface JobHandler<TParams = unknown, TResult = unknown> {
+  readonly type: JobType;
+
+  /**
+   * Validate a request and resolve the items to work through (throw JobRequestError for bad requests)
+   */
+  plan(params: TParams): Promise<JobPlan<TParams>>;
+
+  /**
+   * Dry run: what a planned job would do, without creating it
+   */
+  estimate?(plan: JobPlan<TParams>): Promise<unknown>;
+
+  /**
+   * Work one item. Thrown errors fail the item, not the job.
+   */
+  processItem(job: Job<TParams, TResult>, item: string): Promise<JobItemOutcome<TResult>>;
+
+  // Called when a job is paused, resumed or cancelled, for work running outside the engine
+  onPause?(job: Job<TParams, TResult>): Promise<void>;
+  onResume?(job: Job<TParams, TResult>): Promise<void>;
+  onCancel?(job: Job<TParams, TResult>): Promise<void>;
+}
+
+/**
+ * A job without its params and results, as listed by the API and job streams
+ */
+export function toJobSummary(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    itemCount: job.items.length,
+    progress: job.progress,
+    processed: job.progress.processed.length,
+    failed: job.progress.failed.length,
+    skipped: job.progress.skipped.length,
+    currentItem: job.progress.currentItem,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    estimatedTimeRemaining: job.estimatedTimeRemaining,
+    error: job.error,
+    parentJobId: job.parentJobId
+  };
+}
+
+export class JobEngine extends EventEmitter {
+  private jobs = new Map<string, Job>();
+  private handlers = new Map<JobType, JobHandler>();
+  private queued = new Map<string, string[]>(); // jobId -> items not handed out yet, in order
+  private inFlight = new Map<string, Set<string>>(); // jobId -> items being worked
+  private activeItems = new Map<JobType, number>();
+  private saveTimer: NodeJS.Timeout | null = null;
+  private started = false;
+
+  constructor() {
+    super();
+    this.loadJobsFromFile();
+  }
+
+  register(handler: JobHandler): void {
+    this.handlers.set(handler.type, handler);
+  }
+
+  /**
+   * Start handing out items; jobs left pending or running by the last run continue
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    const resumed = Array.from(this.jobs.values()).filter(job => job.status === 'pending' || job.status === 'running');
+    if (resumed.length > 0) {
+      logger.info('Resuming incomplete jobs', { jobs: resumed.map(job => ({ id: job.id, type: job.type, remaining: job.items.length - job.progress.current })) });
+    }
+    this.pump();
+  }
+
+  /**
+   * Create a job and queue its items
+   */
+  async createJob<TParams>(type: JobType, params: TParams, options: { parentJobId?: string } = {}): Promise<Job<TParams>> {
+    const handler = this.handlers.get(type);
+    if (!handler) {
+      throw new JobRequestError(`Unknown job type: ${type}`);
+    }
+
+    const plan = await handler.plan(params);
+    const items = Array.from(new Set(plan.items));
+
+    const job: Job<TParams> = {
+      id: uuidv4(),
+      type,
+      status: 'pending',
+      params: plan.params as TParams, // Normalized by the handler registered for the type
+      items,
+      progress: {
+        current: 0,
+        total: items.length,
+        processed: [],
+        failed: [],
+        skipped: plan.skipped ?? [],
+        failedDetails: [],
+      },
+      results: [],
+      createdAt: new Date(),
+      ...(options.parentJobId ? { parentJobId: options.parentJobId } : {}),
+    };
+
+    this.jobs.set(job.id, job);
+    this.saveJobsToFile();
+
+    logger.info('Job created', { jobId: job.id, type, items: items.length, skipped: job.progress.skipped.length, parentJobId: options.parentJobId });
+    this.emit('created', { jobId: job.id, job });
+
+    if (items.length === 0) {
+      this.completeJob(job);
+    } else {
+      this.pump();
+    }
+    return job;
+  }
+
+  /**
+   * Plan a job and report its handler's estimate, without creating it
+   */
+  async estimateJob<TParams>(type: JobType, params: TParams): Promise<unknown> {
+    const handler = this.handlers.get(type);
+    if (!handler) {
+      throw new JobRequestError(`Unknown job type: ${type}`);
+    }
+    if (!handler.estimate) {
+      throw new JobRequestError(`Dry run is not supported for ${type} jobs`);
+    }
+
+    return handler.estimate(await handler.plan(params));
+  }
+
+  getJob(jobId: string): Job | null {
+    return this.jobs.get(jobId) ?? null;
+  }
+
+  /**
+   * All jobs (optionally of one type), newest first
+   */
+  getAllJobs(type?: JobType): Job[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !type || job.type === type)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  getJobProgress(jobId: string): JobProgress | null {
+    const job = this.jobs.get(jobId);
+    if (!job) return null;
+
+    return {
+      jobId: job.id,
+      type: job.type,
+      status: job.status,
+      progress: job.progress,
+      estimatedTimeRemaining: job.estimatedTimeRemaining,
+      lastUpdate: new Date()
+    };
+  }
+
+  /**
+   * Stop handing out a job's items (items already in flight finish)
+   */
+  async pauseJob(jobId: string): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job || (job.status !== 'running' && job.status !== 'pending')) return false;
+
+    job.status = 'paused';
+    this.saveJobsToFile();
+    await this.handlers.get(job.type)?.onPause?.(job);
+    this.emit('paused', { jobId, job });
+    return true;
+  }
+
+  async resumeJob(jobId: string): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'paused') return false;
+
+    await this.handlers.get(job.type)?.onResume?.(job);
+    job.status = job.startedAt ? 'running' : 'pending';
+    this.saveJobsToFile();
+    this.emit('resumed', { jobId, job });
+    this.pump();
+    return true;
+  }
+
+  async cancelJob(jobId: string): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job || (job.status !== 'pending' && job.status !== 'running' && job.status !== 'paused')) return false;
+
+    job.status = 'cancelled';
+    job.completedAt = new Date();
+    job.progress.currentItem = undefined;
+    this.queued.delete(jobId);
+    this.saveJobsToFile();
+    await this.handlers.get(job.type)?.onCancel?.(job);
+    this.emit('cancelled', { jobId, job });
+    return true;
+  }
+
+  /**
+   * Forget finished jobs (completed, failed or cancelled). Returns the number removed.
+   */
+  clearFinishedJobs(type?: JobType): number {
+    const cleared: string[] = [];
+    for (const [jobId, job] of this.jobs) {
+      if ((!type || job.type === type) && (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled')) {
+        this.jobs.delete(jobId);
+        this.queued.delete(jobId);
+        cleared.push(jobId);
+      }
+    }
+
+    this.saveJobsToFile();
+    logger.info('Cleared finished jobs', { count: cleared.length, type });
+    this.emit('cleared', { jobIds: cleared });
+    return cleared.length;
+  }
+
+  /**
+   * Write pending changes to disk now (called on shutdown)
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.writeJobsFile();
+  }
+
+  /**
+   * Hand out items while their type has free slots
+   */
+  private pump(): void {
+    if (!this.started) return;
+
+    for (const type of this.handlers.keys()) {
+      const limit = config.jobs.concurrency[type];
+      while ((this.activeItems.get(type) ?? 0) < limit) {
+        const next = this.nextItem(type);
+        if (!next) break;
+        void this.runItem(next.job, next.item);
+      }
+    }
+  }
+
+  /**
+   * First unsettled item of the oldest active job of a type
+   */
+  private nextItem(type: JobType): { job: Job; item: string } | null {
+    const activeJobs = Array.from(this.jobs.values())
+      .filter(job => job.type === type && (job.status === 'pending' || job.status === 'running'))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    for (const job of activeJobs) {
+      let queue = this.queued.get(job.id);
+      if (!queue) {
+        const settled = new Set([...job.progress.processed, ...job.progress.failed, ...job.progress.skipped]);
+        queue = job.items.filter(item => !settled.has(item));
+        this.queued.set(job.id, queue);
+      }
+
+      const item = queue.shift();
+      if (item) return { job, item };
+    }
+    return null;
+  }
+
+  private async runItem(job: Job, item: string): Promise<void> {
+    const handler = this.handlers.get(job.type)!;
+    const inFlight = this.inFlight.get(job.id) ?? new Set<string>();
+    inFlight.add(item);
+    this.inFlight.set(job.id, inFlight);
+    this.activeItems.set(job.type, (this.activeItems.get(job.type) ?? 0) + 1);
+
+    if (job.status === 'pending') {
+      job.status = 'running';
+      job.startedAt = new Date();
+      logger.info('Job started', { jobId: job.id, type: job.type, items: job.items.length });
+      this.emit('started', { jobId: job.id, job });
+    }
+    job.progress.currentItem = item;
+
+    let outcome: JobItemOutcome<unknown>;
+    try {
+      outcome = await handler.processItem(job, item);
+    } catch (error) {
+      outcome = { status: 'failed', reason: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    inFlight.delete(item);
+    this.activeItems.set(job.type, (this.activeItems.get(job.type) ?? 1) - 1);
+    this.recordOutcome(job, item, outcome);
+    this.pump();
+  }
+
+  private recordOutcome(job: Job, item: string, outcome: JobItemOutcome<unknown>): void {
+    // A cancelled job still records items that were in flight, but is not completed again
+    job.progress[outcome.status].push(item);
+    if (outcome.status === 'failed') {
+      job.progress.failedDetails.push({ item, reason: outcome.reason ?? 'Unknown error' });
+      logger.warn('Job item failed', { jobId: job.id, type: job.type, item, reason: outcome.reason });
+    }
+    job.results.push(...(outcome.results ?? []));
+    job.progress.current++;
+
+    if (job.startedAt && job.progress.current > 0) {
+      const elapsed = Date.now() - new Date(job.startedAt).getTime();
+      const remaining = (job.progress.total - job.progress.current) * (elapsed / job.progress.current);
+      job.estimatedTimeRemaining = Math.round(remaining / 1000);
+    }
+
+    const inFlight = this.inFlight.get(job.id);
+    if (job.progress.current >= job.progress.total && !inFlight?.size && (job.status === 'running' || job.status === 'paused')) {
+      this.completeJob(job);
+      return;
+    }
+
+    if (job.progress.currentItem === item) {
+      job.progress.currentItem = inFlight?.values().next().value;
+    }
+    this.scheduleSave();
+    this.emit('progress', { jobId: job.id, job });
+  }
+
+  private completeJob(job: Job): void {
+    job.status = 'completed';
+    job.completedAt = new Date();
+    job.progress.currentItem = undefined;
+    job.estimatedTimeRemaining = 0;
+    this.queued.delete(job.id);
+    this.inFlight.delete(job.id);
+    this.saveJobsToFile();
+
+    logger.info('Job completed', {
+      jobId: job.id,
+      type: job.type,
+      processed: job.progress.processed.length,
+      failed: job.progress.failed.length,
+      skipped: job.progress.skipped.length
+    });
+    this.emit('completed', { jobId: job.id, job });
+  }
+
+  /**
+   * Load jobs from file. Records from the old bulk fetch job managers (no type) become
+   * transcript-fetch jobs; records that match neither shape are dropped with a warning.
+   */
+  private loadJobsFromFile(): void {
+    try {
+      if (!fs.existsSync(JOBS_FILE)) return;
+
+      const data: unknown = JSON.parse(fs.readFileSync(JOBS_FILE, 'utf8'));
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        logger.error('Jobs file is not an object of jobs, ignoring it', { file: JOBS_FILE });
+        return;
+      }
+
+      for (const [jobId, record] of Object.entries(data)) {
+        const typed = record && typeof record === 'object' && 'type' in record;
+        const parsed = typed ? StoredJobSchema.safeParse(record) : LegacyFetchJobSchema.safeParse(record);
+        if (!parsed.success) {
+          logger.warn('Skipping invalid job in jobs file', { jobId, issues: parsed.error.issues.slice(0, 3).map(issue => `${issue.path.join('.')}: ${issue.message}`) });
+          continue;
+        }
+        if ('type' in parsed.data) {
+          this.jobs.set(jobId, parsed.data);
+          continue;
+        }
+
+        const legacy = parsed.data;
+        const upper = (list: string[] = []) => list.map(ticker => ticker.toUpperCase());
+        const tickers = upper(legacy.tickers);
+        const processed = upper(legacy.progress?.processed);
+        const failed = upper(legacy.progress?.failed);
+        const skipped = upper(legacy.progress?.skipped);
+        this.jobs.set(jobId, {
+          id: jobId,
+          type: 'transcript-fetch',
+          status: legacy.status,
+          params: { tickers, quarterCount: legacy.quarterCount ?? 16, transcriptsPerTicker: legacy.quarterCount ? 1 : 4 },
+          items: tickers,
+          progress: {
+            current: processed.length + failed.length + skipped.length,
+            total: tickers.length,
+            processed,
+            failed,
+            skipped,
+            failedDetails: (legacy.progress?.failedDetails ?? []).map(failure => ({
+              item: failure.ticker.toUpperCase(),
+              reason: failure.reason,
+            })),
+          },
+          results: legacy.results,
+          createdAt: legacy.createdAt,
+          startedAt: legacy.startedAt,
+          completedAt: legacy.completedAt,
+          error: legacy.error,
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to load jobs from file', { error });
+    }
+  }
+
+  /**
+   * Save jobs to file now
+   */
+  private saveJobsToFile(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.writeJobsFile();
+  }
+
+  /**
+   * Batch writes while items are completing
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.writeJobsFile();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private writeJobsFile(): void {
+    try {
+      const tempFile = `${JOBS_FILE}.tmp`;
+      fs.mkdirSync(path.dirname(JOBS_FILE), { recursive: true });
+      fs.writeFileSync(tempFile, JSON.stringify(Object.fromEntries(this.jobs), null, 2));
+      fs.renameSync(tempFile, JOBS_FILE);
+    } catch (error) {
+      logger.error('Failed to save jobs to file', { error });
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Request, Response } from 'express';
+import { logger } from '@/config/logger';
+import { Job, JobType } from '@/types';
+import { JobEngine, toJobSummary } from './jobEngine';
+
+const JOB_EVENTS = ['created', 'started', 'progress', 'paused', 'resumed', 'cancelled', 'completed'] as const;
+const FINISHED_STATUSES: Job['status'][] = ['completed', 'failed', 'cancelled'];
+const HEARTBEAT_MS = 25000; // Keeps proxies from closing idle streams
+const RECONNECT_MS = 3000;
+
+interface StreamClient {
+  res: Response;
+  jobId?: string; // Stream for one job, closed once it finishes
+  type?: JobType; // Stream for all jobs of a type (or every job)
+}
+
+/**
+ * Server-Sent Events for job progress. Forwards the JobEngine's events to
+ * browsers, either for a single job or for the whole job list, so pages
+ * don't have to poll.
+ */
+export class JobEventStream {
+  private engine: JobEngine;
+  private clients = new Set<StreamClient>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(engine: JobEngine) {
+    this.engine = engine;
+
+    for (const event of JOB_EVENTS) {
+      this.engine.on(event, ({ job }: { job: Job }) => this.broadcast(event, job));
+    }
+    this.engine.on('cleared', ({ jobIds }: { jobIds: string[] }) => {
+      for (const client of this.clients) {
+        if (!client.jobId) this.send(client, 'cleared', { jobIds });
+      }
+    });
+  }
+
+  /**
+   * Start streaming one job's events
+   */
+  openJob(req: Request, res: Response, jobId: string): boolean {
+    const job = this.engine.getJob(jobId);
+    if (!job) return false;
+
+    const client = this.open(req, res, { jobId });
+    this.send(client, 'snapshot', toJobSummary(job));
+    if (FINISHED_STATUSES.includes(job.status)) {
+      this.close(client);
+    }
+    return true;
+  }
+
+  /**
+   * Start streaming events for every job (optionally of one type)
+   */
+  openAll(req: Request, res: Response, type?: JobType): void {
+    const client = this.open(req, res, { type });
+    this.send(client, 'snapshot', { jobs: this.engine.getAllJobs(type).map(toJobSummary) });
+  }
+
+  /**
+   * End every stream (called on shutdown)
+   */
+  closeAll(): void {
+    for (const client of this.clients) {
+      this.close(client);
+    }
+  }
+
+  private open(req: Request, res: Response, filter: Omit<StreamClient, 'res'>): StreamClient {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_MS}\n\n`);
+
+    const client: StreamClient = { res, ...filter };
+    this.clients.add(client);
+    req.on('close', () => this.remove(client));
+
+    if (!this.heartbeat) {
+      this.heartbeat = setInterval(() => {
+        for (const { res: stream } of this.clients) {
+          stream.write(': keep-alive\n\n');
+          stream.flush();
+        }
+      }, HEARTBEAT_MS);
+      this.heartbeat.unref();
+    }
+
+    logger.debug('Job event stream opened', { ...filter, clients: this.clients.size });
+    return client;
+  }
+
+  private broadcast(event: string, job: Job): void {
+    const summary = toJobSummary(job);
+    for (const client of this.clients) {
+      if (client.jobId ? client.jobId !== job.id : client.type && client.type !== job.type) continue;
+
+      this.send(client, event, summary);
+      if (client.jobId && FINISHED_STATUSES.includes(job.status)) {
+        this.close(client);
+      }
+    }
+  }
+
+  private send(client: StreamClient, event: string, data: unknown): void {
+    client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    client.res.flush(); // Push past the compression middleware's buffer
+  }
+
+  private close(client: StreamClient): void {
+    client.res.end();
+    this.remove(client);
+  }
+
+  private remove(client: StreamClient): void {
+    this.clients.delete(client);
+    if (this.clients.size === 0 && this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalTranscriptProvider, parseFormattedTranscript } from './localTranscriptProvider';
+
+const TRANSCRIPT = [
+  'NVIDIA Corporation, Q1 2025 Earnings Call, May 22, 2024',
+  '5/22/24',
+  '',
+  'Good afternoon.',
+  '',
+  'Operator',
+  '',
+  'Welcome to the call.',
+  '',
+  'Colette Kress',
+  '',
+  'Thanks. Revenue was a record.',
+  '',
+  'Data center grew again.',
+  '',
+  'Jensen Huang',
+  '',
+  'Thank you, Colette.',
+].join('\r\n');
+
+describe('parseFormattedTranscript', () => {
+  it('reads the header and groups paragraphs under the speaker lines', () => {
+    expect(parseFormattedTranscript(TRANSCRIPT)).toEqual({
+      companyName: 'NVIDIA Corporation',
+      year: 2025,
+      quarter: 1,
+      date: '2024-05-22',
+      segments: [
+        { speaker: 'Unknown', text: 'Good afternoon.' },
+        { speaker: 'Operator', text: 'Welcome to the call.' },
+        { speaker: 'Colette Kress', text: 'Thanks. Revenue was a record.\n\nData center grew again.' },
+        { speaker: 'Jensen Huang', text: 'Thank you, Colette.' },
+      ],
+    });
+  });
+
+  it('falls back to the short date line and treats a trailing short line as text', () => {
+    const parsed = parseFormattedTranscript('Apple Inc., Q4 2024 Earnings Call\n10/31/24\n\nTim Cook\n\nGood afternoon, everyone.\n\nThanks');
+    expect(parsed).toMatchObject({ companyName: 'Apple Inc.', year: 2024, quarter: 4, date: '2024-10-31' });
+    expect(parsed.segments).toEqual([{ speaker: 'Tim Cook', text: 'Good afternoon, everyone.\n\nThanks' }]);
+  });
+
+  it('keeps text without a header', () => {
+    expect(parseFormattedTranscript('Just some notes.')).toEqual({
+      companyName: null,
+      year: null,
+      quarter: null,
+      date: '',
+      segments: [{ speaker: 'Unknown', text: 'Just some notes.' }],
+    });
+  });
+});
+
+describe('LocalTranscriptProvider', () => {
+  let directory: string;
+  let provider: LocalTranscriptProvider;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'local-transcripts-'));
+    fs.writeFileSync(path.join(directory, 'NVIDIA_Q1_2025_formatted.txt'), TRANSCRIPT);
+    fs.writeFileSync(path.join(directory, 'NVIDIA_Q4_2024_formatted.txt'), TRANSCRIPT);
+    fs.writeFileSync(path.join(directory, 'AAPL_Q4_2024.txt'), 'Apple Inc., Q4 2024 Earnings Call\n\nTim Cook\n\nHello.');
+    fs.writeFileSync(path.join(directory, 'LONGCOMPANYNAME_Q1_2025.txt'), TRANSCRIPT);
+    fs.writeFileSync(path.join(directory, 'notes.txt'), 'Not a transcript');
+    fs.writeFileSync(path.join(directory, 'aliases.json'), JSON.stringify({ nvidia: 'nvda' }));
+    provider = new LocalTranscriptProvider(directory);
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('indexes files by ticker, resolving aliases and skipping names with no ticker', async () => {
+    expect(await provider.listTickers()).toEqual(['AAPL', 'NVDA']);
+    expect(await provider.listAvailableQuarters('nvda')).toEqual([{ year: 2025, quarter: 1 }, { year: 2024, quarter: 4 }]);
+  });
+
+  it('returns the parsed segments for a listed quarter', async () => {
+    const split = await provider.fetchTranscriptSplit('NVDA', 2025, 1);
+    expect(split).toMatchObject({ ticker: 'NVDA', year: 2025, quarter: 1, date: '2024-05-22', companyName: 'NVIDIA Corporation' });
+    expect(split?.transcript_split).toHaveLength(4);
+
+    const transcript = await provider.fetchTranscript('AAPL', 2024, 4);
+    expect(transcript?.transcript).toBe('Tim Cook: Hello.');
+    expect(await provider.fetchTranscriptSplit('NVDA', 2023, 1)).toBeNull();
+  });
+
+  it('lists nothing when the directory is missing', async () => {
+    const missing = new LocalTranscriptProvider(path.join(directory, 'missing'));
+    expect(await missing.listTickers()).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '@/config/config';
+import { logger } from '@/config/logger';
+import { Quarter, TranscriptSplitSegment } from '@/types';
+import { ProviderTranscript, ProviderTranscriptSplit, TranscriptProvider } from './transcriptProvider';
+
+const FILE_PATTERN = /^(.+?)_Q([1-4])_(\d{4})(?:_formatted)?\.txt$/i;
+const HEADER_PATTERN = /^(.+?),\s*Q([1-4])\s+(\d{4})\s+Earnings Call(?:,\s*(.+))?$/i;
+const SHORT_DATE_PATTERN = /^\d{1,2}\/\d{1,2}\/\d{2,4}$/;
+const ALIASES_FILE = 'aliases.json'; // Optional {"NVIDIA": "NVDA"} map from file name prefix to ticker
+const MAX_SPEAKER_LENGTH = 60;
+
+interface LocalTranscriptFile {
+  fileName: string;
+  ticker: string;
+  year: number;
+  quarter: number;
+}
+
+interface ParsedTranscript {
+  companyName: string | null;
+  year: number | null;
+  quarter: number | null;
+  date: string;
+  segments: TranscriptSplitSegment[];
+}
+
+/**
+ * Transcripts obtained elsewhere, read from a directory of text files named
+ * like NVIDIA_Q1_2025_formatted.txt. Each file starts with a header line
+ * ("NVIDIA Corporation, Q1 2025 Earnings Call, May 22, 2024"), optionally a
+ * short date line, then blank-line separated paragraphs where a speaker's
+ * name on its own line introduces what they said.
+ */
+export class LocalTranscriptProvider implements TranscriptProvider {
+  readonly name = 'local_files';
+  readonly description = 'Transcript text files in the local transcripts directory';
+  readonly remote = false;
+  private directory: string;
+  private index: Map<string, LocalTranscriptFile[]> | null = null;
+  private indexedMtimeMs = 0;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async fetchTranscript(ticker: string, year: number, quarter: number): Promise<ProviderTranscript | null> {
+    const file = await this.findFile(ticker, year, quarter);
+    if (!file) return null;
+
+    const parsed = await this.readFile(file);
+    if (parsed.segments.length === 0) return null;
+
+    return {
+      ticker: file.ticker,
+      year,
+      quarter,
+      date: parsed.date,
+      companyName: parsed.companyName ?? undefined,
+      transcript: parsed.segments.map(segment => `${segment.speaker}: ${segment.text}`).join('\n\n'),
+    };
+  }
+
+  async fetchTranscriptSplit(ticker: string, year: number, quarter: number): Promise<ProviderTranscriptSplit | null> {
+    const file = await this.findFile(ticker, year, quarter);
+    if (!file) return null;
+
+    const parsed = await this.readFile(file);
+    if (parsed.segments.length === 0) return null;
+
+    return {
+      ticker: file.ticker,
+      year,
+      quarter,
+      date: parsed.date,
+      companyName: parsed.companyName ?? undefined,
+      transcript_split: parsed.segments,
+    };
+  }
+
+  async listAvailableQuarters(ticker: string): Promise<Quarter[]> {
+    const files = (await this.getIndex()).get(ticker.toUpperCase()) ?? [];
+    return files
+      .map(file => ({ year: file.year, quarter: file.quarter }))
+      .sort((a, b) => b.year - a.year || b.quarter - a.quarter);
+  }
+
+  /**
+   * Tickers with at least one transcript file
+   */
+  async listTickers(): Promise<string[]> {
+    return Array.from((await this.getIndex()).keys()).sort();
+  }
+
+  private async findFile(ticker: string, year: number, quarter: number): Promise<LocalTranscriptFile | null> {
+    const files = (await this.getIndex()).get(ticker.toUpperCase()) ?? [];
+    return files.find(file => file.year === year && file.quarter === quarter) ?? null;
+  }
+
+  /**
+   * File names by ticker, rebuilt when the directory changes
+   */
+  private async getIndex(): Promise<Map<string, LocalTranscriptFile[]>> {
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(this.directory);
+    } catch {
+      if (this.index === null) {
+        logger.warn('Local transcripts directory not found', { directory: this.directory });
+      }
+      this.index = new Map();
+      return this.index;
+    }
+
+    if (this.index && stat.mtimeMs === this.indexedMtimeMs) {
+      return this.index;
+    }
+
+    const aliases = await this.readAliases();
+    const index = new Map<string, LocalTranscriptFile[]>();
+    for (const fileName of await fs.promises.readdir(this.directory)) {
+      const match = FILE_PATTERN.exec(fileName);
+      if (!match) continue;
+
+      const prefix = match[1].toUpperCase();
+      const ticker = (aliases[prefix] ?? prefix).toUpperCase();
+      if (ticker.length > 10) {
+        logger.warn('Skipping local transcript with no ticker alias', { fileName, prefix });
+        continue;
+      }
+
+      const files = index.get(ticker) ?? [];
+      files.push({ fileName, ticker, quarter: Number(match[2]), year: Number(match[3]) });
+      index.set(ticker, files);
+    }
+
+    this.index = index;
+    this.indexedMtimeMs = stat.mtimeMs;
+    logger.info('Local transcripts indexed', { directory: this.directory, tickers: index.size });
+    return index;
+  }
+
+  private async readAliases(): Promise<Record<string, string>> {
+    try {
+      const raw = JSON.parse(await fs.promises.readFile(path.join(this.directory, ALIASES_FILE), 'utf8'));
+      return Object.fromEntries(Object.entries(raw).map(([prefix, ticker]) => [prefix.toUpperCase(), String(ticker)]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Could not read local transcript aliases', {
+          file: ALIASES_FILE,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      return {};
+    }
+  }
+
+  private async readFile(file: LocalTranscriptFile): Promise<ParsedTranscript> {
+    const content = await fs.promises.readFile(path.join(this.directory, file.fileName), 'utf8');
+    const parsed = parseFormattedTranscript(content);
+
+    if (parsed.year !== null && (parsed.year !== file.year || parsed.quarter !== file.quarter)) {
+      logger.warn('Local transcript header disagrees with its file name', {
+        fileName: file.fileName,
+        header: `Q${parsed.quarter} ${parsed.year}`,
+      });
+    }
+    return parsed;
+  }
+}
+
+/**
+ * Parse the formatted transcript text layout into speaker segments
+ */
+export function parseFormattedTranscript(content: string): ParsedTranscript {
+  const paragraphs = content.replace(/\r\n/g, '\n').split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0);
+  const result: ParsedTranscript = { companyName: null, year: null, quarter: null, date: '', segments: [] };
+
+  // Header paragraph: "Company, Q1 2025 Earnings Call, May 22, 2024" plus an optional "5/22/24" line
+  const headerLines = paragraphs[0]?.split('\n').map(line => line.trim()) ?? [];
+  const header = HEADER_PATTERN.exec(headerLines[0] ?? '');
+  if (header) {
+    paragraphs.shift();
+    result.companyName = header[1].trim();
+    result.quarter = Number(header[2]);
+    result.year = Number(header[3]);
+    result.date = toIsoDate(header[4]) ?? toIsoDate(headerLines.find(line => SHORT_DATE_PATTERN.test(line))) ?? '';
+  }
+
+  let current: TranscriptSplitSegment | null = null;
+  for (let i = 0; i < paragraphs.length; i++) {
+    const paragraph = paragraphs[i];
+    if (isSpeakerLine(paragraph) && i + 1 < paragraphs.length) {
+      current = { speaker: paragraph, text: '' };
+      result.segments.push(current);
+      continue;
+    }
+
+    if (!current) {
+      current = { speaker: 'Unknown', text: '' };
+      result.segments.push(current);
+    }
+    current.text = current.text ? `${current.text}\n\n${paragraph}` : paragraph;
+  }
+
+  result.segments = result.segments.filter(segment => segment.text.length > 0);
+  return result;
+}
+
+function isSpeakerLine(paragraph: string): boolean {
+  return !paragraph.includes('\n')
+    && paragraph.length <= MAX_SPEAKER_LENGTH
+    && paragraph.split(/\s+/).length <= 6
+    && !/[.?!:,;]$/.test(paragraph);
+}
+
+function toIsoDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return null;
+
+  // Short dates like 5/22/24 parse as 1924 in some runtimes
+  if (parsed.getFullYear() < 1970) parsed.setFullYear(parsed.getFullYear() + 100);
+  return `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`;
+}
+
+// Export singleton instance
+export const localTranscriptProvider = new LocalTranscriptProvider(config.localTranscripts.directory);
@@ -0,0 +1,56 @@
+import { htmlToText, parseTranscriptSegments } from './manualTranscriptUpload';
+
+jest.mock('@/config/database', () => ({ prisma: {} }));
+
+describe('parseTranscriptSegments', () => {
+  it('reads "Name (Role): text" paragraphs and keeps unlabelled ones with the speaker before', () => {
+    const text = [
+      'Operator: Good afternoon and welcome.',
+      'Tim Cook (Chief Executive Officer): Thank you. We had a record quarter.',
+      'Services grew double digits.',
+      'Luca Maestri: Revenue was $94.9 billion.',
+    ].join('\r\n\r\n');
+
+    expect(parseTranscriptSegments(text)).toEqual([
+      { speaker: 'Operator', text: 'Good afternoon and welcome.' },
+      { speaker: 'Tim Cook', role: 'Chief Executive Officer', text: 'Thank you. We had a record quarter.\n\nServices grew double digits.' },
+      { speaker: 'Luca Maestri', text: 'Revenue was $94.9 billion.' },
+    ]);
+  });
+
+  it('keeps text before the first label under an unknown speaker', () => {
+    expect(parseTranscriptSegments('Prepared remarks follow.\n\nOperator: Welcome.\n\nAnalyst: Question on margins.')).toEqual([
+      { speaker: 'Unknown', text: 'Prepared remarks follow.' },
+      { speaker: 'Operator', text: 'Welcome.' },
+      { speaker: 'Analyst', text: 'Question on margins.' },
+    ]);
+  });
+
+  it('reads the layout with each speaker\'s name on its own line', () => {
+    const text = 'Apple Inc., Q4 2024 Earnings Call\n\nTim Cook\n\nGood afternoon, everyone.\n\nLuca Maestri\n\nThank you, Tim.';
+    expect(parseTranscriptSegments(text)).toEqual([
+      { speaker: 'Tim Cook', text: 'Good afternoon, everyone.' },
+      { speaker: 'Luca Maestri', text: 'Thank you, Tim.' },
+    ]);
+  });
+
+  it('finds no segments in text without speakers', () => {
+    expect(parseTranscriptSegments('Revenue grew this quarter. Margins held up well.\n\nWe expect more of the same next year.')).toEqual([]);
+    // One colon paragraph is not enough to call it the colon layout
+    expect(parseTranscriptSegments('Note: figures are unaudited.\n\nRevenue grew.\n\nMargins held.')).toEqual([]);
+  });
+});
+
+describe('htmlToText', () => {
+  it('turns block tags into paragraphs and drops the rest of the markup', () => {
+    const html = '<html><head><title>Call</title></head><body>'
+      + '<h2>Operator</h2><p>Welcome to the <b>Q3</b> call.<br/>Lines are open.</p>'
+      + '<script>track()</script><ul><li>Revenue up</li><li>Margins flat</li></ul></body></html>';
+    expect(htmlToText(html)).toBe('Operator\n\nWelcome to the Q3 call.\nLines are open.\n\nRevenue up\n\nMargins flat');
+  });
+
+  it('decodes common entities', () => {
+    expect(htmlToText('<p>R&amp;D &lt;up&gt; &quot;a lot&quot; &ndash; it&rsquo;s &#36;5&nbsp;billion &mdash; &ldquo;great&rdquo;</p>'))
+      .toBe('R&D <up> "a lot" – it\'s $5 billion — "great"');
+  });
+});
@@ -0,0 +1,190 @@
+import { logger } from '@/config/logger';
+import { TranscriptSplitSegment } from '@/types';
+import { parseFormattedTranscript } from './localTranscriptProvider';
+import { SaveTranscriptResult, TranscriptRepository } from './transcriptRepository';
+import { formatSplitTranscript } from './transcriptProvider';
+
+const TICKER_PATTERN = /^[A-Z0-9.\-]{1,10}$/;
+const COLON_SPEAKER_PATTERN = /^([A-Z][^:\n]{0,60}?)(?:\s*\(([^)\n]{1,80})\))?:\s+([\s\S]+)$/;
+const MIN_TRANSCRIPT_LENGTH = 200;
+
+export class TranscriptUploadError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'TranscriptUploadError';
+  }
+}
+
+export interface ManualTranscriptInput {
+  ticker?: string;
+  year?: number | string;
+  quarter?: number | string;
+  callDate?: string;
+  companyName?: string;
+  content: string;
+  format?: 'text' | 'html';
+  fileName?: string;
+  overwrite?: boolean; // Replace a transcript already stored for the quarter
+}
+
+export interface ManualTranscriptResult {
+  id: string;
+  cacheKey: string;
+  storage: SaveTranscriptResult['storage'];
+  ticker: string;
+  year: number;
+  quarter: number;
+  replaced: boolean;
+  transcriptLength: number;
+  segmentCount: number;
+  speakers: string[];
+}
+
+/**
+ * Transcripts API Ninjas doesn't carry, uploaded as plain text or HTML.
+ * Speakers are split out into transcriptSplit and the transcript is saved
+ * through the repository (database + cache), so it is searchable at once.
+ */
+export class ManualTranscriptService {
+  private repository: TranscriptRepository;
+
+  constructor(repository: TranscriptRepository) {
+    this.repository = repository;
+  }
+
+  async upload(input: ManualTranscriptInput): Promise<ManualTranscriptResult> {
+    const ticker = String(input.ticker ?? '').trim().toUpperCase();
+    const year = Number(input.year);
+    const quarter = Number(input.quarter);
+    const maxYear = new Date().getFullYear() + 2;
+
+    if (!TICKER_PATTERN.test(ticker)) {
+      throw new TranscriptUploadError('A ticker of 1-10 letters, digits, "." or "-" is required');
+    }
+    if (!Number.isInteger(year) || year < 1990 || year > maxYear) {
+      throw new TranscriptUploadError(`Fiscal year must be between 1990 and ${maxYear}`);
+    }
+    if (!Number.isInteger(quarter) || quarter < 1 || quarter > 4) {
+      throw new TranscriptUploadError('Quarter must be 1, 2, 3 or 4');
+    }
+
+    let callDate: Date | null = null;
+    if (input.callDate) {
+      callDate = new Date(input.callDate);
+      if (Number.isNaN(callDate.getTime())) {
+        throw new TranscriptUploadError(`Invalid call date: ${input.callDate}`);
+      }
+    }
+
+    const isHtml = input.format === 'html' || (input.format === undefined && /<\/?(html|body|p|div|br)\b/i.test(input.content));
+    const text = isHtml ? htmlToText(input.content) : input.content;
+    const segments = parseTranscriptSegments(text);
+    const fullTranscript = segments.length > 0
+      ? formatSplitTranscript(segments)
+      : text.trim();
+
+    if (fullTranscript.length < MIN_TRANSCRIPT_LENGTH) {
+      throw new TranscriptUploadError(`Transcript is too short (${fullTranscript.length} characters)`);
+    }
+
+    const replaced = await this.repository.exists(ticker, year, quarter);
+    if (replaced && !input.overwrite) {
+      throw new TranscriptUploadError(`A transcript for ${ticker} Q${quarter} ${year} already exists`, 409);
+    }
+
+    const saved = await this.repository.save({
+      ticker,
+      year,
+      quarter,
+      callDate,
+      companyName: input.companyName?.trim() || null,
+      fullTranscript,
+      transcriptSplit: segments.length > 0 ? segments : null,
+      transcriptJson: {
+        source: 'manual',
+        format: isHtml ? 'html' : 'text',
+        fileName: input.fileName ?? null,
+        uploadedAt: new Date().toISOString(),
+      },
+      source: 'manual',
+    });
+
+    const speakers = Array.from(new Set(segments.map(segment => segment.speaker)));
+    logger.info('Manual transcript uploaded', {
+      ticker,
+      year,
+      quarter,
+      transcriptId: saved.id,
+      storage: saved.storage,
+      replaced,
+      segmentCount: segments.length,
+    });
+
+    return {
+      id: saved.id,
+      cacheKey: saved.cacheKey,
+      storage: saved.storage,
+      ticker,
+      year,
+      quarter,
+      replaced,
+      transcriptLength: fullTranscript.length,
+      segmentCount: segments.length,
+      speakers,
+    };
+  }
+}
+
+/**
+ * Split transcript text into speaker segments. Handles "Name (Role): text"
+ * paragraphs and the formatted layout with the speaker's name on its own line.
+ */
+export function parseTranscriptSegments(text: string): TranscriptSplitSegment[] {
+  const paragraphs = text.replace(/\r\n/g, '\n').split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0);
+  const colonMatches = paragraphs.map(paragraph => COLON_SPEAKER_PATTERN.exec(paragraph));
+
+  // Colon layout when most paragraphs open with a speaker label
+  if (colonMatches.filter(Boolean).length >= Math.max(2, paragraphs.length / 2)) {
+    const segments: TranscriptSplitSegment[] = [];
+    paragraphs.forEach((paragraph, i) => {
+      const match = colonMatches[i];
+      if (match) {
+        segments.push({ speaker: match[1].trim(), ...(match[2] ? { role: match[2].trim() } : {}), text: match[3].trim() });
+      } else if (segments.length > 0) {
+        segments[segments.length - 1].text += `\n\n${paragraph}`;
+      } else {
+        segments.push({ speaker: 'Unknown', text: paragraph });
+      }
+    });
+    return segments;
+  }
+
+  const formatted = parseFormattedTranscript(text);
+  // A single "Unknown" segment means no speaker structure was found
+  return formatted.segments.length === 1 && formatted.segments[0].speaker === 'Unknown' ? [] : formatted.segments;
+}
+
+/**
+ * Reduce an HTML transcript to paragraphs of plain text
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr|section|article|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#0?39;|&apos;|&rsquo;|&lsquo;/gi, "'")
+    .replace(/&ldquo;|&rdquo;/gi, '"')
+    .replace(/&mdash;/gi, '—')
+    .replace(/&ndash;/gi, '–')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,129 @@
+import {
+  CALENDAR_YEAR,
+  describeFiscalCalendar,
+  fiscalCalendarFromCall,
+  formatFiscalQuarter,
+  generateCandidateQuarters,
+  getFiscalQuarterForDate,
+  getQuartersBetween,
+  getQuartersToTry,
+  inferFiscalCalendar,
+  parseQuarterLabel,
+  toCalendarQuarter,
+  toFiscalQuarter,
+} from './quarterCalculator';
+
+const APPLE = { fiscalYearEndMonth: 9, yearOffset: 0 }; // Fiscal year ends in September
+const NVIDIA = { fiscalYearEndMonth: 1, yearOffset: 0 }; // Fiscal year ends in January
+
+describe('generateCandidateQuarters', () => {
+  const now = new Date(2024, 4, 15); // Mid May 2024, in calendar Q2
+
+  it('starts the look-ahead past the latest completed quarter and goes back newest first', () => {
+    expect(generateCandidateQuarters({ now, lookAhead: 1, lookBack: 4 })).toEqual([
+      { year: 2024, quarter: 2 },
+      { year: 2024, quarter: 1 },
+      { year: 2023, quarter: 4 },
+      { year: 2023, quarter: 3 },
+      { year: 2023, quarter: 2 },
+    ]);
+    expect(generateCandidateQuarters({ now, lookAhead: 0, lookBack: 2 })).toEqual([
+      { year: 2024, quarter: 1 },
+      { year: 2023, quarter: 4 },
+    ]);
+  });
+
+  it('follows the fiscal calendar across a fiscal year boundary', () => {
+    // May 2024 is in Apple's FY2024 Q3 (April - June)
+    expect(generateCandidateQuarters({ now, calendar: APPLE, lookAhead: 0, lookBack: 3 })).toEqual([
+      { year: 2024, quarter: 2 },
+      { year: 2024, quarter: 1 },
+      { year: 2023, quarter: 4 },
+    ]);
+  });
+
+  it('defaults to the configured window', () => {
+    expect(generateCandidateQuarters({ now })).toHaveLength(17);
+    expect(getQuartersToTry(4)).toEqual(generateCandidateQuarters().slice(0, 4));
+  });
+});
+
+describe('quarter labels and ranges', () => {
+  it('parses the accepted label formats', () => {
+    for (const label of ['2024Q3', '2024-Q3', 'Q3 2024', 'q3-2024', ' 2024 Q3 ']) {
+      expect(parseQuarterLabel(label)).toEqual({ year: 2024, quarter: 3 });
+    }
+    expect(parseQuarterLabel('2024Q5')).toBeNull();
+    expect(parseQuarterLabel('Q3')).toBeNull();
+  });
+
+  it('lists every quarter of a range oldest first', () => {
+    expect(getQuartersBetween({ year: 2023, quarter: 3 }, { year: 2024, quarter: 1 })).toEqual([
+      { year: 2023, quarter: 3 },
+      { year: 2023, quarter: 4 },
+      { year: 2024, quarter: 1 },
+    ]);
+    expect(getQuartersBetween({ year: 2024, quarter: 2 }, { year: 2024, quarter: 1 })).toEqual([]);
+  });
+});
+
+describe('fiscal calendar inference', () => {
+  const call = (year: number, quarter: number, date: string) => ({ year, quarter, callDate: new Date(date) });
+
+  it('places the fiscal year end from a single call', () => {
+    expect(fiscalCalendarFromCall(call(2024, 4, '2024-10-31T21:00:00Z'))).toEqual(APPLE);
+    expect(fiscalCalendarFromCall(call(2025, 1, '2024-05-22T21:00:00Z'))).toEqual(NVIDIA);
+    expect(fiscalCalendarFromCall(call(2024, 1, '2024-04-25T21:00:00Z'))).toEqual(CALENDAR_YEAR);
+  });
+
+  it('takes the calendar most calls agree on', () => {
+    const inferred = inferFiscalCalendar([
+      call(2025, 1, '2024-05-22T21:00:00Z'),
+      call(2025, 2, '2024-08-28T21:00:00Z'),
+      call(2025, 3, '2024-11-20T21:00:00Z'),
+      call(2025, 4, '2025-04-30T21:00:00Z'), // Reported late: points at another year end
+    ]);
+    expect(inferred).toEqual({ calendar: NVIDIA, confidence: 0.75, sampleCount: 4 });
+  });
+
+  it('gives up on too few or disagreeing samples', () => {
+    expect(inferFiscalCalendar([call(2024, 4, '2024-10-31T21:00:00Z')])).toBeNull();
+    expect(inferFiscalCalendar([call(2024, 4, '2024-10-31T21:00:00Z'), call(2024, 4, '2025-01-30T21:00:00Z')])).toBeNull();
+    expect(inferFiscalCalendar([call(2024, 4, '2024-10-31T21:00:00Z'), call(2024, 9, '2024-10-31T21:00:00Z')])).toBeNull();
+  });
+});
+
+describe('fiscal and calendar quarters', () => {
+  it('maps a fiscal quarter to the calendar quarter holding most of it and back', () => {
+    expect(toCalendarQuarter(NVIDIA, 2025, 1)).toEqual({ year: 2024, quarter: 1 }); // Feb - Apr 2024
+    expect(toCalendarQuarter(APPLE, 2024, 3)).toEqual({ year: 2024, quarter: 2 }); // Apr - Jun 2024
+    expect(toFiscalQuarter(NVIDIA, 2024, 1)).toEqual({ year: 2025, quarter: 1 });
+    expect(toFiscalQuarter(APPLE, 2024, 2)).toEqual({ year: 2024, quarter: 3 });
+
+    for (const calendar of [CALENDAR_YEAR, APPLE, NVIDIA, { fiscalYearEndMonth: 6, yearOffset: -1 }]) {
+      for (const quarter of [1, 2, 3, 4]) {
+        const { year, quarter: calendarQuarter } = toCalendarQuarter(calendar, 2025, quarter);
+        expect(toFiscalQuarter(calendar, year, calendarQuarter)).toEqual({ year: 2025, quarter });
+      }
+    }
+  });
+
+  it('finds the fiscal quarter of a date', () => {
+    expect(getFiscalQuarterForDate(APPLE, new Date(2024, 10, 15))).toEqual({ year: 2025, quarter: 1 });
+    expect(getFiscalQuarterForDate(NVIDIA, new Date(2025, 0, 10))).toEqual({ year: 2025, quarter: 4 });
+    expect(getFiscalQuarterForDate(CALENDAR_YEAR, new Date(2024, 4, 15))).toEqual({ year: 2024, quarter: 2 });
+  });
+
+  it('labels and describes fiscal calendars', () => {
+    expect(formatFiscalQuarter(CALENDAR_YEAR, 2025, 1)).toBe('Q1 2025');
+    expect(formatFiscalQuarter(APPLE, 2025, 1)).toBe('FY2025 Q1');
+    expect(describeFiscalCalendar(CALENDAR_YEAR)).toEqual({
+      description: 'Calendar year (fiscal year ends in December)',
+      example: 'Q1 2025 = Jan 2025 - Mar 2025',
+    });
+    expect(describeFiscalCalendar(APPLE)).toEqual({
+      description: 'Fiscal year ends in Sep',
+      example: 'FY2025 Q1 = Oct 2024 - Dec 2024',
+    });
+  });
+});
@@ -1,105 +1,66 @@
+import { config } from '@/config/config';
 import { Quarter } from '@/types';
 
 /**
- * Generalized quarter calculation approach
- * Instead of trying to calculate fiscal years, we try quarters in order of recency
- * This works for any company regardless of their fiscal year structure
+ * Quarters to try when fetching, generated from today's date in each
+ * company's fiscal calendar. The sequence starts `lookAhead` quarters past
+ * the latest completed quarter (providers sometimes label calls a quarter
+ * ahead) and goes back `lookBack` completed quarters, newest first.
  */
 
+export interface CandidateQuarterOptions {
+  calendar?: FiscalCalendar; // Default: calendar year
+  lookAhead?: number; // Default: config.quarters.lookAhead
+  lookBack?: number; // Default: config.quarters.lookBack
+  now?: Date;
+}
+
 /**
- * Get quarters to try in order of recency (most recent first)
- * This is the generalized approach that works for any company
- * OPTIMIZED: Returns only the requested number of quarters instead of all 16
+ * Candidate quarters for a company, newest first
  */
-export function getQuartersToTry(count: number = 4): Quarter[] {
+export function generateCandidateQuarters(options: CandidateQuarterOptions = {}): Quarter[] {
+  const calendar = options.calendar ?? CALENDAR_YEAR;
+  const lookAhead = options.lookAhead ?? config.quarters.lookAhead;
+  const lookBack = options.lookBack ?? config.quarters.lookBack;
+
+  // Latest completed quarter, moved forward by the look-ahead (1 = the quarter in progress)
+  let quarter = getPreviousQuarter(getFiscalQuarterForDate(calendar, options.now ?? new Date()));
+  for (let i = 0; i < lookAhead; i++) quarter = getNextQuarter(quarter);
+
   const quarters: Quarter[] = [];
-  const currentDate = new Date();
-  const currentYear = currentDate.getFullYear();
-  
-  // Define all possible quarters in order of recency (most recent first)
-  // Include future quarters as companies may use different fiscal years
-  const allQuarters = [
-    // Future quarters (fiscal years can extend into next calendar year)
-    { year: 2026, quarter: 1 }, // Some companies' Q1 2026 reported in early 2025
-    { year: 2025, quarter: 4 },
-    { year: 2025, quarter: 3 },
-    { year: 2025, quarter: 2 },
-    { year: 2025, quarter: 1 },
-    // 2024 quarters
-    { year: 2024, quarter: 4 },
-    { year: 2024, quarter: 3 },
-    { year: 2024, quarter: 2 },
-    { year: 2024, quarter: 1 },
-    // 2023 quarters
-    { year: 2023, quarter: 4 },
-    { year: 2023, quarter: 3 },
-    { year: 2023, quarter: 2 },
-    { year: 2023, quarter: 1 },
-    // 2022 quarters
-    { year: 2022, quarter: 4 },
-    { year: 2022, quarter: 3 },
-    { year: 2022, quarter: 2 },
-    { year: 2022, quarter: 1 }
-  ];
-  
-  // Return only the requested number of quarters (or all if count is larger)
-  return allQuarters.slice(0, count);
+  for (let i = 0; i < lookAhead + lookBack; i++) {
+    quarters.push(quarter);
+    quarter = getPreviousQuarter(quarter);
+  }
+  return quarters;
 }
 
 /**
- * Get a single quarter at a specific index (0-based)
- * This allows for more efficient processing - get quarters one at a time
+ * Get quarters to try in order of recency (most recent first)
  */
-export function getQuarterAtIndex(index: number): Quarter | null {
-  const allQuarters = [
-    // Future quarters (fiscal years can extend into next calendar year)
-    { year: 2026, quarter: 1 }, // Some companies' Q1 2026 reported in early 2025
-    { year: 2025, quarter: 4 },
-    { year: 2025, quarter: 3 },
-    { year: 2025, quarter: 2 },
-    { year: 2025, quarter: 1 },
-    // 2024 quarters
-    { year: 2024, quarter: 4 },
-    { year: 2024, quarter: 3 },
-    { year: 2024, quarter: 2 },
-    { year: 2024, quarter: 1 },
-    // 2023 quarters
-    { year: 2023, quarter: 4 },
-    { year: 2023, quarter: 3 },
-    { year: 2023, quarter: 2 },
-    { year: 2023, quarter: 1 },
-    // 2022 quarters
-    { year: 2022, quarter: 4 },
-    { year: 2022, quarter: 3 },
-    { year: 2022, quarter: 2 },
-    { year: 2022, quarter: 1 }
-  ];
-  
-  return index < allQuarters.length ? allQuarters[index] : null;
+export function getQuartersToTry(count: number = 4, calendar: FiscalCalendar = CALENDAR_YEAR): Quarter[] {
+  return generateCandidateQuarters({ calendar }).slice(0, count);
 }
 
 /**
- * Get the total number of available quarters
+ * Get a single quarter at a specific index (0-based) of the candidate sequence
  */
-export function getTotalQuarterCount(): number {
-  return 16; // 4 years × 4 quarters
+export function getQuarterAtIndex(index: number, calendar: FiscalCalendar = CALENDAR_YEAR): Quarter | null {
+  return generateCandidateQuarters({ calendar })[index] ?? null;
 }
 
 /**
- * Get quarters to try for a specific ticker (generalized approach)
- * This tries quarters in order of recency and works for any company
+ * Get the total number of candidate quarters
  */
-export function getQuartersToTryForTicker(ticker: string, count: number = 4): Quarter[] {
-  // For now, use the same approach for all tickers
-  // In the future, we could add ticker-specific optimizations
-  return getQuartersToTry(count);
+export function getTotalQuarterCount(): number {
+  return config.quarters.lookAhead + config.quarters.lookBack;
 }
 
 /**
- * Calculate the last N quarters from a given date (generalized approach)
+ * Calculate the last N quarters from a given date in a company's fiscal calendar
  */
-export function getLastFourQuarters(fromDate: Date = new Date()): Quarter[] {
-  return getQuartersToTry(4);
+export function getLastFourQuarters(fromDate: Date = new Date(), calendar: FiscalCalendar = CALENDAR_YEAR): Quarter[] {
+  return generateCandidateQuarters({ calendar, now: fromDate }).slice(0, 4);
 }
 
 /**
@@ -199,112 +160,195 @@ export function getPreviousQuarter(quarter: Quarter): Quarter {
 }
 
 /**
- * Get fiscal year info (simplified for generalized approach)
+ * Parse a quarter label: "2024Q3", "2024-Q3", "Q3 2024" or "Q3-2024"
  */
-export function getGeneralizedFiscalYearInfo(): {
-  description: string;
-  example: string;
+export function parseQuarterLabel(label: string): Quarter | null {
+  const text = label.trim().toUpperCase();
+  const match = /^(\d{4})\s*[-\s]?\s*Q([1-4])$/.exec(text) ?? /^Q([1-4])\s*[-\s]?\s*(\d{4})$/.exec(text);
+  if (!match) return null;
+
+  return /^\d{4}$/.test(match[1])
+    ? { year: Number(match[1]), quarter: Number(match[2]) }
+    : { year: Number(match[2]), quarter: Number(match[1]) };
+}
+
+/**
+ * Every quarter from one quarter to another, inclusive (oldest first)
+ */
+export function getQuartersBetween(from: Quarter, to: Quarter): Quarter[] {
+  const quarters: Quarter[] = [];
+  for (let current = from; compareQuarters(current, to) <= 0; current = getNextQuarter(current)) {
+    quarters.push(current);
+  }
+  return quarters;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const REPORT_LAG_DAYS = 40; // Typical gap between a quarter's end and its earnings call
+const MIN_CALENDAR_SAMPLES = 2;
+const MIN_CALENDAR_CONFIDENCE = 0.6; // Share of call dates that must agree on the fiscal year end
+
+/**
+ * How a company's fiscal quarters line up with calendar months. Fiscal year N
+ * ends in `fiscalYearEndMonth` of calendar year N - yearOffset; the offset is
+ * 0 for the usual "named after the year it ends in" convention.
+ */
+export interface FiscalCalendar {
+  fiscalYearEndMonth: number; // 1-12
+  yearOffset: number;
+}
+
+export const CALENDAR_YEAR: FiscalCalendar = { fiscalYearEndMonth: 12, yearOffset: 0 };
+
+/**
+ * A reported quarter and the date its call was held
+ */
+export interface FiscalCalendarSample {
+  year: number;
+  quarter: number;
+  callDate: Date;
+}
+
+export interface InferredFiscalCalendar {
+  calendar: FiscalCalendar;
+  confidence: number; // Share of samples that agree
+  sampleCount: number;
+}
+
+export function isCalendarYear(calendar: FiscalCalendar): boolean {
+  return calendar.fiscalYearEndMonth === 12 && calendar.yearOffset === 0;
+}
+
+/**
+ * Month index (year * 12 + month - 1) of the last month of a fiscal quarter
+ */
+function fiscalQuarterEndIndex(calendar: FiscalCalendar, year: number, quarter: number): number {
+  return (year - calendar.yearOffset) * 12 + calendar.fiscalYearEndMonth - 1 - 3 * (4 - quarter);
+}
+
+function monthLabel(index: number): string {
+  return `${MONTH_NAMES[index % 12]} ${Math.floor(index / 12)}`;
+}
+
+/**
+ * First and last calendar month of a fiscal quarter
+ */
+export function getFiscalQuarterMonths(calendar: FiscalCalendar, year: number, quarter: number): {
+  start: { year: number; month: number };
+  end: { year: number; month: number };
+  label: string; // "Feb 2025 - Apr 2025"
 } {
+  const end = fiscalQuarterEndIndex(calendar, year, quarter);
+  const start = end - 2;
   return {
-    description: 'Generalized approach - tries quarters in order of recency',
-    example: 'Q4 2025, Q3 2025, Q2 2025, Q1 2025, Q4 2024, etc.'
+    start: { year: Math.floor(start / 12), month: (start % 12) + 1 },
+    end: { year: Math.floor(end / 12), month: (end % 12) + 1 },
+    label: `${monthLabel(start)} - ${monthLabel(end)}`,
   };
 }
 
-// Legacy functions for backward compatibility (keeping the old approach as fallback)
-const FISCAL_YEAR_OFFSETS: Record<string, number> = {
-  'NVDA': 1,  // NVIDIA: Fiscal year ends in January, so FY2026 = CY2025
-  'AAPL': 0,  // Apple: Fiscal year ends in September, but we'll use calendar year for simplicity
-  'MSFT': 0,  // Microsoft: Fiscal year ends in June, but we'll map Q4 2025 to July 2025 correctly
-  'GOOGL': 0, // Alphabet: Fiscal year ends in December (calendar year)
-  'TSLA': 0,  // Tesla: Fiscal year ends in December (calendar year)
-  'AMZN': 0,  // Amazon: Fiscal year ends in December (calendar year)
-  'META': 0,  // Meta: Fiscal year ends in December (calendar year)
-  'NFLX': 0,  // Netflix: Fiscal year ends in December (calendar year)
-  'DIS': 0,   // Disney: Fiscal year ends in September, but we'll use calendar year for simplicity
-  'JPM': 0,   // JPMorgan: Fiscal year ends in December (calendar year)
-  'JNJ': 0,   // Johnson & Johnson: Fiscal year ends in December (calendar year)
-  'PG': 0,    // Procter & Gamble: Fiscal year ends in June, but we'll use calendar year for simplicity
-  'HD': 0,    // Home Depot: Fiscal year ends in January, but we'll use calendar year for simplicity
-  'V': 0,     // Visa: Fiscal year ends in September, but we'll use calendar year for simplicity
-  'MA': 0,    // Mastercard: Fiscal year ends in December (calendar year)
-  'UNH': 0,   // UnitedHealth: Fiscal year ends in December (calendar year)
-  'BRK-B': 0, // Berkshire Hathaway: Fiscal year ends in December (calendar year)
-  'CRM': 0,   // Salesforce: Fiscal year ends in January, but we'll use calendar year for simplicity
-  'ADBE': 0,  // Adobe: Fiscal year ends in November, but we'll use calendar year for simplicity
-  'PYPL': 0,  // PayPal: Fiscal year ends in December (calendar year)
-  'CMCSA': 0, // Comcast: Fiscal year ends in December (calendar year)
-  'PEP': 0,   // PepsiCo: Fiscal year ends in December (calendar year)
-  'TMO': 0,   // Thermo Fisher: Fiscal year ends in December (calendar year)
-  'ABT': 0,   // Abbott: Fiscal year ends in December (calendar year)
-  'COST': 0,  // Costco: Fiscal year ends in August, but we'll use calendar year for simplicity
-  'ACN': 0,   // Accenture: Fiscal year ends in August, but we'll use calendar year for simplicity
-  'MRK': 0,   // Merck: Fiscal year ends in December (calendar year)
-  'DHR': 0,   // Danaher: Fiscal year ends in December (calendar year)
-  'VZ': 0,    // Verizon: Fiscal year ends in December (calendar year)
-  'NKE': 0,   // Nike: Fiscal year ends in May, but we'll use calendar year for simplicity
-};
+/**
+ * Calendar quarter a fiscal quarter mostly falls in (the one holding its middle month)
+ */
+export function toCalendarQuarter(calendar: FiscalCalendar, year: number, quarter: number): Quarter {
+  const middle = fiscalQuarterEndIndex(calendar, year, quarter) - 1;
+  return { year: Math.floor(middle / 12), quarter: Math.floor((middle % 12) / 3) + 1 };
+}
+
+/**
+ * Fiscal quarter that mostly falls in a calendar quarter (inverse of toCalendarQuarter)
+ */
+export function toFiscalQuarter(calendar: FiscalCalendar, calendarYear: number, calendarQuarter: number): Quarter {
+  // The fiscal quarter whose middle month is in the calendar quarter ends in its second or third month, or just after
+  return fiscalQuarterEndingFrom(calendar, calendarYear * 12 + 3 * (calendarQuarter - 1) + 1);
+}
 
 /**
- * Get fiscal year offset for a ticker (legacy function for backward compatibility)
+ * Fiscal quarter a date falls in
  */
-export function getFiscalYearOffset(ticker: string): number {
-  return FISCAL_YEAR_OFFSETS[ticker.toUpperCase()] || 0;
+export function getFiscalQuarterForDate(calendar: FiscalCalendar, date: Date): Quarter {
+  return fiscalQuarterEndingFrom(calendar, date.getFullYear() * 12 + date.getMonth());
 }
 
 /**
- * Convert calendar year/quarter to fiscal year/quarter for a specific ticker (legacy function)
+ * First fiscal quarter ending in or after a month index
  */
-export function toFiscalYear(ticker: string, calendarYear: number, calendarQuarter: number): Quarter {
-  const offset = getFiscalYearOffset(ticker);
-  const fiscalYear = calendarYear + offset;
-  
+function fiscalQuarterEndingFrom(calendar: FiscalCalendar, monthIndex: number): Quarter {
+  // Fiscal quarters end every third month counting back from the year end
+  const end = monthIndex + ((((calendar.fiscalYearEndMonth - 1 - monthIndex) % 3) + 3) % 3);
+  const monthsToYearEnd = (((calendar.fiscalYearEndMonth - 1 - end) % 12) + 12) % 12;
   return {
-    year: fiscalYear,
-    quarter: calendarQuarter
+    year: (end + monthsToYearEnd - (calendar.fiscalYearEndMonth - 1)) / 12 + calendar.yearOffset,
+    quarter: 4 - monthsToYearEnd / 3,
   };
 }
 
 /**
- * Convert fiscal year/quarter to calendar year/quarter for a specific ticker (legacy function)
+ * Fiscal label for display: "Q1 2025" for calendar-year companies, "FY2026 Q1" otherwise
  */
-export function toCalendarYear(ticker: string, fiscalYear: number, fiscalQuarter: number): Quarter {
-  const offset = getFiscalYearOffset(ticker);
-  const calendarYear = fiscalYear - offset;
-  
+export function formatFiscalQuarter(calendar: FiscalCalendar, year: number, quarter: number): string {
+  return isCalendarYear(calendar) ? formatQuarter(year, quarter) : `FY${year} Q${quarter}`;
+}
+
+/**
+ * Fiscal calendar implied by one call, assuming the quarter ended REPORT_LAG_DAYS before it
+ */
+export function fiscalCalendarFromCall({ year, quarter, callDate }: FiscalCalendarSample): FiscalCalendar {
+  const approxEnd = new Date(callDate.getTime() - REPORT_LAG_DAYS * 24 * 60 * 60 * 1000);
+  const yearEnd = approxEnd.getUTCFullYear() * 12 + approxEnd.getUTCMonth() + 3 * (4 - quarter);
   return {
-    year: calendarYear,
-    quarter: fiscalQuarter
+    fiscalYearEndMonth: (yearEnd % 12) + 1,
+    yearOffset: year - Math.floor(yearEnd / 12),
   };
 }
 
 /**
- * Get fiscal year info for a ticker (legacy function)
+ * Work out a company's fiscal calendar from when its calls were held. Each
+ * call is assumed to follow its quarter's end by about REPORT_LAG_DAYS, which
+ * places the quarter's last month and so the fiscal year end; the most common
+ * answer wins. Returns null when the samples are too few or disagree.
+ */
+export function inferFiscalCalendar(samples: FiscalCalendarSample[]): InferredFiscalCalendar | null {
+  const votes = new Map<string, { calendar: FiscalCalendar; count: number }>();
+  let sampleCount = 0;
+
+  for (const { year, quarter, callDate } of samples) {
+    if (Number.isNaN(callDate.getTime()) || quarter < 1 || quarter > 4) continue;
+    sampleCount++;
+
+    const calendar = fiscalCalendarFromCall({ year, quarter, callDate });
+    const key = `${calendar.fiscalYearEndMonth}:${calendar.yearOffset}`;
+    const vote = votes.get(key) ?? { calendar, count: 0 };
+    vote.count++;
+    votes.set(key, vote);
+  }
+
+  if (sampleCount < MIN_CALENDAR_SAMPLES) return null;
+  const best = Array.from(votes.values()).sort((a, b) => b.count - a.count)[0];
+  const confidence = Math.round((best.count / sampleCount) * 100) / 100;
+  if (confidence < MIN_CALENDAR_CONFIDENCE) return null;
+
+  return { calendar: best.calendar, confidence, sampleCount };
+}
+
+/**
+ * Description of a fiscal calendar, e.g. for the ticker details page
  */
-export function getFiscalYearInfo(ticker: string): {
-  offset: number;
+export function describeFiscalCalendar(calendar: FiscalCalendar): {
   description: string;
   example: string;
 } {
-  const offset = getFiscalYearOffset(ticker);
-  
-  if (offset === 0) {
+  if (isCalendarYear(calendar)) {
     return {
-      offset: 0,
       description: 'Calendar year (fiscal year ends in December)',
-      example: 'Q1 2025 = January-March 2025'
-    };
-  } else if (offset > 0) {
-    return {
-      offset,
-      description: `Fiscal year ${offset} year(s) ahead of calendar year`,
-      example: `Q1 ${2025 + offset} = ${offset === 1 ? 'February-April 2025' : 'Calendar year calculation'}`
-    };
-  } else {
-    return {
-      offset,
-      description: `Fiscal year ${Math.abs(offset)} year(s) behind calendar year`,
-      example: `Q1 ${2025 + offset} = ${Math.abs(offset) === 1 ? 'October-December 2024' : 'Calendar year calculation'}`
+      example: `Q1 2025 = ${getFiscalQuarterMonths(calendar, 2025, 1).label}`,
     };
   }
-} 
\ No newline at end of file
+
+  const exampleYear = toFiscalQuarter(calendar, 2025, 1).year;
+  return {
+    description: `Fiscal year ends in ${MONTH_NAMES[calendar.fiscalYearEndMonth - 1]}`
+      + (calendar.yearOffset !== 0 ? ` (labelled ${calendar.yearOffset > 0 ? '+' : ''}${calendar.yearOffset} year vs. its end)` : ''),
+    example: `FY${exampleYear} Q1 = ${getFiscalQuarterMonths(calendar, exampleYear, 1).label}`,
+  };
+}
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { QuerySummary } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+
+/**
+ * Durable store for query-focused summaries (/api/transcripts/:id/summarize).
+ * One summary per transcript and normalized search query; the general summary
+ * uses an empty query.
+ */
+export class QuerySummaryService {
+  /**
+   * Normalize a search query so trivially different spellings share a summary
+   */
+  normalizeQuery(searchQuery?: string | null): string {
+    return (searchQuery || '').trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  private hashQuery(searchQuery?: string | null): string {
+    return crypto.createHash('sha1').update(this.normalizeQuery(searchQuery)).digest('hex');
+  }
+
+  /**
+   * Stored summary for a transcript/query, if any
+   */
+  async find(transcriptId: string, searchQuery?: string | null): Promise<QuerySummary | null> {
+    return prisma.querySummary.findUnique({
+      where: { transcriptId_queryHash: { transcriptId, queryHash: this.hashQuery(searchQuery) } },
+    });
+  }
+
+  /**
+   * Save (or replace) the summary for a transcript/query
+   */
+  async save(transcriptId: string, searchQuery: string | null | undefined, summary: string, model?: string): Promise<QuerySummary> {
+    const queryHash = this.hashQuery(searchQuery);
+    const saved = await prisma.querySummary.upsert({
+      where: { transcriptId_queryHash: { transcriptId, queryHash } },
+      update: { summary, model: model ?? null },
+      create: {
+        transcriptId,
+        searchQuery: (searchQuery || '').trim(),
+        queryHash,
+        summary,
+        model: model ?? null,
+      },
+    });
+
+    logger.info('Query summary saved', { transcriptId, summaryId: saved.id, searchQuery: saved.searchQuery || 'none' });
+    return saved;
+  }
+
+  /**
+   * All summaries for a transcript, most recent first
+   */
+  async list(transcriptId: string): Promise<QuerySummary[]> {
+    return prisma.querySummary.findMany({
+      where: { transcriptId },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Delete summaries: one by id, one transcript/query pair, all for a transcript, or everything
+   */
+  async delete(filter: { summaryId?: string; transcriptId?: string; searchQuery?: string | null }): Promise<number> {
+    if (filter.summaryId) {
+      const result = await prisma.querySummary.deleteMany({ where: { id: filter.summaryId } });
+      return result.count;
+    }
+
+    if (filter.transcriptId && filter.searchQuery !== undefined) {
+      const result = await prisma.querySummary.deleteMany({
+        where: { transcriptId: filter.transcriptId, queryHash: this.hashQuery(filter.searchQuery) },
+      });
+      return result.count;
+    }
+
+    const result = await prisma.querySummary.deleteMany({
+      where: filter.transcriptId ? { transcriptId: filter.transcriptId } : {},
+    });
+    return result.count;
+  }
+}
+
+// Export singleton instance
+export const querySummaryService = new QuerySummaryService();
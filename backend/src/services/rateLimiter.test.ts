@@ -0,0 +1,85 @@
+import { AdaptiveRateLimiter, parseRetryAfter, RateLimiterOptions } from './rateLimiter';
+
+const OPTIONS: RateLimiterOptions = {
+  maxPerSecond: 10,
+  minPerSecond: 1,
+  burst: 2,
+  increaseStep: 1,
+  increaseAfterSuccesses: 3,
+  decreaseFactor: 0.5,
+  defaultRetryAfterMs: 5000,
+  eventHistory: 2,
+};
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-05-15T12:00:00Z');
+
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter(0.5, now)).toBe(500);
+    expect(parseRetryAfter('Wed, 15 May 2024 12:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Wed, 15 May 2024 11:00:00 GMT', now)).toBe(0); // Already passed
+  });
+
+  it('ignores missing or unreadable values', () => {
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('', now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('AdaptiveRateLimiter', () => {
+  let granted: number[];
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    granted = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const request = (limiter: AdaptiveRateLimiter, count: number) => {
+    for (let i = 0; i < count; i++) limiter.acquire().then(() => granted.push(Date.now()));
+  };
+
+  it('spends the burst at once, then paces requests at the current rate', async () => {
+    const limiter = new AdaptiveRateLimiter(OPTIONS);
+    request(limiter, 4);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0, 0]);
+
+    await jest.advanceTimersByTimeAsync(250);
+    expect(granted).toEqual([0, 0, 100, 200]);
+    expect(limiter.getStats()).toMatchObject({ granted: 4, queueDepth: 0 });
+  });
+
+  it('pauses for Retry-After and halves the rate on a 429, once per pause', async () => {
+    const limiter = new AdaptiveRateLimiter(OPTIONS);
+    limiter.recordThrottle(1000, { ticker: 'AAPL' });
+    limiter.recordThrottle(2000); // Sent before the pause: extends it without another cut
+    request(limiter, 2);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(granted).toEqual([]);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([2200, 2400]);
+
+    const stats = limiter.getStats();
+    expect(stats).toMatchObject({ currentRate: 5, throttled: 2 });
+    expect(stats.recentThrottles.map(event => [event.rateBefore, event.rateAfter])).toEqual([[5, 5], [10, 5]]);
+  });
+
+  it('regrows the rate after a streak of successes, up to the maximum', () => {
+    const limiter = new AdaptiveRateLimiter({ ...OPTIONS, maxPerSecond: 4 });
+    limiter.recordThrottle(0);
+    limiter.recordThrottle(0);
+    expect(limiter.getStats().currentRate).toBe(1); // 4 → 2 → 1, the floor
+
+    for (let i = 0; i < 9; i++) limiter.recordSuccess();
+    expect(limiter.getStats().currentRate).toBe(4);
+    for (let i = 0; i < 3; i++) limiter.recordSuccess();
+    expect(limiter.getStats().currentRate).toBe(4);
+  });
+});
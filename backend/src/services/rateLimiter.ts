@@ -0,0 +1,190 @@
+import { logger } from '@/config/logger';
+
+export interface RateLimiterOptions {
+  maxPerSecond: number; // Starting rate and the ceiling it regrows to
+  minPerSecond: number; // Floor the rate shrinks to under repeated throttling
+  burst: number; // Tokens that can accumulate while idle
+  increaseStep: number; // Requests/second added after a streak of successes
+  increaseAfterSuccesses: number;
+  decreaseFactor: number; // Rate multiplier applied on a 429
+  defaultRetryAfterMs: number; // Pause used when a 429 carries no Retry-After
+  eventHistory: number; // Throttling events kept for stats
+}
+
+export interface ThrottleEvent {
+  at: Date;
+  retryAfterMs: number;
+  rateBefore: number;
+  rateAfter: number;
+  context?: Record<string, unknown>;
+}
+
+export interface RateLimiterStats {
+  currentRate: number;
+  minRate: number;
+  maxRate: number;
+  availableTokens: number;
+  queueDepth: number;
+  pausedUntil: Date | null;
+  granted: number;
+  throttled: number;
+  averageWaitMs: number;
+  recentThrottles: ThrottleEvent[];
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Token bucket shared by every caller of an upstream API. Callers wait in
+ * FIFO order for a token; a 429 pauses the bucket for the server's
+ * Retry-After and cuts the rate, which then regrows slowly while requests
+ * keep succeeding.
+ */
+export class AdaptiveRateLimiter {
+  private options: RateLimiterOptions;
+  private rate: number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil: number = 0;
+  private successStreak: number = 0;
+  private waiters: Array<{ resolve: () => void; enqueuedAt: number }> = [];
+  private timer: NodeJS.Timeout | null = null;
+  private events: ThrottleEvent[] = [];
+  private granted: number = 0;
+  private throttled: number = 0;
+  private totalWaitMs: number = 0;
+
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+    this.rate = options.maxPerSecond;
+    this.tokens = options.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a request may be sent
+   */
+  acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.waiters.push({ resolve, enqueuedAt: Date.now() });
+      this.drain();
+    });
+  }
+
+  /**
+   * Count a successful response; enough in a row raise the rate one step
+   */
+  recordSuccess(): void {
+    this.successStreak++;
+    if (this.successStreak < this.options.increaseAfterSuccesses || this.rate >= this.options.maxPerSecond) {
+      return;
+    }
+
+    this.successStreak = 0;
+    this.rate = Math.min(this.options.maxPerSecond, this.rate + this.options.increaseStep);
+    logger.debug('Rate limit raised', { rate: this.rate });
+  }
+
+  /**
+   * Back off after a 429. Responses that arrive while already paused were
+   * sent before the pause, so they extend it but don't cut the rate again.
+   */
+  recordThrottle(retryAfterMs?: number, context?: Record<string, unknown>): void {
+    const now = Date.now();
+    const delay = retryAfterMs ?? this.options.defaultRetryAfterMs;
+    const rateBefore = this.rate;
+
+    if (now >= this.pausedUntil) {
+      this.rate = Math.max(this.options.minPerSecond, this.rate * this.options.decreaseFactor);
+    }
+    this.pausedUntil = Math.max(this.pausedUntil, now + delay);
+    this.tokens = 0;
+    this.lastRefill = this.pausedUntil;
+    this.successStreak = 0;
+    this.throttled++;
+
+    this.events.push({ at: new Date(now), retryAfterMs: delay, rateBefore, rateAfter: this.rate, context });
+    if (this.events.length > this.options.eventHistory) {
+      this.events.shift();
+    }
+
+    logger.warn('Upstream rate limit hit, throttling', {
+      retryAfterMs: delay,
+      rateBefore,
+      rateAfter: this.rate,
+      queueDepth: this.waiters.length,
+      ...context,
+    });
+
+    // Re-plan the next release around the pause
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.drain();
+  }
+
+  getStats(): RateLimiterStats {
+    this.refill();
+    return {
+      currentRate: this.rate,
+      minRate: this.options.minPerSecond,
+      maxRate: this.options.maxPerSecond,
+      availableTokens: Math.floor(this.tokens),
+      queueDepth: this.waiters.length,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil) : null,
+      granted: this.granted,
+      throttled: this.throttled,
+      averageWaitMs: this.granted > 0 ? Math.round(this.totalWaitMs / this.granted) : 0,
+      recentThrottles: [...this.events].reverse(),
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (now <= this.lastRefill) return;
+
+    this.tokens = Math.min(this.options.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Hand out available tokens, then arm a timer for when the next one is due
+   */
+  private drain(): void {
+    if (this.timer) return;
+
+    this.refill();
+    const now = Date.now();
+    while (this.waiters.length > 0 && this.tokens >= 1 && now >= this.pausedUntil) {
+      const waiter = this.waiters.shift()!;
+      this.tokens -= 1;
+      this.granted++;
+      this.totalWaitMs += now - waiter.enqueuedAt;
+      waiter.resolve();
+    }
+
+    if (this.waiters.length === 0) return;
+
+    const wait = now < this.pausedUntil
+      ? this.pausedUntil - now + Math.ceil(1000 / this.rate)
+      : Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(1, wait));
+  }
+}
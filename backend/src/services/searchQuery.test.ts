@@ -0,0 +1,115 @@
+import {
+  buildSnippet,
+  compileSearchQuerySql,
+  createSearchMatcher,
+  parseSearchQuery,
+  requiredTickers,
+  SearchDocument,
+  SearchQueryError,
+} from './searchQuery';
+
+jest.mock('@/config/database', () => ({ prisma: {} }));
+
+const doc = (fullTranscript: string, fields: Partial<SearchDocument> = {}): SearchDocument =>
+  ({ ticker: 'NVDA', year: 2025, quarter: 1, fullTranscript, ...fields });
+
+const matches = (query: string, text: string, fields?: Partial<SearchDocument>) =>
+  createSearchMatcher(parseSearchQuery(query))(doc(text, fields)) !== null;
+
+describe('parseSearchQuery', () => {
+  it('ANDs adjacent terms and binds AND tighter than OR', () => {
+    const { root } = parseSearchQuery('revenue growth OR margin -china');
+    expect(root).toMatchObject({
+      type: 'or',
+      children: [
+        { type: 'and', children: [{ label: 'revenue' }, { label: 'growth' }] },
+        { type: 'and', children: [{ label: 'margin' }, { type: 'not', child: { label: 'china' } }] },
+      ],
+    });
+  });
+
+  it('reads field prefixes and takes speaker/section out as the text scope', () => {
+    const query = parseSearchQuery('(ai OR inference) ticker:nvda quarter:Q1 year:2025 speaker:"Colette  Kress" section:q&a');
+    expect(query.scope).toEqual({ speaker: 'Colette Kress', section: 'qa' });
+    expect(requiredTickers(query)).toEqual(['NVDA']);
+    expect(query.terms.map(term => term.label)).toEqual(['ai', 'inference']);
+  });
+
+  it('keeps the symbols in names like C++, S&P and .NET', () => {
+    const labels = (input: string) => parseSearchQuery(input).terms.map(term => term.label);
+    expect(labels('C++ C# S&P AT&T .NET $5 10%')).toEqual(['C++', 'C#', 'S&P', 'AT&T', '.NET', '$5', '10%']);
+    expect(labels('growth, (margins.) "pricing"!')).toEqual(['growth', 'margins', '"pricing"']);
+  });
+
+  it('reports where a query goes wrong', () => {
+    expect(() => parseSearchQuery('(revenue OR margin')).toThrow("Missing ')' for the '(' at position 1");
+    expect(() => parseSearchQuery('revenue "gross margin')).toThrow('Unclosed quote at position 9');
+    expect(() => parseSearchQuery('margin OR speaker:Jensen')).toThrow(SearchQueryError);
+    expect(() => parseSearchQuery('year:25')).toThrow('year: needs a four-digit year at position 1');
+    expect(() => parseSearchQuery('* -')).toThrow('Query has no search terms');
+  });
+});
+
+describe('createSearchMatcher', () => {
+  it('matches whole words, phrases across line breaks and prefixes', () => {
+    expect(matches('margin', 'Gross margin expanded')).toBe(true);
+    expect(matches('margin', 'Margins expanded')).toBe(false);
+    expect(matches('margin*', 'Margins expanded')).toBe(true);
+    expect(matches('"gross margin"', 'our gross\nmargin')).toBe(true);
+    expect(matches('ticker:NV* year:2025', 'anything')).toBe(true);
+    expect(matches('ticker:AMD', 'anything')).toBe(false);
+  });
+
+  it('does not let a symbol term match the bare word', () => {
+    expect(matches('C++', 'We rewrote it in C++ last year')).toBe(true);
+    expect(matches('C++', 'Plan C for the year')).toBe(false);
+    expect(matches('S&P', 'added to the S&P 500')).toBe(true);
+    expect(matches('S&P', 'S and P')).toBe(false);
+    expect(matches('.NET', 'moved off .NET')).toBe(true);
+    expect(matches('.NET', 'net revenue')).toBe(false);
+  });
+
+  it('treats accented letters the same way PostgreSQL is told to', () => {
+    // The word class is ASCII in both engines, so "é" is a word boundary
+    expect(matches('caf', 'café')).toBe(true);
+  });
+
+  it('searches only the speaker turns in scope', () => {
+    const transcriptSplit = [
+      { speaker: 'Operator', text: 'Welcome to the call.' },
+      { speaker: 'Colette Kress', text: 'Data center revenue grew.' },
+      { speaker: 'Operator', text: 'We will now begin the question-and-answer session.' },
+      { speaker: 'Analyst', text: 'A question on data center supply.' },
+    ];
+    expect(matches('speaker:kress "data center"', '', { transcriptSplit })).toBe(true);
+    expect(matches('section:qa revenue', '', { transcriptSplit })).toBe(false);
+    expect(matches('section:qa supply', '', { transcriptSplit })).toBe(true);
+    expect(matches('section:qa supply', 'supply')).toBe(false); // No segments, nothing in scope
+  });
+});
+
+describe('compileSearchQuerySql', () => {
+  it('compiles the same patterns into numbered parameters', () => {
+    const query = parseSearchQuery('(guidance OR outlook) -china ticker:NV* year:2025');
+    const sql = compileSearchQuerySql(query, { firstParam: 3, bodyRef: 'b.body', periodBasis: 'calendar' });
+
+    expect(sql.where).toBe('((b.body ~* $3 OR b.body ~* $4) AND NOT (b.body ~* $5) AND t.ticker LIKE $6 AND COALESCE(t.calendar_year, t.year) = $7)');
+    expect(sql.params).toEqual([...query.terms.map(term => term.pattern), parseSearchQuery('china').terms[0].pattern, 'NV%', 2025]);
+    expect(sql.matchCount).toBe("(regexp_count(b.body, $3, 1, 'i') + regexp_count(b.body, $4, 1, 'i'))");
+    expect(sql.body).toBe('t.full_transcript');
+  });
+
+  it('emits no character classes whose meaning differs between the engines', () => {
+    const { params } = compileSearchQuerySql(parseSearchQuery('"gross margin" guid* C++'));
+    for (const pattern of params as string[]) {
+      expect(pattern).not.toMatch(/\\[wWsSbBdD]/);
+    }
+  });
+});
+
+describe('buildSnippet', () => {
+  it('marks every term around the first match', () => {
+    const query = parseSearchQuery('margin OR pricing');
+    expect(buildSnippet('Strong pricing helped margin.', query, true)).toBe('Strong <mark>pricing</mark> helped <mark>margin</mark>.');
+  });
+});
@@ -0,0 +1,608 @@
+import { TranscriptSplitSegment } from '@/types';
+import { PeriodBasis } from './transcriptRepository';
+
+/**
+ * Search query language shared by the in-memory search (`/api/search`) and
+ * the database search (`searchService.searchKeywords`).
+ *
+ *   revenue growth                 both words (adjacent terms are ANDed; join optional words with OR)
+ *   margin OR "gross margin"       either; AND binds tighter than OR
+ *   NOT china, -china              without the word
+ *   guid*                          prefix wildcard
+ *   (ai OR inference) ticker:NVDA  grouping and field prefixes
+ *
+ * Words and phrases match whole words, case-insensitively; a word keeps the
+ * symbols in names like `C++`, `S&P`, `AT&T` or `.NET`. Fields:
+ * `ticker:NVDA` (or `ticker:NV*`), `year:2025`, `quarter:Q1`,
+ * `speaker:"Colette Kress"` and `section:qa` / `section:prepared`. Year and
+ * quarter follow the search's period basis. `speaker:` and `section:` narrow
+ * the text the other terms are matched against to the matching speaker turns,
+ * so they need speaker segments and can only be ANDed with the rest.
+ *
+ * A query compiles to a matcher and to SQL built from the same regular
+ * expressions, so both paths find, score and excerpt transcripts the same way.
+ * The patterns spell out their character classes instead of using `\w` or
+ * `\s`, whose meaning differs between JavaScript and PostgreSQL.
+ */
+
+export class SearchQueryError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+export interface TextTerm {
+  type: 'text';
+  label: string; // As written, e.g. `"gross margin"` or `guid*`
+  pattern: string; // Valid in both JavaScript and PostgreSQL regular expressions; matched case-insensitively
+}
+
+export type FieldTerm =
+  | { type: 'ticker'; value: string; prefix: boolean }
+  | { type: 'year'; value: number }
+  | { type: 'quarter'; value: number };
+
+export type QueryNode =
+  | TextTerm
+  | FieldTerm
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export type TranscriptSection = 'prepared' | 'qa';
+
+export interface TextScope {
+  speaker?: string; // Part of the speaker's name
+  section?: TranscriptSection;
+}
+
+export interface SearchQuery {
+  root: QueryNode | null; // Null when the query only narrows the text, e.g. `speaker:"Colette Kress"`
+  scope: TextScope;
+  terms: TextTerm[]; // Text terms outside NOT, for scoring and highlighting
+}
+
+/**
+ * A transcript as the matcher sees it; year/quarter in the period basis being searched
+ */
+export interface SearchDocument {
+  ticker: string;
+  year: number;
+  quarter: number;
+  fullTranscript: string;
+  transcriptSplit?: TranscriptSplitSegment[] | null;
+}
+
+export interface TermMatch {
+  keyword: string;
+  matchCount: number;
+  score: number;
+}
+
+export interface SearchMatch {
+  text: string; // What the terms were matched against: the full text, or the speaker turns in scope
+  matchCount: number;
+  relevanceScore: number; // Matches per 1,000 characters of `text`
+  keywordMatches: TermMatch[];
+}
+
+export interface SearchQuerySql {
+  body: string; // Expression for the searched text; NULL when nothing is in scope
+  where: string; // Condition on `bodyRef` and the transcript columns
+  matchCount: string;
+  score: string;
+  params: unknown[];
+}
+
+type ScopeTerm = { type: 'scope'; field: keyof TextScope; value: string; position: number };
+type ParsedNode = QueryNode | ScopeTerm | { type: 'and' | 'or'; children: ParsedNode[] } | { type: 'not'; child: ParsedNode };
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; position: number }
+  | { kind: 'term'; text: string; quoted: boolean; field?: string; position: number };
+
+const FIELDS = ['ticker', 'year', 'quarter', 'speaker', 'section'];
+const WORD_CHAR = '[A-Za-z0-9_]';
+const WORD_START = `(?<!${WORD_CHAR})`;
+const WORD_END = `(?!${WORD_CHAR})`;
+const WHITESPACE = '[ \\t\\n\\r\\f\\v]+';
+const SNIPPET_BEFORE = 100;
+const SNIPPET_LENGTH = 300;
+
+// Where the Q&A starts: the first turn after the opening that takes a question,
+// or in which the operator announces the Q&A. No backslashes or quotes, so they go into SQL as literals.
+const FIRST_QUESTION_PATTERN = 'first question';
+const QA_ANNOUNCEMENT_PATTERN = 'question-and-answer|question and answer|q&a';
+const OPERATOR_PATTERN = '^ *operator *$';
+
+/**
+ * Parse a query; throws SearchQueryError with the position of the problem
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    throw new SearchQueryError('Query has no search terms');
+  }
+
+  let index = 0;
+  const peek = () => tokens[index];
+
+  const parseOr = (): ParsedNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      index++;
+      children.push(parseAnd());
+    }
+    return combine('or', children);
+  };
+
+  const parseAnd = (): ParsedNode => {
+    const children = [parseUnary()];
+    for (let token = peek(); token && token.kind !== 'or' && token.kind !== 'rparen'; token = peek()) {
+      if (token.kind === 'and') index++;
+      children.push(parseUnary());
+    }
+    return combine('and', children);
+  };
+
+  const parseUnary = (): ParsedNode => {
+    if (peek()?.kind === 'not') {
+      index++;
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ParsedNode => {
+    const token = tokens[index++];
+    if (!token) {
+      throw new SearchQueryError('Query ends where a search term is expected');
+    }
+    switch (token.kind) {
+      case 'lparen': {
+        const node = parseOr();
+        if (peek()?.kind !== 'rparen') {
+          throw new SearchQueryError(`Missing ')' for the '(' at position ${token.position + 1}`);
+        }
+        index++;
+        return node;
+      }
+      case 'term':
+        return termNode(token);
+      default:
+        throw new SearchQueryError(`Expected a search term at position ${token.position + 1}, found ${describeToken(token)}`);
+    }
+  };
+
+  const root = parseOr();
+  if (index < tokens.length) {
+    throw new SearchQueryError(`Unexpected ${describeToken(tokens[index])} at position ${tokens[index].position + 1}`);
+  }
+
+  const { node, scope } = extractScope(root);
+  return { root: node, scope, terms: node ? positiveTerms(node) : [] };
+}
+
+/**
+ * A query matching the whole input as one phrase (the phrase search type)
+ */
+export function phraseSearchQuery(phrase: string): SearchQuery {
+  const words = phrase.replace(/"/g, ' ').trim();
+  if (!words) {
+    throw new SearchQueryError('Phrase is required');
+  }
+  return parseSearchQuery(`"${words}"`);
+}
+
+/**
+ * Tickers every match must have (from `ticker:` terms ANDed at the top level), for filtering on metadata first
+ */
+export function requiredTickers(query: SearchQuery): string[] | null {
+  const conjuncts = !query.root ? [] : query.root.type === 'and' ? query.root.children : [query.root];
+  const tickers = conjuncts
+    .filter((node): node is Extract<FieldTerm, { type: 'ticker' }> => node.type === 'ticker' && !node.prefix)
+    .map(node => node.value);
+  return tickers.length > 0 ? tickers : null;
+}
+
+/**
+ * Matcher for the in-memory search; returns null for transcripts that don't match
+ */
+export function createSearchMatcher(query: SearchQuery): (doc: SearchDocument) => SearchMatch | null {
+  const regexes = new Map<string, RegExp>();
+  const regexFor = (term: TextTerm) => {
+    let regex = regexes.get(term.pattern);
+    if (!regex) {
+      regex = new RegExp(term.pattern, 'i');
+      regexes.set(term.pattern, regex);
+    }
+    return regex;
+  };
+
+  const evaluate = (node: QueryNode, doc: SearchDocument, text: string): boolean => {
+    switch (node.type) {
+      case 'text':
+        return regexFor(node).test(text);
+      case 'ticker': {
+        const ticker = doc.ticker.toUpperCase();
+        return node.prefix ? ticker.startsWith(node.value) : ticker === node.value;
+      }
+      case 'year':
+        return doc.year === node.value;
+      case 'quarter':
+        return doc.quarter === node.value;
+      case 'and':
+        return node.children.every(child => evaluate(child, doc, text));
+      case 'or':
+        return node.children.some(child => evaluate(child, doc, text));
+      case 'not':
+        return !evaluate(node.child, doc, text);
+    }
+  };
+
+  return doc => {
+    const text = scopedText(query.scope, doc);
+    if (text === null) return null;
+    if (query.root && !evaluate(query.root, doc, text)) return null;
+    return { text, ...scoreText(query, text) };
+  };
+}
+
+/**
+ * Match counts and relevance of the query's terms in a text (the same figures the SQL computes)
+ */
+export function scoreText(query: SearchQuery, text: string): Omit<SearchMatch, 'text'> {
+  const length = Math.max(text.length, 1);
+  const keywordMatches = query.terms.map(term => {
+    const matchCount = text.match(new RegExp(term.pattern, 'gi'))?.length ?? 0;
+    return { keyword: term.label, matchCount, score: matchCount / length * 1000 };
+  });
+  const matchCount = keywordMatches.reduce((sum, match) => sum + match.matchCount, 0);
+  return { matchCount, relevanceScore: matchCount / length * 1000, keywordMatches };
+}
+
+/**
+ * Excerpt around the first match of any term, optionally with matches wrapped in <mark>
+ */
+export function buildSnippet(text: string, query: SearchQuery, highlight: boolean): string {
+  if (query.terms.length === 0) return text.substring(0, SNIPPET_LENGTH - SNIPPET_BEFORE);
+
+  const anyTerm = new RegExp(query.terms.map(term => `(?:${term.pattern})`).join('|'), 'gi');
+  const first = anyTerm.exec(text);
+  anyTerm.lastIndex = 0;
+
+  const start = first ? Math.max(0, first.index - SNIPPET_BEFORE) : 0;
+  const snippet = text.substring(start, start + SNIPPET_LENGTH);
+  return highlight ? snippet.replace(anyTerm, '<mark>$&</mark>') : snippet;
+}
+
+/**
+ * SQL for the database search. Expects the transcript as `t` and the searched
+ * text (the `body` expression, e.g. selected in a LATERAL subquery) as `bodyRef`.
+ */
+export function compileSearchQuerySql(
+  query: SearchQuery,
+  options: { firstParam?: number; bodyRef?: string; periodBasis?: PeriodBasis } = {}
+): SearchQuerySql {
+  const params: unknown[] = [];
+  const placeholders = new Map<string, string>();
+  const param = (value: string | number) => {
+    const key = `${typeof value}:${value}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      params.push(value);
+      placeholder = `$${(options.firstParam ?? 1) + params.length - 1}`;
+      placeholders.set(key, placeholder);
+    }
+    return placeholder;
+  };
+
+  const bodyRef = options.bodyRef ?? 'q.body';
+  const calendarBasis = options.periodBasis === 'calendar';
+
+  const compile = (node: QueryNode): string => {
+    switch (node.type) {
+      case 'text':
+        return `${bodyRef} ~* ${param(node.pattern)}`;
+      case 'ticker':
+        return node.prefix
+          ? `t.ticker LIKE ${param(`${escapeLike(node.value)}%`)}`
+          : `t.ticker = ${param(node.value)}`;
+      case 'year':
+        return `${calendarBasis ? 'COALESCE(t.calendar_year, t.year)' : 't.year'} = ${param(node.value)}`;
+      case 'quarter':
+        return `${calendarBasis ? 'COALESCE(t.calendar_quarter, t.quarter)' : 't.quarter'} = ${param(node.value)}`;
+      case 'and':
+      case 'or':
+        return `(${node.children.map(compile).join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+      case 'not':
+        return `NOT (${compile(node.child)})`;
+    }
+  };
+
+  const body = scopedBodySql(query.scope, param);
+  const where = query.root ? compile(query.root) : 'TRUE';
+  const counts = query.terms.map(term => `regexp_count(${bodyRef}, ${param(term.pattern)}, 1, 'i')`);
+  const matchCount = counts.length > 0 ? `(${counts.join(' + ')})` : '0';
+
+  return {
+    body,
+    where,
+    matchCount,
+    score: `${matchCount}::float8 / GREATEST(length(${bodyRef}), 1) * 1000`,
+    params,
+  };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const open = i;
+    const close = input.indexOf('"', open + 1);
+    if (close === -1) {
+      throw new SearchQueryError(`Unclosed quote at position ${open + 1}`);
+    }
+    i = close + 1;
+    return input.slice(open + 1, close);
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    const position = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position });
+      i++;
+    } else if (char === '"') {
+      tokens.push({ kind: 'term', text: readQuoted(), quoted: true, position });
+    } else if (char === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      tokens.push({ kind: 'not', position });
+      i++;
+    } else {
+      const match = /^[^\s()"]+/.exec(input.slice(i))!;
+      const word = match[0];
+      i += word.length;
+
+      const field = /^(\w+):(.*)$/.exec(word);
+      if (field && FIELDS.includes(field[1].toLowerCase())) {
+        const quoted = !field[2] && input[i] === '"';
+        const value = quoted ? readQuoted() : field[2];
+        if (!value.trim()) {
+          throw new SearchQueryError(input[i] === '('
+            ? `${field[1]}: takes a single value at position ${position + 1}; repeat the field for each value, e.g. (ticker:NVDA OR ticker:AMD)`
+            : `Missing value after ${field[1]}: at position ${position + 1}`);
+        }
+        tokens.push({ kind: 'term', text: value.trim(), quoted, field: field[1].toLowerCase(), position });
+      } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word === 'AND' ? 'and' : word === 'OR' ? 'or' : 'not', position });
+      } else {
+        // Surrounding punctuation isn't searchable. Kept: a leading "$" or "." before a letter or
+        // digit (".NET"), trailing "%", "+", "#" and "&" ("C++", "C#") and a trailing "*" wildcard
+        const text = word.replace(/^(?:[^A-Za-z0-9_$.]|\.(?![A-Za-z0-9]))+/, '').replace(/[^A-Za-z0-9_%+#&*]+$/, '');
+        if (text) tokens.push({ kind: 'term', text, quoted: false, position });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function termNode(token: Extract<Token, { kind: 'term' }>): ParsedNode {
+  const at = `at position ${token.position + 1}`;
+
+  switch (token.field) {
+    case 'ticker': {
+      const prefix = token.text.endsWith('*');
+      const value = token.text.replace(/\*+$/, '').toUpperCase();
+      if (!/^[A-Z0-9.-]+$/.test(value)) {
+        throw new SearchQueryError(`Invalid ticker "${token.text}" ${at}`);
+      }
+      return { type: 'ticker', value, prefix };
+    }
+    case 'year':
+      if (!/^\d{4}$/.test(token.text)) {
+        throw new SearchQueryError(`year: needs a four-digit year ${at}`);
+      }
+      return { type: 'year', value: Number(token.text) };
+    case 'quarter': {
+      const quarter = /^q?([1-4])$/i.exec(token.text);
+      if (!quarter) {
+        throw new SearchQueryError(`quarter: needs 1-4 or Q1-Q4 ${at}`);
+      }
+      return { type: 'quarter', value: Number(quarter[1]) };
+    }
+    case 'speaker':
+      return { type: 'scope', field: 'speaker', value: token.text.replace(/\s+/g, ' '), position: token.position };
+    case 'section': {
+      const section = parseSection(token.text);
+      if (!section) {
+        throw new SearchQueryError(`section: must be qa or prepared ${at}`);
+      }
+      return { type: 'scope', field: 'section', value: section, position: token.position };
+    }
+  }
+
+  if (token.quoted) {
+    const words = token.text.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      throw new SearchQueryError(`Empty quotes ${at}`);
+    }
+    return {
+      type: 'text',
+      label: `"${words.join(' ')}"`,
+      pattern: `${WORD_START}${words.map(escapeRegExp).join(WHITESPACE)}${WORD_END}`,
+    };
+  }
+
+  const stem = token.text.replace(/\*+$/, '');
+  if (!stem) {
+    throw new SearchQueryError(`A wildcard needs at least one character before the * ${at}`);
+  }
+  const prefix = stem !== token.text;
+  return {
+    type: 'text',
+    label: token.text,
+    pattern: `${WORD_START}${escapeRegExp(stem)}${prefix ? `${WORD_CHAR}*` : WORD_END}`,
+  };
+}
+
+function parseSection(value: string): TranscriptSection | null {
+  switch (value.toLowerCase()) {
+    case 'qa':
+    case 'q&a':
+      return 'qa';
+    case 'prepared':
+    case 'remarks':
+    case 'presentation':
+      return 'prepared';
+    default:
+      return null;
+  }
+}
+
+/**
+ * AND/OR node, with nested nodes of the same kind flattened
+ */
+function combine(type: 'and' | 'or', children: ParsedNode[]): ParsedNode {
+  if (children.length === 1) return children[0];
+  return { type, children: children.flatMap(child => child.type === type ? (child as { children: ParsedNode[] }).children : [child]) };
+}
+
+/**
+ * Take speaker:/section: terms out of the top-level AND; anywhere else they're an error
+ */
+function extractScope(root: ParsedNode): { node: QueryNode | null; scope: TextScope } {
+  const conjuncts = root.type === 'and' ? root.children : [root];
+  const scope: TextScope = {};
+  const rest: QueryNode[] = [];
+
+  for (const node of conjuncts) {
+    if (node.type === 'scope') {
+      if (scope[node.field] !== undefined) {
+        throw new SearchQueryError(`Only one ${node.field}: term is allowed (position ${node.position + 1})`);
+      }
+      scope[node.field] = node.value as TranscriptSection;
+      continue;
+    }
+
+    const nested = findScope(node);
+    if (nested) {
+      throw new SearchQueryError(
+        `${nested.field}: narrows the text searched, so it can only be ANDed with the rest of the query, not used inside OR or NOT (position ${nested.position + 1})`
+      );
+    }
+    rest.push(node as QueryNode);
+  }
+
+  return { node: rest.length === 0 ? null : rest.length === 1 ? rest[0] : { type: 'and', children: rest }, scope };
+}
+
+function findScope(node: ParsedNode): ScopeTerm | null {
+  switch (node.type) {
+    case 'scope':
+      return node;
+    case 'and':
+    case 'or':
+      for (const child of node.children) {
+        const found = findScope(child);
+        if (found) return found;
+      }
+      return null;
+    case 'not':
+      return findScope(node.child);
+    default:
+      return null;
+  }
+}
+
+function positiveTerms(node: QueryNode): TextTerm[] {
+  switch (node.type) {
+    case 'text':
+      return [node];
+    case 'and':
+    case 'or': {
+      const terms = node.children.flatMap(positiveTerms);
+      return terms.filter((term, index) => terms.findIndex(other => other.pattern === term.pattern) === index);
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Text searched for a document: the full transcript, or the speaker turns in scope (null if none)
+ */
+function scopedText(scope: TextScope, doc: SearchDocument): string | null {
+  if (!scope.speaker && !scope.section) return doc.fullTranscript;
+
+  const segments = doc.transcriptSplit;
+  if (!Array.isArray(segments) || segments.length === 0) return null;
+
+  const speaker = scope.speaker?.toLowerCase();
+  const firstQuestion = new RegExp(FIRST_QUESTION_PATTERN, 'i');
+  const announcement = new RegExp(QA_ANNOUNCEMENT_PATTERN, 'i');
+  const operator = new RegExp(OPERATOR_PATTERN, 'i');
+  const qaStart = scope.section
+    ? segments.findIndex((segment, index) => index > 0 && (
+      firstQuestion.test(segment.text) || (operator.test(segment.speaker) && announcement.test(segment.text))))
+    : -1;
+
+  const texts = segments
+    .filter((segment, index) => {
+      if (speaker && !segment.speaker.toLowerCase().includes(speaker)) return false;
+      if (scope.section === 'qa') return qaStart !== -1 && index >= qaStart;
+      if (scope.section === 'prepared') return qaStart === -1 || index < qaStart;
+      return true;
+    })
+    .map(segment => segment.text);
+
+  return texts.length > 0 ? texts.join('\n\n') : null;
+}
+
+/**
+ * SQL counterpart of scopedText
+ */
+function scopedBodySql(scope: TextScope, param: (value: string) => string): string {
+  if (!scope.speaker && !scope.section) return 't.full_transcript';
+
+  const segments = `jsonb_array_elements(CASE WHEN jsonb_typeof(t.transcript_split) = 'array' THEN t.transcript_split END)`;
+  const conditions: string[] = [];
+  if (scope.speaker) {
+    conditions.push(`s.segment->>'speaker' ILIKE ${param(`%${escapeLike(scope.speaker)}%`)}`);
+  }
+  if (scope.section) {
+    const qaStart = `(SELECT min(m.position) FROM ${segments} WITH ORDINALITY AS m(segment, position)
+      WHERE m.position > 1 AND (m.segment->>'text' ~* '${FIRST_QUESTION_PATTERN}'
+        OR (m.segment->>'speaker' ~* '${OPERATOR_PATTERN}' AND m.segment->>'text' ~* '${QA_ANNOUNCEMENT_PATTERN}')))`;
+    conditions.push(scope.section === 'qa' ? `s.position >= ${qaStart}` : `s.position < COALESCE(${qaStart}, 2147483647)`);
+  }
+
+  return `(SELECT string_agg(s.segment->>'text', E'\\n\\n' ORDER BY s.position)
+    FROM ${segments} WITH ORDINALITY AS s(segment, position)
+    WHERE ${conditions.join(' AND ')})`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case 'lparen':
+      return "'('";
+    case 'rparen':
+      return "')'";
+    case 'term':
+      return `"${token.text}"`;
+    default:
+      return token.kind.toUpperCase();
+  }
+}
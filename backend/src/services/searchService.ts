@@ -1,10 +1,12 @@
 import { prisma } from '@/config/database';
 import { logger } from '@/config/logger';
 import { SearchFilters, SearchResponse, SearchResult } from '@/types';
+import { buildSnippet, compileSearchQuerySql, parseSearchQuery, scoreText } from './searchQuery';
 
 export class SearchService {
   /**
-   * Search transcripts using keyword search with PostgreSQL full-text search
+   * Search transcripts with the boolean query language (see searchQuery.ts),
+   * compiled to SQL so matches, scores and snippets agree with the in-memory search
    */
   async searchKeywords(
     query: string,
@@ -13,12 +15,12 @@ export class SearchService {
   ): Promise<SearchResponse> {
     const startTime = Date.now();
 
-    // Build the WHERE clause
-    const whereClause = this.buildWhereClause(filters);
-    
-    // Use PostgreSQL full-text search
-    const searchQuery = query.replace(/[^\w\s]/g, '').trim();
-    const tsQuery = searchQuery.split(/\s+/).join(' & ');
+    const searchQuery = parseSearchQuery(query);
+    const compiled = compileSearchQuerySql(searchQuery, { periodBasis: filters.periodBasis });
+
+    // Build the WHERE clause for the filters after the query's own parameters
+    const whereClause = this.buildWhereClause(filters, compiled.params.length + 1);
+    const paramCount = compiled.params.length + whereClause.params.length;
 
     const sql = `
       SELECT 
@@ -28,28 +30,26 @@ export class SearchService {
         t.year,
         t.quarter,
         t.call_date as "callDate",
-        ${highlight 
-          ? `ts_headline('english', t.full_transcript, plainto_tsquery('english', $1), 'MaxWords=50, MinWords=20') as snippet,`
-          : `SUBSTRING(t.full_transcript, 1, 200) as snippet,`
-        }
-        ts_rank(to_tsvector('english', t.full_transcript), plainto_tsquery('english', $1)) as relevance_score,
-        (length(t.full_transcript) - length(replace(lower(t.full_transcript), lower($1), ''))) / length($1) as match_count
+        q.body,
+        ${compiled.score} as relevance_score
       FROM transcripts t
-      WHERE to_tsvector('english', t.full_transcript) @@ plainto_tsquery('english', $1)
+      CROSS JOIN LATERAL (SELECT ${compiled.body} AS body) q
+      WHERE q.body IS NOT NULL AND ${compiled.where}
       ${whereClause.sql}
       ORDER BY relevance_score DESC, t.call_date DESC
-      LIMIT $${whereClause.params.length + 2} OFFSET $${whereClause.params.length + 3}
+      LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
     `;
 
     const countSql = `
       SELECT COUNT(*) as total
       FROM transcripts t
-      WHERE to_tsvector('english', t.full_transcript) @@ plainto_tsquery('english', $1)
+      CROSS JOIN LATERAL (SELECT ${compiled.body} AS body) q
+      WHERE q.body IS NOT NULL AND ${compiled.where}
       ${whereClause.sql}
     `;
 
-    const params = [searchQuery, ...whereClause.params, filters.limit, filters.offset];
-    const countParams = [searchQuery, ...whereClause.params];
+    const params = [...compiled.params, ...whereClause.params, filters.limit, filters.offset];
+    const countParams = [...compiled.params, ...whereClause.params];
 
     try {
       const [results, countResult] = await Promise.all([
@@ -57,17 +57,21 @@ export class SearchService {
         prisma.$queryRawUnsafe(countSql, ...countParams) as Promise<{ total: bigint }[]>,
       ]);
 
-      const searchResults: SearchResult[] = results.map(row => ({
-        id: row.id,
-        ticker: row.ticker,
-        companyName: row.companyName,
-        year: row.year,
-        quarter: row.quarter,
-        callDate: row.callDate,
-        snippet: row.snippet || '',
-        relevanceScore: parseFloat(row.relevance_score) || 0,
-        matchCount: parseInt(row.match_count) || 0,
-      }));
+      const searchResults: SearchResult[] = results.map(row => {
+        const { matchCount, relevanceScore, keywordMatches } = scoreText(searchQuery, row.body);
+        return {
+          id: row.id,
+          ticker: row.ticker,
+          companyName: row.companyName,
+          year: row.year,
+          quarter: row.quarter,
+          callDate: row.callDate,
+          snippet: buildSnippet(row.body, searchQuery, highlight),
+          relevanceScore,
+          matchCount,
+          keywordMatches,
+        };
+      });
 
       const total = Number(countResult[0]?.total || 0);
       const executionTime = Date.now() - startTime;
@@ -329,10 +333,10 @@ export class SearchService {
   /**
    * Build WHERE clause for filtering
    */
-  private buildWhereClause(filters: SearchFilters): { sql: string; params: any[] } {
+  private buildWhereClause(filters: SearchFilters, firstParam: number = 2): { sql: string; params: any[] } {
     const conditions: string[] = [];
     const params: any[] = [];
-    let paramIndex = 2; // Start from 2 since $1 is the search query
+    let paramIndex = firstParam; // Defaults to 2 since $1 is the search query
 
     if (filters.tickers && filters.tickers.length > 0) {
       conditions.push(`t.ticker = ANY($${paramIndex})`);
@@ -340,14 +344,19 @@ export class SearchService {
       paramIndex++;
     }
 
+    // Calendar periods fall back to the fiscal ones for rows not yet given a calendar period
+    const calendarBasis = filters.periodBasis === 'calendar';
+    const yearColumn = calendarBasis ? 'COALESCE(t.calendar_year, t.year)' : 't.year';
+    const quarterColumn = calendarBasis ? 'COALESCE(t.calendar_quarter, t.quarter)' : 't.quarter';
+
     if (filters.years && filters.years.length > 0) {
-      conditions.push(`t.year = ANY($${paramIndex})`);
+      conditions.push(`${yearColumn} = ANY($${paramIndex})`);
       params.push(filters.years);
       paramIndex++;
     }
 
     if (filters.quarters && filters.quarters.length > 0) {
-      conditions.push(`t.quarter = ANY($${paramIndex})`);
+      conditions.push(`${quarterColumn} = ANY($${paramIndex})`);
       params.push(filters.quarters);
       paramIndex++;
     }
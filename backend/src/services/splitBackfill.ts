@@ -0,0 +1,144 @@
+import { logger } from '@/config/logger';
+import { Job, TranscriptSplitSegment } from '@/types';
+import { JobHandler, JobItemOutcome, JobPlan, JobRequestError } from './jobEngine';
+import { TranscriptProviderError, normalizeSplitSegments, transcriptProviders } from './transcriptProvider';
+import { TranscriptRepository } from './transcriptRepository';
+
+const MAX_TRANSCRIPTS = 5000;
+const MIN_TEXT_OVERLAP = 0.9; // Share of the segments' words found in the stored text
+
+export interface SplitBackfillParams {
+  tickers?: string[]; // Only these tickers (default: every stored transcript)
+  provider?: string; // Where to fetch segments from (default API Ninjas)
+  limit?: number;
+}
+
+export interface SplitBackfillResult {
+  ticker: string;
+  year: number;
+  quarter: number;
+  status: 'upgraded' | 'already_split' | 'not_available' | 'mismatch' | 'failed';
+  segmentCount?: number;
+  speakers?: number;
+  textOverlap?: number;
+  storage?: 'database' | 'memory';
+  error?: string;
+}
+
+/**
+ * Upgrades transcripts stored as flat text to speaker-split form. Each item
+ * is one stored quarter; its segments come from the cache copy when that
+ * already has them, otherwise from the provider. Segments are only saved
+ * when their text matches the stored transcript, and the stored text is
+ * left unchanged.
+ */
+export class SplitBackfillJobHandler implements JobHandler<SplitBackfillParams, SplitBackfillResult> {
+  readonly type = 'split-backfill' as const;
+  private repository: TranscriptRepository;
+
+  constructor(repository: TranscriptRepository) {
+    this.repository = repository;
+  }
+
+  async plan(params: SplitBackfillParams): Promise<JobPlan<SplitBackfillParams>> {
+    const tickers = Array.isArray(params.tickers)
+      ? Array.from(new Set(params.tickers.map(ticker => String(ticker).trim().toUpperCase()).filter(Boolean)))
+      : undefined;
+    const limit = params.limit ?? MAX_TRANSCRIPTS;
+    let provider: string;
+    try {
+      provider = transcriptProviders.get(params.provider).name;
+    } catch (error) {
+      throw new JobRequestError(error instanceof TranscriptProviderError ? error.message : 'Invalid transcript provider');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TRANSCRIPTS) {
+      throw new JobRequestError(`Limit must be between 1 and ${MAX_TRANSCRIPTS}`);
+    }
+
+    const missing = await this.repository.findMissingSplit(tickers);
+    if (missing.length === 0) {
+      throw new JobRequestError('Every matching transcript already has speaker segments');
+    }
+
+    return {
+      params: { tickers, provider, limit },
+      items: missing.slice(0, limit).map(({ ticker, year, quarter }) => TranscriptRepository.cacheKey(ticker, year, quarter)),
+    };
+  }
+
+  async estimate(plan: JobPlan<SplitBackfillParams>): Promise<unknown> {
+    const tickers = new Set(plan.items.map(item => TranscriptRepository.parseCacheKey(item)?.ticker));
+    return {
+      provider: plan.params.provider,
+      transcripts: plan.items.length,
+      tickers: tickers.size,
+      sample: plan.items.slice(0, 20),
+    };
+  }
+
+  async processItem(job: Job<SplitBackfillParams, SplitBackfillResult>, item: string): Promise<JobItemOutcome<SplitBackfillResult>> {
+    const parsed = TranscriptRepository.parseCacheKey(item);
+    if (!parsed) {
+      return { status: 'failed', reason: `Invalid transcript key: ${item}` };
+    }
+
+    const { ticker, year, quarter } = parsed;
+    const result: SplitBackfillResult = { ticker, year, quarter, status: 'failed' };
+    const transcript = await this.repository.findByTickerQuarter(ticker, year, quarter);
+    if (!transcript) {
+      return { status: 'failed', results: [{ ...result, error: 'Transcript is no longer stored' }], reason: 'Transcript is no longer stored' };
+    }
+    if (transcript.transcriptSplit?.length) {
+      return { status: 'skipped', results: [{ ...result, status: 'already_split', segmentCount: transcript.transcriptSplit.length }] };
+    }
+
+    let segments = normalizeSplitSegments(this.repository.getCached(ticker, year, quarter)?.transcriptSplit);
+    if (segments.length === 0) {
+      const provider = transcriptProviders.get(job.params.provider);
+      if (provider.isKnownUnavailable?.(ticker, year, quarter)) {
+        return { status: 'skipped', results: [{ ...result, status: 'not_available' }] };
+      }
+
+      const split = await provider.fetchTranscriptSplit(ticker, year, quarter);
+      segments = normalizeSplitSegments(split?.transcript_split);
+      if (segments.length === 0) {
+        return { status: 'skipped', results: [{ ...result, status: 'not_available' }] };
+      }
+    }
+
+    // Guards against storing another call's segments (or demo data) on this transcript
+    const textOverlap = textOverlapRatio(transcript.fullTranscript, segments);
+    if (textOverlap < MIN_TEXT_OVERLAP) {
+      const reason = `Speaker segments don't match the stored text (${Math.round(textOverlap * 100)}% overlap)`;
+      return { status: 'failed', results: [{ ...result, status: 'mismatch', textOverlap, error: reason }], reason };
+    }
+
+    const storage = await this.repository.saveSplit(transcript, segments);
+    logger.info('Transcript upgraded to speaker split', { jobId: job.id, ticker, year, quarter, segments: segments.length, storage });
+
+    return {
+      status: 'processed',
+      results: [{
+        ...result,
+        status: 'upgraded',
+        segmentCount: segments.length,
+        speakers: new Set(segments.map(segment => segment.speaker)).size,
+        textOverlap,
+        storage,
+      }],
+    };
+  }
+}
+
+/**
+ * Share of the words in the segments that also occur in the stored text
+ */
+function textOverlapRatio(fullTranscript: string, segments: TranscriptSplitSegment[]): number {
+  const words = (text: string) => text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+  const stored = new Set(words(fullTranscript));
+  const segmentWords = segments.flatMap(segment => words(segment.text));
+  if (segmentWords.length === 0) return 0;
+
+  return Math.round((segmentWords.filter(word => stored.has(word)).length / segmentWords.length) * 1000) / 1000;
+}
@@ -0,0 +1,197 @@
+import { FetchQueue } from './fetchQueue';
+import { FiscalCalendarService } from './fiscalCalendar';
+import { getPreviousQuarter } from './quarterCalculator';
+import { parseTickerFileRows, TranscriptFetchJobHandler, TranscriptFetchJobParams } from './transcriptFetchJobs';
+import { TranscriptProvider, transcriptProviders } from './transcriptProvider';
+import { TranscriptRepository } from './transcriptRepository';
+import { BulkFetchResult, Job, Quarter } from '@/types';
+
+jest.mock('@/config/database', () => ({ prisma: {} }));
+
+const unavailable = new Set<string>(); // Negative cache: "TICKER year quarter"
+
+/**
+ * Provider that lists 17 quarters, newest 2024 Q4, like API Ninjas' default window
+ */
+const provider: TranscriptProvider = {
+  name: 'listing_provider',
+  description: 'Lists a fixed window of quarters',
+  remote: false,
+  listAvailableQuarters: async () => {
+    const quarters: Quarter[] = [{ year: 2024, quarter: 4 }];
+    while (quarters.length < 17) quarters.push(getPreviousQuarter(quarters[quarters.length - 1]));
+    return quarters;
+  },
+  fetchTranscript: async () => null,
+  fetchTranscriptSplit: async () => null,
+  isKnownUnavailable: (ticker, year, quarter) => unavailable.has(`${ticker} ${year} ${quarter}`),
+  forgetUnavailable: (ticker, year, quarter) => { unavailable.delete(`${ticker} ${year} ${quarter}`); },
+};
+transcriptProviders.register(provider);
+
+describe('TranscriptFetchJobHandler', () => {
+  const enqueued: string[] = [];
+  const handler = new TranscriptFetchJobHandler(
+    {
+      getCounts: async () => ({ PENDING: 0, IN_PROGRESS: 0 }),
+      enqueue: async ({ tickers }: { tickers: string[] }) => { enqueued.push(...tickers); },
+      waitForTicker: async () => undefined,
+      summarizeJob: async () => ({ progress: { processed: [], skipped: [], failedDetails: [] }, results: [] }),
+    } as unknown as FetchQueue,
+    { findStoredQuarters: async () => new Set<string>() } as unknown as TranscriptRepository,
+    { get: () => undefined } as unknown as FiscalCalendarService
+  );
+
+  it('probes only the quarter count, then the extra quarters', async () => {
+    const plan = await handler.plan({ tickers: ['aapl', 'msft'], quarterCount: 4, extraQuarters: 2, provider: provider.name });
+    const estimate = await handler.estimate(plan);
+
+    expect(estimate.quartersConsidered).toBe(2 * 6);
+    expect(estimate.apiCalls).toEqual({ min: 2, max: 12 });
+  });
+
+  it('takes more quarters for tickers that want more of the latest transcripts', async () => {
+    const plan = await handler.plan({
+      tickers: ['AAPL', 'MSFT'],
+      quarterCount: 2,
+      provider: provider.name,
+      tickerOptions: { MSFT: { latest: 5 } },
+    });
+    expect((await handler.estimate(plan)).quartersConsidered).toBe(2 + 5);
+  });
+
+  it('caps the job on the quarters it would actually queue', async () => {
+    // A range without an end runs up to the provider's newest quarter: 40 quarters each
+    const tickers = Array.from({ length: 300 }, (_, i) => `T${i}`);
+    const tickerOptions = Object.fromEntries(tickers.map(ticker => [ticker, { from: { year: 2015, quarter: 1 } }]));
+
+    await expect(handler.plan({ tickers, quarterCount: 4, provider: provider.name, tickerOptions }))
+      .rejects.toThrow('Too many total tasks: 12000');
+  });
+
+  describe('retrying a finished job', () => {
+    const parent: Job<TranscriptFetchJobParams, BulkFetchResult> = {
+      id: 'parent',
+      type: 'transcript-fetch',
+      status: 'completed',
+      params: { tickers: ['AAPL', 'MSFT', 'TSLA', 'NVDA'], quarterCount: 4, provider: provider.name },
+      items: ['AAPL', 'MSFT', 'TSLA', 'NVDA'],
+      progress: {
+        current: 3,
+        total: 4,
+        processed: ['AAPL'],
+        failed: ['MSFT', 'TSLA'],
+        skipped: [],
+        failedDetails: [
+          { item: 'MSFT', reason: 'Nothing listed for MSFT' },
+          { item: 'TSLA', reason: 'No transcript text in the response for TSLA 2024Q4' },
+        ],
+      },
+      results: [
+        { ticker: 'AAPL', status: 'success' },
+        { ticker: 'MSFT', status: 'not_available', error: 'Nothing listed for MSFT' },
+        { ticker: 'TSLA', status: 'failed', error: 'No transcript text in the response for TSLA 2024Q4' },
+      ],
+      createdAt: new Date(),
+    };
+
+    beforeEach(() => {
+      unavailable.clear();
+      enqueued.length = 0;
+    });
+
+    it('groups failures by the recorded result status, not the wording of the reason', () => {
+      const { params, groups } = handler.planRetry(parent);
+
+      expect(params.tickers.sort()).toEqual(['NVDA', 'TSLA']);
+      expect(params.recheckUnavailable).toBeUndefined();
+      expect(groups.map(group => [group.kind, group.tickers, group.selected])).toEqual([
+        ['not_available', ['MSFT'], false],
+        ['failed', ['TSLA'], true],
+        ['not_attempted', ['NVDA'], true],
+      ]);
+    });
+
+    it('asks the provider again for quarters it reported empty', async () => {
+      for (const quarter of [1, 2, 3, 4]) unavailable.add(`MSFT 2024 ${quarter}`);
+
+      const { params } = handler.planRetry(parent, { includeNotAvailable: true, reasons: ['Nothing listed for <ticker>'] });
+      expect(params).toMatchObject({ tickers: ['MSFT'], recheckUnavailable: ['MSFT'] });
+
+      const plan = await handler.plan(params);
+      const estimate = await handler.estimate(plan);
+      expect(estimate).toMatchObject({ knownUnavailable: 0, apiCalls: { min: 1, max: 4 } });
+      expect(unavailable.size).toBe(4); // A dry run leaves the cache alone
+
+      await handler.processItem({ ...parent, id: 'retry', params: plan.params, items: plan.items }, 'MSFT');
+      expect(enqueued).toEqual(['MSFT']);
+      expect(unavailable.size).toBe(0);
+    });
+  });
+});
+
+describe('parseTickerFileRows', () => {
+  it('reads a plain list, one ticker per line, dropping duplicates', () => {
+    expect(parseTickerFileRows('aapl Apple Inc.\n\nMSFT\tMicrosoft\nAAPL\n')).toEqual({
+      format: 'list',
+      rows: [{ line: 1, ticker: 'AAPL', priority: 0 }, { line: 3, ticker: 'MSFT', priority: 0 }],
+      errors: [],
+    });
+  });
+
+  it('reads a CSV table with quoted cells and per-ticker quarters', () => {
+    const { format, rows, errors } = parseTickerFileRows([
+      '\uFEFFSymbol,Company Name,Sector,Quarters,Priority',
+      'aapl,"Apple, Inc.",Technology,2022Q1-2023Q4,2',
+      'MSFT,Microsoft,,latest 6,',
+      'NVDA,NVIDIA,,Q3 2024,',
+    ].join('\r\n'));
+
+    expect(format).toBe('table');
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      {
+        line: 2, ticker: 'AAPL', companyName: 'Apple, Inc.', sector: 'Technology', priority: 2,
+        from: { year: 2022, quarter: 1 }, to: { year: 2023, quarter: 4 },
+      },
+      { line: 3, ticker: 'MSFT', companyName: 'Microsoft', sector: undefined, priority: 0, latest: 6 },
+      {
+        line: 4, ticker: 'NVDA', companyName: 'NVIDIA', sector: undefined, priority: 0,
+        from: { year: 2024, quarter: 3 }, to: { year: 2024, quarter: 3 },
+      },
+    ]);
+  });
+
+  it('detects tab separated tables and from/to columns', () => {
+    const { rows } = parseTickerFileRows('ticker\tfrom\tto\nAMD\t2023Q1\t2023Q2');
+    expect(rows).toMatchObject([{ ticker: 'AMD', from: { year: 2023, quarter: 1 }, to: { year: 2023, quarter: 2 } }]);
+  });
+
+  it('reports each bad row by line and keeps the good ones', () => {
+    const { rows, errors } = parseTickerFileRows([
+      'ticker,quarters,latest,priority',
+      'AAPL,,,',
+      'aapl,,,',
+      'BAD TICKER,,,',
+      ',2024Q1,,',
+      'MSFT,2024Q1-2024Q2,4,',
+      'NVDA,2010Q1-2024Q4,,',
+      'TSLA,2024Q3-2024Q1,,',
+      'AMD,soon,,1.5',
+      'INTC,,99,',
+    ].join('\n'));
+
+    expect(rows.map(row => row.ticker)).toEqual(['AAPL']);
+    expect(errors).toEqual([
+      { line: 3, ticker: 'AAPL', message: 'AAPL is already listed on line 2' },
+      { line: 4, ticker: 'BAD TICKER', message: 'Invalid ticker: BAD TICKER' },
+      { line: 5, ticker: undefined, message: 'Missing ticker' },
+      { line: 6, ticker: 'MSFT', message: 'Give either a quarter range or latest, not both' },
+      { line: 7, ticker: 'NVDA', message: 'Quarter range spans 60 quarters; maximum is 40' },
+      { line: 8, ticker: 'TSLA', message: 'From quarter Q3 2024 is after to quarter Q1 2024' },
+      { line: 9, ticker: 'AMD', message: 'Invalid quarters: soon (use e.g. 2022Q1-2025Q2 or latest 4)' },
+      { line: 9, ticker: 'AMD', message: 'Priority must be a whole number: 1.5' },
+      { line: 10, ticker: 'INTC', message: 'Latest must be between 1 and 16' },
+    ]);
+  });
+});
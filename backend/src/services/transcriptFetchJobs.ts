@@ -0,0 +1,684 @@
+import { config } from '@/config/config';
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+import { FetchQueue } from './fetchQueue';
+import { FiscalCalendarService } from './fiscalCalendar';
+import { getPreviousQuarter, getQuartersBetween, isValidQuarter, parseQuarterLabel } from './quarterCalculator';
+import { JobHandler, JobItemOutcome, JobPlan, JobRequestError } from './jobEngine';
+import { TranscriptProvider, TranscriptProviderError, transcriptProviders } from './transcriptProvider';
+import { TranscriptRepository } from './transcriptRepository';
+import { BulkFetchResult, Job, Quarter } from '@/types';
+
+const MAX_QUARTER_COUNT = 16;
+const MAX_TICKERS = 1000; // Limit to 1000 tickers per job
+const MAX_TOTAL_TASKS = 10000; // Limit total tasks (tickers * quarters)
+const DEFAULT_RESPONSE_MS = 1500; // Assumed API latency before any request has been timed
+const COVERED_SAMPLE_SIZE = 20;
+const MAX_RANGE_QUARTERS = 40; // Ten years per ticker
+const MAX_EXTRA_QUARTERS = 24; // How far a retry can widen the search past the provider's quarters
+const FINISHED_STATUSES: Job['status'][] = ['completed', 'failed', 'cancelled'];
+const TICKER_PATTERN = /^[A-Z0-9.\-]{1,10}$/;
+const QUARTER_LABEL = '(\\d{4}\\s*-?\\s*Q[1-4]|Q[1-4]\\s*-?\\s*\\d{4})';
+const QUARTER_RANGE_PATTERN = new RegExp(`^${QUARTER_LABEL}(?:\\s*(?:-|–|—|\\.\\.|to)\\s*${QUARTER_LABEL})?$`, 'i');
+
+// Ticker file headers, matched lowercase with punctuation and spaces removed
+const HEADER_ALIASES: Record<string, string> = {
+  symbol: 'ticker',
+  companyname: 'company',
+  name: 'company',
+  fromquarter: 'from',
+  start: 'from',
+  startquarter: 'from',
+  toquarter: 'to',
+  end: 'to',
+  endquarter: 'to',
+  range: 'quarters',
+  quarterrange: 'quarters',
+};
+
+export interface TranscriptFetchJobParams {
+  tickers: string[];
+  quarterCount?: number; // Newest quarters to look at first
+  transcriptsPerTicker?: number; // A ticker is done once this many transcripts are stored
+  provider?: string; // Transcript provider name (default API Ninjas)
+  tickerOptions?: Record<string, TickerFetchOptions>; // Per-ticker overrides, e.g. from an uploaded file
+  extraQuarters?: number; // Older quarters searched past the provider's list (or a range's start)
+  recheckUnavailable?: string[]; // Tickers whose quarters are asked for again even if recently reported empty
+}
+
+/**
+ * Which quarters to fetch for one ticker. A range (from and/or to) fetches
+ * every quarter in it; latest fetches that many of the newest transcripts.
+ * Higher priority tickers are processed first.
+ */
+export interface TickerFetchOptions {
+  from?: Quarter;
+  to?: Quarter;
+  latest?: number;
+  priority?: number;
+}
+
+export interface RetryFailedOptions {
+  includeNotAvailable?: boolean; // Also retry tickers where no transcript was found, asking the provider again
+  reasons?: string[]; // Only these failure groups (labels as returned in groups)
+  widenQuarters?: number; // Search this many more older quarters than the parent job did
+}
+
+/**
+ * Tickers of a finished job that share one failure reason
+ */
+export interface RetryGroup {
+  reason: string; // Ticker and quarter replaced with <ticker> / <quarter>, so failures group
+  kind: 'failed' | 'not_available' | 'not_attempted';
+  tickers: string[];
+  selected: boolean;
+}
+
+/**
+ * Dry-run report for a transcript fetch job
+ */
+export interface TranscriptFetchEstimate {
+  provider: string;
+  tickers: number;
+  coveredTickers: number; // Enough transcripts already stored; no calls needed
+  coveredSample: string[];
+  tickersToFetch: number;
+  quartersConsidered: number; // Ticker quarters the job would queue
+  storedQuarters: number; // Already in the cache or database
+  knownUnavailable: number; // Recently reported empty; skipped without a call
+  apiCalls: { min: number; max: number }; // First probe finds a transcript / every probe misses
+  secondsPerCall: number;
+  estimatedSeconds: { min: number; max: number };
+  requestsPerSecond: number | null;
+  queueBacklog: number | null; // Fetch tasks still waiting (null if the database is unreachable)
+  taskLimit: number;
+}
+
+/**
+ * One ticker from an uploaded ticker file
+ */
+export interface TickerFileRow {
+  line: number;
+  ticker: string;
+  companyName?: string;
+  sector?: string;
+  from?: Quarter;
+  to?: Quarter;
+  latest?: number;
+  priority: number;
+}
+
+export interface TickerFileRowError {
+  line: number;
+  ticker?: string;
+  message: string;
+}
+
+export interface ParsedTickerFile {
+  format: 'list' | 'table';
+  rows: TickerFileRow[];
+  errors: TickerFileRowError[];
+}
+
+/**
+ * Parse an uploaded ticker file. A first line naming a ticker (or symbol)
+ * column makes it a CSV/TSV table with optional company name, sector,
+ * from/to quarter, quarters ("2022Q1-2025Q2" or "latest 4"), latest and
+ * priority columns, validated row by row. Anything else is the plain list
+ * format: the first token of each line is the ticker.
+ */
+export function parseTickerFileRows(fileContent: string): ParsedTickerFile {
+  const lines = fileContent.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex(line => line.trim().length > 0);
+  const delimiter = headerIndex >= 0 && lines[headerIndex].includes('\t') ? '\t' : ',';
+  const header = headerIndex >= 0 ? splitDelimitedLine(lines[headerIndex], delimiter).map(toColumnName) : [];
+
+  if (!header.includes('ticker')) {
+    return { format: 'list', rows: parseTickerList(lines), errors: [] };
+  }
+
+  const rows: TickerFileRow[] = [];
+  const errors: TickerFileRowError[] = [];
+  const seen = new Map<string, number>();
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim().length === 0) continue;
+
+    const line = i + 1;
+    const cells = splitDelimitedLine(lines[i], delimiter);
+    const cell = (column: string) => {
+      const value = cells[header.indexOf(column)]?.trim();
+      return value ? value : undefined;
+    };
+    const ticker = cell('ticker')?.toUpperCase();
+    const fail = (message: string) => errors.push({ line, ticker, message });
+
+    if (!ticker || !TICKER_PATTERN.test(ticker)) {
+      fail(ticker ? `Invalid ticker: ${ticker}` : 'Missing ticker');
+      continue;
+    }
+    if (seen.has(ticker)) {
+      fail(`${ticker} is already listed on line ${seen.get(ticker)}`);
+      continue;
+    }
+    seen.set(ticker, line);
+
+    const row: TickerFileRow = { line, ticker, companyName: cell('company'), sector: cell('sector'), priority: 0 };
+    const problems: string[] = [];
+
+    const range = cell('quarters');
+    if (range) {
+      const latest = /^latest\s+(\d+)$/i.exec(range);
+      const bounds = QUARTER_RANGE_PATTERN.exec(range);
+      if (latest) {
+        row.latest = Number(latest[1]);
+      } else if (bounds) {
+        row.from = parseQuarterLabel(bounds[1]) ?? undefined;
+        row.to = parseQuarterLabel(bounds[2] ?? bounds[1]) ?? undefined;
+      } else {
+        problems.push(`Invalid quarters: ${range} (use e.g. 2022Q1-2025Q2 or latest 4)`);
+      }
+    }
+
+    for (const column of ['from', 'to'] as const) {
+      const value = cell(column);
+      if (!value) continue;
+      const quarter = parseQuarterLabel(value);
+      if (!quarter) {
+        problems.push(`Invalid ${column} quarter: ${value} (use e.g. 2024Q3)`);
+      } else if (row[column]) {
+        problems.push(`Both a quarters range and a ${column} quarter are given`);
+      } else {
+        row[column] = quarter;
+      }
+    }
+
+    const latest = cell('latest');
+    if (latest) {
+      if (row.latest !== undefined) problems.push('Latest is given twice');
+      row.latest = Number(latest);
+    }
+
+    const priority = cell('priority');
+    if (priority) {
+      row.priority = Number(priority);
+      if (!Number.isInteger(row.priority)) problems.push(`Priority must be a whole number: ${priority}`);
+    }
+
+    problems.push(...validateTickerOptions(row));
+    if (problems.length > 0) {
+      problems.forEach(fail);
+      continue;
+    }
+    rows.push(row);
+  }
+
+  return { format: 'table', rows, errors };
+}
+
+function parseTickerList(lines: string[]): TickerFileRow[] {
+  const rows: TickerFileRow[] = [];
+  const seen = new Set<string>();
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (line.length === 0) return;
+
+    // Handle different formats: "TICKER", "TICKER\tCompany Name", "TICKER Company Name"
+    const ticker = line.split(/[\t\s]+/)[0]?.toUpperCase().trim();
+    if (ticker && ticker.length > 0 && ticker.length <= 10) {
+      if (!seen.has(ticker)) rows.push({ line: i + 1, ticker, priority: 0 }); // Remove duplicates
+      seen.add(ticker);
+    } else {
+      logger.warn('Skipping invalid ticker format', { line, ticker });
+    }
+  });
+
+  return rows;
+}
+
+/**
+ * Split one CSV/TSV line, honouring double-quoted cells ("Apple, Inc.")
+ */
+function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' && current.trim().length === 0) {
+      quoted = true;
+      current = '';
+    } else if (char === delimiter) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map(cell => cell.trim());
+}
+
+/**
+ * Map a header cell onto a column name (headers are matched loosely)
+ */
+function toColumnName(header: string): string {
+  const name = header.toLowerCase().replace(/[^a-z]/g, '');
+  return HEADER_ALIASES[name] ?? name;
+}
+
+/**
+ * Range checks shared by uploaded rows and per-ticker options sent to the API
+ */
+function validateTickerOptions(options: TickerFetchOptions): string[] {
+  const problems: string[] = [];
+  if (options.latest !== undefined) {
+    if (!Number.isInteger(options.latest) || options.latest < 1 || options.latest > MAX_QUARTER_COUNT) {
+      problems.push(`Latest must be between 1 and ${MAX_QUARTER_COUNT}`);
+    }
+    if (options.from || options.to) {
+      problems.push('Give either a quarter range or latest, not both');
+    }
+  }
+  for (const bound of [options.from, options.to]) {
+    if (bound && !(Number.isInteger(bound.year) && Number.isInteger(bound.quarter) && isValidQuarter(bound.year, bound.quarter))) {
+      problems.push(`Quarter out of range: Q${bound.quarter} ${bound.year}`);
+    }
+  }
+  if (options.from && options.to) {
+    const span = getQuartersBetween(options.from, options.to).length;
+    if (span === 0) {
+      problems.push(`From quarter Q${options.from.quarter} ${options.from.year} is after to quarter Q${options.to.quarter} ${options.to.year}`);
+    } else if (span > MAX_RANGE_QUARTERS) {
+      problems.push(`Quarter range spans ${span} quarters; maximum is ${MAX_RANGE_QUARTERS}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Save company names and sectors from an uploaded ticker file. Rows without
+ * a company name only update the sector of companies already on file.
+ */
+export async function saveTickerFileCompanies(rows: TickerFileRow[]): Promise<{ saved: number; failed: number }> {
+  let saved = 0;
+  let failed = 0;
+
+  for (const row of rows) {
+    if (!row.companyName && !row.sector) continue;
+    try {
+      if (row.companyName) {
+        await prisma.company.upsert({
+          where: { ticker: row.ticker },
+          update: { name: row.companyName, ...(row.sector ? { sector: row.sector } : {}) },
+          create: { ticker: row.ticker, name: row.companyName, sector: row.sector ?? null },
+        });
+        saved++;
+      } else {
+        saved += (await prisma.company.updateMany({ where: { ticker: row.ticker }, data: { sector: row.sector } })).count;
+      }
+    } catch (error) {
+      failed++;
+      logger.warn('Could not save company from ticker file', {
+        ticker: row.ticker,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { saved, failed };
+}
+
+/**
+ * Group label for a failure reason: the ticker and any quarter are replaced
+ * so that e.g. rate limit errors for different tickers land in one group
+ */
+function failureGroupLabel(reason: string, ticker: string): string {
+  const escaped = ticker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return reason
+    .replace(new RegExp(`\\b${escaped}\\b`, 'g'), '<ticker>')
+    .replace(/\b(?:\d{4}\s*-?\s*Q[1-4]|Q[1-4]\s*-?\s*\d{4})\b/gi, '<quarter>');
+}
+
+/**
+ * Bulk transcript fetch jobs. Each item is a ticker, searched newest quarter
+ * first (over the quarters its provider lists for the ticker's fiscal
+ * calendar) until enough transcripts are
+ * stored; the per-quarter work runs on the durable FetchQueue and the item
+ * settles once the ticker's tasks have.
+ */
+export class TranscriptFetchJobHandler implements JobHandler<TranscriptFetchJobParams, BulkFetchResult> {
+  readonly type = 'transcript-fetch' as const;
+  private fetchQueue: FetchQueue;
+  private repository: TranscriptRepository;
+  private fiscalCalendars: FiscalCalendarService; // Candidate quarters follow each ticker's fiscal year
+
+  constructor(fetchQueue: FetchQueue, repository: TranscriptRepository, fiscalCalendars: FiscalCalendarService) {
+    this.fetchQueue = fetchQueue;
+    this.repository = repository;
+    this.fiscalCalendars = fiscalCalendars;
+  }
+
+  async plan(params: TranscriptFetchJobParams): Promise<JobPlan<TranscriptFetchJobParams>> {
+    const tickers = Array.from(new Set(
+      (Array.isArray(params.tickers) ? params.tickers : [])
+        .map(ticker => String(ticker).trim().toUpperCase())
+        .filter(ticker => ticker.length > 0)
+    ));
+    const quarterCount = params.quarterCount ?? 4;
+    const transcriptsPerTicker = params.transcriptsPerTicker ?? 1;
+    let provider: TranscriptProvider;
+    try {
+      provider = transcriptProviders.get(params.provider);
+    } catch (error) {
+      throw new JobRequestError(error instanceof TranscriptProviderError ? error.message : 'Invalid transcript provider');
+    }
+
+    if (tickers.length === 0) {
+      throw new JobRequestError('No valid tickers provided');
+    }
+    if (tickers.length > MAX_TICKERS) {
+      throw new JobRequestError(`Too many tickers: ${tickers.length}. Maximum allowed is ${MAX_TICKERS}.`);
+    }
+    if (!Number.isInteger(quarterCount) || quarterCount < 1 || quarterCount > MAX_QUARTER_COUNT) {
+      throw new JobRequestError(`Quarter count must be between 1 and ${MAX_QUARTER_COUNT}`);
+    }
+    if (!Number.isInteger(transcriptsPerTicker) || transcriptsPerTicker < 1 || transcriptsPerTicker > MAX_QUARTER_COUNT) {
+      throw new JobRequestError(`Transcripts per ticker must be between 1 and ${MAX_QUARTER_COUNT}`);
+    }
+
+    const extraQuarters = params.extraQuarters ?? 0;
+    if (!Number.isInteger(extraQuarters) || extraQuarters < 0 || extraQuarters > MAX_EXTRA_QUARTERS) {
+      throw new JobRequestError(`Extra quarters must be between 0 and ${MAX_EXTRA_QUARTERS}`);
+    }
+
+    let tickerOptions: Record<string, TickerFetchOptions> | undefined;
+    if (params.tickerOptions && typeof params.tickerOptions === 'object') {
+      tickerOptions = {};
+      for (const [key, options] of Object.entries(params.tickerOptions)) {
+        const ticker = key.trim().toUpperCase();
+        if (!tickers.includes(ticker) || !options) continue;
+
+        const problems = validateTickerOptions(options);
+        if (options.priority !== undefined && !Number.isInteger(options.priority)) {
+          problems.push('Priority must be a whole number');
+        }
+        if (problems.length > 0) {
+          throw new JobRequestError(`${ticker}: ${problems.join('; ')}`);
+        }
+        tickerOptions[ticker] = options;
+      }
+      // Highest priority first; ties keep the order given
+      const priority = (ticker: string) => tickerOptions?.[ticker]?.priority ?? 0;
+      tickers.sort((a, b) => priority(b) - priority(a));
+    }
+
+    const recheckUnavailable = Array.isArray(params.recheckUnavailable)
+      ? params.recheckUnavailable.map(ticker => String(ticker).trim().toUpperCase()).filter(ticker => tickers.includes(ticker))
+      : [];
+
+    const planned: TranscriptFetchJobParams = {
+      tickers, quarterCount, transcriptsPerTicker, provider: provider.name, tickerOptions,
+      ...(extraQuarters > 0 ? { extraQuarters } : {}),
+      ...(recheckUnavailable.length > 0 ? { recheckUnavailable } : {}),
+    };
+
+    // Count the quarters each ticker would actually queue
+    let totalTasks = 0;
+    for (const ticker of tickers) {
+      totalTasks += (await this.resolveQuarters(planned, ticker, provider)).quarters.length;
+    }
+    if (totalTasks > MAX_TOTAL_TASKS) {
+      const detail = tickerOptions ? `${tickers.length} tickers with per-ticker quarters` : `${tickers.length} tickers × ${quarterCount} quarters`;
+      throw new JobRequestError(`Too many total tasks: ${totalTasks} (${detail}). Maximum allowed is ${MAX_TOTAL_TASKS}.`);
+    }
+
+    return { params: planned, items: tickers };
+  }
+
+  /**
+   * Params for a child job retrying a finished job's failed tickers (and
+   * optionally those with no transcript), with the failures grouped by reason
+   */
+  planRetry(parent: Job<TranscriptFetchJobParams, BulkFetchResult>, options: RetryFailedOptions = {}): { params: TranscriptFetchJobParams; groups: RetryGroup[] } {
+    if (!FINISHED_STATUSES.includes(parent.status)) {
+      throw new JobRequestError(`Only finished jobs can be retried (status: ${parent.status})`);
+    }
+    const widenQuarters = options.widenQuarters ?? 0;
+    if (!Number.isInteger(widenQuarters) || widenQuarters < 0) {
+      throw new JobRequestError('widenQuarters must be a whole number of quarters');
+    }
+
+    const notAvailable = new Set(parent.results.filter(result => result.status === 'not_available').map(result => result.ticker.toUpperCase()));
+    const groups = new Map<string, RetryGroup>();
+    const addToGroup = (ticker: string, reason: string, kind: RetryGroup['kind']) => {
+      const label = failureGroupLabel(reason, ticker);
+      const group = groups.get(`${kind}:${label}`) ?? { reason: label, kind, tickers: [], selected: false };
+      if (!group.tickers.includes(ticker)) group.tickers.push(ticker);
+      groups.set(`${kind}:${label}`, group);
+    };
+
+    for (const { item, reason } of parent.progress.failedDetails) {
+      addToGroup(item, reason, notAvailable.has(item) ? 'not_available' : 'failed');
+    }
+    // Items a cancelled (or failed) job never got to
+    const settled = new Set([...parent.progress.processed, ...parent.progress.failed, ...parent.progress.skipped]);
+    for (const item of parent.items.filter(item => !settled.has(item))) {
+      addToGroup(item, 'Not attempted', 'not_attempted');
+    }
+
+    const tickers: string[] = [];
+    const recheckUnavailable: string[] = [];
+    for (const group of groups.values()) {
+      group.selected = (group.kind !== 'not_available' || Boolean(options.includeNotAvailable))
+        && (!options.reasons?.length || options.reasons.includes(group.reason));
+      if (!group.selected) continue;
+      tickers.push(...group.tickers);
+      // The provider said these had nothing, so its negative cache would skip every quarter again
+      if (group.kind === 'not_available') recheckUnavailable.push(...group.tickers);
+    }
+
+    if (tickers.length === 0) {
+      throw new JobRequestError(groups.size === 0 ? 'The job has no failed tickers to retry' : 'No failed tickers match the chosen groups');
+    }
+
+    const tickerOptions = parent.params.tickerOptions
+      ? Object.fromEntries(Object.entries(parent.params.tickerOptions).filter(([ticker]) => tickers.includes(ticker)))
+      : undefined;
+    return {
+      params: {
+        tickers,
+        quarterCount: parent.params.quarterCount,
+        transcriptsPerTicker: parent.params.transcriptsPerTicker,
+        provider: parent.params.provider,
+        tickerOptions,
+        extraQuarters: Math.min(MAX_EXTRA_QUARTERS, (parent.params.extraQuarters ?? 0) + widenQuarters),
+        ...(recheckUnavailable.length > 0 ? { recheckUnavailable } : {}),
+      },
+      groups: Array.from(groups.values()).sort((a, b) => b.tickers.length - a.tickers.length),
+    };
+  }
+
+  /**
+   * Walk each ticker's quarters the way the fetch queue would, counting what
+   * is already stored, what the negative cache skips and what needs a call
+   */
+  async estimate(plan: JobPlan<TranscriptFetchJobParams>): Promise<TranscriptFetchEstimate> {
+    const { tickers } = plan.params;
+    const provider = transcriptProviders.get(plan.params.provider);
+    const [stored, counts] = await Promise.all([
+      this.repository.findStoredQuarters(tickers),
+      this.fetchQueue.getCounts().catch(() => null), // The backlog is informational
+    ]);
+
+    const estimate: TranscriptFetchEstimate = {
+      provider: provider.name,
+      tickers: tickers.length,
+      coveredTickers: 0,
+      coveredSample: [],
+      tickersToFetch: 0,
+      quartersConsidered: 0,
+      storedQuarters: 0,
+      knownUnavailable: 0,
+      apiCalls: { min: 0, max: 0 },
+      secondsPerCall: 0,
+      estimatedSeconds: { min: 0, max: 0 },
+      requestsPerSecond: null,
+      queueBacklog: counts ? counts.PENDING + counts.IN_PROGRESS : null,
+      taskLimit: MAX_TOTAL_TASKS,
+    };
+
+    for (const ticker of tickers) {
+      const { quarters, wanted } = await this.resolveQuarters(plan.params, ticker, provider);
+      const recheck = plan.params.recheckUnavailable?.includes(ticker) ?? false;
+      estimate.quartersConsidered += quarters.length;
+
+      const walk = (probesFind: boolean) => {
+        let found = 0;
+        let calls = 0;
+        let storedCount = 0;
+        let unavailable = 0;
+        for (const { year, quarter } of quarters) {
+          if (found >= wanted) break;
+          if (stored.has(`${ticker}-${year}-${quarter}`)) {
+            storedCount++;
+            found++;
+          } else if (!recheck && provider.isKnownUnavailable?.(ticker, year, quarter)) {
+            unavailable++;
+          } else {
+            calls++;
+            if (probesFind) found++;
+          }
+        }
+        return { found, calls, storedCount, unavailable };
+      };
+
+      const worst = walk(false);
+      const best = walk(true);
+      estimate.storedQuarters += worst.storedCount;
+      estimate.knownUnavailable += worst.unavailable;
+      estimate.apiCalls.max += worst.calls;
+      estimate.apiCalls.min += best.calls;
+
+      if (worst.calls > 0) {
+        estimate.tickersToFetch++;
+      } else if (worst.found >= wanted) {
+        estimate.coveredTickers++;
+        if (estimate.coveredSample.length < COVERED_SAMPLE_SIZE) estimate.coveredSample.push(ticker);
+      }
+    }
+
+    if (provider.remote) {
+      const pacing = provider.getPacing?.();
+      const intervalMs = pacing ? 1000 / pacing.requestsPerSecond : 0;
+      const responseMs = pacing?.averageResponseMs ?? DEFAULT_RESPONSE_MS;
+      // The fetch queue's workers overlap responses; the rate limiter caps how often calls start
+      estimate.secondsPerCall = Math.round(Math.max(intervalMs, responseMs / config.fetchQueue.workers)) / 1000;
+      estimate.requestsPerSecond = pacing?.requestsPerSecond ?? null;
+    }
+    estimate.estimatedSeconds = {
+      min: Math.ceil(estimate.apiCalls.min * estimate.secondsPerCall),
+      max: Math.ceil(estimate.apiCalls.max * estimate.secondsPerCall),
+    };
+
+    logger.info('Transcript fetch dry run', {
+      provider: provider.name,
+      tickers: estimate.tickers,
+      coveredTickers: estimate.coveredTickers,
+      apiCalls: estimate.apiCalls,
+    });
+    return estimate;
+  }
+
+  async processItem(job: Job<TranscriptFetchJobParams, BulkFetchResult>, ticker: string): Promise<JobItemOutcome<BulkFetchResult>> {
+    const provider = transcriptProviders.get(job.params.provider);
+    const { quarters, wanted } = await this.resolveQuarters(job.params, ticker, provider);
+    if (quarters.length === 0) {
+      const reason = `No transcripts available from ${provider.name}`;
+      return { status: 'failed', results: [{ ticker, status: 'not_available', error: reason }], reason };
+    }
+    if (job.params.recheckUnavailable?.includes(ticker)) {
+      for (const { year, quarter } of quarters) provider.forgetUnavailable?.(ticker, year, quarter);
+    }
+
+    // Tasks this job already owns (e.g. from before a restart) are kept as they are
+    await this.fetchQueue.enqueue({
+      jobId: job.id,
+      tickers: [ticker],
+      quarters,
+      stopAfter: wanted,
+      provider: provider.name,
+    });
+    await this.fetchQueue.waitForTicker(job.id, ticker);
+
+    const { progress, results } = await this.fetchQueue.summarizeJob(job.id, [ticker]);
+    if (progress.processed.length > 0) {
+      return { status: 'processed', results };
+    }
+    if (progress.skipped.length > 0) {
+      return { status: 'skipped', results };
+    }
+    return { status: 'failed', results, reason: progress.failedDetails[0]?.reason };
+  }
+
+  /**
+   * Quarters to queue for a ticker (newest first) and how many stored
+   * transcripts settle it. Without a range that is the newest quarter count
+   * (or `latest`, if more) of the provider's quarters. A range fills in a missing end from the
+   * provider's newest quarter and a missing start from the quarter count;
+   * extra quarters extend the search further back.
+   */
+  private async resolveQuarters(
+    params: TranscriptFetchJobParams,
+    ticker: string,
+    provider: TranscriptProvider
+  ): Promise<{ quarters: Quarter[]; wanted: number }> {
+    const options = params.tickerOptions?.[ticker];
+    const extra = params.extraQuarters ?? 0;
+    const calendar = this.fiscalCalendars.get(ticker);
+    if (!options?.from && !options?.to) {
+      const count = Math.max(params.quarterCount ?? 4, options?.latest ?? 0);
+      const quarters = (await provider.listAvailableQuarters(ticker, calendar)).slice(0, count);
+      for (let i = 0; i < extra && quarters.length > 0; i++) {
+        quarters.push(getPreviousQuarter(quarters[quarters.length - 1]));
+      }
+      return { quarters, wanted: options?.latest ?? params.transcriptsPerTicker ?? 1 };
+    }
+
+    const to = options.to ?? (await provider.listAvailableQuarters(ticker, calendar))[0];
+    if (!to) return { quarters: [], wanted: 0 };
+
+    let from = options.from;
+    if (!from) {
+      from = to;
+      for (let i = 1; i < (params.quarterCount ?? 4); i++) from = getPreviousQuarter(from);
+    }
+    const wanted = getQuartersBetween(from, to).length;
+    for (let i = 0; i < extra; i++) from = getPreviousQuarter(from);
+    // Widened ranges settle once the original range's count is found
+    return { quarters: getQuartersBetween(from, to).reverse(), wanted };
+  }
+
+  async onPause(job: Job<TranscriptFetchJobParams>): Promise<void> {
+    await this.fetchQueue.pauseJob(job.id);
+  }
+
+  async onResume(job: Job<TranscriptFetchJobParams>): Promise<void> {
+    await this.fetchQueue.resumeJob(job.id);
+  }
+
+  async onCancel(job: Job<TranscriptFetchJobParams>): Promise<void> {
+    await this.fetchQueue.cancelJob(job.id);
+  }
+}
@@ -0,0 +1,193 @@
+import { logger } from '@/config/logger';
+import { ApiNinjasTranscriptResponse, ApiNinjasTranscriptSplitResponse, Quarter, TranscriptSplitSegment } from '@/types';
+import { apiNinjasService } from './apiNinjas';
+import { localTranscriptProvider } from './localTranscriptProvider';
+import { FiscalCalendar } from './quarterCalculator';
+
+export interface ProviderTranscript extends ApiNinjasTranscriptResponse {
+  companyName?: string;
+}
+
+export interface ProviderTranscriptSplit extends ApiNinjasTranscriptSplitResponse {
+  companyName?: string;
+}
+
+/**
+ * A source of earnings call transcripts. Ingestion (fetch queue, bulk fetch)
+ * goes through this interface so transcripts obtained elsewhere load through
+ * the same pipeline as API Ninjas.
+ */
+export interface TranscriptProvider {
+  readonly name: string; // Also recorded as the revision source
+  readonly description: string;
+  readonly remote: boolean; // Calls an external API; the fetch queue paces these
+
+  fetchTranscript(ticker: string, year: number, quarter: number): Promise<ProviderTranscript | null>;
+  fetchTranscriptSplit(ticker: string, year: number, quarter: number): Promise<ProviderTranscriptSplit | null>;
+
+  /**
+   * Quarters worth trying for a ticker, newest first. Providers that can't
+   * list transcripts generate candidates in the ticker's fiscal calendar.
+   */
+  listAvailableQuarters(ticker: string, calendar?: FiscalCalendar): Promise<Quarter[]>;
+
+  /**
+   * Quarters the provider recently reported as empty, skipped without a request
+   */
+  isKnownUnavailable?(ticker: string, year: number, quarter: number): boolean;
+
+  /**
+   * Drop a quarter from that list so the next fetch asks the provider again
+   */
+  forgetUnavailable?(ticker: string, year: number, quarter: number): void;
+
+  /**
+   * Current request pace, for estimating how long a fetch will take
+   */
+  getPacing?(): { requestsPerSecond: number; averageResponseMs: number | null };
+}
+
+/**
+ * A fetched transcript ready to store: the text plus speaker segments when the provider had them
+ */
+export interface FetchedTranscript {
+  ticker: string;
+  year: number;
+  quarter: number;
+  date: string;
+  companyName?: string;
+  fullTranscript: string;
+  transcriptSplit: TranscriptSplitSegment[] | null;
+  transcriptJson: ProviderTranscript | ProviderTranscriptSplit; // Provider response as received
+  source: string; // Revision source: the provider name, suffixed _split for segmented text
+}
+
+export class TranscriptProviderError extends Error {
+  name = 'TranscriptProviderError';
+}
+
+export const DEFAULT_TRANSCRIPT_PROVIDER = 'api_ninjas';
+
+/**
+ * Providers by name
+ */
+export class TranscriptProviderRegistry {
+  private providers = new Map<string, TranscriptProvider>();
+
+  register(provider: TranscriptProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Look up a provider; no name means the default (API Ninjas)
+   */
+  get(name?: string | null): TranscriptProvider {
+    const provider = this.providers.get(name || DEFAULT_TRANSCRIPT_PROVIDER);
+    if (!provider) {
+      throw new TranscriptProviderError(`Unknown transcript provider: ${name}. Available: ${this.names().join(', ')}`);
+    }
+    return provider;
+  }
+
+  names(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  list(): Array<{ name: string; description: string; remote: boolean; default: boolean }> {
+    return Array.from(this.providers.values()).map(provider => ({
+      name: provider.name,
+      description: provider.description,
+      remote: provider.remote,
+      default: provider.name === DEFAULT_TRANSCRIPT_PROVIDER,
+    }));
+  }
+}
+
+/**
+ * Fetch a transcript with speaker segments, falling back to the provider's
+ * flat text when it has no split for the quarter. Every ingestion path goes
+ * through here so speaker-aware features see the same data.
+ */
+export async function fetchTranscriptWithSpeakers(
+  provider: TranscriptProvider,
+  ticker: string,
+  year: number,
+  quarter: number
+): Promise<FetchedTranscript | null> {
+  try {
+    const split = await provider.fetchTranscriptSplit(ticker, year, quarter);
+    const segments = normalizeSplitSegments(split?.transcript_split);
+    if (split && segments.length > 0) {
+      return {
+        ticker: split.ticker || ticker.toUpperCase(),
+        year,
+        quarter,
+        date: split.date,
+        companyName: split.companyName,
+        fullTranscript: formatSplitTranscript(segments),
+        transcriptSplit: segments,
+        transcriptJson: split,
+        source: `${provider.name}_split`,
+      };
+    }
+  } catch (error) {
+    logger.warn('Speaker split fetch failed, falling back to flat transcript', {
+      ticker,
+      year,
+      quarter,
+      provider: provider.name,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  const flat = await provider.fetchTranscript(ticker, year, quarter);
+  if (!flat || !flat.transcript) return null;
+
+  return {
+    ticker: flat.ticker || ticker.toUpperCase(),
+    year,
+    quarter,
+    date: flat.date,
+    companyName: flat.companyName,
+    fullTranscript: flat.transcript,
+    transcriptSplit: null,
+    transcriptJson: flat,
+    source: provider.name,
+  };
+}
+
+/**
+ * Keep the speaker, role, company and text of each segment, dropping empty ones
+ */
+export function normalizeSplitSegments(raw: unknown): TranscriptSplitSegment[] {
+  if (!Array.isArray(raw)) return [];
+
+  const segments: TranscriptSplitSegment[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const { speaker, role, company, text } = item as Record<string, unknown>;
+    if (typeof text !== 'string' || text.trim().length === 0) continue;
+
+    segments.push({
+      speaker: typeof speaker === 'string' && speaker.trim() ? speaker.trim() : 'Unknown',
+      ...(typeof role === 'string' && role.trim() ? { role: role.trim() } : {}),
+      ...(typeof company === 'string' && company.trim() ? { company: company.trim() } : {}),
+      text: text.trim(),
+    });
+  }
+  return segments;
+}
+
+/**
+ * Flat text for speaker segments: "Speaker (Role): text" paragraphs
+ */
+export function formatSplitTranscript(segments: TranscriptSplitSegment[]): string {
+  return segments
+    .map(segment => `${segment.speaker}${segment.role ? ` (${segment.role})` : ''}: ${segment.text}`)
+    .join('\n\n');
+}
+
+// Export singleton instance
+export const transcriptProviders = new TranscriptProviderRegistry();
+transcriptProviders.register(apiNinjasService);
+transcriptProviders.register(localTranscriptProvider);
@@ -0,0 +1,347 @@
+import crypto from 'crypto';
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+import { JobHandler, JobItemOutcome, JobPlan, JobRequestError } from './jobEngine';
+import { StoredTranscript, TranscriptRepository } from './transcriptRepository';
+import { Job } from '@/types';
+
+/**
+ * Reconciles the transcript cache with the `transcripts` table.
+ *
+ * Both stores are diffed by ticker/year/quarter: rows missing on one side are
+ * backfilled from the other, and pairs whose text differs are reported as
+ * conflicts (optionally resolved in favour of one side).
+ */
+
+export type ReconcileConflictStrategy = 'report' | 'prefer-database' | 'prefer-cache';
+
+export interface ReconcileOptions {
+  dryRun?: boolean;
+  conflictStrategy?: ReconcileConflictStrategy;
+}
+
+export type ReconcileActionType =
+  | 'cache_to_database'
+  | 'database_to_cache'
+  | 'overwrite_database'
+  | 'overwrite_cache';
+
+export interface ReconcileAction {
+  type: ReconcileActionType;
+  ticker: string;
+  year: number;
+  quarter: number;
+  status: 'planned' | 'done' | 'failed';
+  error?: string;
+}
+
+export interface ReconcileConflict {
+  ticker: string;
+  year: number;
+  quarter: number;
+  cacheKey: string;
+  databaseId: string;
+  cacheLength: number;
+  databaseLength: number;
+  resolution: 'none' | 'database' | 'cache';
+}
+
+export interface ReconcileReport {
+  id: string;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  dryRun: boolean;
+  conflictStrategy: ReconcileConflictStrategy;
+  counts: {
+    cacheEntries: number;
+    databaseRows: number;
+    inBoth: number;
+    matching: number;
+    cacheOnly: number;
+    databaseOnly: number;
+    conflicts: number;
+    invalidCacheEntries: number;
+    backfilledToDatabase: number;
+    backfilledToCache: number;
+    conflictsResolved: number;
+    failed: number;
+  };
+  conflicts: ReconcileConflict[];
+  actions: ReconcileAction[];
+  invalidCacheEntries: string[];
+}
+
+const DATABASE_PAGE_SIZE = 100;
+
+export class TranscriptReconciliationService {
+  private repository: TranscriptRepository;
+  private running = false;
+  private lastReport: ReconcileReport | null = null;
+
+  constructor(repository: TranscriptRepository) {
+    this.repository = repository;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getLastReport(): ReconcileReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Diff both stores and backfill/resolve according to the options
+   */
+  async run(options: ReconcileOptions = {}): Promise<ReconcileReport> {
+    if (this.running) {
+      throw new Error('Reconciliation is already running');
+    }
+
+    this.running = true;
+    try {
+      const report = await this.reconcile(options.dryRun ?? false, options.conflictStrategy ?? 'report');
+      this.lastReport = report;
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async reconcile(dryRun: boolean, conflictStrategy: ReconcileConflictStrategy): Promise<ReconcileReport> {
+    const started = Date.now();
+    const report: ReconcileReport = {
+      id: `reconcile-${started}`,
+      startedAt: new Date(started).toISOString(),
+      completedAt: '',
+      durationMs: 0,
+      dryRun,
+      conflictStrategy,
+      counts: {
+        cacheEntries: 0,
+        databaseRows: 0,
+        inBoth: 0,
+        matching: 0,
+        cacheOnly: 0,
+        databaseOnly: 0,
+        conflicts: 0,
+        invalidCacheEntries: 0,
+        backfilledToDatabase: 0,
+        backfilledToCache: 0,
+        conflictsResolved: 0,
+        failed: 0,
+      },
+      conflicts: [],
+      actions: [],
+      invalidCacheEntries: [],
+    };
+
+    logger.info('Starting cache/database reconciliation', { dryRun, conflictStrategy });
+
+    // Index the cache metadata by ticker/year/quarter (legacy keys may differ in casing);
+    // cached texts are only read for pairs that need comparing or copying
+    const cacheIndex = new Map<string, string>();
+    for (const meta of this.repository.cachedMetadata()) {
+      report.counts.cacheEntries++;
+      if (!meta.ticker || !meta.year || !meta.quarter) {
+        report.invalidCacheEntries.push(meta.key);
+        continue;
+      }
+      const key = this.quarterKey(meta.ticker, meta.year, meta.quarter);
+      if (!cacheIndex.has(key)) {
+        cacheIndex.set(key, meta.key);
+      }
+    }
+
+    // Walk the database in pages so full texts are never all in memory at once
+    let cursor: string | undefined;
+    for (;;) {
+      const rows = await prisma.transcript.findMany({
+        orderBy: { id: 'asc' },
+        take: DATABASE_PAGE_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+      if (rows.length === 0) break;
+      cursor = rows[rows.length - 1].id;
+
+      for (const row of rows) {
+        report.counts.databaseRows++;
+        const key = this.quarterKey(row.ticker, row.year, row.quarter);
+        const cacheKey = cacheIndex.get(key);
+        const record = cacheKey ? this.repository.getCachedRecord(cacheKey) : undefined;
+
+        if (!cacheKey || typeof record?.fullTranscript !== 'string') {
+          if (cacheKey) {
+            cacheIndex.delete(key);
+            report.invalidCacheEntries.push(cacheKey);
+          }
+          report.counts.databaseOnly++;
+          await this.apply(report, 'database_to_cache', row, dryRun, () => {
+            this.repository.writeCache(this.repository.fromDatabase(row));
+          });
+          continue;
+        }
+
+        cacheIndex.delete(key);
+        report.counts.inBoth++;
+
+        if (this.checksum(row.fullTranscript) === this.checksum(record.fullTranscript)) {
+          report.counts.matching++;
+          continue;
+        }
+
+        report.counts.conflicts++;
+        const conflict: ReconcileConflict = {
+          ticker: row.ticker.toUpperCase(),
+          year: row.year,
+          quarter: row.quarter,
+          cacheKey,
+          databaseId: row.id,
+          cacheLength: record.fullTranscript.length,
+          databaseLength: row.fullTranscript.length,
+          resolution: 'none',
+        };
+        report.conflicts.push(conflict);
+
+        if (conflictStrategy === 'prefer-database') {
+          conflict.resolution = 'database';
+          await this.apply(report, 'overwrite_cache', row, dryRun, () => {
+            this.repository.writeCache(this.repository.fromDatabase(row, record));
+          });
+        } else if (conflictStrategy === 'prefer-cache') {
+          conflict.resolution = 'cache';
+          await this.apply(report, 'overwrite_database', row, dryRun, async () => {
+            const transcript = this.repository.fromCache(record);
+            const saved = await this.repository.save({
+              ...transcript,
+              callDate: transcript.callDate ?? row.callDate,
+              source: 'reconciliation',
+            });
+            if (saved.storage !== 'database') throw new Error('Database write failed');
+          });
+        }
+      }
+    }
+
+    // Whatever is left in the cache index has no database row
+    for (const cacheKey of cacheIndex.values()) {
+      const record = this.repository.getCachedRecord(cacheKey);
+      if (typeof record?.fullTranscript !== 'string') {
+        report.invalidCacheEntries.push(cacheKey);
+        continue;
+      }
+      report.counts.cacheOnly++;
+      const transcript: StoredTranscript = { ...this.repository.fromCache(record), databaseId: undefined };
+      await this.apply(report, 'cache_to_database', transcript, dryRun, async () => {
+        const databaseId = await this.repository.ensureInDatabase(transcript);
+        if (!databaseId) throw new Error('Database write failed');
+      });
+    }
+
+    report.counts.invalidCacheEntries = report.invalidCacheEntries.length;
+    report.completedAt = new Date().toISOString();
+    report.durationMs = Date.now() - started;
+
+    logger.info('Cache/database reconciliation completed', {
+      dryRun,
+      conflictStrategy,
+      durationMs: report.durationMs,
+      ...report.counts,
+    });
+
+    return report;
+  }
+
+  /**
+   * Record an action and, unless this is a dry run, perform it
+   */
+  private async apply(
+    report: ReconcileReport,
+    type: ReconcileActionType,
+    target: { ticker: string; year: number; quarter: number },
+    dryRun: boolean,
+    perform: () => void | Promise<void>
+  ): Promise<void> {
+    const action: ReconcileAction = {
+      type,
+      ticker: target.ticker.toUpperCase(),
+      year: target.year,
+      quarter: target.quarter,
+      status: 'planned',
+    };
+    report.actions.push(action);
+
+    if (dryRun) return;
+
+    try {
+      await perform();
+      action.status = 'done';
+      switch (type) {
+        case 'cache_to_database':
+          report.counts.backfilledToDatabase++;
+          break;
+        case 'database_to_cache':
+          report.counts.backfilledToCache++;
+          break;
+        default:
+          report.counts.conflictsResolved++;
+      }
+    } catch (error) {
+      action.status = 'failed';
+      action.error = error instanceof Error ? error.message : 'Unknown error';
+      report.counts.failed++;
+      logger.error('Reconciliation action failed', { ...action });
+    }
+  }
+
+  private quarterKey(ticker: string, year: number, quarter: number): string {
+    return `${ticker.toUpperCase()}-${year}-Q${quarter}`;
+  }
+
+  /**
+   * Content fingerprint; surrounding whitespace is not treated as a difference
+   */
+  private checksum(text: string): string {
+    return crypto.createHash('sha1').update(text.trim()).digest('hex');
+  }
+}
+
+const CONFLICT_STRATEGIES: ReconcileConflictStrategy[] = ['report', 'prefer-database', 'prefer-cache'];
+
+/**
+ * Reconciliation as a background job: a single item covering both stores
+ */
+export class ReconciliationJobHandler implements JobHandler<ReconcileOptions, ReconcileReport> {
+  readonly type = 'reconciliation' as const;
+  private service: TranscriptReconciliationService;
+  private onApplied?: () => void;
+
+  /**
+   * onApplied runs after a reconciliation that changed the stores (not a dry run)
+   */
+  constructor(service: TranscriptReconciliationService, onApplied?: () => void) {
+    this.service = service;
+    this.onApplied = onApplied;
+  }
+
+  async plan(options: ReconcileOptions): Promise<JobPlan<ReconcileOptions>> {
+    const conflictStrategy = options.conflictStrategy ?? 'report';
+    if (!CONFLICT_STRATEGIES.includes(conflictStrategy)) {
+      throw new JobRequestError(`conflictStrategy must be one of: ${CONFLICT_STRATEGIES.join(', ')}`);
+    }
+
+    return { params: { dryRun: Boolean(options.dryRun), conflictStrategy }, items: ['cache-database'] };
+  }
+
+  async processItem(job: Job<ReconcileOptions, ReconcileReport>): Promise<JobItemOutcome<ReconcileReport>> {
+    const report = await this.service.run(job.params);
+    if (!report.dryRun) {
+      this.onApplied?.();
+    }
+
+    return report.counts.failed > 0
+      ? { status: 'failed', results: [report], reason: `${report.counts.failed} reconciliation actions failed` }
+      : { status: 'processed', results: [report] };
+  }
+}
@@ -0,0 +1,731 @@
+import { Prisma, Transcript } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+import { TranscriptSplitSegment } from '@/types';
+import { RevisionSource, transcriptRevisionService } from './transcriptRevisionService';
+import { PersistentTranscriptCache, TranscriptMetadata } from './transcriptStore';
+
+/**
+ * Single access layer for transcripts, whichever store they live in.
+ *
+ * Transcripts can be in the memory cache (keyed like `aapl-2024-Q3`), in the
+ * `transcripts` table (keyed by UUID) or both. Every lookup here accepts either
+ * form of id and merges the two sources, so a transcript is never "not found"
+ * just because it was written to the other store.
+ *
+ * Listing and filtering work on cache metadata; full cached texts are only
+ * read when a transcript is actually returned.
+ */
+
+export type TranscriptSource = 'database' | 'cache' | 'both';
+
+export interface StoredTranscript {
+  id: string; // Database UUID when persisted, otherwise the cache key
+  cacheKey: string;
+  databaseId?: string;
+  ticker: string;
+  companyName: string | null;
+  year: number;
+  quarter: number;
+  callDate: Date | string | null;
+  fullTranscript: string;
+  transcriptJson: any;
+  transcriptSplit: TranscriptSplitSegment[] | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  source: TranscriptSource;
+}
+
+export interface TranscriptSummary {
+  id: string;
+  ticker: string;
+  companyName: string | null;
+  year: number;
+  quarter: number;
+  callDate: Date | string | null;
+  transcriptLength: number;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  source: TranscriptSource;
+}
+
+export interface CachedTranscriptFilter {
+  tickers?: string[];
+  years?: number[];
+  quarters?: number[];
+  periodBasis?: PeriodBasis; // Whether years/quarters are fiscal (as stored) or calendar periods
+}
+
+export type PeriodBasis = 'fiscal' | 'calendar';
+
+/**
+ * Calendar year/quarter of a stored fiscal year/quarter
+ */
+export type CalendarPeriodResolver = (
+  ticker: string,
+  year: number,
+  quarter: number,
+  callDate: Date | string | null
+) => { year: number; quarter: number };
+
+export interface SaveTranscriptInput {
+  ticker: string;
+  year: number;
+  quarter: number;
+  fullTranscript: string;
+  callDate?: Date | string | null;
+  companyName?: string | null;
+  transcriptJson?: any;
+  transcriptSplit?: TranscriptSplitSegment[] | null;
+  source?: RevisionSource; // Recorded on the revision if the text changed
+}
+
+export interface SaveTranscriptResult {
+  id: string;
+  cacheKey: string;
+  storage: 'database' | 'memory';
+  transcript: StoredTranscript;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CACHE_KEY_PATTERN = /^(.+)-(\d{4})-Q([1-4])$/i;
+const SPLIT_LOOKUP_BATCH = 1000; // Quarters per IN list when checking cache entries against the table
+// Whether a row has speaker segments; jsonb_array_length raises on anything but an array
+const HAS_SPLIT_SQL = Prisma.sql`CASE WHEN jsonb_typeof(transcript_split) = 'array' THEN jsonb_array_length(transcript_split) > 0 ELSE false END`;
+
+export class TranscriptRepository {
+  private cache: PersistentTranscriptCache;
+  private calendarPeriod: CalendarPeriodResolver = (_ticker, year, quarter) => ({ year, quarter });
+
+  constructor(cache: PersistentTranscriptCache) {
+    this.cache = cache;
+  }
+
+  /**
+   * Map fiscal quarters to calendar quarters (set once fiscal calendars are loaded).
+   * Until then fiscal and calendar periods are taken to be the same.
+   */
+  setCalendarPeriodResolver(resolver: CalendarPeriodResolver): void {
+    this.calendarPeriod = resolver;
+  }
+
+  /**
+   * Calendar year/quarter of a stored fiscal year/quarter
+   */
+  getCalendarPeriod(ticker: string, year: number, quarter: number, callDate: Date | string | null = null): { year: number; quarter: number } {
+    return this.calendarPeriod(ticker.toUpperCase(), year, quarter, callDate);
+  }
+
+  /**
+   * Canonical cache key for a ticker/year/quarter
+   */
+  static cacheKey(ticker: string, year: number, quarter: number): string {
+    return `${ticker.toLowerCase()}-${year}-Q${quarter}`;
+  }
+
+  /**
+   * Parse a cache key like `aapl-2024-Q3` (or `BRK-B-2024-Q3`)
+   */
+  static parseCacheKey(id: string): { ticker: string; year: number; quarter: number } | null {
+    const match = CACHE_KEY_PATTERN.exec(id);
+    if (!match) return null;
+    return { ticker: match[1].toUpperCase(), year: parseInt(match[2], 10), quarter: parseInt(match[3], 10) };
+  }
+
+  static isUuid(id: string): boolean {
+    return UUID_PATTERN.test(id);
+  }
+
+  /**
+   * Resolve a transcript by database UUID or cache key
+   */
+  async findById(id: string): Promise<StoredTranscript | null> {
+    if (TranscriptRepository.isUuid(id)) {
+      const row = await this.queryDatabase(() => prisma.transcript.findUnique({ where: { id } }));
+      if (row) {
+        return this.fromDatabase(row, this.getCachedMetadata(row.ticker, row.year, row.quarter));
+      }
+
+      const cached = this.findCachedByDatabaseId(id);
+      return cached ? this.fromCache(cached) : null;
+    }
+
+    const parsed = TranscriptRepository.parseCacheKey(id);
+    if (parsed) {
+      const row = await this.findDatabaseRow(parsed.ticker, parsed.year, parsed.quarter);
+      if (row) {
+        return this.fromDatabase(row, this.cache.metadata(id) ?? this.getCachedMetadata(parsed.ticker, parsed.year, parsed.quarter));
+      }
+    }
+
+    const cached = this.cache.get(id) ?? (parsed ? this.getCached(parsed.ticker, parsed.year, parsed.quarter) : undefined);
+    return cached ? this.fromCache(cached) : null;
+  }
+
+  /**
+   * Resolve a transcript by ticker/year/quarter
+   */
+  async findByTickerQuarter(ticker: string, year: number, quarter: number): Promise<StoredTranscript | null> {
+    const row = await this.findDatabaseRow(ticker, year, quarter);
+    if (row) return this.fromDatabase(row, this.getCachedMetadata(ticker, year, quarter));
+    const cached = this.getCached(ticker, year, quarter);
+    return cached ? this.fromCache(cached) : null;
+  }
+
+  /**
+   * Check whether a ticker/year/quarter exists in either store, without loading text from the database
+   */
+  async exists(ticker: string, year: number, quarter: number): Promise<boolean> {
+    if (this.getCachedMetadata(ticker, year, quarter)) return true;
+    const count = await this.queryDatabase(() => prisma.transcript.count({
+      where: { ticker: ticker.toUpperCase(), year, quarter },
+    }));
+    return (count ?? 0) > 0;
+  }
+
+  /**
+   * Cached transcript for a ticker/year/quarter (tolerates legacy key casing)
+   */
+  getCached(ticker: string, year: number, quarter: number): any | undefined {
+    return this.cache.get(TranscriptRepository.cacheKey(ticker, year, quarter))
+      ?? this.cache.get(`${ticker.toUpperCase()}-${year}-Q${quarter}`);
+  }
+
+  /**
+   * Cache metadata for a ticker/year/quarter, without loading the text
+   */
+  getCachedMetadata(ticker: string, year: number, quarter: number): TranscriptMetadata | undefined {
+    return this.cache.metadata(TranscriptRepository.cacheKey(ticker, year, quarter))
+      ?? this.cache.metadata(`${ticker.toUpperCase()}-${year}-Q${quarter}`);
+  }
+
+  /**
+   * Stream cached transcripts as [cacheKey, transcript] pairs (used by full-text search).
+   * Ticker/year/quarter filters are checked against metadata before any text is read;
+   * with a calendar period basis, years/quarters are compared with each transcript's calendar period.
+   */
+  cachedEntries(filter: CachedTranscriptFilter = {}): Generator<[string, any]> {
+    const tickers = filter.tickers?.length ? new Set(filter.tickers.map(t => t.toUpperCase())) : null;
+    const years = filter.years?.length ? new Set(filter.years) : null;
+    const quarters = filter.quarters?.length ? new Set(filter.quarters) : null;
+
+    if (!tickers && !years && !quarters) return this.cache.entries();
+
+    return this.cache.entries(meta => {
+      if (tickers && !(meta.ticker && tickers.has(meta.ticker.toUpperCase()))) return false;
+      if (!years && !quarters) return true;
+      if (!meta.ticker || meta.year === undefined || meta.quarter === undefined) return false;
+
+      const period = filter.periodBasis === 'calendar'
+        ? this.getCalendarPeriod(meta.ticker, meta.year, meta.quarter, meta.callDate ?? null)
+        : { year: meta.year, quarter: meta.quarter };
+      return (!years || years.has(period.year)) && (!quarters || quarters.has(period.quarter));
+    });
+  }
+
+  /**
+   * Metadata for every cached transcript
+   */
+  cachedMetadata(): TranscriptMetadata[] {
+    return this.cache.metadataEntries();
+  }
+
+  /**
+   * Cache metadata for all transcripts of a ticker
+   */
+  findCachedByTicker(ticker: string): TranscriptMetadata[] {
+    const tickerUpper = ticker.toUpperCase();
+    return this.cache.metadataEntries().filter(meta => meta.ticker?.toUpperCase() === tickerUpper);
+  }
+
+  /**
+   * Full cached record for a cache key (read from disk if not in memory)
+   */
+  getCachedRecord(cacheKey: string): any | undefined {
+    return this.cache.get(cacheKey);
+  }
+
+  /**
+   * List transcripts for a ticker from both stores, de-duplicated by year/quarter
+   */
+  async findByTicker(
+    ticker: string,
+    options: { limit: number; offset: number; sortBy?: string; sortOrder?: 'asc' | 'desc' }
+  ): Promise<{ transcripts: TranscriptSummary[]; total: number; source: TranscriptSource | 'none' }> {
+    const tickerUpper = ticker.toUpperCase();
+    const sortOrder = options.sortOrder === 'asc' ? 'asc' : 'desc';
+
+    const rows = await this.queryDatabase(() => prisma.transcript.findMany({
+      where: { ticker: { equals: tickerUpper, mode: 'insensitive' } },
+    })) ?? [];
+
+    const byQuarter = new Map<string, TranscriptSummary>();
+    for (const row of rows) {
+      const cached = this.getCachedMetadata(row.ticker, row.year, row.quarter);
+      byQuarter.set(`${row.year}-${row.quarter}`, this.toSummary(this.fromDatabase(row, cached)));
+    }
+    for (const meta of this.findCachedByTicker(tickerUpper)) {
+      const key = `${meta.year}-${meta.quarter}`;
+      if (!byQuarter.has(key) && meta.year !== undefined && meta.quarter !== undefined) {
+        byQuarter.set(key, this.metadataSummary(meta));
+      }
+    }
+
+    const transcripts = [...byQuarter.values()].sort((a, b) => {
+      let diff: number;
+      switch (options.sortBy) {
+        case 'year':
+        case 'quarter':
+          diff = a.year !== b.year ? a.year - b.year : a.quarter - b.quarter;
+          break;
+        case 'createdAt':
+          diff = new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime();
+          break;
+        default:
+          diff = new Date(a.callDate || 0).getTime() - new Date(b.callDate || 0).getTime();
+      }
+      return sortOrder === 'desc' ? -diff : diff;
+    });
+
+    const sources = new Set(transcripts.map(t => t.source));
+    const source: TranscriptSource | 'none' = transcripts.length === 0
+      ? 'none'
+      : sources.size === 1 ? [...sources][0] : 'both';
+
+    return {
+      transcripts: transcripts.slice(options.offset, options.offset + options.limit),
+      total: transcripts.length,
+      source,
+    };
+  }
+
+  /**
+   * Quarters stored (cache or database) for a set of tickers, as `TICKER-year-quarter` keys
+   */
+  async findStoredQuarters(tickers: string[]): Promise<Set<string>> {
+    const tickersUpper = new Set(tickers.map(t => t.toUpperCase()));
+    const rows = await this.queryDatabase(() => prisma.transcript.findMany({
+      where: { ticker: { in: Array.from(tickersUpper) } },
+      select: { ticker: true, year: true, quarter: true },
+    })) ?? [];
+
+    const stored = new Set(rows.map(row => `${row.ticker}-${row.year}-${row.quarter}`));
+    for (const meta of this.cache.metadataEntries()) {
+      const ticker = meta.ticker?.toUpperCase();
+      if (ticker && tickersUpper.has(ticker)) {
+        stored.add(`${ticker}-${meta.year}-${meta.quarter}`);
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * Reported quarter and call date of every stored transcript that has one (optionally for some tickers)
+   */
+  async findCallDates(tickers?: string[]): Promise<Array<{ ticker: string; year: number; quarter: number; callDate: Date }>> {
+    const tickersUpper = tickers?.length ? new Set(tickers.map(t => t.toUpperCase())) : null;
+    const rows = await this.queryDatabase(() => prisma.transcript.findMany({
+      where: { callDate: { not: null }, ...(tickersUpper ? { ticker: { in: Array.from(tickersUpper) } } : {}) },
+      select: { ticker: true, year: true, quarter: true, callDate: true },
+    })) ?? [];
+
+    const calls = new Map<string, { ticker: string; year: number; quarter: number; callDate: Date }>();
+    for (const row of rows) {
+      calls.set(`${row.ticker}-${row.year}-${row.quarter}`, { ticker: row.ticker, year: row.year, quarter: row.quarter, callDate: row.callDate! });
+    }
+
+    for (const meta of this.cache.metadataEntries()) {
+      const ticker = meta.ticker?.toUpperCase();
+      if (!ticker || meta.year === undefined || meta.quarter === undefined || !meta.callDate) continue;
+      if (tickersUpper && !tickersUpper.has(ticker)) continue;
+
+      const key = `${ticker}-${meta.year}-${meta.quarter}`;
+      const callDate = new Date(meta.callDate);
+      if (!calls.has(key) && !Number.isNaN(callDate.getTime())) {
+        calls.set(key, { ticker, year: meta.year, quarter: meta.quarter, callDate });
+      }
+    }
+
+    return Array.from(calls.values());
+  }
+
+  /**
+   * Quarters stored without speaker segments in either store (optionally for some tickers).
+   * The table is checked in SQL, so no segment JSON is loaded. Cache entries indexed before segments were tracked are included; callers re-check them.
+   */
+  async findMissingSplit(tickers?: string[]): Promise<Array<{ ticker: string; year: number; quarter: number }>> {
+    type QuarterKey = { ticker: string; year: number; quarter: number };
+    const tickersUpper = tickers?.length ? new Set(tickers.map(t => t.toUpperCase())) : null;
+    const tickerFilter = tickersUpper ? Prisma.sql`AND ticker IN (${Prisma.join(Array.from(tickersUpper))})` : Prisma.empty;
+    const rows = await this.queryDatabase(() => prisma.$queryRaw<QuarterKey[]>`
+      SELECT ticker, year, quarter FROM transcripts WHERE NOT (${HAS_SPLIT_SQL}) ${tickerFilter}
+    `) ?? [];
+
+    const missing = new Map<string, QuarterKey>();
+    for (const row of rows) {
+      missing.set(`${row.ticker}-${row.year}-${row.quarter}`, { ticker: row.ticker, year: row.year, quarter: row.quarter });
+    }
+
+    const candidates = new Map<string, QuarterKey>();
+    for (const meta of this.cache.metadataEntries()) {
+      const ticker = meta.ticker?.toUpperCase();
+      if (!ticker || meta.year === undefined || meta.quarter === undefined) continue;
+      if (tickersUpper && !tickersUpper.has(ticker)) continue;
+
+      const key = `${ticker}-${meta.year}-${meta.quarter}`;
+      if (!meta.hasSplit && !missing.has(key)) {
+        candidates.set(key, { ticker, year: meta.year, quarter: meta.quarter });
+      }
+    }
+
+    // Cache copies without segments don't count when the table row has them
+    const entries = Array.from(candidates.values());
+    for (let i = 0; i < entries.length; i += SPLIT_LOOKUP_BATCH) {
+      const batch = entries.slice(i, i + SPLIT_LOOKUP_BATCH);
+      const withSplit = await this.queryDatabase(() => prisma.$queryRaw<QuarterKey[]>`
+        SELECT ticker, year, quarter FROM transcripts
+        WHERE (ticker, year, quarter) IN (${Prisma.join(batch.map(entry => Prisma.sql`(${entry.ticker}, ${entry.year}, ${entry.quarter})`))})
+          AND ${HAS_SPLIT_SQL}
+      `) ?? [];
+      for (const row of withSplit) candidates.delete(`${row.ticker}-${row.year}-${row.quarter}`);
+    }
+    for (const [key, entry] of candidates) missing.set(key, entry);
+
+    return Array.from(missing.values())
+      .sort((a, b) => a.ticker.localeCompare(b.ticker) || b.year - a.year || b.quarter - a.quarter);
+  }
+
+  /**
+   * Attach speaker segments to a stored transcript in every store that holds it.
+   * The text itself is left alone, so no revision is recorded.
+   */
+  async saveSplit(transcript: StoredTranscript, segments: TranscriptSplitSegment[]): Promise<'database' | 'memory'> {
+    let storage: 'database' | 'memory' = 'memory';
+    if (transcript.databaseId) {
+      try {
+        await prisma.transcript.update({
+          where: { id: transcript.databaseId },
+          data: { transcriptSplit: segments as unknown as Prisma.InputJsonValue },
+        });
+        storage = 'database';
+      } catch (error) {
+        logger.error('Failed to save speaker segments to database, keeping cache copy', {
+          transcriptId: transcript.databaseId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const cached = this.getCached(transcript.ticker, transcript.year, transcript.quarter);
+    if (cached) {
+      this.cache.set(TranscriptRepository.cacheKey(transcript.ticker, transcript.year, transcript.quarter), {
+        ...cached,
+        transcriptSplit: segments,
+      });
+    } else if (storage === 'memory') {
+      this.writeCache({ ...transcript, transcriptSplit: segments });
+    }
+    return storage;
+  }
+
+  /**
+   * Database ids for tickers, pulling cache-only transcripts into the database first
+   */
+  async findDatabaseIdsByTickers(tickers: string[]): Promise<string[]> {
+    const tickersUpper = tickers.map(t => t.toUpperCase());
+    const rows = await this.queryDatabase(() => prisma.transcript.findMany({
+      where: { ticker: { in: tickersUpper } },
+      select: { id: true, ticker: true, year: true, quarter: true },
+    })) ?? [];
+
+    const ids = rows.map(row => row.id);
+    const persisted = new Set(rows.map(row => `${row.ticker}-${row.year}-${row.quarter}`));
+
+    for (const ticker of tickersUpper) {
+      for (const meta of this.findCachedByTicker(ticker)) {
+        if (persisted.has(`${ticker}-${meta.year}-${meta.quarter}`)) continue;
+        const cached = this.cache.get(meta.key);
+        if (!cached) continue;
+        const databaseId = await this.ensureInDatabase(this.fromCache(cached));
+        if (databaseId) ids.push(databaseId);
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * Write a transcript to the cache and upsert it into the database.
+   * A database failure is logged and the transcript stays available from the cache.
+   */
+  async save(input: SaveTranscriptInput): Promise<SaveTranscriptResult> {
+    const tickerUpper = input.ticker.toUpperCase();
+    const cacheKey = TranscriptRepository.cacheKey(tickerUpper, input.year, input.quarter);
+    const callDate = this.parseCallDate(input.callDate);
+    const calendarPeriod = this.getCalendarPeriod(tickerUpper, input.year, input.quarter, callDate);
+
+    const record: any = {
+      id: cacheKey,
+      ticker: tickerUpper,
+      companyName: input.companyName ?? null,
+      year: input.year,
+      quarter: input.quarter,
+      callDate,
+      fullTranscript: input.fullTranscript,
+      transcriptJson: input.transcriptJson ?? {},
+      transcriptSplit: input.transcriptSplit ?? null,
+    };
+
+    try {
+      const where = { ticker_year_quarter: { ticker: tickerUpper, year: input.year, quarter: input.quarter } };
+      // The text and its revision history are written together so a replaced text is never lost
+      const saved = await prisma.$transaction(async tx => {
+        const previous = await tx.transcript.findUnique({
+          where,
+          select: { fullTranscript: true, updatedAt: true },
+        });
+
+        const row = await tx.transcript.upsert({
+          where,
+          update: {
+            fullTranscript: input.fullTranscript,
+            callDate,
+            calendarYear: calendarPeriod.year,
+            calendarQuarter: calendarPeriod.quarter,
+            ...(input.companyName ? { companyName: input.companyName } : {}),
+            // Replaces the old payload, so an overwriting upload records source: "manual"
+            ...(input.transcriptJson ? { transcriptJson: input.transcriptJson as Prisma.InputJsonValue } : {}),
+            ...(input.transcriptSplit ? { transcriptSplit: input.transcriptSplit as unknown as Prisma.InputJsonValue } : {}),
+            updatedAt: new Date(),
+          },
+          create: {
+            ticker: tickerUpper,
+            companyName: input.companyName ?? null,
+            year: input.year,
+            quarter: input.quarter,
+            fullTranscript: input.fullTranscript,
+            callDate,
+            calendarYear: calendarPeriod.year,
+            calendarQuarter: calendarPeriod.quarter,
+            transcriptJson: (input.transcriptJson ?? {}) as Prisma.InputJsonValue,
+            transcriptSplit: input.transcriptSplit ? input.transcriptSplit as unknown as Prisma.InputJsonValue : undefined,
+          },
+        });
+
+        await transcriptRevisionService.recordFetch(row.id, input.fullTranscript, input.source ?? 'api_ninjas', previous, tx);
+        return row;
+      });
+
+      record.databaseId = saved.id;
+      this.cache.set(cacheKey, record);
+
+      return { id: saved.id, cacheKey, storage: 'database', transcript: this.fromDatabase(saved, record) };
+    } catch (error) {
+      logger.error('Failed to save transcript to database, keeping cache copy', {
+        ticker: tickerUpper,
+        year: input.year,
+        quarter: input.quarter,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      this.cache.set(cacheKey, record);
+      return { id: cacheKey, cacheKey, storage: 'memory', transcript: this.fromCache(record) };
+    }
+  }
+
+  /**
+   * Make sure a transcript has a database row (AI summaries reference it by UUID).
+   * Returns the database id, or null when the database is unavailable.
+   */
+  async ensureInDatabase(transcript: StoredTranscript): Promise<string | null> {
+    if (transcript.databaseId) return transcript.databaseId;
+
+    try {
+      const callDate = this.parseCallDate(transcript.callDate);
+      const calendarPeriod = this.getCalendarPeriod(transcript.ticker, transcript.year, transcript.quarter, callDate);
+      const saved = await prisma.transcript.upsert({
+        where: { ticker_year_quarter: { ticker: transcript.ticker, year: transcript.year, quarter: transcript.quarter } },
+        update: {},
+        create: {
+          ticker: transcript.ticker,
+          companyName: transcript.companyName,
+          year: transcript.year,
+          quarter: transcript.quarter,
+          callDate,
+          calendarYear: calendarPeriod.year,
+          calendarQuarter: calendarPeriod.quarter,
+          fullTranscript: transcript.fullTranscript,
+          transcriptJson: (transcript.transcriptJson ?? {}) as Prisma.InputJsonValue,
+          transcriptSplit: transcript.transcriptSplit ? transcript.transcriptSplit as unknown as Prisma.InputJsonValue : undefined,
+        },
+      });
+
+      const meta = this.getCachedMetadata(transcript.ticker, transcript.year, transcript.quarter);
+      if (meta && meta.databaseId !== saved.id) {
+        const cached = this.cache.get(meta.key);
+        this.cache.set(TranscriptRepository.cacheKey(transcript.ticker, transcript.year, transcript.quarter), {
+          ...cached,
+          databaseId: saved.id,
+        });
+      }
+
+      logger.info('Transcript copied from cache to database', {
+        ticker: transcript.ticker,
+        year: transcript.year,
+        quarter: transcript.quarter,
+        transcriptId: saved.id,
+      });
+
+      return saved.id;
+    } catch (error) {
+      logger.error('Failed to copy transcript to database', {
+        ticker: transcript.ticker,
+        year: transcript.year,
+        quarter: transcript.quarter,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Write a transcript to the cache only (e.g. a database row missing from the cache)
+   */
+  writeCache(transcript: StoredTranscript): string {
+    const cacheKey = TranscriptRepository.cacheKey(transcript.ticker, transcript.year, transcript.quarter);
+    this.cache.set(cacheKey, {
+      id: cacheKey,
+      databaseId: transcript.databaseId,
+      ticker: transcript.ticker,
+      companyName: transcript.companyName,
+      year: transcript.year,
+      quarter: transcript.quarter,
+      callDate: transcript.callDate,
+      fullTranscript: transcript.fullTranscript,
+      transcriptJson: transcript.transcriptJson ?? {},
+      transcriptSplit: transcript.transcriptSplit,
+    });
+    return cacheKey;
+  }
+
+  /**
+   * Remove a transcript from the cache only
+   */
+  deleteCached(cacheKey: string): boolean {
+    return this.cache.delete(cacheKey);
+  }
+
+  /**
+   * Summary view (metadata plus length) of a stored transcript
+   */
+  toSummary(transcript: StoredTranscript): TranscriptSummary {
+    return {
+      id: transcript.id,
+      ticker: transcript.ticker,
+      companyName: transcript.companyName,
+      year: transcript.year,
+      quarter: transcript.quarter,
+      callDate: transcript.callDate,
+      transcriptLength: transcript.fullTranscript?.length || 0,
+      createdAt: transcript.createdAt,
+      updatedAt: transcript.updatedAt,
+      source: transcript.source,
+    };
+  }
+
+  /**
+   * Summary view of a cache-only transcript, built from metadata alone
+   */
+  private metadataSummary(meta: TranscriptMetadata): TranscriptSummary {
+    const ticker = (meta.ticker ?? '').toUpperCase();
+    return {
+      id: meta.databaseId ?? TranscriptRepository.cacheKey(ticker, meta.year!, meta.quarter!),
+      ticker,
+      companyName: meta.companyName ?? null,
+      year: meta.year!,
+      quarter: meta.quarter!,
+      callDate: meta.callDate ?? null,
+      transcriptLength: meta.length,
+      createdAt: null,
+      updatedAt: null,
+      source: 'cache',
+    };
+  }
+
+  private async findDatabaseRow(ticker: string, year: number, quarter: number): Promise<Transcript | null> {
+    return this.queryDatabase(() => prisma.transcript.findUnique({
+      where: { ticker_year_quarter: { ticker: ticker.toUpperCase(), year, quarter } },
+    }));
+  }
+
+  private findCachedByDatabaseId(id: string): any | undefined {
+    const meta = this.cache.metadataEntries().find(entry => entry.databaseId === id || entry.key === id);
+    return meta ? this.cache.get(meta.key) : undefined;
+  }
+
+  /**
+   * Run a database query, treating an unreachable database as "not found"
+   */
+  private async queryDatabase<T>(query: () => Promise<T>): Promise<T | null> {
+    try {
+      return await query();
+    } catch (error) {
+      logger.warn('Database lookup failed, falling back to cache', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Build a StoredTranscript from a database row (and its cache copy or cache metadata, if any)
+   */
+  fromDatabase(row: Transcript, cached?: any): StoredTranscript {
+    return {
+      id: row.id,
+      cacheKey: TranscriptRepository.cacheKey(row.ticker, row.year, row.quarter),
+      databaseId: row.id,
+      ticker: row.ticker.toUpperCase(),
+      companyName: row.companyName ?? cached?.companyName ?? null,
+      year: row.year,
+      quarter: row.quarter,
+      callDate: row.callDate ?? cached?.callDate ?? null,
+      fullTranscript: row.fullTranscript,
+      transcriptJson: row.transcriptJson,
+      transcriptSplit: (row.transcriptSplit as unknown as TranscriptSplitSegment[] | null) ?? cached?.transcriptSplit ?? null,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      source: cached ? 'both' : 'database',
+    };
+  }
+
+  /**
+   * Build a StoredTranscript from a cache record
+   */
+  fromCache(cached: any): StoredTranscript {
+    const ticker = String(cached.ticker).toUpperCase();
+    const cacheKey = TranscriptRepository.cacheKey(ticker, cached.year, cached.quarter);
+    return {
+      id: cached.databaseId ?? cacheKey,
+      cacheKey,
+      databaseId: cached.databaseId,
+      ticker,
+      companyName: cached.companyName ?? null,
+      year: cached.year,
+      quarter: cached.quarter,
+      callDate: cached.callDate ?? null,
+      fullTranscript: cached.fullTranscript ?? '',
+      transcriptJson: cached.transcriptJson ?? {},
+      transcriptSplit: cached.transcriptSplit ?? null,
+      createdAt: null,
+      updatedAt: null,
+      source: 'cache',
+    };
+  }
+
+  private parseCallDate(value: Date | string | null | undefined): Date | null {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+}
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import { Prisma, TranscriptRevision } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+import { diffText, TextDiff } from '@/utils/textDiff';
+
+export type RevisionSource = 'api_ninjas' | 'api_ninjas_split' | 'reconciliation' | 'initial' | string;
+
+export interface RevisionInfo {
+  revision: number;
+  source: string;
+  length: number;
+  contentHash: string;
+  fetchedAt: Date;
+  lastFetchedAt: Date;
+  isCurrent: boolean;
+}
+
+export interface SummaryStaleness {
+  textChangedAfterSummaries: boolean;
+  latestChangeAt: Date | null;
+  latestRevision: number;
+  staleAISummaries: number;
+  staleQuerySummaries: number;
+}
+
+/**
+ * Keeps the history of texts fetched for each transcript.
+ *
+ * A new revision is only written when the fetched text differs from the latest
+ * one; identical re-fetches just bump lastFetchedAt. If a transcript predates
+ * revision tracking, its existing text is kept as revision 1 the first time
+ * it is touched.
+ */
+export class TranscriptRevisionService {
+  private hash(text: string): string {
+    return crypto.createHash('sha1').update(text).digest('hex');
+  }
+
+  /**
+   * Record a fetched text for a transcript.
+   * `previous` is the row as it was before the write, used as the baseline revision.
+   * Pass the transaction that writes the text so both commit or roll back together.
+   */
+  async recordFetch(
+    transcriptId: string,
+    fullTranscript: string,
+    source: RevisionSource,
+    previous?: { fullTranscript: string; updatedAt: Date } | null,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<{ revision: number; changed: boolean }> {
+    const contentHash = this.hash(fullTranscript);
+    let latest = await this.getLatest(transcriptId, client);
+
+    if (!latest && previous && previous.fullTranscript !== fullTranscript) {
+      latest = await this.create(transcriptId, 1, previous.fullTranscript, 'initial', previous.updatedAt, client);
+    }
+
+    if (latest && latest.contentHash === contentHash) {
+      await client.transcriptRevision.update({
+        where: { id: latest.id },
+        data: { lastFetchedAt: new Date() },
+      });
+      return { revision: latest.revision, changed: false };
+    }
+
+    const revision = (latest?.revision ?? 0) + 1;
+    await this.create(transcriptId, revision, fullTranscript, source, new Date(), client);
+
+    if (revision > 1) {
+      logger.info('Transcript text changed on re-fetch', {
+        transcriptId,
+        revision,
+        source,
+        previousLength: latest?.length,
+        newLength: fullTranscript.length,
+      });
+    }
+
+    return { revision, changed: revision > 1 };
+  }
+
+  /**
+   * Revision metadata (no text), newest first. Creates the baseline revision if none exists yet.
+   */
+  async listRevisions(transcriptId: string): Promise<RevisionInfo[]> {
+    await this.ensureBaseline(transcriptId);
+
+    const revisions = await prisma.transcriptRevision.findMany({
+      where: { transcriptId },
+      orderBy: { revision: 'desc' },
+      select: {
+        revision: true,
+        source: true,
+        length: true,
+        contentHash: true,
+        fetchedAt: true,
+        lastFetchedAt: true,
+      },
+    });
+
+    return revisions.map((revision, index) => ({ ...revision, isCurrent: index === 0 }));
+  }
+
+  async getRevision(transcriptId: string, revision: number): Promise<TranscriptRevision | null> {
+    await this.ensureBaseline(transcriptId);
+    return prisma.transcriptRevision.findUnique({
+      where: { transcriptId_revision: { transcriptId, revision } },
+    });
+  }
+
+  /**
+   * Diff two revisions; defaults to the previous revision against the latest
+   */
+  async diffRevisions(
+    transcriptId: string,
+    from?: number,
+    to?: number
+  ): Promise<{ from: number; to: number; diff: TextDiff } | null> {
+    const latest = await this.getLatest(transcriptId) ?? await this.ensureBaseline(transcriptId);
+    if (!latest) return null;
+
+    const toRevision = to ?? latest.revision;
+    const fromRevision = from ?? Math.max(1, toRevision - 1);
+
+    const [older, newer] = await Promise.all([
+      this.getRevision(transcriptId, fromRevision),
+      this.getRevision(transcriptId, toRevision),
+    ]);
+    if (!older || !newer) return null;
+
+    return {
+      from: fromRevision,
+      to: toRevision,
+      diff: diffText(older.fullTranscript, newer.fullTranscript),
+    };
+  }
+
+  /**
+   * Whether the text changed after AI/query summaries for this transcript were generated
+   */
+  async getSummaryStaleness(transcriptId: string): Promise<SummaryStaleness> {
+    const latest = await this.getLatest(transcriptId);
+    if (!latest || latest.revision === 1) {
+      return {
+        textChangedAfterSummaries: false,
+        latestChangeAt: null,
+        latestRevision: latest?.revision ?? 1,
+        staleAISummaries: 0,
+        staleQuerySummaries: 0,
+      };
+    }
+
+    const [staleAISummaries, staleQuerySummaries] = await Promise.all([
+      prisma.aISummary.count({ where: { transcriptId, updatedAt: { lt: latest.fetchedAt } } }),
+      prisma.querySummary.count({ where: { transcriptId, updatedAt: { lt: latest.fetchedAt } } }),
+    ]);
+
+    return {
+      textChangedAfterSummaries: staleAISummaries + staleQuerySummaries > 0,
+      latestChangeAt: latest.fetchedAt,
+      latestRevision: latest.revision,
+      staleAISummaries,
+      staleQuerySummaries,
+    };
+  }
+
+  private async getLatest(transcriptId: string, client: Prisma.TransactionClient = prisma): Promise<TranscriptRevision | null> {
+    return client.transcriptRevision.findFirst({
+      where: { transcriptId },
+      orderBy: { revision: 'desc' },
+    });
+  }
+
+  /**
+   * Snapshot the current text as revision 1 for transcripts stored before revisions were tracked
+   */
+  private async ensureBaseline(transcriptId: string): Promise<TranscriptRevision | null> {
+    const existing = await this.getLatest(transcriptId);
+    if (existing) return existing;
+
+    const transcript = await prisma.transcript.findUnique({
+      where: { id: transcriptId },
+      select: { fullTranscript: true, createdAt: true },
+    });
+    if (!transcript) return null;
+
+    return this.create(transcriptId, 1, transcript.fullTranscript, 'initial', transcript.createdAt);
+  }
+
+  private async create(
+    transcriptId: string,
+    revision: number,
+    fullTranscript: string,
+    source: RevisionSource,
+    fetchedAt: Date,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<TranscriptRevision> {
+    return client.transcriptRevision.create({
+      data: {
+        transcriptId,
+        revision,
+        fullTranscript,
+        contentHash: this.hash(fullTranscript),
+        length: fullTranscript.length,
+        source,
+        fetchedAt,
+        lastFetchedAt: fetchedAt,
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export const transcriptRevisionService = new TranscriptRevisionService();
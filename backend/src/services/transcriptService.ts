@@ -1,6 +1,8 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/config/database';
 import { logger } from '@/config/logger';
-import { apiNinjasService } from './apiNinjas';
+import { fetchTranscriptWithSpeakers, transcriptProviders } from './transcriptProvider';
+import { transcriptRevisionService } from './transcriptRevisionService';
 import { BulkFetchRequest, BulkFetchResponse, BulkFetchResult, Quarter } from '@/types';
 import { stringify } from 'csv-stringify/sync';
 
@@ -11,8 +13,10 @@ export class TranscriptService {
   async bulkFetchTranscripts(
     tickers: string[],
     quarters: Quarter[],
-    forceRefresh: boolean = false
+    forceRefresh: boolean = false,
+    providerName?: string
   ): Promise<BulkFetchResponse> {
+    const provider = transcriptProviders.get(providerName);
     const results: BulkFetchResult[] = [];
     const startTime = Date.now();
 
@@ -20,6 +24,7 @@ export class TranscriptService {
       tickerCount: tickers.length,
       quarterCount: quarters.length,
       forceRefresh,
+      provider: provider.name,
     });
 
     for (const ticker of tickers) {
@@ -29,7 +34,8 @@ export class TranscriptService {
             ticker,
             quarter.year,
             quarter.quarter,
-            forceRefresh
+            forceRefresh,
+            provider.name
           );
           results.push(result);
         } catch (error) {
@@ -80,9 +86,10 @@ export class TranscriptService {
     year: number,
     quarter: number,
     forceRefresh: boolean = false,
-    usePremiumSplit: boolean = true
+    providerName?: string
   ): Promise<BulkFetchResult> {
     const tickerUpper = ticker.toUpperCase();
+    const provider = transcriptProviders.get(providerName);
 
     // Check if transcript already exists
     if (!forceRefresh) {
@@ -113,46 +120,8 @@ export class TranscriptService {
       }
     }
 
-    // Try to fetch premium transcript_split first
-    let transcriptData: any = null;
-    let isPremiumSplit = false;
-
-    if (usePremiumSplit) {
-      try {
-        const splitData = await apiNinjasService.fetchTranscriptSplit(
-          tickerUpper,
-          year,
-          quarter
-        );
-        
-        if (splitData && splitData.transcript_split) {
-          transcriptData = splitData;
-          isPremiumSplit = true;
-          logger.info('Using premium transcript_split data', {
-            ticker: tickerUpper,
-            year,
-            quarter,
-            segmentCount: splitData.transcript_split.length,
-          });
-        }
-      } catch (error) {
-        logger.warn('Failed to fetch premium transcript_split, falling back to regular transcript', {
-          ticker: tickerUpper,
-          year,
-          quarter,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
-
-    // Fall back to regular transcript if premium split failed
-    if (!transcriptData) {
-      transcriptData = await apiNinjasService.fetchTranscript(
-        tickerUpper,
-        year,
-        quarter
-      );
-    }
+    // Speaker-split transcript first, flat text if the provider has no split
+    const transcriptData = await fetchTranscriptWithSpeakers(provider, tickerUpper, year, quarter);
 
     if (!transcriptData) {
       return {
@@ -179,45 +148,51 @@ export class TranscriptService {
       }
     }
 
-    // Handle different transcript formats
-    let fullTranscript: string;
-    let transcriptSplit: any = null;
-
-    if (isPremiumSplit && transcriptData.transcript_split) {
-      // Convert transcript_split to full text for storage
-      fullTranscript = transcriptData.transcript_split
-        .map((segment: any) => `${segment.speaker}${segment.role ? ` (${segment.role})` : ''}: ${segment.text}`)
-        .join('\n\n');
-      
-      transcriptSplit = transcriptData.transcript_split;
-    } else {
-      // Regular transcript format
-      fullTranscript = transcriptData.transcript || '';
-      transcriptSplit = null;
-    }
+    const { fullTranscript, transcriptSplit } = transcriptData;
+    const isPremiumSplit = transcriptSplit !== null;
 
-    // Save to database
-    const savedTranscript = await prisma.transcript.upsert({
-      where: {
-        ticker_year_quarter: {
+    // Save to database, keeping the text being replaced as a revision in the same transaction
+    const { savedTranscript, revision, changed } = await prisma.$transaction(async tx => {
+      const previous = await tx.transcript.findUnique({
+        where: { ticker_year_quarter: { ticker: tickerUpper, year, quarter } },
+        select: { fullTranscript: true, updatedAt: true },
+      });
+
+      const row = await tx.transcript.upsert({
+        where: {
+          ticker_year_quarter: {
+            ticker: tickerUpper,
+            year,
+            quarter,
+          },
+        },
+        update: {
+          fullTranscript,
+          callDate,
+          ...(transcriptSplit ? { transcriptSplit: transcriptSplit as unknown as Prisma.InputJsonValue } : {}),
+          ...(transcriptData.companyName ? { companyName: transcriptData.companyName } : {}),
+          updatedAt: new Date(),
+        },
+        create: {
           ticker: tickerUpper,
           year,
           quarter,
+          fullTranscript,
+          callDate,
+          companyName: transcriptData.companyName ?? null,
+          transcriptJson: transcriptData.transcriptJson as unknown as Prisma.InputJsonValue,
+          transcriptSplit: transcriptSplit ? transcriptSplit as unknown as Prisma.InputJsonValue : undefined,
         },
-      },
-      update: {
-        fullTranscript,
-        callDate,
-        updatedAt: new Date(),
-      },
-      create: {
-        ticker: tickerUpper,
-        year,
-        quarter,
+      });
+
+      const recorded = await transcriptRevisionService.recordFetch(
+        row.id,
         fullTranscript,
-        callDate,
-        transcriptJson: transcriptSplit ? transcriptSplit : {},
-      },
+        transcriptData.source,
+        previous,
+        tx
+      );
+      return { savedTranscript: row, ...recorded };
     });
 
     logger.info('Transcript saved successfully', {
@@ -227,6 +202,8 @@ export class TranscriptService {
       transcriptId: savedTranscript.id,
       isPremiumSplit,
       transcriptLength: fullTranscript.length,
+      revision,
+      textChanged: changed,
     });
 
     return {
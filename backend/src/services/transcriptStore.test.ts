@@ -0,0 +1,138 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PersistentTranscriptCache, TranscriptRecord, TranscriptStore } from './transcriptStore';
+
+function record(ticker: string, year: number, quarter: number, text = `${ticker} ${year} Q${quarter} call`): TranscriptRecord {
+  return { id: `${ticker}-${year}-Q${quarter}`, ticker, year, quarter, fullTranscript: text, transcriptSplit: null };
+}
+
+describe('TranscriptStore', () => {
+  let dir: string;
+  let store: TranscriptStore;
+
+  const open = (options: { maxSegmentBytes?: number; checkpointEvery?: number } = {}) => {
+    store = new TranscriptStore(dir, { maxSegmentBytes: 1024 * 1024, checkpointEvery: 1000, ...options });
+    store.open();
+    return store;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-store-'));
+  });
+
+  afterEach(() => {
+    store?.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads back the latest record per key and forgets deleted ones', () => {
+    open();
+    store.put('AAPL-2024-Q1', record('AAPL', 2024, 1, 'first'));
+    store.put('AAPL-2024-Q1', record('AAPL', 2024, 1, 'second'));
+    store.put('MSFT-2024-Q1', record('MSFT', 2024, 1));
+    expect(store.delete('MSFT-2024-Q1')).toBe(true);
+    expect(store.delete('MSFT-2024-Q1')).toBe(false);
+
+    expect(store.get('AAPL-2024-Q1')?.fullTranscript).toBe('second');
+    expect(store.get('MSFT-2024-Q1')).toBeUndefined();
+    expect(store.getEntry('AAPL-2024-Q1')).toMatchObject({ ticker: 'AAPL', year: 2024, quarter: 1, textLength: 6, hasSplit: false });
+  });
+
+  it('replays records appended after the last checkpoint on reopen', () => {
+    open();
+    store.put('AAPL-2024-Q1', record('AAPL', 2024, 1));
+    store.checkpoint();
+    store.put('AAPL-2024-Q2', record('AAPL', 2024, 2));
+    store.delete('AAPL-2024-Q1');
+    // Simulate a crash: no close(), so the index on disk predates the last two writes
+
+    const reopened = new TranscriptStore(dir, { checkpointEvery: 1000 });
+    reopened.open();
+    expect(reopened.keys()).toEqual(['AAPL-2024-Q2']);
+    expect(reopened.get('AAPL-2024-Q2')?.quarter).toBe(2);
+    reopened.close();
+  });
+
+  it('truncates a torn write at the end of the last segment', () => {
+    open();
+    store.put('AAPL-2024-Q1', record('AAPL', 2024, 1));
+    store.close();
+
+    const segment = path.join(dir, 'segment-000001.log');
+    const intact = fs.statSync(segment).size;
+    fs.appendFileSync(segment, '0123456789abcdef\t{"k":"AAPL-2024-Q2","op":"pu');
+    fs.rmSync(path.join(dir, 'index.json'));
+
+    open();
+    expect(store.keys()).toEqual(['AAPL-2024-Q1']);
+    expect(fs.statSync(segment).size).toBe(intact);
+  });
+
+  it('streams records segment by segment with scan()', () => {
+    open({ maxSegmentBytes: 300 });
+    for (let quarter = 1; quarter <= 4; quarter++) {
+      store.put(`AAPL-2024-Q${quarter}`, record('AAPL', 2024, quarter));
+      store.put(`MSFT-2024-Q${quarter}`, record('MSFT', 2024, quarter));
+    }
+    expect(store.getStats().segments).toBeGreaterThan(1);
+
+    const msft = [...store.scan((_key, entry) => entry.ticker === 'MSFT')].map(([key]) => key);
+    expect(msft.sort()).toEqual(['MSFT-2024-Q1', 'MSFT-2024-Q2', 'MSFT-2024-Q3', 'MSFT-2024-Q4']);
+  });
+
+  it('compacts into fresh segments holding only live records', () => {
+    open({ maxSegmentBytes: 300 });
+    for (let version = 0; version < 5; version++) {
+      store.put('AAPL-2024-Q1', record('AAPL', 2024, 1, `version ${version}`));
+    }
+    store.put('MSFT-2024-Q1', record('MSFT', 2024, 1));
+    store.put('NVDA-2024-Q1', record('NVDA', 2024, 1));
+    store.delete('NVDA-2024-Q1');
+    const oldSegments = fs.readdirSync(dir).filter(file => file.endsWith('.log'));
+
+    const { before, after } = store.compact();
+    expect(after).toBeLessThan(before);
+    expect(fs.readdirSync(dir).filter(file => oldSegments.includes(file))).toEqual([]);
+    expect(store.get('AAPL-2024-Q1')?.fullTranscript).toBe('version 4');
+    expect(store.keys().sort()).toEqual(['AAPL-2024-Q1', 'MSFT-2024-Q1']);
+
+    store.close();
+    open();
+    expect(store.readAll()).toEqual(new Map([
+      ['AAPL-2024-Q1', record('AAPL', 2024, 1, 'version 4')],
+      ['MSFT-2024-Q1', record('MSFT', 2024, 1)],
+    ]));
+  });
+});
+
+describe('PersistentTranscriptCache', () => {
+  let dir: string;
+  let store: TranscriptStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-cache-'));
+    store = new TranscriptStore(dir, { checkpointEvery: 1000 });
+    store.open();
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps recently used texts within the memory budget and reads the rest from disk', () => {
+    const cache = new PersistentTranscriptCache(store, { memoryBudgetBytes: 400 });
+    for (let quarter = 1; quarter <= 4; quarter++) {
+      cache.set(`AAPL-2024-Q${quarter}`, record('AAPL', 2024, quarter, 'x'.repeat(100)));
+    }
+
+    const stats = cache.getStats();
+    expect(stats.loadedBytes).toBeLessThanOrEqual(400);
+    expect(stats.loadedTexts).toBeLessThan(4);
+
+    expect(cache.get('AAPL-2024-Q1')?.quarter).toBe(1);
+    expect(cache.getStats().misses).toBe(1);
+    expect(cache.metadata('AAPL-2024-Q2')).toMatchObject({ ticker: 'AAPL', quarter: 2, length: 100 });
+  });
+});
@@ -0,0 +1,655 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from '@/config/logger';
+import { config } from '@/config/config';
+import { TranscriptSplitSegment } from '@/types';
+
+/**
+ * Append-only, segmented on-disk transcript store
+ *
+ * Every put/delete is appended as one line to the active segment file:
+ *   <sha1 prefix>\t{"k":"aapl-2024-Q3","op":"put","r":{...}}\n
+ * Segments roll over at `maxSegmentBytes`. An index (key -> segment/offset/length
+ * plus lightweight transcript metadata) is checkpointed atomically next to the segments, so
+ * startup only has to replay what was appended after the last checkpoint.
+ * A torn write at the tail of the active segment is detected by the checksum
+ * and truncated away on the next open.
+ */
+
+export interface StoreIndexEntry {
+  segment: number;
+  offset: number;
+  length: number;
+  ticker?: string;
+  year?: number;
+  quarter?: number;
+  companyName?: string;
+  callDate?: string;
+  textLength?: number;
+  hasSplit?: boolean; // Speaker segments stored (absent in indexes written before it was tracked)
+  databaseId?: string;
+}
+
+/**
+ * A transcript as the cache writes it to the store
+ */
+export interface TranscriptRecord {
+  id?: string; // Cache key
+  databaseId?: string;
+  ticker: string;
+  companyName?: string | null;
+  year: number;
+  quarter: number;
+  callDate?: Date | string | null; // A string once read back from disk
+  fullTranscript: string;
+  transcriptJson?: unknown;
+  transcriptSplit?: TranscriptSplitSegment[] | null;
+}
+
+interface StoreIndexFile {
+  version: number;
+  checkpoint: { segment: number; size: number };
+  entries: Record<string, StoreIndexEntry>;
+}
+
+interface StoreLine {
+  k: string;
+  op: 'put' | 'delete';
+  r?: TranscriptRecord;
+}
+
+const INDEX_VERSION = 2; // v2 added transcript metadata to entries; older indexes are rebuilt
+const INDEX_FILE = 'index.json';
+const SEGMENT_PATTERN = /^segment-(\d{6})\.log$/;
+
+export class TranscriptStore {
+  private dir: string;
+  private maxSegmentBytes: number;
+  private checkpointEvery: number;
+  private index = new Map<string, StoreIndexEntry>();
+  private activeSegment = 1;
+  private activeSize = 0;
+  private fd: number | null = null;
+  private writesSinceCheckpoint = 0;
+
+  constructor(
+    dir: string,
+    options: { maxSegmentBytes?: number; checkpointEvery?: number } = {}
+  ) {
+    this.dir = dir;
+    this.maxSegmentBytes = options.maxSegmentBytes ?? config.transcriptStore.maxSegmentBytes;
+    this.checkpointEvery = options.checkpointEvery ?? config.transcriptStore.checkpointEvery;
+
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+  }
+
+  /**
+   * Load the index, replay anything appended after the last checkpoint and
+   * repair a torn tail left behind by a crash
+   */
+  open(): void {
+    const startTime = Date.now();
+    const segments = this.listSegments();
+    const indexFile = this.readIndexFile();
+
+    let replayFrom = { segment: segments[0] ?? 1, size: 0 };
+    if (indexFile && segments.includes(indexFile.checkpoint.segment)) {
+      for (const [key, entry] of Object.entries(indexFile.entries)) {
+        this.index.set(key, entry);
+      }
+      replayFrom = indexFile.checkpoint;
+    } else if (indexFile) {
+      logger.warn('Transcript store index references a missing segment, rebuilding from segments', {
+        dir: this.dir,
+        checkpoint: indexFile.checkpoint,
+      });
+    }
+
+    let replayed = 0;
+    for (const segment of segments) {
+      if (segment < replayFrom.segment) continue;
+      const startOffset = segment === replayFrom.segment ? replayFrom.size : 0;
+      const isLast = segment === segments[segments.length - 1];
+      replayed += this.replaySegment(segment, startOffset, isLast);
+    }
+
+    this.activeSegment = segments.length > 0 ? segments[segments.length - 1] : 1;
+    this.activeSize = this.segmentSize(this.activeSegment);
+
+    if (replayed > 0) {
+      this.checkpoint();
+    }
+
+    logger.info('Transcript store opened', {
+      dir: this.dir,
+      entries: this.index.size,
+      segments: segments.length,
+      replayedRecords: replayed,
+      loadTime: `${Date.now() - startTime}ms`,
+    });
+  }
+
+  /**
+   * Append a record; only this record is written to disk
+   */
+  put(key: string, record: TranscriptRecord): void {
+    const position = this.append({ k: key, op: 'put', r: record });
+    this.index.set(key, this.indexEntry(position, record));
+    this.afterWrite();
+  }
+
+  /**
+   * Append a tombstone for a key
+   */
+  delete(key: string): boolean {
+    if (!this.index.has(key)) return false;
+    this.append({ k: key, op: 'delete' });
+    this.index.delete(key);
+    this.afterWrite();
+    return true;
+  }
+
+  /**
+   * Read a single record from disk by its index entry
+   */
+  get(key: string): TranscriptRecord | undefined {
+    const entry = this.index.get(key);
+    if (!entry) return undefined;
+
+    const buffer = Buffer.alloc(entry.length);
+    const fd = fs.openSync(this.segmentPath(entry.segment), 'r');
+    try {
+      fs.readSync(fd, buffer, 0, entry.length, entry.offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const line = this.parseLine(buffer.toString('utf8'));
+    return line?.r;
+  }
+
+  has(key: string): boolean {
+    return this.index.has(key);
+  }
+
+  /**
+   * Index entry (position and metadata) without touching the segment files
+   */
+  getEntry(key: string): StoreIndexEntry | undefined {
+    return this.index.get(key);
+  }
+
+  keys(): string[] {
+    return [...this.index.keys()];
+  }
+
+  entries(): Array<[string, StoreIndexEntry]> {
+    return [...this.index.entries()];
+  }
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Stream live records (optionally only those whose index entry matches),
+   * reading one segment at a time so memory stays bounded by the segment size
+   */
+  *scan(filter?: (key: string, entry: StoreIndexEntry) => boolean): Generator<[string, TranscriptRecord]> {
+    const bySegment = new Map<number, Array<[string, StoreIndexEntry]>>();
+
+    for (const [key, entry] of this.index.entries()) {
+      if (filter && !filter(key, entry)) continue;
+      const list = bySegment.get(entry.segment) || [];
+      list.push([key, entry]);
+      bySegment.set(entry.segment, list);
+    }
+
+    for (const [segment, list] of [...bySegment.entries()].sort((a, b) => a[0] - b[0])) {
+      const buffer = fs.readFileSync(this.segmentPath(segment));
+      for (const [key, entry] of list) {
+        const line = this.parseLine(buffer.subarray(entry.offset, entry.offset + entry.length).toString('utf8'));
+        if (line?.op === 'put' && line.r) {
+          yield [key, line.r];
+        } else {
+          logger.warn('Transcript store record failed checksum, skipping', { key, segment, offset: entry.offset });
+        }
+      }
+    }
+  }
+
+  /**
+   * Read every live record into memory (small stores and tests only; prefer scan())
+   */
+  readAll(): Map<string, TranscriptRecord> {
+    return new Map(this.scan());
+  }
+
+  /**
+   * Atomically persist the index together with the current end of the log
+   */
+  checkpoint(): void {
+    const data: StoreIndexFile = {
+      version: INDEX_VERSION,
+      checkpoint: { segment: this.activeSegment, size: this.activeSize },
+      entries: Object.fromEntries(this.index.entries()),
+    };
+
+    this.writeFileAtomic(path.join(this.dir, INDEX_FILE), JSON.stringify(data));
+    this.writesSinceCheckpoint = 0;
+  }
+
+  /**
+   * Rewrite live records into fresh segments and drop the old ones. Records
+   * are streamed one old segment at a time, so memory stays bounded by the
+   * segment size. Old segments are only removed after the new index is on
+   * disk, so a crash mid-compaction at worst leaves duplicate (identical)
+   * records behind.
+   */
+  compact(): { before: number; after: number } {
+    const oldSegments = this.listSegments();
+    const before = oldSegments.reduce((sum, segment) => sum + this.segmentSize(segment), 0);
+
+    this.closeActive();
+    this.activeSegment = (oldSegments[oldSegments.length - 1] ?? 0) + 1;
+    this.activeSize = 0;
+
+    // The live index keeps pointing at the old segments until every record has been copied
+    const compacted = new Map<string, StoreIndexEntry>();
+    for (const [key, record] of this.scan()) {
+      const position = this.append({ k: key, op: 'put', r: record });
+      compacted.set(key, this.indexEntry(position, record));
+    }
+    this.index = compacted;
+    this.checkpoint();
+
+    for (const segment of oldSegments) {
+      fs.rmSync(this.segmentPath(segment), { force: true });
+    }
+
+    const after = this.listSegments().reduce((sum, segment) => sum + this.segmentSize(segment), 0);
+    logger.info('Transcript store compacted', { entries: this.index.size, before, after });
+    return { before, after };
+  }
+
+  /**
+   * Checkpoint and release the active segment handle
+   */
+  close(): void {
+    this.checkpoint();
+    this.closeActive();
+  }
+
+  /**
+   * Storage statistics for monitoring endpoints
+   */
+  getStats(): { dir: string; entries: number; segments: number; bytes: number; activeSegment: number } {
+    const segments = this.listSegments();
+    return {
+      dir: this.dir,
+      entries: this.index.size,
+      segments: segments.length,
+      bytes: segments.reduce((sum, segment) => sum + this.segmentSize(segment), 0),
+      activeSegment: this.activeSegment,
+    };
+  }
+
+  private append(line: StoreLine): { segment: number; offset: number; length: number } {
+    const json = JSON.stringify(line);
+    const payload = Buffer.from(`${this.checksum(json)}\t${json}\n`, 'utf8');
+
+    if (this.activeSize > 0 && this.activeSize + payload.length > this.maxSegmentBytes) {
+      this.closeActive();
+      this.activeSegment++;
+      this.activeSize = 0;
+    }
+
+    if (this.fd === null) {
+      this.fd = fs.openSync(this.segmentPath(this.activeSegment), 'a');
+    }
+
+    const offset = this.activeSize;
+    fs.writeSync(this.fd, payload);
+    fs.fsyncSync(this.fd);
+    this.activeSize += payload.length;
+
+    return { segment: this.activeSegment, offset, length: payload.length };
+  }
+
+  /**
+   * Index entry for a record: its position plus the metadata needed to list
+   * and filter transcripts without reading their text
+   */
+  private indexEntry(position: { segment: number; offset: number; length: number }, record: TranscriptRecord | undefined): StoreIndexEntry {
+    let callDate: string | undefined;
+    if (record?.callDate) {
+      const date = new Date(record.callDate);
+      callDate = isNaN(date.getTime()) ? undefined : date.toISOString();
+    }
+
+    return {
+      ...position,
+      ticker: record?.ticker ? String(record.ticker).toUpperCase() : undefined,
+      year: record?.year,
+      quarter: record?.quarter,
+      companyName: record?.companyName || undefined,
+      callDate,
+      textLength: typeof record?.fullTranscript === 'string' ? record.fullTranscript.length : 0,
+      hasSplit: Array.isArray(record?.transcriptSplit) && record.transcriptSplit.length > 0,
+      databaseId: record?.databaseId || undefined,
+    };
+  }
+
+  private afterWrite(): void {
+    this.writesSinceCheckpoint++;
+    if (this.writesSinceCheckpoint >= this.checkpointEvery) {
+      this.checkpoint();
+    }
+  }
+
+  /**
+   * Apply records from a segment starting at a byte offset. Returns the number
+   * of records applied. A torn or corrupt tail on the last segment is truncated.
+   */
+  private replaySegment(segment: number, startOffset: number, isLast: boolean): number {
+    const filePath = this.segmentPath(segment);
+    const buffer = fs.readFileSync(filePath);
+    let offset = startOffset;
+    let applied = 0;
+
+    while (offset < buffer.length) {
+      const newline = buffer.indexOf(0x0a, offset);
+      if (newline === -1) break;
+
+      const length = newline - offset + 1;
+      const line = this.parseLine(buffer.subarray(offset, newline + 1).toString('utf8'));
+
+      if (!line) {
+        if (isLast && buffer.indexOf(0x0a, newline + 1) === -1) {
+          break; // Corrupt final record: treat as a torn write
+        }
+        logger.warn('Skipping corrupt transcript store record', { segment, offset });
+      } else if (line.op === 'put') {
+        this.index.set(line.k, this.indexEntry({ segment, offset, length }, line.r));
+        applied++;
+      } else {
+        this.index.delete(line.k);
+        applied++;
+      }
+
+      offset = newline + 1;
+    }
+
+    if (offset < buffer.length && isLast) {
+      logger.warn('Truncating torn write at end of transcript store segment', {
+        segment,
+        validBytes: offset,
+        discardedBytes: buffer.length - offset,
+      });
+      fs.truncateSync(filePath, offset);
+    }
+
+    return applied;
+  }
+
+  private parseLine(raw: string): StoreLine | null {
+    const tab = raw.indexOf('\t');
+    if (tab === -1 || !raw.endsWith('\n')) return null;
+
+    const sum = raw.slice(0, tab);
+    const json = raw.slice(tab + 1, -1);
+    if (this.checksum(json) !== sum) return null;
+
+    try {
+      return JSON.parse(json) as StoreLine;
+    } catch {
+      return null;
+    }
+  }
+
+  private checksum(value: string): string {
+    return crypto.createHash('sha1').update(value).digest('hex').slice(0, 16);
+  }
+
+  private readIndexFile(): StoreIndexFile | null {
+    const indexPath = path.join(this.dir, INDEX_FILE);
+    if (!fs.existsSync(indexPath)) return null;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(indexPath, 'utf8')) as StoreIndexFile;
+      if (data.version !== INDEX_VERSION || !data.checkpoint || !data.entries) {
+        throw new Error(`Unsupported index version ${data.version}`);
+      }
+      return data;
+    } catch (error) {
+      logger.warn('Transcript store index unreadable, rebuilding from segments', {
+        dir: this.dir,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  private writeFileAtomic(filePath: string, contents: string): void {
+    const tmpPath = `${filePath}.tmp`;
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeSync(fd, contents);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  private listSegments(): number[] {
+    return fs.readdirSync(this.dir)
+      .map(file => SEGMENT_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+  }
+
+  private segmentPath(segment: number): string {
+    return path.join(this.dir, `segment-${segment.toString().padStart(6, '0')}.log`);
+  }
+
+  private segmentSize(segment: number): number {
+    const filePath = this.segmentPath(segment);
+    return fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  }
+
+  private closeActive(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
+
+export interface TranscriptMetadata {
+  key: string;
+  ticker?: string;
+  year?: number;
+  quarter?: number;
+  companyName?: string;
+  callDate?: string;
+  length: number; // Transcript text length in characters
+  hasSplit?: boolean; // Undefined when unknown (older index entries)
+  databaseId?: string;
+}
+
+/**
+ * Transcript cache backed by a TranscriptStore.
+ *
+ * Only the store index (positions plus metadata) is held for every transcript;
+ * full records are read from disk on demand and kept in an LRU bounded by
+ * `memoryBudgetBytes` (approximated by each record's serialized size).
+ */
+export class PersistentTranscriptCache {
+  private store: TranscriptStore;
+  private memoryBudgetBytes: number;
+  private lru = new Map<string, { record: any; bytes: number }>();
+  private lruBytes = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(store: TranscriptStore, options: { memoryBudgetBytes?: number } = {}) {
+    this.store = store;
+    this.memoryBudgetBytes = options.memoryBudgetBytes ?? config.transcriptStore.memoryBudgetBytes;
+  }
+
+  get size(): number {
+    return this.store.size;
+  }
+
+  has(key: string): boolean {
+    return this.store.has(key);
+  }
+
+  /**
+   * Full record, from the LRU or (on a miss) from disk
+   */
+  get(key: string): any | undefined {
+    const cached = this.lru.get(key);
+    if (cached) {
+      this.hits++;
+      this.lru.delete(key);
+      this.lru.set(key, cached);
+      return cached.record;
+    }
+
+    const entry = this.store.getEntry(key);
+    if (!entry) return undefined;
+
+    this.misses++;
+    const record = this.store.get(key);
+    if (record !== undefined) {
+      this.remember(key, record, entry.length);
+    }
+    return record;
+  }
+
+  set(key: string, value: any): this {
+    this.store.put(key, value);
+    this.forget(key);
+    this.remember(key, value, this.store.getEntry(key)?.length ?? 0);
+    return this;
+  }
+
+  delete(key: string): boolean {
+    this.forget(key);
+    return this.store.delete(key);
+  }
+
+  clear(): void {
+    for (const key of this.store.keys()) {
+      this.store.delete(key);
+    }
+    this.lru.clear();
+    this.lruBytes = 0;
+  }
+
+  keys(): IterableIterator<string> {
+    return this.store.keys()[Symbol.iterator]();
+  }
+
+  /**
+   * Metadata for one transcript, without loading its text
+   */
+  metadata(key: string): TranscriptMetadata | undefined {
+    const entry = this.store.getEntry(key);
+    return entry ? this.toMetadata(key, entry) : undefined;
+  }
+
+  /**
+   * Metadata for every transcript, without loading any text
+   */
+  metadataEntries(): TranscriptMetadata[] {
+    return this.store.entries().map(([key, entry]) => this.toMetadata(key, entry));
+  }
+
+  /**
+   * Stream full records, optionally pre-filtered on metadata so non-matching
+   * texts are never read. Records streamed here do not displace the LRU.
+   */
+  *entries(filter?: (metadata: TranscriptMetadata) => boolean): Generator<[string, any]> {
+    const storeFilter = filter
+      ? (key: string, entry: StoreIndexEntry) => filter(this.toMetadata(key, entry))
+      : undefined;
+
+    for (const [key, record] of this.store.scan(storeFilter)) {
+      yield [key, this.lru.get(key)?.record ?? record];
+    }
+  }
+
+  *values(): Generator<any> {
+    for (const [, record] of this.entries()) {
+      yield record;
+    }
+  }
+
+  [Symbol.iterator](): Generator<[string, any]> {
+    return this.entries();
+  }
+
+  /**
+   * Memory/LRU statistics for monitoring endpoints
+   */
+  getStats(): { entries: number; loadedTexts: number; loadedBytes: number; memoryBudgetBytes: number; hits: number; misses: number } {
+    return {
+      entries: this.size,
+      loadedTexts: this.lru.size,
+      loadedBytes: this.lruBytes,
+      memoryBudgetBytes: this.memoryBudgetBytes,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Underlying store (for checkpoints, compaction and stats)
+   */
+  getStore(): TranscriptStore {
+    return this.store;
+  }
+
+  private remember(key: string, record: any, bytes: number): void {
+    if (bytes > this.memoryBudgetBytes) return;
+
+    this.lru.set(key, { record, bytes });
+    this.lruBytes += bytes;
+
+    // Evict least recently used texts until we are back under budget
+    for (const [oldestKey, oldest] of this.lru) {
+      if (this.lruBytes <= this.memoryBudgetBytes) break;
+      this.lru.delete(oldestKey);
+      this.lruBytes -= oldest.bytes;
+    }
+  }
+
+  private forget(key: string): void {
+    const cached = this.lru.get(key);
+    if (cached) {
+      this.lru.delete(key);
+      this.lruBytes -= cached.bytes;
+    }
+  }
+
+  private toMetadata(key: string, entry: StoreIndexEntry): TranscriptMetadata {
+    return {
+      key,
+      ticker: entry.ticker,
+      year: entry.year,
+      quarter: entry.quarter,
+      companyName: entry.companyName,
+      callDate: entry.callDate,
+      length: entry.textLength ?? 0,
+      hasSplit: entry.hasSplit,
+      databaseId: entry.databaseId,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UnavailableQuarterCache } from './unavailableQuarterCache';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe('UnavailableQuarterCache', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2024, 4, 15, 12) }); // Mid May 2024
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'unavailable-quarters-'));
+    file = path.join(dir, 'nested', 'unavailable-quarters.json');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('re-checks recent quarters after hours and old ones after weeks', () => {
+    const cache = new UnavailableQuarterCache(file);
+    cache.markUnavailable('aapl', 2024, 1, 'Not published yet'); // Ended 45 days ago
+    cache.markUnavailable('AAPL', 2021, 4, 'No transcript');
+
+    expect(cache.list('AAPL').map(entry => [entry.year, entry.quarter, entry.expiresAt - entry.checkedAt])).toEqual([
+      [2024, 1, 24 * HOUR_MS],
+      [2021, 4, 30 * DAY_MS],
+    ]);
+
+    jest.advanceTimersByTime(24 * HOUR_MS);
+    expect(cache.isUnavailable('AAPL', 2024, 1)).toBe(false);
+    expect(cache.isUnavailable('aapl', 2021, 4)).toBe(true);
+
+    jest.advanceTimersByTime(30 * DAY_MS);
+    expect(cache.isUnavailable('AAPL', 2021, 4)).toBe(false);
+    expect(cache.getStats()).toMatchObject({ entries: 0, hits: 1, recentTtlHours: 24, oldTtlDays: 30 });
+  });
+
+  it('counts consecutive misses and forgets quarters on request', () => {
+    const cache = new UnavailableQuarterCache(file);
+    cache.markUnavailable('MSFT', 2021, 4, 'No transcript');
+    cache.markUnavailable('MSFT', 2021, 4, 'No transcript');
+    cache.markUnavailable('MSFT', 2021, 3, 'No transcript');
+    cache.markUnavailable('NVDA', 2021, 4, 'No transcript');
+    expect(cache.list('MSFT')[0]).toMatchObject({ quarter: 4, misses: 2 });
+
+    cache.clear('msft', 2021, 4);
+    expect(cache.isUnavailable('MSFT', 2021, 4)).toBe(false);
+    expect(cache.clearAll('msft')).toBe(1);
+    expect(cache.list().map(entry => entry.ticker)).toEqual(['NVDA']);
+  });
+
+  it('saves in batches and reloads only unexpired entries', () => {
+    const cache = new UnavailableQuarterCache(file);
+    cache.markUnavailable('AAPL', 2024, 1, 'Not published yet');
+    cache.markUnavailable('AAPL', 2021, 4, 'No transcript');
+    expect(fs.existsSync(file)).toBe(false);
+
+    jest.advanceTimersByTime(2000);
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toHaveLength(2);
+
+    jest.advanceTimersByTime(2 * DAY_MS);
+    const reloaded = new UnavailableQuarterCache(file);
+    expect(reloaded.list().map(entry => `${entry.year}Q${entry.quarter}`)).toEqual(['2021Q4']);
+    expect(reloaded.isUnavailable('AAPL', 2021, 4)).toBe(true);
+  });
+
+  it('writes pending changes on flush and starts empty from an unreadable file', () => {
+    const cache = new UnavailableQuarterCache(file);
+    cache.markUnavailable('TSLA', 2021, 4, 'No transcript');
+    cache.flush();
+    expect(new UnavailableQuarterCache(file).isUnavailable('TSLA', 2021, 4)).toBe(true);
+
+    fs.writeFileSync(file, '{ not json');
+    expect(new UnavailableQuarterCache(file).list()).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '@/config/config';
+import { logger } from '@/config/logger';
+
+const UNAVAILABLE_FILE = path.join(__dirname, '../../cache/unavailable-quarters.json');
+const SAVE_DELAY_MS = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UnavailableQuarter {
+  ticker: string;
+  year: number;
+  quarter: number;
+  reason: string;
+  checkedAt: number;
+  expiresAt: number;
+  misses: number; // Consecutive "not available" responses
+}
+
+/**
+ * Negative-result cache: ticker quarters that API Ninjas reported as having no
+ * transcript, so bulk runs don't re-probe them on every pass.
+ *
+ * Entries expire after a TTL. Recent quarters get a short TTL because their
+ * transcripts are often published days or weeks after the call; quarters that
+ * ended long ago are unlikely to appear and are re-checked much less often.
+ */
+export class UnavailableQuarterCache {
+  private entries = new Map<string, UnavailableQuarter>();
+  private saveTimer: NodeJS.Timeout | null = null;
+  private hits = 0;
+  private file: string;
+
+  constructor(file: string = UNAVAILABLE_FILE) {
+    this.file = file;
+    this.load();
+  }
+
+  /**
+   * Whether a quarter is known to be unavailable (and the entry has not expired)
+   */
+  isUnavailable(ticker: string, year: number, quarter: number): boolean {
+    const key = this.key(ticker, year, quarter);
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.scheduleSave();
+      return false;
+    }
+
+    this.hits++;
+    return true;
+  }
+
+  /**
+   * Record a "not available" response for a quarter
+   */
+  markUnavailable(ticker: string, year: number, quarter: number, reason: string): void {
+    const key = this.key(ticker, year, quarter);
+    const now = Date.now();
+    const misses = (this.entries.get(key)?.misses ?? 0) + 1;
+
+    this.entries.set(key, {
+      ticker: ticker.toUpperCase(),
+      year,
+      quarter,
+      reason,
+      checkedAt: now,
+      expiresAt: now + this.ttlFor(year, quarter),
+      misses,
+    });
+    this.scheduleSave();
+  }
+
+  /**
+   * Forget a quarter (e.g. its transcript was fetched after all)
+   */
+  clear(ticker: string, year: number, quarter: number): void {
+    if (this.entries.delete(this.key(ticker, year, quarter))) {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Forget every entry, or every entry for one ticker. Returns the number removed.
+   */
+  clearAll(ticker?: string): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!ticker || entry.ticker === ticker.toUpperCase()) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) this.scheduleSave();
+    return removed;
+  }
+
+  /**
+   * Unexpired entries, optionally for one ticker
+   */
+  list(ticker?: string): UnavailableQuarter[] {
+    const now = Date.now();
+    return [...this.entries.values()]
+      .filter(entry => entry.expiresAt > now && (!ticker || entry.ticker === ticker.toUpperCase()))
+      .sort((a, b) => a.ticker.localeCompare(b.ticker) || b.year - a.year || b.quarter - a.quarter);
+  }
+
+  getStats(): { entries: number; tickers: number; hits: number; recentTtlHours: number; oldTtlDays: number } {
+    const now = Date.now();
+    const live = [...this.entries.values()].filter(entry => entry.expiresAt > now);
+    return {
+      entries: live.length,
+      tickers: new Set(live.map(entry => entry.ticker)).size,
+      hits: this.hits,
+      recentTtlHours: config.unavailableQuarters.recentTtlMs / (60 * 60 * 1000),
+      oldTtlDays: config.unavailableQuarters.oldTtlMs / DAY_MS,
+    };
+  }
+
+  /**
+   * Write pending changes to disk now (called on shutdown)
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+
+  private ttlFor(year: number, quarter: number): number {
+    // Calendar quarter end; fiscal quarters are close enough for picking a TTL
+    const quarterEnd = new Date(year, quarter * 3, 0).getTime();
+    const ageDays = (Date.now() - quarterEnd) / DAY_MS;
+    return ageDays > config.unavailableQuarters.recentQuarterDays
+      ? config.unavailableQuarters.oldTtlMs
+      : config.unavailableQuarters.recentTtlMs;
+  }
+
+  private key(ticker: string, year: number, quarter: number): string {
+    return `${ticker.toUpperCase()}-${year}-Q${quarter}`;
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.file)) return;
+
+      const data: UnavailableQuarter[] = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      const now = Date.now();
+      for (const entry of data) {
+        if (entry.expiresAt > now) {
+          this.entries.set(this.key(entry.ticker, entry.year, entry.quarter), entry);
+        }
+      }
+      logger.info('Loaded unavailable-quarter cache', { entries: this.entries.size, expired: data.length - this.entries.size });
+    } catch (error) {
+      logger.error('Failed to load unavailable-quarter cache', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  /**
+   * Batch writes: bulk runs can record thousands of misses in a few minutes
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private save(): void {
+    try {
+      const tempFile = `${this.file}.tmp`;
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(tempFile, JSON.stringify([...this.entries.values()]));
+      fs.renameSync(tempFile, this.file);
+    } catch (error) {
+      logger.error('Failed to save unavailable-quarter cache', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+}
+
+// Export singleton instance
+export const unavailableQuarterCache = new UnavailableQuarterCache();
@@ -0,0 +1,135 @@
+import cron from 'node-cron';
+import { Watchlist } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { EarningsCalendarService } from './earningsCalendar';
+import { FetchQueue } from './fetchQueue';
+import { FiscalCalendarService } from './fiscalCalendar';
+import { WatchlistScheduler } from './watchlistScheduler';
+
+jest.mock('node-cron', () => ({
+  __esModule: true,
+  default: { schedule: jest.fn(() => ({ stop: jest.fn() })), validate: () => true },
+}));
+
+jest.mock('@/config/database', () => {
+  const runs: Array<Record<string, unknown>> = [];
+  let locked = Promise.resolve(); // Transactions queue on the watchlist row lock
+  const client: Record<string, unknown> = {
+    watchlist: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(async () => ({})),
+    },
+    watchlistRun: {
+      runs,
+      findMany: jest.fn(async () => []),
+      findFirst: jest.fn(async ({ where }: { where: { watchlistId: string; status: string } }) =>
+        runs.find(run => run.watchlistId === where.watchlistId && run.status === where.status) ?? null),
+      create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        // Let the other caller reach its check before this run exists
+        await new Promise(resolve => setImmediate(resolve));
+        const run = { id: `run-${runs.length + 1}`, status: 'running', startedAt: new Date(), ...data };
+        runs.push(run);
+        return run;
+      }),
+    },
+    $queryRaw: jest.fn(async () => []),
+    $transaction: jest.fn(async (work: (tx: unknown) => Promise<unknown>): Promise<unknown> => {
+      const previous = locked;
+      let release = () => {};
+      locked = new Promise(resolve => { release = resolve; });
+      await previous;
+      try {
+        return await work(client);
+      } finally {
+        release();
+      }
+    }),
+  };
+  return { prisma: client };
+});
+
+const mocked = prisma as unknown as {
+  watchlist: { findMany: jest.Mock; findUnique: jest.Mock };
+  watchlistRun: { runs: Array<Record<string, unknown>>; create: jest.Mock };
+};
+
+function watchlist(schedule: string): Watchlist {
+  return {
+    id: 'w1',
+    name: 'Megacaps',
+    tickers: ['AAPL', 'MSFT'],
+    schedule,
+    timezone: 'America/New_York',
+    quartersToCheck: 2,
+    dueOnly: false,
+    enabled: true,
+    lastRunAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as Watchlist;
+}
+
+describe('WatchlistScheduler', () => {
+  const fetchQueue = { on: jest.fn(), enqueue: jest.fn(async () => undefined) };
+  let scheduler: WatchlistScheduler;
+
+  const startWith = async (schedule: string) => {
+    mocked.watchlist.findMany.mockResolvedValue([watchlist(schedule)]);
+    mocked.watchlist.findUnique.mockResolvedValue(watchlist(schedule));
+    scheduler = new WatchlistScheduler(
+      fetchQueue as unknown as FetchQueue,
+      { get: () => undefined } as unknown as FiscalCalendarService,
+      {} as EarningsCalendarService
+    );
+    await scheduler.start();
+    mocked.watchlist.findMany.mockResolvedValue([{ ...watchlist(schedule), runs: [] }]);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-05-15T12:00:00Z'), doNotFake: ['setImmediate'] }); // Wednesday
+    mocked.watchlistRun.runs.length = 0;
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it.each([
+    ['0 9 * * MON', '2024-05-20T13:00:00.000Z'],
+    ['0 9 1 * *', '2024-06-01T13:00:00.000Z'],
+    ['0 9 1 * MON', '2024-05-20T13:00:00.000Z'], // Both days restricted: either one runs
+    ['0 9 */10 * TUE', '2024-05-21T13:00:00.000Z'], // A step is still a wildcard: both must match
+  ])('predicts the next run of "%s"', async (schedule, expected) => {
+    await startWith(schedule);
+    const [listed] = await scheduler.list();
+    expect(listed.nextRunAt?.toISOString()).toBe(expected);
+  });
+
+  it('fires on either day when both day fields are restricted', async () => {
+    await startWith('0 9 1 * MON');
+    const [[expression, tick]] = (cron.schedule as jest.Mock).mock.calls;
+    expect(expression).toBe('0 9 * * *');
+
+    jest.setSystemTime(new Date('2024-05-21T13:00:00Z')); // Tuesday the 21st
+    tick();
+    jest.setSystemTime(new Date('2024-05-20T13:00:00Z')); // Monday
+    tick();
+    await new Promise(resolve => setImmediate(resolve));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(mocked.watchlistRun.create).toHaveBeenCalledTimes(1);
+    expect(mocked.watchlistRun.runs[0]).toMatchObject({ trigger: 'schedule' });
+  });
+
+  it('starts one run when a manual and a scheduled run race', async () => {
+    await startWith('0 9 * * *');
+    const [manual, scheduled] = await Promise.all([scheduler.run('w1', 'manual'), scheduler.run('w1', 'schedule')]);
+
+    expect(scheduled.id).toBe(manual.id);
+    expect(mocked.watchlistRun.runs).toHaveLength(1);
+    expect(fetchQueue.enqueue).toHaveBeenCalledTimes(1);
+  });
+});
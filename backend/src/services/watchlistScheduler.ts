@@ -0,0 +1,507 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { Prisma, Watchlist, WatchlistRun } from '@prisma/client';
+import { config } from '@/config/config';
+import { prisma } from '@/config/database';
+import { logger } from '@/config/logger';
+import { EarningsCalendarService } from './earningsCalendar';
+import { FetchQueue } from './fetchQueue';
+import { FiscalCalendarService } from './fiscalCalendar';
+import { getQuartersToTry } from './quarterCalculator';
+
+/**
+ * Named watchlists refreshed on a cron schedule.
+ *
+ * Each run probes the newest quarters of every ticker (newest first, stopping at
+ * the first transcript already stored or newly fetched) on the durable fetch
+ * queue, and records what it found as a WatchlistRun once its tasks settle.
+ * Scheduled runs of a `dueOnly` watchlist skip tickers whose next call is
+ * predicted to be still ahead.
+ */
+
+export class WatchlistError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'WatchlistError';
+  }
+}
+
+export interface WatchlistInput {
+  name?: string;
+  tickers?: string[];
+  schedule?: string;
+  timezone?: string;
+  quartersToCheck?: number;
+  dueOnly?: boolean;
+  enabled?: boolean;
+}
+
+export type WatchlistRunTrigger = 'schedule' | 'manual';
+
+export interface WatchlistWithLastRun extends Watchlist {
+  lastRun: WatchlistRun | null;
+  nextRunAt: Date | null;
+}
+
+const JOB_ID_PREFIX = 'watchlist-';
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export class WatchlistScheduler {
+  private fetchQueue: FetchQueue;
+  private fiscalCalendars: FiscalCalendarService;
+  private earningsCalendar: EarningsCalendarService;
+  private tasks = new Map<string, ScheduledTask>();
+
+  constructor(fetchQueue: FetchQueue, fiscalCalendars: FiscalCalendarService, earningsCalendar: EarningsCalendarService) {
+    this.fetchQueue = fetchQueue;
+    this.fiscalCalendars = fiscalCalendars;
+    this.earningsCalendar = earningsCalendar;
+    this.fetchQueue.on('jobSettled', ({ jobId }) => {
+      if (typeof jobId !== 'string' || !jobId.startsWith(JOB_ID_PREFIX)) return;
+      this.completeRun(jobId.slice(JOB_ID_PREFIX.length)).catch(error => {
+        logger.error('Failed to record watchlist run', { jobId, error: error instanceof Error ? error.message : 'Unknown error' });
+      });
+    });
+  }
+
+  /**
+   * Schedule every enabled watchlist and settle runs that finished while the server was down
+   */
+  async start(): Promise<void> {
+    if (!config.watchlists.schedulerEnabled) {
+      logger.info('Watchlist scheduler disabled');
+      return;
+    }
+
+    try {
+      const watchlists = await prisma.watchlist.findMany({ where: { enabled: true } });
+      watchlists.forEach(watchlist => this.scheduleWatchlist(watchlist));
+      logger.info('Watchlist scheduler started', { watchlists: watchlists.length });
+
+      const openRuns = await prisma.watchlistRun.findMany({ where: { status: 'running' }, select: { id: true } });
+      for (const run of openRuns) {
+        const counts = await this.fetchQueue.getCounts(this.jobId(run.id));
+        if (counts.PENDING + counts.IN_PROGRESS + counts.PAUSED === 0) {
+          await this.completeRun(run.id);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to start watchlist scheduler', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  stop(): void {
+    for (const task of this.tasks.values()) {
+      task.stop();
+    }
+    this.tasks.clear();
+  }
+
+  /**
+   * All watchlists with their most recent run
+   */
+  async list(): Promise<WatchlistWithLastRun[]> {
+    const watchlists = await prisma.watchlist.findMany({
+      orderBy: { name: 'asc' },
+      include: { runs: { orderBy: { startedAt: 'desc' }, take: 1 } },
+    });
+
+    return watchlists.map(({ runs, ...watchlist }) => ({
+      ...watchlist,
+      lastRun: runs[0] ?? null,
+      nextRunAt: this.nextRunAt(watchlist),
+    }));
+  }
+
+  async get(id: string): Promise<Watchlist> {
+    const watchlist = await prisma.watchlist.findUnique({ where: { id } });
+    if (!watchlist) {
+      throw new WatchlistError('Watchlist not found', 404);
+    }
+    return watchlist;
+  }
+
+  async create(input: WatchlistInput): Promise<Watchlist> {
+    if (!input.name?.trim()) {
+      throw new WatchlistError('Watchlist name is required');
+    }
+    if (!input.tickers || input.tickers.length === 0) {
+      throw new WatchlistError('At least one ticker is required');
+    }
+
+    const data = this.validate({
+      schedule: config.watchlists.defaultSchedule,
+      timezone: config.watchlists.defaultTimezone,
+      quartersToCheck: config.watchlists.defaultQuartersToCheck,
+      enabled: true,
+      ...input,
+    });
+
+    try {
+      const watchlist = await prisma.watchlist.create({
+        data: data as Prisma.WatchlistCreateInput,
+      });
+      this.scheduleWatchlist(watchlist);
+      logger.info('Watchlist created', { id: watchlist.id, name: watchlist.name, tickers: watchlist.tickers.length, schedule: watchlist.schedule });
+      return watchlist;
+    } catch (error) {
+      throw this.translateError(error, input.name);
+    }
+  }
+
+  async update(id: string, input: WatchlistInput): Promise<Watchlist> {
+    await this.get(id);
+    const data = this.validate(input);
+
+    try {
+      const watchlist = await prisma.watchlist.update({ where: { id }, data });
+      this.scheduleWatchlist(watchlist);
+      logger.info('Watchlist updated', { id, name: watchlist.name, fields: Object.keys(data) });
+      return watchlist;
+    } catch (error) {
+      throw this.translateError(error, input.name);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.get(id);
+    this.unscheduleWatchlist(id);
+
+    // Runs still in progress stop probing; their history is deleted with the watchlist
+    const openRuns = await prisma.watchlistRun.findMany({ where: { watchlistId: id, status: 'running' }, select: { id: true } });
+    for (const run of openRuns) {
+      await this.fetchQueue.cancelJob(this.jobId(run.id));
+    }
+
+    await prisma.watchlist.delete({ where: { id } });
+    logger.info('Watchlist deleted', { id });
+  }
+
+  /**
+   * Start a refresh of a watchlist. A run that is still in progress is returned instead of starting another.
+   */
+  async run(id: string, trigger: WatchlistRunTrigger = 'manual'): Promise<WatchlistRun> {
+    const watchlist = await this.get(id);
+    const tickers = trigger === 'schedule' && watchlist.dueOnly
+      ? await this.dueTickers(watchlist)
+      : watchlist.tickers;
+
+    // The watchlist row is locked so a scheduled and a manual run can't both see no open run
+    const { run, started } = await prisma.$transaction(async tx => {
+      await tx.$queryRaw`SELECT id FROM watchlists WHERE id = ${id} FOR UPDATE`;
+      const openRun = await tx.watchlistRun.findFirst({ where: { watchlistId: id, status: 'running' } });
+      if (openRun) return { run: openRun, started: false };
+
+      const created = await tx.watchlistRun.create({
+        data: {
+          watchlistId: id,
+          trigger,
+          tickerCount: tickers.length,
+          probedTickers: tickers.length < watchlist.tickers.length ? tickers : [], // Only recorded when some were skipped
+          notDue: watchlist.tickers.length - tickers.length,
+        },
+      });
+      await tx.watchlist.update({ where: { id }, data: { lastRunAt: created.startedAt } });
+      return { run: created, started: true };
+    });
+    if (!started) {
+      logger.info('Watchlist run already in progress', { watchlistId: id, runId: run.id, trigger });
+      return run;
+    }
+
+    try {
+      // stopAfter 1: a ticker is done once its newest available quarter is stored
+      await this.fetchQueue.enqueue({
+        jobId: this.jobId(run.id),
+        tickers,
+        quarters: ticker => getQuartersToTry(watchlist.quartersToCheck, this.fiscalCalendars.get(ticker)),
+        stopAfter: 1,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to start watchlist run', { watchlistId: id, runId: run.id, error: message });
+      return prisma.watchlistRun.update({
+        where: { id: run.id },
+        data: { status: 'failed', errorMessage: message, completedAt: new Date() },
+      });
+    }
+
+    logger.info('Watchlist run started', { watchlistId: id, name: watchlist.name, runId: run.id, trigger, tickers: tickers.length, notDue: run.notDue });
+
+    if (tickers.length === 0) {
+      return this.completeRun(run.id);
+    }
+    return run;
+  }
+
+  /**
+   * Run history of a watchlist, newest first
+   */
+  async getRuns(id: string, limit: number = config.watchlists.runHistoryLimit): Promise<WatchlistRun[]> {
+    await this.get(id);
+    return prisma.watchlistRun.findMany({
+      where: { watchlistId: id },
+      orderBy: { startedAt: 'desc' },
+      take: Math.min(limit, config.watchlists.runHistoryLimit),
+    });
+  }
+
+  /**
+   * Record a run's outcome from its fetch tasks
+   */
+  private async completeRun(runId: string): Promise<WatchlistRun> {
+    const run = await prisma.watchlistRun.findUnique({ where: { id: runId }, include: { watchlist: true } });
+    if (!run) {
+      throw new WatchlistError('Watchlist run not found', 404);
+    }
+    if (run.status !== 'running') {
+      return run;
+    }
+
+    const tickers = run.notDue > 0 ? run.probedTickers : run.watchlist.tickers;
+    const summary = await this.fetchQueue.summarizeJob(this.jobId(runId), tickers);
+    const fetched = summary.results
+      .filter(result => result.status === 'success' && !result.skipped)
+      .map(result => ({ ticker: result.ticker, year: result.year, quarter: result.quarter, transcriptId: result.transcriptId ?? null }));
+
+    const completed = await prisma.watchlistRun.update({
+      where: { id: runId },
+      data: {
+        status: 'completed',
+        completedAt: new Date(),
+        newTranscripts: fetched.length,
+        upToDate: summary.progress.skipped.length,
+        notAvailable: summary.results.filter(result => result.status === 'not_available').length,
+        failed: summary.results.filter(result => result.status === 'failed').length,
+        fetched,
+      },
+    });
+
+    logger.info('Watchlist run completed', {
+      watchlistId: run.watchlistId,
+      name: run.watchlist.name,
+      runId,
+      newTranscripts: completed.newTranscripts,
+      upToDate: completed.upToDate,
+      notAvailable: completed.notAvailable,
+      failed: completed.failed,
+    });
+    return completed;
+  }
+
+  /**
+   * Tickers whose predicted call window is open or past, or that have too little history to predict.
+   * Falls back to every ticker when predictions can't be made.
+   */
+  private async dueTickers(watchlist: Watchlist): Promise<string[]> {
+    try {
+      const predictions = await this.earningsCalendar.predict({ tickers: watchlist.tickers });
+      const byTicker = new Map(predictions.map(prediction => [prediction.ticker, prediction]));
+      return watchlist.tickers.filter(ticker => this.earningsCalendar.isDue(byTicker.get(ticker)));
+    } catch (error) {
+      logger.warn('Could not predict call dates, probing every watchlist ticker', {
+        watchlistId: watchlist.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return watchlist.tickers;
+    }
+  }
+
+  private scheduleWatchlist(watchlist: Watchlist): void {
+    this.unscheduleWatchlist(watchlist.id);
+    if (!config.watchlists.schedulerEnabled || !watchlist.enabled) return;
+
+    // node-cron requires both day fields to match, so when both are restricted
+    // it fires every day and the cron "either day" rule is checked here
+    const fields = watchlist.schedule.trim().split(/\s+/);
+    const schedule = this.scheduleFields(watchlist.schedule);
+    const eitherDay = !schedule.dayOfMonth.startsWith('*') && !schedule.dayOfWeek.startsWith('*');
+    if (eitherDay) {
+      fields[fields.length - 3] = '*';
+      fields[fields.length - 1] = '*';
+    }
+    const formatter = this.zonedFormatter(watchlist.timezone);
+
+    const task = cron.schedule(fields.join(' '), () => {
+      if (eitherDay && !this.dayMatches(schedule, this.zonedTime(formatter, new Date()))) return;
+      this.run(watchlist.id, 'schedule').catch(error => {
+        logger.error('Scheduled watchlist run failed', { watchlistId: watchlist.id, error: error instanceof Error ? error.message : 'Unknown error' });
+      });
+    }, { timezone: watchlist.timezone });
+    this.tasks.set(watchlist.id, task);
+  }
+
+  private unscheduleWatchlist(id: string): void {
+    this.tasks.get(id)?.stop();
+    this.tasks.delete(id);
+  }
+
+  /**
+   * Next minute matching the watchlist's schedule in its timezone (searches up to 32 days ahead)
+   */
+  private nextRunAt(watchlist: Watchlist): Date | null {
+    if (!watchlist.enabled || !this.tasks.has(watchlist.id)) return null;
+
+    const schedule = this.scheduleFields(watchlist.schedule);
+    const formatter = this.zonedFormatter(watchlist.timezone);
+    const candidate = new Date();
+    candidate.setSeconds(0, 0);
+    for (let i = 0; i < 32 * 24 * 60; i++) {
+      candidate.setTime(candidate.getTime() + 60 * 1000);
+      const time = this.zonedTime(formatter, candidate);
+      if (
+        this.fieldMatches(schedule.minute, time.minute, 0) &&
+        this.fieldMatches(schedule.hour, time.hour, 0) &&
+        this.fieldMatches(schedule.month, time.month, 1) &&
+        this.dayMatches(schedule, time)
+      ) {
+        return new Date(candidate);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The five minute-level cron fields (a leading seconds field is dropped), names replaced by numbers
+   */
+  private scheduleFields(schedule: string): { minute: string; hour: string; dayOfMonth: string; month: string; dayOfWeek: string } {
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = schedule.trim().split(/\s+/).slice(-5)
+      .map(field => this.replaceNames(field));
+    return { minute, hour, dayOfMonth, month, dayOfWeek: dayOfWeek.replace(/\b7\b/g, '0') };
+  }
+
+  /**
+   * Cron day rule: when day of month and day of week are both restricted, a
+   * day matching either one runs ("0 9 1 * MON" is the 1st and every Monday)
+   */
+  private dayMatches(schedule: { dayOfMonth: string; dayOfWeek: string }, time: { day: number; weekday: number }): boolean {
+    const monthDay = this.fieldMatches(schedule.dayOfMonth, time.day, 1);
+    const weekDay = this.fieldMatches(schedule.dayOfWeek, time.weekday, 0);
+    return schedule.dayOfMonth.startsWith('*') || schedule.dayOfWeek.startsWith('*')
+      ? monthDay && weekDay
+      : monthDay || weekDay;
+  }
+
+  private zonedFormatter(timezone: string): Intl.DateTimeFormat {
+    return new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      minute: 'numeric',
+      hour: 'numeric',
+      day: 'numeric',
+      month: 'numeric',
+      weekday: 'short',
+    });
+  }
+
+  /**
+   * Wall-clock fields of a moment in the formatter's timezone
+   */
+  private zonedTime(formatter: Intl.DateTimeFormat, date: Date): { minute: number; hour: number; day: number; month: number; weekday: number } {
+    const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+    return {
+      minute: Number(parts.minute),
+      hour: Number(parts.hour),
+      day: Number(parts.day),
+      month: Number(parts.month),
+      weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase()),
+    };
+  }
+
+  /**
+   * Cron fields accept month and weekday names ("MON-FRI", "jan")
+   */
+  private replaceNames(field: string): string {
+    return field.toLowerCase()
+      .replace(/[a-z]{3}/g, name => {
+        const weekday = WEEKDAYS.indexOf(name);
+        return String(weekday >= 0 ? weekday : MONTHS.indexOf(name) + 1);
+      });
+  }
+
+  /**
+   * Match one numeric cron field ("*", lists, ranges and steps)
+   */
+  private fieldMatches(field: string, value: number, min: number): boolean {
+    return field.split(',').some(part => {
+      const [range, stepText] = part.split('/');
+      const step = stepText ? Number(stepText) : 1;
+      let start = min;
+      let end = Number.MAX_SAFE_INTEGER;
+      if (range !== '*') {
+        const [from, to] = range.split('-').map(Number);
+        start = from;
+        end = to ?? (stepText ? Number.MAX_SAFE_INTEGER : from);
+      }
+      return value >= start && value <= end && (value - start) % step === 0;
+    });
+  }
+
+  private validate(input: WatchlistInput): WatchlistInput {
+    const data: WatchlistInput = {};
+
+    if (input.name !== undefined) {
+      data.name = input.name.trim();
+      if (!data.name) throw new WatchlistError('Watchlist name cannot be empty');
+    }
+
+    if (input.tickers !== undefined) {
+      if (!Array.isArray(input.tickers)) throw new WatchlistError('Tickers must be an array');
+      data.tickers = Array.from(new Set(
+        input.tickers.map(ticker => String(ticker).trim().toUpperCase()).filter(ticker => ticker.length > 0)
+      ));
+      const invalid = data.tickers.filter(ticker => !/^[A-Z0-9.\-]{1,10}$/.test(ticker));
+      if (invalid.length > 0) {
+        throw new WatchlistError(`Invalid tickers: ${invalid.slice(0, 10).join(', ')}`);
+      }
+      if (data.tickers.length > config.watchlists.maxTickers) {
+        throw new WatchlistError(`A watchlist can hold at most ${config.watchlists.maxTickers} tickers`);
+      }
+    }
+
+    if (input.schedule !== undefined) {
+      data.schedule = input.schedule.trim();
+      if (!cron.validate(data.schedule)) {
+        throw new WatchlistError(`Invalid cron schedule: "${input.schedule}"`);
+      }
+    }
+
+    if (input.timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: input.timezone });
+      } catch {
+        throw new WatchlistError(`Unknown timezone: "${input.timezone}"`);
+      }
+      data.timezone = input.timezone;
+    }
+
+    if (input.quartersToCheck !== undefined) {
+      const quartersToCheck = Number(input.quartersToCheck);
+      if (!Number.isInteger(quartersToCheck) || quartersToCheck < 1 || quartersToCheck > 8) {
+        throw new WatchlistError('quartersToCheck must be between 1 and 8');
+      }
+      data.quartersToCheck = quartersToCheck;
+    }
+
+    if (input.dueOnly !== undefined) {
+      data.dueOnly = Boolean(input.dueOnly);
+    }
+
+    if (input.enabled !== undefined) {
+      data.enabled = Boolean(input.enabled);
+    }
+
+    return data;
+  }
+
+  private translateError(error: unknown, name?: string): Error {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return new WatchlistError(`A watchlist named "${name}" already exists`, 409);
+    }
+    return error instanceof Error ? error : new Error('Unknown error');
+  }
+
+  private jobId(runId: string): string {
+    return `${JOB_ID_PREFIX}${runId}`;
+  }
+}
@@ -46,6 +46,8 @@ export const SearchFiltersSchema = z.object({
   dateFrom: z.string().datetime().optional(),
   dateTo: z.string().datetime().optional(),
   speakers: z.array(z.string()).optional(),
+  // 'calendar' compares years/quarters with each transcript's calendar period; fiscal (as stored) by default
+  periodBasis: z.enum(['fiscal', 'calendar']).optional(),
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
 });
@@ -56,12 +58,17 @@ export interface SearchResult {
   id: string;
   ticker: string;
   companyName: string | null;
-  year: number;
+  year: number; // Fiscal year/quarter, as stored
   quarter: number;
+  calendarYear?: number;
+  calendarQuarter?: number;
+  fiscalLabel?: string; // "FY2026 Q1", or "Q1 2025" for calendar-year companies
+  calendarLabel?: string;
   callDate: Date | null;
   snippet: string;
   relevanceScore?: number;
   matchCount: number;
+  keywordMatches?: Array<{ keyword: string; matchCount: number; score: number }>; // Per query term
   source_type?: 'transcript' | 'ai_summary';
   analystType?: string; // For AI summary results
   ai_summary_id?: string; // For AI summary results
@@ -118,32 +125,37 @@ export interface BulkFetchResponse {
 }
 
 // Job system types
-export interface BulkFetchJob {
+export type JobType = 'transcript-fetch' | 'ai-processing' | 'reconciliation' | 'split-backfill';
+
+export interface Job<TParams = unknown, TResult = unknown> {
   id: string;
+  type: JobType;
   status: 'pending' | 'running' | 'completed' | 'failed' | 'paused' | 'cancelled';
-  tickers: string[];
-  quarters?: Array<{ year: number; quarter: number }>;
-  quarterCount?: number; // Number of quarters to try for each ticker
+  params: TParams;
+  items: string[]; // What the job works through: tickers, transcript ids, ...
   progress: {
     current: number;
     total: number;
-    currentTicker?: string;
+    currentItem?: string;
     processed: string[];
     failed: string[];
     skipped: string[];
-    failedDetails?: Array<{ ticker: string; reason: string }>;
+    failedDetails: Array<{ item: string; reason: string }>;
   };
-  results: BulkFetchResult[];
+  results: TResult[];
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
   error?: string;
+  estimatedTimeRemaining?: number; // seconds
+  parentJobId?: string; // Job this one retries
 }
 
 export interface JobProgress {
   jobId: string;
-  status: BulkFetchJob['status'];
-  progress: BulkFetchJob['progress'];
+  type: JobType;
+  status: Job['status'];
+  progress: Job['progress'];
   estimatedTimeRemaining?: number;
   lastUpdate: Date;
 }
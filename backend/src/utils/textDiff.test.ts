@@ -0,0 +1,60 @@
+import { diffText, splitIntoUnits } from './textDiff';
+
+const sentences = (count: number, prefix = 'Sentence') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}.`).join(' ');
+
+describe('splitIntoUnits', () => {
+  it('splits lines and then sentences, dropping blanks', () => {
+    expect(splitIntoUnits('Revenue grew. Margins held!\n\nAny questions?  Yes.\r\nThanks'))
+      .toEqual(['Revenue grew.', 'Margins held!', 'Any questions?', 'Yes.', 'Thanks']);
+  });
+});
+
+describe('diffText', () => {
+  it('reports a changed sentence inside one long paragraph', () => {
+    const diff = diffText('Revenue grew. Margins held. Outlook is strong.', 'Revenue grew. Margins fell. Outlook is strong.');
+    expect(diff).toMatchObject({ added: 1, removed: 1, unchanged: 2, truncated: false });
+    expect(diff.chunks).toEqual([
+      { type: 'equal', units: ['Revenue grew.'], count: 1 },
+      { type: 'removed', units: ['Margins held.'], count: 1 },
+      { type: 'added', units: ['Margins fell.'], count: 1 },
+      { type: 'equal', units: ['Outlook is strong.'], count: 1 },
+    ]);
+  });
+
+  it('finds the shortest edit script between insertions and deletions', () => {
+    const diff = diffText('A. B. C. A. B. B. A.', 'C. B. A. B. A. C.');
+    expect(diff.added + diff.removed).toBe(5); // The classic Myers example: edit distance 5
+    expect(diff.unchanged).toBe(4);
+  });
+
+  it('collapses long unchanged runs to the context around each change', () => {
+    const before = `${sentences(10)} Old line. ${sentences(10, 'Tail')}`;
+    const after = `${sentences(10)} New line. ${sentences(10, 'Tail')}`;
+    const diff = diffText(before, after, { context: 2 });
+
+    expect(diff.chunks.map(chunk => [chunk.type, chunk.count])).toEqual([
+      ['skipped', 8],
+      ['equal', 2],
+      ['removed', 1],
+      ['added', 1],
+      ['equal', 2],
+      ['skipped', 8],
+    ]);
+    expect(diff.chunks[1].units).toEqual(['Sentence 9.', 'Sentence 10.']);
+  });
+
+  it('gives up past the maximum edit distance and reports a full replacement', () => {
+    const diff = diffText(sentences(5, 'Old'), sentences(5, 'New'), { maxEditDistance: 3 });
+    expect(diff).toMatchObject({ added: 5, removed: 5, unchanged: 0, truncated: true });
+  });
+
+  it('handles identical and empty texts', () => {
+    expect(diffText('Same. Text.', 'Same. Text.')).toMatchObject({
+      added: 0,
+      removed: 0,
+      unchanged: 2,
+      chunks: [{ type: 'skipped', units: [], count: 2 }],
+    });
+    expect(diffText('', 'New text.')).toMatchObject({ added: 1, removed: 0, chunks: [{ type: 'added', units: ['New text.'], count: 1 }] });
+  });
+});
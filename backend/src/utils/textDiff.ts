@@ -0,0 +1,174 @@
+/**
+ * Line/sentence level text diff (Myers algorithm) for comparing transcript revisions.
+ *
+ * API Ninjas transcripts are often a single long paragraph, so text is split into
+ * lines and then sentences; a diff over whole lines would just say "everything changed".
+ */
+
+export type DiffChunkType = 'equal' | 'added' | 'removed' | 'skipped';
+
+export interface DiffChunk {
+  type: DiffChunkType;
+  units: string[];
+  count: number; // Number of units (for 'skipped', the number of unchanged units left out)
+}
+
+export interface TextDiff {
+  chunks: DiffChunk[];
+  added: number;
+  removed: number;
+  unchanged: number;
+  truncated: boolean; // Edit distance exceeded maxEditDistance; reported as a full replacement
+}
+
+export interface TextDiffOptions {
+  context?: number; // Unchanged units kept around each change
+  maxEditDistance?: number;
+}
+
+type Op = 'equal' | 'added' | 'removed';
+
+export function splitIntoUnits(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .flatMap(line => line.split(/(?<=[.!?])\s+/))
+    .map(unit => unit.trim())
+    .filter(unit => unit.length > 0);
+}
+
+export function diffText(oldText: string, newText: string, options: TextDiffOptions = {}): TextDiff {
+  const context = options.context ?? 2;
+  const maxEditDistance = options.maxEditDistance ?? 2000;
+  const a = splitIntoUnits(oldText);
+  const b = splitIntoUnits(newText);
+
+  // Trim the common prefix/suffix before running the O(ND) search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  let middle = myers(middleA, middleB, maxEditDistance);
+  const truncated = middle === null;
+  if (middle === null) {
+    middle = [
+      ...middleA.map(unit => ['removed', unit] as [Op, string]),
+      ...middleB.map(unit => ['added', unit] as [Op, string]),
+    ];
+  }
+
+  const ops: Array<[Op, string]> = [
+    ...a.slice(0, prefix).map(unit => ['equal', unit] as [Op, string]),
+    ...middle,
+    ...a.slice(a.length - suffix).map(unit => ['equal', unit] as [Op, string]),
+  ];
+
+  const result: TextDiff = { chunks: [], added: 0, removed: 0, unchanged: 0, truncated };
+  const runs: Array<{ type: Op; units: string[] }> = [];
+  for (const [type, unit] of ops) {
+    if (type === 'added') result.added++;
+    else if (type === 'removed') result.removed++;
+    else result.unchanged++;
+
+    const last = runs[runs.length - 1];
+    if (last && last.type === type) last.units.push(unit);
+    else runs.push({ type, units: [unit] });
+  }
+
+  // Collapse long unchanged runs down to the context around each change
+  runs.forEach((run, index) => {
+    if (run.type !== 'equal') {
+      result.chunks.push({ type: run.type, units: run.units, count: run.units.length });
+      return;
+    }
+
+    const head = index > 0 ? run.units.slice(0, context) : [];
+    const tail = index < runs.length - 1 ? run.units.slice(Math.max(run.units.length - context, head.length)) : [];
+    const skipped = run.units.length - head.length - tail.length;
+
+    if (head.length > 0) result.chunks.push({ type: 'equal', units: head, count: head.length });
+    if (skipped > 0) result.chunks.push({ type: 'skipped', units: [], count: skipped });
+    if (tail.length > 0) result.chunks.push({ type: 'equal', units: tail, count: tail.length });
+  });
+
+  return result;
+}
+
+/**
+ * Shortest edit script between two unit lists, or null if it needs more than maxD edits
+ */
+function myers(a: string[], b: string[], maxD: number): Array<[Op, string]> | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  if (max === 0) return [];
+
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, maxD); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(a, b, trace);
+      }
+    }
+    // Only diagonals -d..d are reachable at this distance
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Array<[Op, string]> {
+  const ops: Array<[Op, string]> = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1]);
+    const previousK = down ? k + 1 : k - 1;
+    const previousX = previous[previousK + d - 1];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      ops.push(['equal', a[x - 1]]);
+      x--;
+      y--;
+    }
+    if (down) {
+      ops.push(['added', b[y - 1]]);
+      y--;
+    } else {
+      ops.push(['removed', a[x - 1]]);
+      x--;
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push(['equal', a[x - 1]]);
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
@@ -2,16 +2,16 @@ import React, { useState, useEffect, useCallback } from 'react';
 
 interface BulkAIJob {
   id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'paused' | 'cancelled';
   progress: {
     current: number;
     total: number;
-    currentTranscript?: string;
+    currentItem?: string;
     processed: string[];
     failed: string[];
     skipped: string[];
   };
-  results: Array<{
+  results?: Array<{
     transcriptId: string;
     ticker: string;
     year: number;
@@ -56,19 +56,6 @@ export default function BulkAI() {
     Grok: true
   });
 
-  const fetchJobs = useCallback(async () => {
-    try {
-      const response = await fetch('http://localhost:3001/api/ai/bulk-process');
-      const data = await response.json();
-      
-      if (data.success) {
-        setJobs(data.jobs);
-      }
-    } catch (error) {
-      console.error('Failed to fetch jobs:', error);
-    }
-  }, []);
-
   const fetchStats = useCallback(async () => {
     try {
       const response = await fetch('http://localhost:3001/api/ai/bulk-stats');
@@ -94,10 +81,37 @@ export default function BulkAI() {
 
   // Initial fetch on mount
   useEffect(() => {
-    fetchJobs();
     fetchStats();
     fetchTranscriptCounts();
-  }, [fetchJobs, fetchStats, fetchTranscriptCounts]);
+  }, [fetchStats, fetchTranscriptCounts]);
+
+  // Jobs arrive over the job event stream: a snapshot, then every change as it happens
+  useEffect(() => {
+    const jobStream = new EventSource('http://localhost:3001/api/jobs/stream?type=ai-processing');
+    jobStream.addEventListener('snapshot', (event) => {
+      setJobs(JSON.parse((event as MessageEvent).data).jobs);
+    });
+    ['created', 'started', 'progress', 'paused', 'resumed', 'cancelled', 'completed'].forEach((type) => {
+      jobStream.addEventListener(type, (event) => {
+        const job: BulkAIJob = JSON.parse((event as MessageEvent).data);
+        setJobs((current) => current.some((j) => j.id === job.id)
+          ? current.map((j) => (j.id === job.id ? job : j))
+          : [job, ...current]);
+
+        if (type === 'created' || type === 'completed' || type === 'cancelled') {
+          fetchStats();
+        }
+        if (type === 'completed') {
+          fetchTranscriptCounts();
+        }
+      });
+    });
+    jobStream.addEventListener('cleared', (event) => {
+      const { jobIds } = JSON.parse((event as MessageEvent).data);
+      setJobs((current) => current.filter((j) => !jobIds.includes(j.id)));
+    });
+    return () => jobStream.close();
+  }, [fetchStats, fetchTranscriptCounts]);
 
   const startBulkProcessing = async () => {
     setIsLoading(true);
@@ -144,8 +158,6 @@ export default function BulkAI() {
 
       if (data.success) {
         alert(`Bulk AI processing started! Job ID: ${data.jobId}`);
-        fetchJobs();
-        fetchStats();
       } else {
         throw new Error(data.details || 'Failed to start bulk processing');
       }
@@ -350,8 +362,8 @@ export default function BulkAI() {
                 
                 <div className="text-sm text-gray-600">
                   Progress: {job.progress.current}/{job.progress.total} transcripts
-                  {job.progress.currentTranscript && (
-                    <span> (Current: {job.progress.currentTranscript})</span>
+                  {job.progress.currentItem && (
+                    <span> (Current: {job.progress.currentItem})</span>
                   )}
                 </div>
                 
@@ -1,6 +1,39 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
+
+interface CallPrediction {
+  ticker: string
+  companyName: string | null
+  label: string
+  expectedDate: string
+  windowStart: string
+  windowEnd: string
+  confidence: 'high' | 'medium' | 'low'
+  status: 'upcoming' | 'in_window' | 'overdue'
+}
+
+// Monday of the week a YYYY-MM-DD date falls in, as YYYY-MM-DD
+const weekStart = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7))
+  return day.toISOString().slice(0, 10)
+}
 
 export default function Home() {
+  const [predictions, setPredictions] = useState<CallPrediction[]>([])
+
+  useEffect(() => {
+    fetch('http://localhost:3001/api/earnings-calendar?days=14')
+      .then(response => (response.ok ? response.json() : { predictions: [] }))
+      .then(data => setPredictions(data.predictions))
+      .catch(error => console.error('Failed to load earnings calendar:', error))
+  }, [])
+
+  const thisWeek = weekStart(new Date().toISOString().slice(0, 10))
+  const groups = [
+    { title: 'This week', calls: predictions.filter(p => weekStart(p.expectedDate) <= thisWeek) },
+    { title: 'Next week', calls: predictions.filter(p => weekStart(p.expectedDate) > thisWeek) },
+  ]
+
   return (
     <div className="space-y-8">
       <div className="text-center space-y-4">
@@ -35,6 +68,47 @@ export default function Home() {
         </div>
       </div>
 
+      <div className="p-6 border rounded-lg space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold">📆 Reporting Soon</h3>
+          <a
+            href="http://localhost:3001/api/earnings-calendar.ics"
+            className="text-sm text-blue-600 hover:underline"
+            title="Subscribe to predicted call dates in a calendar app"
+          >
+            Calendar feed (.ics)
+          </a>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Next calls predicted from each company's past call dates. Dates are estimates; the window shows how sure they are.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {groups.map(group => (
+            <div key={group.title}>
+              <h4 className="font-medium mb-2">{group.title}</h4>
+              {group.calls.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No calls expected</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {group.calls.map(call => (
+                    <li key={call.ticker} className="flex justify-between gap-2">
+                      <span>
+                        <span className="font-mono font-semibold mr-2">{call.ticker}</span>
+                        {call.label}
+                        {call.status === 'in_window' && <span className="ml-2 text-green-600">window open</span>}
+                      </span>
+                      <span className="text-muted-foreground" title={`Expected ${call.windowStart} to ${call.windowEnd} (${call.confidence} confidence)`}>
+                        {new Date(`${call.expectedDate}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
       <div className="text-center">
         <p className="text-sm text-muted-foreground">
           Get started by searching for transcripts or managing your ticker list
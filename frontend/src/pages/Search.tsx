@@ -36,10 +36,6 @@ const Search = () => {
   });
   
   const [currentPage, setCurrentPage] = useState(1);
-  const [keywordRequirements, setKeywordRequirements] = useState<{[key: string]: boolean}>(() => {
-    const saved = localStorage.getItem('searchKeywordRequirements');
-    return saved ? JSON.parse(saved) : {};
-  });
   
   const [filters, setFilters] = useState(() => {
     const savedFilters = localStorage.getItem('searchFilters');
@@ -49,6 +45,7 @@ const Search = () => {
       quarters: '',
       dateFrom: '',
       dateTo: '',
+      periodBasis: 'fiscal',
     };
   });
   const [availableTickers, setAvailableTickers] = useState<Array<{ticker: string, companyName: string}>>([]);
@@ -59,14 +56,13 @@ const Search = () => {
   const [ollamaStatus, setOllamaStatus] = useState<{available: boolean, model?: string}>({available: false});
 
   // Save state to localStorage and update URL
-  const saveSearchState = (newQuery?: string, newResults?: any, newType?: string, newSort?: string, newSource?: string, newFilters?: any, newKeywordReqs?: any) => {
+  const saveSearchState = (newQuery?: string, newResults?: any, newType?: string, newSort?: string, newSource?: string, newFilters?: any) => {
     const queryToSave = newQuery !== undefined ? newQuery : query;
     const resultsToSave = newResults !== undefined ? newResults : results;
     const typeToSave = newType !== undefined ? newType : searchType;
     const sortToSave = newSort !== undefined ? newSort : sortBy;
     const sourceToSave = newSource !== undefined ? newSource : searchSource;
     const filtersToSave = newFilters !== undefined ? newFilters : filters;
-    const keywordReqsToSave = newKeywordReqs !== undefined ? newKeywordReqs : keywordRequirements;
 
     // Save to localStorage
     localStorage.setItem('searchQuery', queryToSave);
@@ -75,7 +71,6 @@ const Search = () => {
     localStorage.setItem('searchSortBy', sortToSave);
     localStorage.setItem('searchSource', sourceToSave);
     localStorage.setItem('searchFilters', JSON.stringify(filtersToSave));
-    localStorage.setItem('searchKeywordRequirements', JSON.stringify(keywordReqsToSave));
 
     // Update URL parameters
     const newSearchParams = new URLSearchParams();
@@ -129,7 +124,7 @@ const Search = () => {
     if (query || results) {
       saveSearchState();
     }
-  }, [query, searchType, sortBy, filters, keywordRequirements]);
+  }, [query, searchType, sortBy, filters]);
 
   // Auto-search when returning to page with saved query
   React.useEffect(() => {
@@ -333,11 +328,6 @@ const Search = () => {
 
     setLoading(true);
     try {
-      // Parse keywords and their requirements
-      const keywords = query.split(/\s+/).filter(k => k.trim().length > 0);
-      const requiredKeywords = keywords.filter(keyword => keywordRequirements[keyword] !== false);
-      const optionalKeywords = keywords.filter(keyword => keywordRequirements[keyword] === false);
-
       // For phrase search, treat the entire query as one phrase
       if (searchType === 'phrase') {
         const phraseQuery = query.trim();
@@ -362,6 +352,9 @@ const Search = () => {
         if (filters.dateTo) {
           searchFilters.dateTo = filters.dateTo;
         }
+        if (filters.periodBasis === 'calendar') {
+          searchFilters.periodBasis = 'calendar';
+        }
 
         const response = await fetch('http://localhost:3001/api/search/enhanced', {
           method: 'POST',
@@ -369,7 +362,7 @@ const Search = () => {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            query: phraseQuery,
+            query: `"${phraseQuery.replace(/"/g, ' ')}"`,
             type: 'keyword',
             source: searchSource,
             filters: searchFilters,
@@ -402,12 +395,10 @@ const Search = () => {
         return;
       }
 
-      // Regular keyword search logic
+      // Regular keyword search logic; the backend parses AND/OR/NOT, quotes and field prefixes
       const searchFilters: any = {
         limit: 20,
         offset: 0,
-        requiredKeywords,
-        optionalKeywords,
       };
 
       if (filters.tickers) {
@@ -425,6 +416,9 @@ const Search = () => {
       if (filters.dateTo) {
         searchFilters.dateTo = filters.dateTo;
       }
+      if (filters.periodBasis === 'calendar') {
+        searchFilters.periodBasis = 'calendar';
+      }
 
       // Use enhanced search endpoint for all search types
       const response = await fetch('http://localhost:3001/api/search/enhanced', {
@@ -433,7 +427,7 @@ const Search = () => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          query: keywords.join(' '),
+          query: query.trim(),
           type: searchType,
           source: searchSource,
           filters: searchFilters,
@@ -445,6 +439,11 @@ const Search = () => {
       });
 
       if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        if (response.status === 400 && error?.error) {
+          toast(error.error, 'error'); // Query syntax problem
+          return;
+        }
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
@@ -453,7 +452,7 @@ const Search = () => {
       setCurrentPage(1); // Reset page to 1 after new search
       
       // Save search state
-      saveSearchState(query, data, searchType, sortBy, searchSource, filters, keywordRequirements);
+      saveSearchState(query, data, searchType, sortBy, searchSource, filters);
       
       toast(
         `Found ${data.total} results in ${data.executionTime}ms`, 
@@ -499,6 +498,9 @@ const Search = () => {
       if (filters.dateTo) {
         searchFilters.dateTo = filters.dateTo;
       }
+      if (filters.periodBasis === 'calendar') {
+        searchFilters.periodBasis = 'calendar';
+      }
 
       let endpoint = 'http://localhost:3001/api/search';
       if (searchType === 'regex') {
@@ -514,6 +516,7 @@ const Search = () => {
         },
         body: JSON.stringify({
           query,
+          searchType, // A phrase search reads the whole query as one phrase
           filters: searchFilters,
           highlight: true,
           sortBy,
@@ -556,6 +559,7 @@ const Search = () => {
       quarters: '',
       dateFrom: '',
       dateTo: '',
+      periodBasis: 'fiscal',
     });
     setCurrentPage(1); // Reset page to 1 when clearing filters
     
@@ -565,7 +569,6 @@ const Search = () => {
     localStorage.removeItem('searchType');
     localStorage.removeItem('searchSortBy');
     localStorage.removeItem('searchFilters');
-    localStorage.removeItem('searchKeywordRequirements');
     
     // Clear URL parameters
     setSearchParams({});
@@ -606,44 +609,28 @@ const Search = () => {
               type="text"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
-              placeholder="Enter keywords separated by spaces (e.g., revenue growth AI)"
+              placeholder='e.g. (guidance OR outlook) -china speaker:"Colette Kress"'
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:border-gray-600 dark:text-white"
               disabled={loading || loadingMore}
               onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
             />
             <p className="text-xs text-gray-500 mt-1">
-              Each keyword will be searched separately. Use checkboxes below to mark required keywords.
+              All words must appear; join optional words with <span className="font-mono">OR</span> (e.g. <span className="font-mono">guidance OR outlook</span>). Use <span className="font-mono">NOT</span> or <span className="font-mono">-word</span>, parentheses, <span className="font-mono">"exact phrases"</span> and <span className="font-mono">prefix*</span> wildcards.
             </p>
           </div>
 
-          {/* Keyword Selection */}
-          {query.trim() && searchType !== 'phrase' && (
+          {/* Query Syntax Help */}
+          {query.trim() && searchType === 'keyword' && (
             <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
-              <h4 className="text-sm font-medium mb-3">Keyword Requirements</h4>
-              <div className="space-y-2">
-                {query.split(/\s+/).filter(k => k.trim().length > 0).map((keyword, index) => (
-                  <div key={index} className="flex items-center space-x-3">
-                    <input
-                      type="checkbox"
-                      id={`keyword-${index}`}
-                      checked={keywordRequirements[keyword] !== false}
-                      onChange={(e) => setKeywordRequirements(prev => ({
-                        ...prev,
-                        [keyword]: e.target.checked
-                      }))}
-                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor={`keyword-${index}`} className="text-sm">
-                      <span className="font-medium">{keyword}</span>
-                      <span className="text-gray-500 ml-1">
-                        {keywordRequirements[keyword] !== false ? '(required)' : '(optional)'}
-                      </span>
-                    </label>
-                  </div>
-                ))}
-              </div>
+              <h4 className="text-sm font-medium mb-3">Field Prefixes</h4>
+              <ul className="space-y-1 text-sm">
+                <li><span className="font-mono">ticker:NVDA</span> or <span className="font-mono">ticker:NV*</span> - company</li>
+                <li><span className="font-mono">year:2025</span>, <span className="font-mono">quarter:Q1</span> - period (fiscal or calendar, as set in the filters below)</li>
+                <li><span className="font-mono">speaker:"Colette Kress"</span> - only what this speaker said</li>
+                <li><span className="font-mono">section:qa</span> or <span className="font-mono">section:prepared</span> - only the Q&amp;A or the prepared remarks</li>
+              </ul>
               <p className="text-xs text-gray-500 mt-2">
-                ✓ Checked = Must appear in transcript | ☐ Unchecked = Optional
+                speaker: and section: need transcripts with speaker segments and can't be used inside OR or NOT.
               </p>
             </div>
           )}
@@ -656,7 +643,7 @@ const Search = () => {
                 Searching for exact phrase: <span className="font-mono bg-blue-100 dark:bg-blue-800 px-2 py-1 rounded">"{query}"</span>
               </p>
               <p className="text-xs text-blue-600 dark:text-blue-400 mt-2">
-                The entire phrase must appear exactly as written, including spaces and punctuation.
+                The words must appear together in this order (not case-sensitive).
               </p>
             </div>
           )}
@@ -844,6 +831,22 @@ const Search = () => {
               />
             </div>
 
+            <div>
+              <label htmlFor="periodBasis" className="block text-sm font-medium mb-1">
+                Years/quarters are
+              </label>
+              <select
+                id="periodBasis"
+                value={filters.periodBasis || 'fiscal'}
+                onChange={(e) => setFilters((prev: typeof filters) => ({ ...prev, periodBasis: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                disabled={loading || loadingMore}
+              >
+                <option value="fiscal">Fiscal (each company's own)</option>
+                <option value="calendar">Calendar (comparable across companies)</option>
+              </select>
+            </div>
+
             <div>
               <label htmlFor="dateFrom" className="block text-sm font-medium mb-1">
                 Date From
@@ -901,8 +904,13 @@ const Search = () => {
                       <div>
                         <div className="flex items-center gap-2 mb-1">
                           <h4 className="font-semibold text-lg">
-                            {result.ticker} - {result.year} Q{result.quarter}
+                            {result.ticker} - {result.fiscalLabel || `${result.year} Q${result.quarter}`}
                           </h4>
+                          {result.calendarLabel && result.calendarLabel !== result.fiscalLabel && (
+                            <span className="text-sm text-muted-foreground" title="Calendar quarter this fiscal quarter mostly falls in">
+                              (calendar {result.calendarLabel})
+                            </span>
+                          )}
                           {result.source_type === 'ai_summary' && (
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
                               🤖 {result.analystType} AI
@@ -11,29 +11,72 @@ const Tickers = () => {
   const [jobProgress, setJobProgress] = useState<any>(null);
   const [backgroundJobs, setBackgroundJobs] = useState<any[]>([]);
   const [quarterCount, setQuarterCount] = useState<number>(1);
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [reconcileReport, setReconcileReport] = useState<any>(null);
+  const [reconciling, setReconciling] = useState(false);
+  const [startingBackfill, setStartingBackfill] = useState(false);
+  const [conflictStrategy, setConflictStrategy] = useState<'report' | 'prefer-database' | 'prefer-cache'>('report');
+  const [watchlists, setWatchlists] = useState<any[]>([]);
+  const [watchlistForm, setWatchlistForm] = useState({ name: '', tickers: '', schedule: '0 7 * * 1-5', quartersToCheck: 2, dueOnly: false });
+  const [watchlistRuns, setWatchlistRuns] = useState<{ watchlistId: string; runs: any[] } | null>(null);
+  const [providers, setProviders] = useState<any[]>([]);
+  const [provider, setProvider] = useState('api_ninjas');
+  const [manualForm, setManualForm] = useState({ ticker: '', year: new Date().getFullYear(), quarter: 1, callDate: '', companyName: '', overwrite: false });
+  const [manualFile, setManualFile] = useState<File | null>(null);
+  const [manualUploading, setManualUploading] = useState(false);
+  const [manualResult, setManualResult] = useState<any>(null);
+  const [jobEstimate, setJobEstimate] = useState<{ kind: 'upload' | 'fetch'; estimate: any } | null>(null);
+  const [retryPanel, setRetryPanel] = useState<{
+    jobId: string;
+    groups: Array<{ reason: string; kind: 'failed' | 'not_available' | 'not_attempted'; tickers: string[] }>;
+    selected: string[];
+    widenQuarters: number;
+    estimate: any;
+  } | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  const [estimating, setEstimating] = useState(false);
+  const [fiscalCalendars, setFiscalCalendars] = useState<any[]>([]);
+  const [fiscalForm, setFiscalForm] = useState({ ticker: '', fiscalYearEndMonth: 12 });
+  const progressStreamRef = useRef<EventSource | null>(null);
   const navigate = useNavigate();
 
   // Load background jobs on component mount
   useEffect(() => {
     loadBackgroundJobs();
-    // Set up interval to check for background jobs every 5 seconds
-    const interval = setInterval(loadBackgroundJobs, 5000);
-    return () => clearInterval(interval);
+    loadReconcileReport();
+    loadWatchlists();
+    loadProviders();
+    loadFiscalCalendars();
+
+    // Keep the background jobs list live from the job event stream
+    const jobStream = new EventSource('http://localhost:3001/api/jobs/stream');
+    jobStream.addEventListener('snapshot', (event) => {
+      setBackgroundJobs(JSON.parse((event as MessageEvent).data).jobs);
+    });
+    ['created', 'started', 'progress', 'paused', 'resumed', 'cancelled', 'completed'].forEach((type) => {
+      jobStream.addEventListener(type, (event) => {
+        const job = JSON.parse((event as MessageEvent).data);
+        setBackgroundJobs((jobs) => jobs.some((j) => j.id === job.id)
+          ? jobs.map((j) => (j.id === job.id ? job : j))
+          : [job, ...jobs]);
+      });
+    });
+    jobStream.addEventListener('cleared', (event) => {
+      const { jobIds } = JSON.parse((event as MessageEvent).data);
+      setBackgroundJobs((jobs) => jobs.filter((j) => !jobIds.includes(j.id)));
+    });
+    return () => jobStream.close();
   }, []);
 
-  // Clean up progress interval on unmount
+  // Close the progress stream on unmount
   useEffect(() => {
     return () => {
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-      }
+      progressStreamRef.current?.close();
     };
   }, []);
 
   const loadBackgroundJobs = async () => {
     try {
-      const response = await fetch('http://localhost:3001/api/jobs/enhanced');
+      const response = await fetch('http://localhost:3001/api/jobs');
       if (response.ok) {
         const data = await response.json();
         setBackgroundJobs(data.jobs);
@@ -43,10 +86,278 @@ const Tickers = () => {
     }
   };
 
+  const loadReconcileReport = async () => {
+    try {
+      const response = await fetch('http://localhost:3001/api/transcripts/reconcile');
+      if (response.ok) {
+        const data = await response.json();
+        setReconcileReport(data.report);
+      }
+    } catch (error) {
+      console.error('Failed to load reconciliation report:', error);
+    }
+  };
+
+  const loadFiscalCalendars = async () => {
+    try {
+      const response = await fetch('http://localhost:3001/api/fiscal-calendars');
+      if (response.ok) {
+        const data = await response.json();
+        setFiscalCalendars(data.calendars);
+      }
+    } catch (error) {
+      console.error('Failed to load fiscal calendars:', error);
+    }
+  };
+
+  const saveFiscalCalendar = async () => {
+    const ticker = fiscalForm.ticker.trim().toUpperCase();
+    if (!ticker) {
+      alert('Please enter a ticker');
+      return;
+    }
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/tickers/${encodeURIComponent(ticker)}/fiscal-year`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ fiscalYearEndMonth: fiscalForm.fiscalYearEndMonth }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setFiscalForm({ ...fiscalForm, ticker: '' });
+        loadFiscalCalendars();
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      alert(`Failed to save fiscal calendar: ${error}`);
+    }
+  };
+
+  const resetFiscalCalendar = async (ticker: string) => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/tickers/${encodeURIComponent(ticker)}/fiscal-year`, { method: 'DELETE' });
+      const data = await response.json();
+      if (response.ok) {
+        loadFiscalCalendars();
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      alert(`Failed to reset fiscal calendar: ${error}`);
+    }
+  };
+
+  const relearnFiscalCalendars = async () => {
+    try {
+      const response = await fetch('http://localhost:3001/api/fiscal-calendars/learn', { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        alert(`Checked ${data.tickers} tickers: ${data.learned} updated, ${data.unchanged} unchanged, ${data.undetermined} without enough call dates`);
+        loadFiscalCalendars();
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      alert(`Failed to learn fiscal calendars: ${error}`);
+    }
+  };
+
+  const startSplitBackfill = async () => {
+    setStartingBackfill(true);
+    try {
+      const response = await fetch('http://localhost:3001/api/jobs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type: 'split-backfill', params: { provider } }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        alert(`Speaker segment backfill started for ${data.itemCount} transcripts. Job ID: ${data.jobId}`);
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      alert(`Failed to start speaker segment backfill: ${error}`);
+    } finally {
+      setStartingBackfill(false);
+    }
+  };
+
+  const runReconcile = async (dryRun: boolean) => {
+    setReconciling(true);
+    try {
+      const response = await fetch('http://localhost:3001/api/transcripts/reconcile', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ dryRun, conflictStrategy }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setReconcileReport(data.report);
+      } else {
+        alert(`Error: ${data.error}${data.details ? ` - ${data.details}` : ''}`);
+      }
+    } catch (error) {
+      alert(`Failed to reconcile cache and database: ${error}`);
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  const loadProviders = async () => {
+    try {
+      const response = await fetch('http://localhost:3001/api/transcript-providers');
+      if (response.ok) {
+        const data = await response.json();
+        setProviders(data.providers);
+      }
+    } catch (error) {
+      console.error('Failed to load transcript providers:', error);
+    }
+  };
+
+  const loadWatchlists = async () => {
+    try {
+      const response = await fetch('http://localhost:3001/api/watchlists');
+      if (response.ok) {
+        const data = await response.json();
+        setWatchlists(data.watchlists);
+      }
+    } catch (error) {
+      console.error('Failed to load watchlists:', error);
+    }
+  };
+
+  const createWatchlist = async () => {
+    const tickerList = watchlistForm.tickers
+      .split(/[\n,\r\t\s]+/)
+      .map(t => t.trim().toUpperCase())
+      .filter(t => t.length > 0);
+
+    try {
+      const response = await fetch('http://localhost:3001/api/watchlists', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...watchlistForm, tickers: tickerList }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setWatchlistForm({ ...watchlistForm, name: '', tickers: '' });
+        loadWatchlists();
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      alert(`Failed to create watchlist: ${error}`);
+    }
+  };
+
+  const handleWatchlistAction = async (watchlist: any, action: 'run' | 'toggle' | 'delete') => {
+    if (action === 'delete' && !confirm(`Delete watchlist "${watchlist.name}" and its run history?`)) {
+      return;
+    }
+
+    try {
+      const response = action === 'run'
+        ? await fetch(`http://localhost:3001/api/watchlists/${watchlist.id}/run`, { method: 'POST' })
+        : action === 'toggle'
+          ? await fetch(`http://localhost:3001/api/watchlists/${watchlist.id}`, {
+              method: 'PUT',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({ enabled: !watchlist.enabled }),
+            })
+          : await fetch(`http://localhost:3001/api/watchlists/${watchlist.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        alert(`Error: ${errorData.error}`);
+      }
+      loadWatchlists();
+    } catch (error) {
+      alert(`Failed to ${action} watchlist: ${error}`);
+    }
+  };
+
+  const toggleWatchlistRuns = async (watchlistId: string) => {
+    if (watchlistRuns?.watchlistId === watchlistId) {
+      setWatchlistRuns(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/watchlists/${watchlistId}/runs?limit=20`);
+      if (response.ok) {
+        const data = await response.json();
+        setWatchlistRuns({ watchlistId, runs: data.runs });
+      }
+    } catch (error) {
+      console.error('Failed to load watchlist runs:', error);
+    }
+  };
+
   const addPopularTickers = () => {
     setTickers('AAPL, MSFT, GOOGL, TSLA, NVDA');
   };
 
+  const uploadManualTranscript = async () => {
+    if (!manualFile || !manualForm.ticker.trim()) {
+      alert('Please choose a transcript file and enter a ticker');
+      return;
+    }
+
+    setManualUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', manualFile);
+      formData.append('ticker', manualForm.ticker.trim().toUpperCase());
+      formData.append('year', String(manualForm.year));
+      formData.append('quarter', String(manualForm.quarter));
+      formData.append('callDate', manualForm.callDate);
+      formData.append('companyName', manualForm.companyName);
+      formData.append('overwrite', String(manualForm.overwrite));
+
+      const response = await fetch('http://localhost:3001/api/transcripts/upload', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setManualResult(data.transcript);
+        setManualFile(null);
+      } else {
+        alert(`Upload failed: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Manual transcript upload error:', error);
+      alert('Error uploading transcript');
+    } finally {
+      setManualUploading(false);
+    }
+  };
+
+  // Non-empty lines, less the header row of a CSV/TSV ticker file
+  const countFileTickers = (content: string) => {
+    const lines = content.split('\n').filter(line => line.trim());
+    return /^\W*(ticker|symbol)\b/i.test(lines[0] ?? '') && /[,\t]/.test(lines[0]) ? lines.length - 1 : lines.length;
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -56,8 +367,7 @@ const Tickers = () => {
         const content = e.target?.result as string;
         setFileContent(content);
         // Parse and display ticker count
-        const lines = content.split('\n').filter(line => line.trim());
-        const tickerCount = lines.length;
+        const tickerCount = countFileTickers(content);
         alert(`File loaded: ${tickerCount} tickers found`);
       };
       reader.readAsText(file);
@@ -81,7 +391,7 @@ const Tickers = () => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ fileContent, quarterCount }),
+        body: JSON.stringify({ fileContent, quarterCount, provider }),
         signal: controller.signal,
       });
 
@@ -98,7 +408,7 @@ const Tickers = () => {
         let errorMessage = 'Unknown error';
         try {
           const errorData = await response.json();
-          errorMessage = errorData.error || errorMessage;
+          errorMessage = (errorData.error || errorMessage) + formatRowErrors(errorData.rowErrors);
         } catch (parseError) {
           errorMessage = `HTTP ${response.status}: ${response.statusText}`;
         }
@@ -120,51 +430,227 @@ const Tickers = () => {
   };
 
   const startProgressMonitoring = (jobId: string) => {
-    // Clear any existing interval
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-    }
-
-    // Check progress every 2 seconds
-    progressIntervalRef.current = setInterval(async () => {
-      try {
-        const response = await fetch(`http://localhost:3001/api/jobs/${jobId}/progress`);
-        if (response.ok) {
-          const progress = await response.json();
-          setJobProgress(progress);
-          
-          // If job is completed, stop monitoring
-          if (progress.status === 'completed' || progress.status === 'failed' || progress.status === 'cancelled') {
-            if (progressIntervalRef.current) {
-              clearInterval(progressIntervalRef.current);
-              progressIntervalRef.current = null;
-            }
-            
-            // Show detailed completion message
-            let message = `Job ${progress.status}!\n\n`;
-            message += `✅ Processed: ${progress.progress.processed.length}\n`;
-            message += `❌ Failed: ${progress.progress.failed.length}\n`;
-            message += `⏭️ Skipped: ${progress.progress.skipped.length}\n`;
-            
-            if (progress.progress.failed.length > 0) {
-              message += `\nFailed tickers:\n`;
-              if (progress.progress.failedDetails && progress.progress.failedDetails.length > 0) {
-                progress.progress.failedDetails.forEach((failure: any) => {
-                  message += `  • ${failure.ticker}: ${failure.reason}\n`;
-                });
-              } else {
-                message += `  ${progress.progress.failed.join(', ')}`;
-              }
-            }
-            
-            alert(message);
-            loadBackgroundJobs(); // Refresh job list
+    // Replace any stream for an earlier job
+    progressStreamRef.current?.close();
+
+    const stream = new EventSource(`http://localhost:3001/api/jobs/${jobId}/stream`);
+    progressStreamRef.current = stream;
+
+    const onJobEvent = (event: Event) => {
+      const progress = JSON.parse((event as MessageEvent).data);
+      setJobProgress(progress);
+
+      // Once the job is finished, stop listening
+      if (progress.status === 'completed' || progress.status === 'failed' || progress.status === 'cancelled') {
+        stream.close();
+        if (progressStreamRef.current === stream) {
+          progressStreamRef.current = null;
+        }
+
+        // Show detailed completion message
+        let message = `Job ${progress.status}!\n\n`;
+        message += `✅ Processed: ${progress.progress.processed.length}\n`;
+        message += `❌ Failed: ${progress.progress.failed.length}\n`;
+        message += `⏭️ Skipped: ${progress.progress.skipped.length}\n`;
+
+        if (progress.progress.failed.length > 0) {
+          message += `\nFailed tickers:\n`;
+          if (progress.progress.failedDetails && progress.progress.failedDetails.length > 0) {
+            progress.progress.failedDetails.forEach((failure: any) => {
+              message += `  • ${failure.item}: ${failure.reason}\n`;
+            });
+          } else {
+            message += `  ${progress.progress.failed.join(', ')}`;
           }
         }
-      } catch (error) {
-        console.error('Failed to check progress:', error);
+
+        alert(message);
+      }
+    };
+
+    ['snapshot', 'started', 'progress', 'paused', 'resumed', 'cancelled', 'completed'].forEach((type) => {
+      stream.addEventListener(type, onJobEvent);
+    });
+    stream.onerror = () => {
+      console.error('Job progress stream interrupted; the browser will reconnect');
+    };
+  };
+
+  const parseTickerInput = () => tickers
+    .split(/[\n,\r\t\s]+/)
+    .map(t => t.trim().toUpperCase())
+    .filter(t => t.length > 0);
+
+  // Ticker file rows the server rejected, listed under the error message
+  const formatRowErrors = (rowErrors?: Array<{ line: number; ticker?: string; message: string }>) => {
+    if (!rowErrors || rowErrors.length === 0) return '';
+    const shown = rowErrors.slice(0, 15).map(e => `Line ${e.line}${e.ticker ? ` (${e.ticker})` : ''}: ${e.message}`);
+    return `\n\n${shown.join('\n')}${rowErrors.length > shown.length ? `\n...and ${rowErrors.length - shown.length} more` : ''}`;
+  };
+
+  // Dry run first: show what the job would do before it is started
+  const previewJob = async (kind: 'upload' | 'fetch') => {
+    if (kind === 'upload' ? !fileContent.trim() : !tickers.trim()) {
+      alert(kind === 'upload' ? 'Please upload a file first' : 'Please enter tickers');
+      return;
+    }
+
+    setEstimating(true);
+    try {
+      const response = await fetch(`http://localhost:3001/api/jobs/${kind === 'upload' ? 'bulk-upload' : 'bulk-fetch'}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(kind === 'upload'
+          ? { fileContent, quarterCount, provider, dryRun: true }
+          : { tickers: parseTickerInput(), quarterCount, provider, dryRun: true }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setJobEstimate({ kind, estimate: data.estimate });
+      } else {
+        alert(`Cannot start job: ${data.error}${formatRowErrors(data.rowErrors)}`);
       }
-    }, 2000);
+    } catch (error) {
+      console.error('Job estimate error:', error);
+      alert('Error estimating job');
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  const confirmJob = () => {
+    const kind = jobEstimate?.kind;
+    setJobEstimate(null);
+    if (kind === 'upload') {
+      handleBulkUpload();
+    } else if (kind === 'fetch') {
+      handleBulkFetch();
+    }
+  };
+
+  // Retry a finished job's failed tickers: preview the failure groups, then start a child job
+  const requestRetry = (jobId: string, body: object) =>
+    fetch(`http://localhost:3001/api/jobs/${jobId}/retry-failed`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+  const openRetryPanel = async (jobId: string, widenQuarters = 0) => {
+    setRetrying(true);
+    try {
+      const response = await requestRetry(jobId, { includeNotAvailable: true, widenQuarters, dryRun: true });
+      const data = await response.json();
+      if (response.ok) {
+        setRetryPanel(current => ({
+          jobId,
+          groups: data.groups,
+          selected: current?.jobId === jobId
+            ? current.selected
+            : data.groups.filter((g: any) => g.kind !== 'not_available').map((g: any) => g.reason),
+          widenQuarters,
+          estimate: data.estimate,
+        }));
+      } else {
+        alert(`Cannot retry job: ${data.error}`);
+      }
+    } catch (error) {
+      alert(`Failed to load failed tickers: ${error}`);
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const toggleRetryGroup = (reason: string) => {
+    setRetryPanel(panel => panel && {
+      ...panel,
+      selected: panel.selected.includes(reason)
+        ? panel.selected.filter(r => r !== reason)
+        : [...panel.selected, reason],
+    });
+  };
+
+  const startRetry = async () => {
+    if (!retryPanel || retryPanel.selected.length === 0) return;
+
+    setRetrying(true);
+    try {
+      const includeNotAvailable = retryPanel.groups.some(g => g.kind === 'not_available' && retryPanel.selected.includes(g.reason));
+      const response = await requestRetry(retryPanel.jobId, {
+        includeNotAvailable,
+        reasons: retryPanel.selected,
+        widenQuarters: retryPanel.widenQuarters,
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setRetryPanel(null);
+        setCurrentJob(data);
+        alert(`Retry job started for ${data.tickerCount} tickers. Job ID: ${data.jobId}`);
+        startProgressMonitoring(data.jobId);
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      alert(`Failed to start retry job: ${error}`);
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const canRetry = (job: any) =>
+    job.type === 'transcript-fetch'
+    && ['completed', 'failed', 'cancelled'].includes(job.status)
+    && (job.failed > 0 || job.progress.current < job.progress.total);
+
+  const formatDuration = (seconds: number) => {
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.round(seconds / 60);
+    return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  const renderJobEstimate = (kind: 'upload' | 'fetch') => {
+    if (!jobEstimate || jobEstimate.kind !== kind) return null;
+    const estimate = jobEstimate.estimate;
+
+    return (
+      <div className="p-4 bg-blue-50 border border-blue-200 rounded text-sm space-y-1">
+        <div className="font-semibold mb-2">🔍 Dry run ({estimate.provider})</div>
+        <div>Tickers: {estimate.tickers} ({estimate.coveredTickers} already covered, {estimate.tickersToFetch} to fetch)</div>
+        <div>Quarters to check: {estimate.quartersConsidered.toLocaleString()} ({estimate.storedQuarters} already stored)</div>
+        <div>Skipped as known unavailable: {estimate.knownUnavailable}</div>
+        <div>API calls: {estimate.apiCalls.min.toLocaleString()} – {estimate.apiCalls.max.toLocaleString()}</div>
+        <div>
+          Estimated time: {formatDuration(estimate.estimatedSeconds.min)} – {formatDuration(estimate.estimatedSeconds.max)}
+          {estimate.requestsPerSecond !== null && ` (at ${estimate.requestsPerSecond} req/s, ${estimate.secondsPerCall}s per call)`}
+        </div>
+        {estimate.queueBacklog > 0 && (
+          <div className="text-yellow-700">{estimate.queueBacklog} fetch tasks from other jobs are queued ahead</div>
+        )}
+        {estimate.coveredSample.length > 0 && (
+          <div className="text-gray-600">Covered: {estimate.coveredSample.join(', ')}{estimate.coveredTickers > estimate.coveredSample.length ? ', ...' : ''}</div>
+        )}
+        <div className="flex space-x-2 pt-2">
+          <button
+            onClick={confirmJob}
+            disabled={loading || estimate.tickersToFetch === 0}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-bold py-1 px-3 rounded"
+          >
+            ✅ Start Job
+          </button>
+          <button
+            onClick={() => setJobEstimate(null)}
+            className="bg-gray-500 hover:bg-gray-600 text-white font-bold py-1 px-3 rounded"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
   };
 
   const handleBulkFetch = async () => {
@@ -175,10 +661,7 @@ const Tickers = () => {
 
     setLoading(true);
     try {
-      const tickerList = tickers
-        .split(/[\n,\r\t\s]+/)
-        .map(t => t.trim().toUpperCase())
-        .filter(t => t.length > 0);
+      const tickerList = parseTickerInput();
 
       // Use the background job API for progress tracking
       const response = await fetch('http://localhost:3001/api/jobs/bulk-fetch', {
@@ -188,7 +671,8 @@ const Tickers = () => {
         },
         body: JSON.stringify({ 
           tickers: tickerList,
-          quarterCount: quarterCount 
+          quarterCount: quarterCount,
+          provider
         }),
       });
 
@@ -264,6 +748,16 @@ const Tickers = () => {
     }
   };
 
+  const describeJob = (job: any) => {
+    switch (job.type) {
+      case 'transcript-fetch': return `${job.itemCount} tickers`;
+      case 'ai-processing': return `AI summaries for ${job.itemCount} transcripts`;
+      case 'reconciliation': return 'Cache / database sync';
+      case 'split-backfill': return `Speaker segments for ${job.itemCount} transcripts`;
+      default: return `${job.itemCount} items`;
+    }
+  };
+
   const formatProgress = (job: any) => {
     const progress = job.progress;
     const percentage = progress.total > 0 ? Math.round((progress.current / progress.total) * 100) : 0;
@@ -281,18 +775,22 @@ const Tickers = () => {
           <div className="space-y-4">
             <div>
               <label className="block text-sm font-medium mb-2">
-                Upload ticker file (TXT format with TICKER\tCompany Name)
+                Upload ticker file (TXT with one ticker per line, or CSV/TSV with a header row)
               </label>
               <input
                 type="file"
-                accept=".txt"
+                accept=".txt,.csv,.tsv"
                 onChange={handleFileUpload}
                 className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
               />
+              <p className="text-xs text-gray-500 mt-1">
+                CSV/TSV columns: ticker, company name, sector, from quarter, to quarter, quarters (e.g. 2022Q1-2025Q2 or latest 4), priority.
+                Rows with their own quarters override the quarter count below.
+              </p>
             </div>
             {selectedFile && (
               <div className="text-sm text-gray-600">
-                Selected: {selectedFile.name} ({fileContent.split('\n').filter(line => line.trim()).length} tickers)
+                Selected: {selectedFile.name} ({countFileTickers(fileContent)} tickers)
               </div>
             )}
             <div>
@@ -312,13 +810,29 @@ const Tickers = () => {
                 <option value={8}>8 quarters</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Transcript source
+              </label>
+              <select
+                value={provider}
+                onChange={(e) => setProvider(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {providers.length === 0 && <option value="api_ninjas">API Ninjas</option>}
+                {providers.map((p) => (
+                  <option key={p.name} value={p.name}>{p.description}</option>
+                ))}
+              </select>
+            </div>
             <button
-              onClick={handleBulkUpload}
-              disabled={loading || !fileContent}
+              onClick={() => previewJob('upload')}
+              disabled={loading || estimating || !fileContent}
               className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded"
             >
-              {loading ? 'Starting Upload...' : '🚀 Start Bulk Upload'}
+              {loading ? 'Starting Upload...' : estimating ? 'Estimating...' : '🚀 Start Bulk Upload'}
             </button>
+            {renderJobEstimate('upload')}
           </div>
         </div>
 
@@ -337,6 +851,21 @@ const Tickers = () => {
                 className="w-full h-32 p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Transcript source
+              </label>
+              <select
+                value={provider}
+                onChange={(e) => setProvider(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {providers.length === 0 && <option value="api_ninjas">API Ninjas</option>}
+                {providers.map((p) => (
+                  <option key={p.name} value={p.name}>{p.description}</option>
+                ))}
+              </select>
+            </div>
             <div className="flex space-x-2">
               <button
                 onClick={addPopularTickers}
@@ -345,16 +874,424 @@ const Tickers = () => {
                 Add Popular Tickers
               </button>
               <button
-                onClick={handleBulkFetch}
-                disabled={loading || !tickers.trim()}
+                onClick={() => previewJob('fetch')}
+                disabled={loading || estimating || !tickers.trim()}
                 className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded"
               >
-                {loading ? 'Fetching...' : '📥 Fetch Transcripts'}
+                {loading ? 'Fetching...' : estimating ? 'Estimating...' : '📥 Fetch Transcripts'}
               </button>
             </div>
+            {renderJobEstimate('fetch')}
           </div>
         </div>
 
+        {/* Manual Transcript Upload Section */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">📄 Upload a Transcript</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Add a transcript API Ninjas doesn't carry. Plain text or HTML; speakers are detected from "Name: ..." lines or a name on its own line.
+          </p>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <input
+              type="text"
+              value={manualForm.ticker}
+              onChange={(e) => setManualForm({ ...manualForm, ticker: e.target.value })}
+              placeholder="Ticker (e.g. NVDA)"
+              className="p-2 border border-gray-300 rounded-md"
+            />
+            <input
+              type="text"
+              value={manualForm.companyName}
+              onChange={(e) => setManualForm({ ...manualForm, companyName: e.target.value })}
+              placeholder="Company name (optional)"
+              className="p-2 border border-gray-300 rounded-md"
+            />
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                value={manualForm.year}
+                onChange={(e) => setManualForm({ ...manualForm, year: Number(e.target.value) })}
+                title="Fiscal year"
+                className="w-1/2 p-2 border border-gray-300 rounded-md"
+              />
+              <select
+                value={manualForm.quarter}
+                onChange={(e) => setManualForm({ ...manualForm, quarter: Number(e.target.value) })}
+                className="w-1/2 p-2 border border-gray-300 rounded-md"
+              >
+                <option value={1}>Q1</option>
+                <option value={2}>Q2</option>
+                <option value={3}>Q3</option>
+                <option value={4}>Q4</option>
+              </select>
+            </div>
+            <input
+              type="date"
+              value={manualForm.callDate}
+              onChange={(e) => setManualForm({ ...manualForm, callDate: e.target.value })}
+              title="Call date"
+              className="p-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="space-y-4">
+            <input
+              type="file"
+              accept=".txt,.html,.htm"
+              onChange={(e) => setManualFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={manualForm.overwrite}
+                onChange={(e) => setManualForm({ ...manualForm, overwrite: e.target.checked })}
+              />
+              <span>Replace an existing transcript for this quarter</span>
+            </label>
+            <button
+              onClick={uploadManualTranscript}
+              disabled={manualUploading || !manualFile || !manualForm.ticker.trim()}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded"
+            >
+              {manualUploading ? 'Uploading...' : '📤 Upload Transcript'}
+            </button>
+            {manualResult && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded text-sm">
+                {manualResult.replaced ? 'Replaced' : 'Added'} {manualResult.ticker} Q{manualResult.quarter} {manualResult.year}: {manualResult.transcriptLength.toLocaleString()} characters, {manualResult.segmentCount} speaker segments ({manualResult.speakers.length} speakers).{' '}
+                <button
+                  onClick={() => navigate(`/transcript/${manualResult.id}`)}
+                  className="text-blue-600 hover:underline"
+                >
+                  View transcript
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Scheduled Watchlists Section */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold">⏰ Scheduled Watchlists</h2>
+            <button
+              onClick={loadWatchlists}
+              className="bg-gray-500 hover:bg-gray-600 text-white text-sm py-1 px-3 rounded"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Each watchlist probes the newest quarters of its tickers on a cron schedule and ingests any transcript that is not stored yet.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-2">
+            <input
+              value={watchlistForm.name}
+              onChange={(e) => setWatchlistForm({ ...watchlistForm, name: e.target.value })}
+              placeholder="Name (e.g. Mega caps)"
+              className="p-2 border border-gray-300 rounded-md text-sm dark:bg-gray-700"
+            />
+            <input
+              value={watchlistForm.schedule}
+              onChange={(e) => setWatchlistForm({ ...watchlistForm, schedule: e.target.value })}
+              placeholder="Cron schedule"
+              title="Cron expression: minute hour day-of-month month day-of-week"
+              className="p-2 border border-gray-300 rounded-md text-sm font-mono dark:bg-gray-700"
+            />
+            <select
+              value={watchlistForm.quartersToCheck}
+              onChange={(e) => setWatchlistForm({ ...watchlistForm, quartersToCheck: Number(e.target.value) })}
+              className="p-2 border border-gray-300 rounded-md text-sm dark:bg-gray-700"
+            >
+              <option value={1}>Check newest quarter</option>
+              <option value={2}>Check 2 newest quarters</option>
+              <option value={4}>Check 4 newest quarters</option>
+            </select>
+          </div>
+          <textarea
+            value={watchlistForm.tickers}
+            onChange={(e) => setWatchlistForm({ ...watchlistForm, tickers: e.target.value })}
+            placeholder="AAPL, MSFT, GOOGL"
+            className="w-full h-20 p-3 border border-gray-300 rounded-md text-sm mb-2 dark:bg-gray-700"
+          />
+          <label className="flex items-center space-x-2 text-sm mb-2">
+            <input
+              type="checkbox"
+              checked={watchlistForm.dueOnly}
+              onChange={(e) => setWatchlistForm({ ...watchlistForm, dueOnly: e.target.checked })}
+            />
+            <span>Scheduled runs only probe tickers whose predicted call window is open or past</span>
+          </label>
+          <button
+            onClick={createWatchlist}
+            disabled={!watchlistForm.name.trim() || !watchlistForm.tickers.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded mb-4"
+          >
+            ➕ Create Watchlist
+          </button>
+
+          {watchlists.length === 0 ? (
+            <p className="text-gray-600">No watchlists yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {watchlists.map((watchlist) => (
+                <div key={watchlist.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <span className="font-semibold">{watchlist.name}</span>
+                      <span className="text-sm text-gray-600 ml-2">{watchlist.tickers.length} tickers</span>
+                      <span className="text-sm font-mono text-gray-500 ml-2">{watchlist.schedule} ({watchlist.timezone})</span>
+                      {watchlist.dueOnly && <span className="text-sm text-gray-500 ml-2">📆 due tickers only</span>}
+                    </div>
+                    <span className={`text-sm font-semibold ${watchlist.enabled ? 'text-green-600' : 'text-gray-600'}`}>
+                      {watchlist.enabled ? 'ENABLED' : 'DISABLED'}
+                    </span>
+                  </div>
+
+                  <div className="text-sm text-gray-600 mb-3">
+                    {watchlist.nextRunAt && <div>Next run: {new Date(watchlist.nextRunAt).toLocaleString()}</div>}
+                    {watchlist.lastRun ? (
+                      <div>
+                        Last run: {new Date(watchlist.lastRun.startedAt).toLocaleString()} ({watchlist.lastRun.status})
+                        <span className="ml-2">🆕 {watchlist.lastRun.newTranscripts}</span>
+                        <span className="ml-2">✔️ {watchlist.lastRun.upToDate}</span>
+                        <span className="ml-2">⏳ {watchlist.lastRun.notAvailable}</span>
+                        <span className="ml-2">❌ {watchlist.lastRun.failed}</span>
+                        {watchlist.lastRun.notDue > 0 && <span className="ml-2" title="Skipped: call not expected yet">📆 {watchlist.lastRun.notDue}</span>}
+                      </div>
+                    ) : (
+                      <div>Never run</div>
+                    )}
+                  </div>
+
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleWatchlistAction(watchlist, 'run')}
+                      className="bg-green-600 hover:bg-green-700 text-white text-sm py-1 px-3 rounded"
+                    >
+                      ▶️ Run Now
+                    </button>
+                    <button
+                      onClick={() => handleWatchlistAction(watchlist, 'toggle')}
+                      className="bg-yellow-600 hover:bg-yellow-700 text-white text-sm py-1 px-3 rounded"
+                    >
+                      {watchlist.enabled ? '⏸️ Disable' : '⏯️ Enable'}
+                    </button>
+                    <button
+                      onClick={() => toggleWatchlistRuns(watchlist.id)}
+                      className="bg-gray-600 hover:bg-gray-700 text-white text-sm py-1 px-3 rounded"
+                    >
+                      📜 History
+                    </button>
+                    <button
+                      onClick={() => handleWatchlistAction(watchlist, 'delete')}
+                      className="bg-red-600 hover:bg-red-700 text-white text-sm py-1 px-3 rounded"
+                    >
+                      🗑️ Delete
+                    </button>
+                  </div>
+
+                  {watchlistRuns && watchlistRuns.watchlistId === watchlist.id && (
+                    <div className="mt-3 border-t pt-3 max-h-60 overflow-y-auto text-sm text-gray-600">
+                      {watchlistRuns.runs.length === 0 ? (
+                        <div>No runs yet.</div>
+                      ) : (
+                        watchlistRuns.runs.map((run: any) => (
+                          <div key={run.id} className="mb-2">
+                            <div>
+                              <span className="font-semibold">{new Date(run.startedAt).toLocaleString()}</span>
+                              <span className="ml-2">{run.trigger}, {run.status}</span>
+                              <span className="ml-2">🆕 {run.newTranscripts} ✔️ {run.upToDate} ⏳ {run.notAvailable} ❌ {run.failed}</span>
+                            </div>
+                            {run.fetched && run.fetched.length > 0 && (
+                              <div className="ml-4">
+                                {run.fetched.map((item: any) => (
+                                  <span key={`${item.ticker}-${item.year}-${item.quarter}`} className="font-mono mr-2">
+                                    {item.ticker} {item.year}Q{item.quarter}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                            {run.errorMessage && <div className="ml-4 text-red-600">{run.errorMessage}</div>}
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Cache / Database Reconciliation Section */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">🔁 Cache / Database Sync</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Compares cached transcripts with the database by ticker and quarter, copies missing transcripts in both directions and reports transcripts whose text differs.
+          </p>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <select
+              value={conflictStrategy}
+              onChange={(e) => setConflictStrategy(e.target.value as 'report' | 'prefer-database' | 'prefer-cache')}
+              className="p-2 border border-gray-300 rounded-md text-sm dark:bg-gray-700"
+            >
+              <option value="report">Conflicts: report only</option>
+              <option value="prefer-database">Conflicts: keep database text</option>
+              <option value="prefer-cache">Conflicts: keep cache text</option>
+            </select>
+            <button
+              onClick={() => runReconcile(true)}
+              disabled={reconciling}
+              className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded"
+            >
+              Dry Run
+            </button>
+            <button
+              onClick={() => runReconcile(false)}
+              disabled={reconciling}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded"
+            >
+              {reconciling ? 'Reconciling...' : 'Reconcile'}
+            </button>
+          </div>
+
+          {reconcileReport && (
+            <div className="border-t pt-4">
+              <div className="text-sm text-gray-500 mb-2">
+                {reconcileReport.dryRun ? 'Dry run' : 'Run'} at {new Date(reconcileReport.completedAt).toLocaleString()} ({(reconcileReport.durationMs / 1000).toFixed(1)}s)
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm mb-3">
+                <div>Cache: <span className="font-semibold">{reconcileReport.counts.cacheEntries}</span></div>
+                <div>Database: <span className="font-semibold">{reconcileReport.counts.databaseRows}</span></div>
+                <div>Matching: <span className="font-semibold text-green-600">{reconcileReport.counts.matching}</span></div>
+                <div>Conflicts: <span className="font-semibold text-yellow-600">{reconcileReport.counts.conflicts}</span></div>
+                <div>Cache only: <span className="font-semibold">{reconcileReport.counts.cacheOnly}</span></div>
+                <div>Database only: <span className="font-semibold">{reconcileReport.counts.databaseOnly}</span></div>
+                <div>→ Database: <span className="font-semibold">{reconcileReport.counts.backfilledToDatabase}</span></div>
+                <div>→ Cache: <span className="font-semibold">{reconcileReport.counts.backfilledToCache}</span></div>
+                <div>Resolved: <span className="font-semibold">{reconcileReport.counts.conflictsResolved}</span></div>
+                <div>Failed: <span className="font-semibold text-red-600">{reconcileReport.counts.failed}</span></div>
+                <div>Invalid cache entries: <span className="font-semibold">{reconcileReport.counts.invalidCacheEntries}</span></div>
+              </div>
+
+              {reconcileReport.conflicts.length > 0 && (
+                <div className="mt-2">
+                  <h3 className="text-sm font-semibold text-yellow-600 mb-2">⚠️ Content Conflicts:</h3>
+                  <div className="max-h-40 overflow-y-auto text-sm text-gray-600">
+                    {reconcileReport.conflicts.map((conflict: any) => (
+                      <div key={`${conflict.ticker}-${conflict.year}-${conflict.quarter}`} className="mb-1">
+                        <span className="font-mono font-semibold">{conflict.ticker} {conflict.year}Q{conflict.quarter}</span>
+                        <span className="ml-2">cache {conflict.cacheLength.toLocaleString()} chars, database {conflict.databaseLength.toLocaleString()} chars</span>
+                        {conflict.resolution !== 'none' && (
+                          <span className="ml-2 text-green-600">kept {conflict.resolution}</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {reconcileReport.actions.some((action: any) => action.status === 'failed') && (
+                <div className="mt-2">
+                  <h3 className="text-sm font-semibold text-red-600 mb-2">❌ Failed Actions:</h3>
+                  <div className="max-h-32 overflow-y-auto text-sm text-gray-600">
+                    {reconcileReport.actions
+                      .filter((action: any) => action.status === 'failed')
+                      .map((action: any, index: number) => (
+                        <div key={index} className="mb-1">
+                          <span className="font-mono font-semibold">{action.ticker} {action.year}Q{action.quarter}</span>
+                          <span className="ml-2">{action.type}: {action.error}</span>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Speaker Segment Backfill Section */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">🎙️ Speaker Segments</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Fetches speaker, role and company segments for stored transcripts that only have flat text, using the transcript source selected above. The stored text is not changed.
+          </p>
+          <button
+            onClick={startSplitBackfill}
+            disabled={startingBackfill}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded"
+          >
+            {startingBackfill ? 'Starting...' : 'Backfill Speaker Segments'}
+          </button>
+        </div>
+
+        {/* Fiscal Calendars Section */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold">📅 Fiscal Calendars</h2>
+            <button
+              onClick={relearnFiscalCalendars}
+              className="bg-gray-500 hover:bg-gray-600 text-white text-sm py-1 px-3 rounded"
+              title="Work out fiscal year ends again from stored call dates"
+            >
+              Re-learn from call dates
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Each company's fiscal year end is learned from its call dates and used to line fiscal quarters up with calendar periods. Set it here when the learned one is wrong; tickers not listed are treated as calendar-year companies.
+          </p>
+          <div className="flex flex-wrap gap-2 mb-4">
+            <input
+              type="text"
+              value={fiscalForm.ticker}
+              onChange={(e) => setFiscalForm({ ...fiscalForm, ticker: e.target.value })}
+              placeholder="Ticker"
+              className="w-28 p-2 border border-gray-300 rounded-md font-mono uppercase"
+            />
+            <select
+              value={fiscalForm.fiscalYearEndMonth}
+              onChange={(e) => setFiscalForm({ ...fiscalForm, fiscalYearEndMonth: Number(e.target.value) })}
+              className="p-2 border border-gray-300 rounded-md"
+            >
+              {['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'].map((month, index) => (
+                <option key={month} value={index + 1}>Fiscal year ends in {month}</option>
+              ))}
+            </select>
+            <button
+              onClick={saveFiscalCalendar}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+            >
+              Save
+            </button>
+          </div>
+          {fiscalCalendars.length > 0 && (
+            <div className="max-h-64 overflow-y-auto text-sm">
+              {fiscalCalendars.map((calendar) => (
+                <div key={calendar.ticker} className="flex justify-between items-center py-1 border-b border-gray-100">
+                  <div>
+                    <span className="font-mono font-semibold mr-2">{calendar.ticker}</span>
+                    <span>{calendar.description}</span>
+                    <span className="text-gray-500 ml-2">{calendar.example}</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-gray-500">
+                    {calendar.source === 'user' ? (
+                      <>
+                        <span>set by user</span>
+                        <button onClick={() => resetFiscalCalendar(calendar.ticker)} className="text-blue-600 hover:underline">
+                          Reset
+                        </button>
+                      </>
+                    ) : (
+                      <span>learned from {calendar.sampleCount} calls ({Math.round((calendar.confidence ?? 0) * 100)}% agree)</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Background Jobs Section */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
           <div className="flex justify-between items-center mb-4">
@@ -373,15 +1310,20 @@ const Tickers = () => {
           ) : (
             <div className="space-y-4">
               {backgroundJobs.map((job) => (
-                <div key={job.id} className="border border-gray-200 rounded-lg p-4">
+                <div key={job.id} id={`job-${job.id}`} className="border border-gray-200 rounded-lg p-4">
                   <div className="flex justify-between items-start mb-2">
                     <div>
                       <span className={`font-semibold ${getJobStatusColor(job.status)}`}>
                         {job.status.toUpperCase()}
                       </span>
                       <span className="text-sm text-gray-600 ml-2">
-                        {job.tickerCount} tickers
+                        {describeJob(job)}
                       </span>
+                      {job.parentJobId && (
+                        <a href={`#job-${job.parentJobId}`} className="block text-xs text-blue-600 hover:underline mt-1">
+                          ↩ Retry of job {job.parentJobId.slice(0, 8)}
+                        </a>
+                      )}
                     </div>
                     <div className="text-sm text-gray-500">
                       {new Date(job.createdAt).toLocaleString()}
@@ -408,9 +1350,9 @@ const Tickers = () => {
                     <span>⏭️ {job.skipped}</span>
                   </div>
 
-                  {job.currentTicker && (
+                  {job.currentItem && (
                     <div className="text-sm text-gray-600 mb-3">
-                      Currently processing: <span className="font-mono">{job.currentTicker}</span>
+                      Currently processing: <span className="font-mono">{job.currentItem}</span>
                     </div>
                   )}
 
@@ -439,7 +1381,73 @@ const Tickers = () => {
                         ❌ Cancel
                       </button>
                     )}
+                    {canRetry(job) && retryPanel?.jobId !== job.id && (
+                      <button
+                        onClick={() => openRetryPanel(job.id)}
+                        disabled={retrying}
+                        className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm py-1 px-3 rounded"
+                      >
+                        🔁 Retry Failed
+                      </button>
+                    )}
                   </div>
+
+                  {retryPanel && retryPanel.jobId === job.id && (
+                    <div className="mt-3 border-t pt-3 text-sm">
+                      <h3 className="font-semibold mb-2">Retry tickers from these groups:</h3>
+                      <div className="space-y-1 mb-3 max-h-48 overflow-y-auto">
+                        {retryPanel.groups.map((group) => (
+                          <label key={`${group.kind}-${group.reason}`} className="flex items-start space-x-2">
+                            <input
+                              type="checkbox"
+                              checked={retryPanel.selected.includes(group.reason)}
+                              onChange={() => toggleRetryGroup(group.reason)}
+                              className="mt-1"
+                            />
+                            <span>
+                              <span className={group.kind === 'not_available' ? 'text-yellow-600' : 'text-red-600'}>
+                                {group.kind === 'not_available' ? 'Not available' : group.kind === 'not_attempted' ? 'Not attempted' : 'Failed'}
+                              </span>
+                              {' '}({group.tickers.length}): {group.reason}
+                              <span className="block text-xs text-gray-500 font-mono">
+                                {group.tickers.slice(0, 12).join(', ')}{group.tickers.length > 12 ? ` +${group.tickers.length - 12} more` : ''}
+                              </span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <select
+                          value={retryPanel.widenQuarters}
+                          onChange={(e) => openRetryPanel(job.id, Number(e.target.value))}
+                          className="p-1 border border-gray-300 rounded-md text-sm dark:bg-gray-700"
+                        >
+                          <option value={0}>Same quarter window</option>
+                          <option value={4}>Search 4 more quarters back</option>
+                          <option value={8}>Search 8 more quarters back</option>
+                          <option value={12}>Search 12 more quarters back</option>
+                        </select>
+                        {retryPanel.estimate && (
+                          <span className="text-gray-600">
+                            ~{formatDuration(retryPanel.estimate.estimatedSeconds.max)} at most
+                          </span>
+                        )}
+                        <button
+                          onClick={startRetry}
+                          disabled={retrying || retryPanel.selected.length === 0}
+                          className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white text-sm py-1 px-3 rounded"
+                        >
+                          {retrying ? 'Working...' : '✅ Start Retry Job'}
+                        </button>
+                        <button
+                          onClick={() => setRetryPanel(null)}
+                          className="bg-gray-500 hover:bg-gray-600 text-white text-sm py-1 px-3 rounded"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -473,10 +1481,10 @@ const Tickers = () => {
                 <span>Skipped:</span>
                 <span className="text-yellow-600">{jobProgress.progress.skipped.length}</span>
               </div>
-              {jobProgress.progress.currentTicker && (
+              {jobProgress.progress.currentItem && (
                 <div className="flex justify-between">
                   <span>Current:</span>
-                  <span className="font-mono">{jobProgress.progress.currentTicker}</span>
+                  <span className="font-mono">{jobProgress.progress.currentItem}</span>
                 </div>
               )}
               
@@ -489,7 +1497,7 @@ const Tickers = () => {
                       {jobProgress.progress.failedDetails && jobProgress.progress.failedDetails.length > 0 ? (
                         jobProgress.progress.failedDetails.map((failure: any, index: number) => (
                           <div key={index} className="mb-1">
-                            <span className="font-mono font-semibold text-red-600">{failure.ticker}:</span>
+                            <span className="font-mono font-semibold text-red-600">{failure.item}:</span>
                             <span className="ml-2 text-gray-600">{failure.reason}</span>
                           </div>
                         ))
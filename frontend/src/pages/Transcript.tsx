@@ -17,6 +17,11 @@ interface TranscriptData {
   year: number;
   quarter: number;
   callDate?: string;
+  fiscalPeriod?: {
+    fiscalLabel: string; // "FY2026 Q1", or "Q1 2025" for calendar-year companies
+    calendarLabel: string;
+    months: string;
+  };
   fullTranscript: string;
   transcript?: string;
   transcriptSplit?: TranscriptSegment[];
@@ -37,6 +42,9 @@ export default function Transcript() {
   const [ollamaStatus, setOllamaStatus] = useState<{available: boolean, model?: string}>({available: false});
   const [multipleSummaries, setMultipleSummaries] = useState<any>(null);
   const [generatingMultiple, setGeneratingMultiple] = useState(false);
+  const [revisionInfo, setRevisionInfo] = useState<any>(null);
+  const [revisionDiff, setRevisionDiff] = useState<any>(null);
+  const [showRevisionDiff, setShowRevisionDiff] = useState(false);
 
   const highlightQuery = searchParams.get('highlight');
   const searchType = searchParams.get('searchType');
@@ -121,10 +129,47 @@ export default function Transcript() {
       }
     };
 
+    const loadRevisions = async () => {
+      if (!id) return;
+      
+      try {
+        const response = await fetch(`http://localhost:3001/api/transcripts/${id}/revisions`);
+        if (response.ok) {
+          const data = await response.json();
+          setRevisionInfo(data);
+        }
+      } catch (error) {
+        console.error('Error loading transcript revisions:', error);
+      }
+    };
+
             checkGoogleAIStatus();
     loadCachedSummary();
+    loadRevisions();
   }, [id]);
 
+  const toggleRevisionDiff = async () => {
+    if (showRevisionDiff) {
+      setShowRevisionDiff(false);
+      return;
+    }
+
+    if (!revisionDiff) {
+      try {
+        const response = await fetch(`http://localhost:3001/api/transcripts/${id}/revisions/diff`);
+        if (!response.ok) {
+          throw new Error(`Failed to load changes: ${response.status}`);
+        }
+        setRevisionDiff(await response.json());
+      } catch (error) {
+        toast(error instanceof Error ? error.message : 'Failed to load changes', 'error');
+        return;
+      }
+    }
+
+    setShowRevisionDiff(true);
+  };
+
   const highlightSegments = (segments: TranscriptSegment[], query: string, type: string | null): TranscriptSegment[] => {
     if (!query.trim()) return segments;
 
@@ -214,7 +259,7 @@ export default function Transcript() {
     }
 
     // Create header
-    const header = `${companyName}, Q${transcript.quarter} ${transcript.year} Earnings Call, ${transcript.callDate ? new Date(transcript.callDate).toLocaleDateString('en-US', { 
+    const header = `${companyName}, ${transcript.fiscalPeriod?.fiscalLabel ?? `Q${transcript.quarter} ${transcript.year}`} Earnings Call, ${transcript.callDate ? new Date(transcript.callDate).toLocaleDateString('en-US', { 
       month: 'long', 
       day: 'numeric', 
       year: 'numeric' 
@@ -626,9 +671,66 @@ export default function Transcript() {
                 Call Date: {new Date(transcript.callDate).toLocaleDateString()}
               </p>
             )}
+            {transcript.fiscalPeriod && transcript.fiscalPeriod.fiscalLabel !== transcript.fiscalPeriod.calendarLabel && (
+              <p className="text-gray-600 dark:text-gray-400 mt-1" title={transcript.fiscalPeriod.months}>
+                Calendar period: {transcript.fiscalPeriod.calendarLabel} ({transcript.fiscalPeriod.months})
+              </p>
+            )}
           </div>
         </div>
 
+        {/* Text Changed After Summaries */}
+        {revisionInfo?.staleness?.textChangedAfterSummaries && (
+          <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="text-sm font-medium mb-1 text-yellow-800 dark:text-yellow-200">
+                  ⚠️ Transcript text changed after summaries were generated
+                </h3>
+                <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                  Revision {revisionInfo.staleness.latestRevision} was fetched on {new Date(revisionInfo.staleness.latestChangeAt).toLocaleString()}.
+                  {revisionInfo.staleness.staleAISummaries > 0 && ` ${revisionInfo.staleness.staleAISummaries} AI analyst report(s)`}
+                  {revisionInfo.staleness.staleAISummaries > 0 && revisionInfo.staleness.staleQuerySummaries > 0 && ' and'}
+                  {revisionInfo.staleness.staleQuerySummaries > 0 && ` ${revisionInfo.staleness.staleQuerySummaries} query summary(ies)`}
+                  {' '}were generated from an earlier version of the text.
+                </p>
+              </div>
+              <button
+                onClick={toggleRevisionDiff}
+                className="ml-4 shrink-0 px-3 py-1 text-sm rounded-md border border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 hover:bg-yellow-100 dark:hover:bg-yellow-800/40"
+              >
+                {showRevisionDiff ? 'Hide changes' : 'Show changes'}
+              </button>
+            </div>
+
+            {showRevisionDiff && revisionDiff && (
+              <div className="mt-4 max-h-96 overflow-y-auto text-sm bg-white dark:bg-gray-900 rounded-md p-3 space-y-1">
+                <p className="text-xs text-gray-500 mb-2">
+                  Revision {revisionDiff.from} → {revisionDiff.to}: {revisionDiff.diff.added} sentence(s) added, {revisionDiff.diff.removed} removed
+                  {revisionDiff.diff.truncated && ' (too many changes for a detailed comparison)'}
+                </p>
+                {revisionDiff.diff.chunks.map((chunk: any, index: number) => {
+                  if (chunk.type === 'skipped') {
+                    return (
+                      <p key={index} className="text-xs text-gray-400 italic">… {chunk.count} unchanged sentence(s) …</p>
+                    );
+                  }
+                  const chunkClass = chunk.type === 'added'
+                    ? 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200'
+                    : chunk.type === 'removed'
+                      ? 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 line-through'
+                      : 'text-gray-600 dark:text-gray-400';
+                  return (
+                    <p key={index} className={`px-2 py-1 rounded ${chunkClass}`}>
+                      {chunk.type === 'added' ? '+ ' : chunk.type === 'removed' ? '− ' : ''}{chunk.units.join(' ')}
+                    </p>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Search Highlight Info */}
         {highlightQuery && (
           <div className="mb-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
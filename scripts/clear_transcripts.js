@@ -24,9 +24,8 @@ function clearTranscripts() {
   
   // Files to backup and clear
   const filesToBackup = [
-    'transcripts.json',
-    'jobs.json',
-    'chunks'
+    'store',
+    'jobs.json'
   ];
   
   let totalBackedUp = 0;
@@ -39,7 +38,7 @@ function clearTranscripts() {
     if (fs.existsSync(sourcePath)) {
       try {
         if (fs.statSync(sourcePath).isDirectory()) {
-          // Handle directory (chunks)
+          // Handle directory (store)
           if (fs.existsSync(backupPath)) {
             fs.rmSync(backupPath, { recursive: true, force: true });
           }
@@ -64,19 +63,15 @@ function clearTranscripts() {
   
   // Create empty files/directories to maintain structure
   try {
-    // Create empty transcripts.json
-    fs.writeFileSync(path.join(cacheDir, 'transcripts.json'), '{}');
-    console.log('✅ Created empty transcripts.json');
-    
     // Create empty jobs.json
     fs.writeFileSync(path.join(cacheDir, 'jobs.json'), '{}');
     console.log('✅ Created empty jobs.json');
     
-    // Create chunks directory
-    const chunksDir = path.join(cacheDir, 'chunks');
-    if (!fs.existsSync(chunksDir)) {
-      fs.mkdirSync(chunksDir, { recursive: true });
-      console.log('✅ Created empty chunks directory');
+    // Create empty store directory (segments and index are created on first write)
+    const storeDir = path.join(cacheDir, 'store');
+    if (!fs.existsSync(storeDir)) {
+      fs.mkdirSync(storeDir, { recursive: true });
+      console.log('✅ Created empty store directory');
     }
     
     totalCleared++;
@@ -150,6 +145,7 @@ function restoreTranscripts(backupTimestamp) {
     console.log('❌ Please provide a backup timestamp');
     console.log('💡 Available backups:');
     const backups = fs.readdirSync(backupDir).filter(file => 
+      file.includes('store_') || 
       file.includes('transcripts.json_') || 
       file.includes('jobs.json_') || 
       file.includes('chunks_')
@@ -168,7 +164,9 @@ function restoreTranscripts(backupTimestamp) {
   
   console.log(`🔄 Restoring from backup: ${backupTimestamp}`);
   
+  // transcripts.json/chunks come from older backups; the backend imports them into the store on startup
   const filesToRestore = [
+    'store',
     'transcripts.json',
     'jobs.json',
     'chunks'
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+
+/**
+ * Export or import a research corpus archive
+ * (transcripts, AI summaries, bookmarked/passed ideas and companies) via the backend.
+ *
+ * Usage:
+ *   node scripts/corpus_archive.js export [file]
+ *   node scripts/corpus_archive.js import <file> [--replace] [--on-conflict=skip|overwrite|newer] [--dry-run]
+ */
+
+const fs = require('fs');
+
+const API_URL = process.env.API_URL || 'http://localhost:3001';
+
+async function exportCorpus(file) {
+  console.log('📦 Exporting corpus...');
+
+  const response = await fetch(`${API_URL}/api/corpus/export`);
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(`${result.error || response.statusText}${result.details ? ` - ${result.details}` : ''}`);
+  }
+
+  const disposition = response.headers.get('content-disposition') || '';
+  const target = file || (disposition.match(/filename="([^"]+)"/) || [])[1] || 'corpus.json.gz';
+  const data = Buffer.from(await response.arrayBuffer());
+  fs.writeFileSync(target, data);
+
+  const counts = JSON.parse(response.headers.get('x-corpus-manifest') || '{}');
+  console.log(`✅ Wrote ${target} (${(data.length / 1024 / 1024).toFixed(2)} MB)`);
+  for (const [section, count] of Object.entries(counts)) {
+    console.log(`   ${section}: ${count}`);
+  }
+}
+
+async function importCorpus(file, args) {
+  if (!file || !fs.existsSync(file)) {
+    throw new Error(`Archive file not found: ${file || '(none given)'}`);
+  }
+
+  const mode = args.includes('--replace') ? 'replace' : 'merge';
+  const conflictArg = args.find(arg => arg.startsWith('--on-conflict='));
+  const conflictStrategy = conflictArg ? conflictArg.split('=')[1] : 'skip';
+  const dryRun = args.includes('--dry-run');
+
+  console.log(`📥 Importing ${file} (${mode}${mode === 'merge' ? `, on conflict: ${conflictStrategy}` : ''}${dryRun ? ', dry run' : ''})...`);
+
+  const params = new URLSearchParams({ mode, conflictStrategy, dryRun: String(dryRun) });
+  const response = await fetch(`${API_URL}/api/corpus/import?${params}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/gzip',
+    },
+    body: fs.readFileSync(file),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(`${result.error}${result.details ? ` - ${result.details}` : ''}`);
+  }
+
+  const { sections, errors } = result.report;
+  console.log(`\n📊 Summary:`);
+  for (const [section, counts] of Object.entries(sections)) {
+    console.log(`   ${section}: ${counts.created} created, ${counts.updated} updated, ${counts.skipped} skipped, ${counts.failed} failed`);
+  }
+  for (const error of errors) {
+    console.log(`   ❌ ${error}`);
+  }
+}
+
+async function main() {
+  const [command, file, ...rest] = process.argv.slice(2);
+
+  try {
+    if (command === 'export') {
+      await exportCorpus(file && !file.startsWith('--') ? file : undefined);
+    } else if (command === 'import') {
+      await importCorpus(file, rest);
+    } else {
+      console.log('Usage:');
+      console.log('  node scripts/corpus_archive.js export [file]');
+      console.log('  node scripts/corpus_archive.js import <file> [--replace] [--on-conflict=skip|overwrite|newer] [--dry-run]');
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`❌ ${command || 'Corpus'} failed:`, error.message);
+    if (error.cause) {
+      console.log('💡 Start the backend first (npm run dev)');
+    }
+    process.exitCode = 1;
+  }
+}
+
+// Handle fetch for Node.js environments
+if (typeof fetch === 'undefined') {
+  global.fetch = require('node-fetch');
+}
+
+main();
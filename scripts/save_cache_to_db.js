@@ -1,137 +1,62 @@
 #!/usr/bin/env node
 
 /**
- * Script to save cached transcripts to database
- * This fixes the issue where transcripts were only stored in memory cache
+ * Sync cached transcripts with the database
+ * Runs the backend's reconciliation job, which backfills missing transcripts
+ * in both directions and reports transcripts whose text differs.
+ *
+ * Usage:
+ *   node scripts/save_cache_to_db.js [--dry-run] [--prefer-database|--prefer-cache]
  */
 
-const { PrismaClient } = require('@prisma/client');
-const fs = require('fs');
-const path = require('path');
-
-const prisma = new PrismaClient();
+const API_URL = process.env.API_URL || 'http://localhost:3001';
 
 async function saveCacheToDatabase() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const conflictStrategy = args.includes('--prefer-database')
+    ? 'prefer-database'
+    : args.includes('--prefer-cache') ? 'prefer-cache' : 'report';
+
+  console.log(`🔍 Reconciling cache and database${dryRun ? ' (dry run)' : ''}...`);
+
   try {
-    console.log('🔍 Looking for cached transcripts...');
-    
-    // Check if there are any cache files
-    const cacheDir = path.join(__dirname, '../backend/cache');
-    const transcriptsCacheFile = path.join(cacheDir, 'transcripts.json');
-    
-    if (fs.existsSync(transcriptsCacheFile)) {
-      const cacheContent = fs.readFileSync(transcriptsCacheFile, 'utf8');
-      const cache = JSON.parse(cacheContent);
-      
-      console.log(`📦 Found ${Object.keys(cache).length} items in cache`);
-      
-      let savedCount = 0;
-      let skippedCount = 0;
-      let errorCount = 0;
-      
-      for (const [cacheKey, transcript] of Object.entries(cache)) {
-        try {
-          if (!transcript.ticker || !transcript.year || !transcript.quarter || !transcript.fullTranscript) {
-            console.log(`⚠️  Skipping ${cacheKey} - missing required fields`);
-            skippedCount++;
-            continue;
-          }
-          
-          // Parse call date
-          let callDate = null;
-          if (transcript.callDate) {
-            try {
-              callDate = new Date(transcript.callDate);
-            } catch (error) {
-              console.log(`⚠️  Invalid date for ${cacheKey}: ${transcript.callDate}`);
-            }
-          }
-          
-          // Save to database
-          const savedTranscript = await prisma.transcript.upsert({
-            where: {
-              ticker_year_quarter: {
-                ticker: transcript.ticker.toUpperCase(),
-                year: transcript.year,
-                quarter: transcript.quarter,
-              },
-            },
-            update: {
-              fullTranscript: transcript.fullTranscript,
-              callDate,
-              updatedAt: new Date(),
-            },
-            create: {
-              ticker: transcript.ticker.toUpperCase(),
-              year: transcript.year,
-              quarter: transcript.quarter,
-              fullTranscript: transcript.fullTranscript,
-              callDate,
-              transcriptJson: transcript.transcriptJson || {},
-            },
-          });
-          
-          console.log(`✅ Saved ${transcript.ticker.toUpperCase()} ${transcript.year}Q${transcript.quarter} to database`);
-          savedCount++;
-          
-        } catch (error) {
-          console.error(`❌ Error saving ${cacheKey}:`, error.message);
-          errorCount++;
-        }
-      }
-      
-      console.log(`\n📊 Summary:`);
-      console.log(`   ✅ Saved: ${savedCount}`);
-      console.log(`   ⚠️  Skipped: ${skippedCount}`);
-      console.log(`   ❌ Errors: ${errorCount}`);
-      
-    } else {
-      console.log('📦 No transcripts cache file found');
+    const response = await fetch(`${API_URL}/api/transcripts/reconcile`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ dryRun, conflictStrategy }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      console.error(`❌ Reconciliation failed: ${result.error}${result.details ? ` - ${result.details}` : ''}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const { counts, conflicts, actions } = result.report;
+
+    console.log(`\n📊 Summary:`);
+    console.log(`   📦 Cache entries: ${counts.cacheEntries}`);
+    console.log(`   🗄️  Database rows: ${counts.databaseRows}`);
+    console.log(`   ✅ Matching: ${counts.matching}`);
+    console.log(`   ➡️  Cache only: ${counts.cacheOnly} (saved to database: ${counts.backfilledToDatabase})`);
+    console.log(`   ⬅️  Database only: ${counts.databaseOnly} (saved to cache: ${counts.backfilledToCache})`);
+    console.log(`   ⚠️  Conflicts: ${counts.conflicts} (resolved: ${counts.conflictsResolved})`);
+    console.log(`   ❌ Failed: ${counts.failed}`);
+
+    for (const conflict of conflicts) {
+      console.log(`   ⚠️  ${conflict.ticker} ${conflict.year}Q${conflict.quarter}: cache ${conflict.cacheLength} chars, database ${conflict.databaseLength} chars`);
     }
-    
-    // Also check if we can access the in-memory cache via the backend API
-    console.log('\n🌐 Checking for FTNT via API...');
-    
-    try {
-      const response = await fetch('http://localhost:3001/api/tickers?search=FTNT');
-      const result = await response.json();
-      
-      if (result.tickers && result.tickers.length > 0) {
-        console.log('✅ FTNT found in database via API');
-      } else {
-        console.log('⚠️  FTNT not found in database yet');
-        
-        // Try to trigger a database save by running a bulk AI job for FTNT
-        console.log('🤖 Attempting to trigger database save via bulk AI...');
-        
-        const bulkAIResponse = await fetch('http://localhost:3001/api/ai/bulk', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            tickers: ['FTNT'],
-            analystTypes: ['business'], // Just one to minimize processing
-            mode: 'development'
-          }),
-        });
-        
-        if (bulkAIResponse.ok) {
-          const bulkResult = await bulkAIResponse.json();
-          console.log('✅ Bulk AI job started:', bulkResult.jobId);
-          console.log('⏳ This should save FTNT transcript from cache to database');
-        } else {
-          console.log('❌ Failed to start bulk AI job');
-        }
-      }
-    } catch (error) {
-      console.log('❌ Error checking API:', error.message);
+    for (const action of actions.filter(a => a.status === 'failed')) {
+      console.log(`   ❌ ${action.type} ${action.ticker} ${action.year}Q${action.quarter}: ${action.error}`);
     }
-    
   } catch (error) {
-    console.error('❌ Script error:', error);
-  } finally {
-    await prisma.$disconnect();
+    console.error('❌ Could not reach the backend:', error.message);
+    console.log('💡 Start the backend first (npm run dev)');
+    process.exitCode = 1;
   }
 }
 
@@ -140,4 +65,4 @@ if (typeof fetch === 'undefined') {
   global.fetch = require('node-fetch');
 }
 
-saveCacheToDatabase().catch(console.error);
\ No newline at end of file
+saveCacheToDatabase().catch(console.error);